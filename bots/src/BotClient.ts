@@ -0,0 +1,380 @@
+import { WebSocket } from 'ws';
+import type { RawData } from 'ws';
+import {
+  Vec3,
+  MessageType,
+  WireFormat,
+  INPUT_RATE,
+  INPUT_REDUNDANCY,
+  MAP_WIDTH,
+  MAP_DEPTH,
+  PROTOCOL_VERSION,
+  CONTENT_VERSION,
+  SNAPSHOT_BASELINE_WINDOW,
+  encodeInputCmd,
+  encodeSnapshotAck,
+  decodeBinaryMessage,
+  applySnapshotDelta,
+} from '@tankgame/shared';
+import type {
+  SnapshotMessage,
+  SnapshotDeltaMessage,
+  TankSnapshot,
+  TankStatics,
+  JoinAckMessage,
+  PongMessage,
+  ErrorMessage,
+  InputCmd,
+  InputFrame,
+} from '@tankgame/shared';
+import { AIPlayer, AI_DIFFICULTIES } from '@tankgame/server/AIPlayer.js';
+import type { AIObjectives } from '@tankgame/server/AIPlayer.js';
+import { Player } from '@tankgame/server/Player.js';
+import { BotMetrics } from './BotMetrics.js';
+
+/** Ping 间隔 (ms)，与浏览器客户端一致 */
+const PING_INTERVAL = 2000;
+/** 输入发送间隔 (ms) */
+const INPUT_INTERVAL = 1000 / INPUT_RATE;
+/** 主动离开的关闭码 */
+const CLOSE_NORMAL = 1000;
+
+/**
+ * 无头客户端配置
+ */
+export interface BotClientOptions {
+  /** 服务器 WebSocket 地址，如 ws://localhost:3000 */
+  url: string;
+  nickname: string;
+  /** AI 难度（AI_DIFFICULTIES 的键，缺省 normal） */
+  difficulty?: string;
+  /** 线路编码格式（缺省二进制，与浏览器一致） */
+  wireFormat?: WireFormat;
+  /** 客户端标识（缺省不发送） */
+  clientId?: string;
+  /** 指定加入的房间（缺省快速加入） */
+  roomId?: string;
+}
+
+/**
+ * 无头客户端事件
+ */
+export interface BotClientHandlers {
+  onJoin?: (ack: JoinAckMessage) => void;
+  onSnapshot?: (snapshot: SnapshotMessage) => void;
+  onError?: (msg: ErrorMessage) => void;
+  /** 连接关闭（code 为 WebSocket 关闭码） */
+  onClose?: (code: number, reason: string) => void;
+}
+
+/**
+ * 无头机器人客户端 — 通过真实 WebSocket 协议加入 GameServer
+ *
+ * - 收发与浏览器客户端相同的消息：JoinRoom / InputCmd（冗余输入 + 快照确认）/ Ping
+ * - 按收到的快照维护可见坦克的 Player 镜像，复用 AIPlayer 的决策逻辑生成输入
+ * - 统计加入耗时、快照速率、RTT 与收发字节（见 BotMetrics）
+ */
+export class BotClient {
+  readonly options: BotClientOptions;
+  readonly metrics: BotMetrics;
+  private handlers: BotClientHandlers;
+  private ws: WebSocket | null = null;
+  /** 服务器确认的线路编码格式 */
+  private wireFormat: WireFormat = WireFormat.Json;
+
+  // 房间
+  private _playerId: number | null = null;
+  private _roomId: string | null = null;
+
+  // 快照还原
+  private snapshots: Map<number, SnapshotMessage> = new Map();
+  private tankStatics: Map<number, TankStatics> = new Map();
+  private latestSnapshotId: number = 0;
+  /** 已确认给服务器的快照 ID */
+  private ackedSnapshotId: number = 0;
+
+  // AI 驱动
+  private ai: AIPlayer | null = null;
+  /** 可见坦克的镜像（含自己），供 AIPlayer 决策 */
+  private players: Map<number, Player> = new Map();
+  /** 最新快照中的模式目标（旗帜 / 控制点） */
+  private objectives: AIObjectives = {};
+  private seq: number = 0;
+  private pendingInputs: InputFrame[] = [];
+
+  private inputTimer: ReturnType<typeof setInterval> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: BotClientOptions, handlers: BotClientHandlers = {}) {
+    this.options = options;
+    this.handlers = handlers;
+    this.metrics = new BotMetrics(performance.now());
+  }
+
+  /** 服务器分配的玩家 ID（尚未加入为 null） */
+  get playerId(): number | null {
+    return this._playerId;
+  }
+
+  /** 所在房间 ID（尚未加入为 null） */
+  get roomId(): string | null {
+    return this._roomId;
+  }
+
+  /** 是否已加入房间且连接仍然打开 */
+  get connected(): boolean {
+    return this._playerId !== null && this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * 连接并加入房间
+   * @returns 服务器的 JoinAck；连接失败、被拒绝或在加入前断开时 reject
+   */
+  connect(): Promise<JoinAckMessage> {
+    return new Promise((resolve, reject) => {
+      this.metrics.markConnectStart(performance.now());
+      const ws = new WebSocket(this.options.url);
+      this.ws = ws;
+      let settled = false;
+
+      ws.on('open', () => {
+        this.sendJson({
+          type: MessageType.JoinRoom,
+          nickname: this.options.nickname,
+          clientId: this.options.clientId,
+          roomId: this.options.roomId,
+          wireFormat: this.options.wireFormat ?? WireFormat.Binary,
+          protocolVersion: PROTOCOL_VERSION,
+          contentVersion: CONTENT_VERSION,
+        });
+        this.startPing();
+      });
+
+      ws.on('message', (data: RawData, isBinary: boolean) => {
+        const bytes = data as Buffer;
+        this.metrics.recordBytesIn(bytes.byteLength);
+        let msg: { type: number };
+        try {
+          msg = isBinary
+            ? decodeBinaryMessage(new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength))
+            : JSON.parse(bytes.toString());
+        } catch (err) {
+          console.error(`[Bot ${this.options.nickname}] parse error:`, err);
+          return;
+        }
+
+        if (msg.type === MessageType.JoinAck && !settled) {
+          settled = true;
+          resolve(msg as unknown as JoinAckMessage);
+        } else if (msg.type === MessageType.Error && !settled) {
+          settled = true;
+          reject(new Error(`Join rejected: ${(msg as unknown as ErrorMessage).message}`));
+        }
+        this.dispatchMessage(msg);
+      });
+
+      ws.on('close', (code: number, reason: Buffer) => {
+        this.stopTimers();
+        if (!settled) {
+          settled = true;
+          reject(new Error(`Connection closed before join (${code})`));
+        }
+        this.handlers.onClose?.(code, reason.toString());
+      });
+
+      ws.on('error', (err: Error) => {
+        if (!settled) {
+          settled = true;
+          reject(err);
+        }
+      });
+    });
+  }
+
+  /**
+   * 主动离开（服务器立即移除玩家，不保留会话）
+   */
+  disconnect(): void {
+    this.stopTimers();
+    this.ws?.close(CLOSE_NORMAL, 'Leave');
+    this.ws = null;
+  }
+
+  // ==================== 消息处理 ====================
+
+  private dispatchMessage(msg: { type: number }): void {
+    switch (msg.type) {
+      case MessageType.JoinAck:
+        this.onJoinAck(msg as unknown as JoinAckMessage);
+        break;
+      case MessageType.Snapshot:
+        this.receiveSnapshot(msg as unknown as SnapshotDeltaMessage);
+        break;
+      case MessageType.Pong: {
+        const pong = msg as unknown as PongMessage;
+        this.metrics.recordRtt(performance.now() - pong.clientTime);
+        break;
+      }
+      case MessageType.Error:
+        this.handlers.onError?.(msg as unknown as ErrorMessage);
+        break;
+    }
+  }
+
+  private onJoinAck(ack: JoinAckMessage): void {
+    this.metrics.markJoined(performance.now());
+    this.wireFormat = ack.wireFormat ?? WireFormat.Json;
+    this._playerId = ack.playerId;
+    this._roomId = ack.roomId;
+
+    const self = new Player(ack.playerId, this.options.nickname);
+    const difficulty = AI_DIFFICULTIES[this.options.difficulty ?? 'normal'] ?? AI_DIFFICULTIES.normal;
+    this.ai = new AIPlayer(self, difficulty);
+    this.players = new Map([[self.id, self]]);
+
+    this.startInput();
+    this.handlers.onJoin?.(ack);
+  }
+
+  /**
+   * 还原增量快照、刷新坦克镜像
+   */
+  private receiveSnapshot(delta: SnapshotDeltaMessage): void {
+    let snapshot: SnapshotMessage;
+    try {
+      snapshot = applySnapshotDelta(
+        delta,
+        this.snapshots.get(delta.baselineId ?? 0),
+        this.tankStatics
+      );
+    } catch {
+      // 基线已丢弃：不确认，服务器会在窗口过期后改发关键帧
+      return;
+    }
+
+    this.metrics.recordSnapshot();
+    this.snapshots.set(snapshot.snapshotId, snapshot);
+    for (const id of this.snapshots.keys()) {
+      if (snapshot.snapshotId - id > SNAPSHOT_BASELINE_WINDOW) {
+        this.snapshots.delete(id);
+      }
+    }
+    if (snapshot.snapshotId > this.latestSnapshotId) {
+      this.latestSnapshotId = snapshot.snapshotId;
+    }
+    this.pendingInputs = this.pendingInputs.filter((f) => f.seq > snapshot.lastProcessedSeq);
+
+    this.updateMirrors(snapshot.tanks);
+    if (snapshot.snapshotId === this.latestSnapshotId) {
+      this.objectives = {
+        flags: snapshot.flags,
+        controlPoints: snapshot.controlPoints,
+        zone: snapshot.zone,
+      };
+    }
+    this.handlers.onSnapshot?.(snapshot);
+  }
+
+  /**
+   * 快照中的坦克 → Player 镜像（视野外的坦克移出，AI 只能针对可见目标）
+   */
+  private updateMirrors(tanks: TankSnapshot[]): void {
+    if (!this.ai) return;
+    const self = this.ai.player;
+    const next = new Map<number, Player>([[self.id, self]]);
+
+    for (const t of tanks) {
+      const player = t.entityId === self.id
+        ? self
+        : this.players.get(t.entityId) ?? new Player(t.entityId, t.nickname);
+      player.position = new Vec3(t.position.x, t.position.y, t.position.z);
+      player.bodyYaw = t.bodyYaw;
+      player.turretYaw = t.turretYaw;
+      player.gunPitch = t.gunPitch;
+      player.hp = t.hp;
+      player.alive = t.alive;
+      player.reloadRemain = t.reloadRemain;
+      player.team = t.team;
+      next.set(player.id, player);
+    }
+    this.players = next;
+  }
+
+  // ==================== 发送 ====================
+
+  /**
+   * 按 INPUT_RATE 推进 AI 并发送输入；阵亡期间只发送快照确认
+   */
+  private startInput(): void {
+    if (this.inputTimer) clearInterval(this.inputTimer);
+    this.inputTimer = setInterval(() => {
+      if (!this.ai) return;
+      const decided = this.ai.decide(this.players, MAP_WIDTH, MAP_DEPTH, INPUT_INTERVAL, this.objectives);
+      if (decided) {
+        this.sendInput(decided);
+      } else if (this.latestSnapshotId > this.ackedSnapshotId) {
+        this.sendSnapshotAck();
+      }
+    }, INPUT_INTERVAL);
+  }
+
+  private sendInput(decided: InputCmd): void {
+    const cmd: InputCmd = {
+      ...decided,
+      seq: ++this.seq,
+      timestamp: performance.now(),
+    };
+    if (this.latestSnapshotId) cmd.ackSnapshotId = this.latestSnapshotId;
+    if (this.pendingInputs.length > 0) cmd.redundant = this.pendingInputs.slice();
+
+    const { type: _type, ackSnapshotId: _ack, redundant: _redundant, ...frame } = cmd;
+    this.pendingInputs.push(frame);
+    if (this.pendingInputs.length > INPUT_REDUNDANCY) this.pendingInputs.shift();
+
+    this.ackedSnapshotId = this.latestSnapshotId;
+    if (this.wireFormat === WireFormat.Binary) {
+      this.sendRaw(encodeInputCmd(cmd));
+    } else {
+      this.sendJson(cmd);
+    }
+  }
+
+  private sendSnapshotAck(): void {
+    const ack = { type: MessageType.SnapshotAck as const, snapshotId: this.latestSnapshotId };
+    this.ackedSnapshotId = this.latestSnapshotId;
+    if (this.wireFormat === WireFormat.Binary) {
+      this.sendRaw(encodeSnapshotAck(ack));
+    } else {
+      this.sendJson(ack);
+    }
+  }
+
+  private startPing(): void {
+    const ping = () => {
+      this.sendJson({ type: MessageType.Ping, clientTime: performance.now() });
+    };
+    ping();
+    this.pingTimer = setInterval(ping, PING_INTERVAL);
+  }
+
+  private stopTimers(): void {
+    if (this.inputTimer) {
+      clearInterval(this.inputTimer);
+      this.inputTimer = null;
+    }
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  private sendJson(data: unknown): void {
+    this.sendRaw(JSON.stringify(data));
+  }
+
+  private sendRaw(data: string | Uint8Array): void {
+    if (this.ws?.readyState !== WebSocket.OPEN) return;
+    this.metrics.recordBytesOut(typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength);
+    this.ws.send(data);
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * 单个无头客户端的网络指标
+ *
+ * sample() 的速率按两次调用之间的窗口计算，便于压测过程中定期输出而不被启动阶段拉低；
+ * total() 的速率按整个连接时长计算，用于结束时的汇总。
+ */
+
+/** 单个客户端在一个统计窗口内的报告 */
+export interface BotReport {
+  /** 连接建立到收到 JoinAck 的耗时 (ms)，尚未加入为 null */
+  joinLatency: number | null;
+  /** 快照到达速率 (个/s) */
+  snapshotRate: number;
+  /** 最近一次 Ping 往返 (ms)，尚无样本为 null */
+  rtt: number | null;
+  /** 下行字节速率 (B/s) */
+  bytesInPerSec: number;
+  /** 上行字节速率 (B/s) */
+  bytesOutPerSec: number;
+  /** 累计收到的快照数 */
+  snapshots: number;
+}
+
+/** 一组数值的分布 */
+export interface Distribution {
+  avg: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+/** 多个客户端报告的汇总 */
+export interface ReportSummary {
+  /** 参与汇总的客户端数 */
+  clients: number;
+  /** 已加入房间的客户端数 */
+  joined: number;
+  joinLatency: Distribution | null;
+  snapshotRate: Distribution | null;
+  rtt: Distribution | null;
+  bytesInPerSec: Distribution | null;
+  bytesOutPerSec: Distribution | null;
+  /** 所有客户端的下行总速率 (B/s) */
+  totalBytesInPerSec: number;
+  /** 所有客户端的上行总速率 (B/s) */
+  totalBytesOutPerSec: number;
+}
+
+export class BotMetrics {
+  private connectStartedAt: number | null = null;
+  private joinLatency: number | null = null;
+  private rtt: number | null = null;
+  private snapshots: number = 0;
+  private bytesIn: number = 0;
+  private bytesOut: number = 0;
+
+  // 当前统计窗口
+  private windowStart: number;
+  private windowSnapshots: number = 0;
+  private windowBytesIn: number = 0;
+  private windowBytesOut: number = 0;
+
+  constructor(now: number) {
+    this.windowStart = now;
+  }
+
+  /** 开始建立连接 */
+  markConnectStart(now: number): void {
+    this.connectStartedAt = now;
+  }
+
+  /** 收到 JoinAck（只记录首次） */
+  markJoined(now: number): void {
+    if (this.joinLatency !== null || this.connectStartedAt === null) return;
+    this.joinLatency = now - this.connectStartedAt;
+  }
+
+  /** 收到一帧快照 */
+  recordSnapshot(): void {
+    this.snapshots++;
+    this.windowSnapshots++;
+  }
+
+  /** 收到 Pong */
+  recordRtt(rtt: number): void {
+    this.rtt = rtt;
+  }
+
+  /** 收到一条消息（按线上字节数） */
+  recordBytesIn(bytes: number): void {
+    this.bytesIn += bytes;
+    this.windowBytesIn += bytes;
+  }
+
+  /** 发出一条消息（按线上字节数） */
+  recordBytesOut(bytes: number): void {
+    this.bytesOut += bytes;
+    this.windowBytesOut += bytes;
+  }
+
+  /**
+   * 生成报告并开始新的统计窗口
+   */
+  sample(now: number): BotReport {
+    const seconds = Math.max(now - this.windowStart, 1) / 1000;
+    const report: BotReport = {
+      joinLatency: this.joinLatency,
+      snapshotRate: this.windowSnapshots / seconds,
+      rtt: this.rtt,
+      bytesInPerSec: this.windowBytesIn / seconds,
+      bytesOutPerSec: this.windowBytesOut / seconds,
+      snapshots: this.snapshots,
+    };
+
+    this.windowStart = now;
+    this.windowSnapshots = 0;
+    this.windowBytesIn = 0;
+    this.windowBytesOut = 0;
+    return report;
+  }
+
+  /**
+   * 整个连接的报告（不影响统计窗口）
+   */
+  total(now: number): BotReport {
+    const start = this.connectStartedAt ?? now;
+    const seconds = Math.max(now - start, 1) / 1000;
+    return {
+      joinLatency: this.joinLatency,
+      snapshotRate: this.snapshots / seconds,
+      rtt: this.rtt,
+      bytesInPerSec: this.bytesIn / seconds,
+      bytesOutPerSec: this.bytesOut / seconds,
+      snapshots: this.snapshots,
+    };
+  }
+}
+
+/**
+ * 计算分布（空数组返回 null）
+ */
+export function distribution(values: number[]): Distribution | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const pick = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return {
+    avg: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    p50: pick(0.5),
+    p95: pick(0.95),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * 汇总多个客户端的报告（未加入房间的客户端只计入 clients）
+ */
+export function summarizeReports(reports: BotReport[]): ReportSummary {
+  const joined = reports.filter((r) => r.joinLatency !== null);
+  const rtts = joined.filter((r) => r.rtt !== null).map((r) => r.rtt!);
+
+  return {
+    clients: reports.length,
+    joined: joined.length,
+    joinLatency: distribution(joined.map((r) => r.joinLatency!)),
+    snapshotRate: distribution(joined.map((r) => r.snapshotRate)),
+    rtt: distribution(rtts),
+    bytesInPerSec: distribution(joined.map((r) => r.bytesInPerSec)),
+    bytesOutPerSec: distribution(joined.map((r) => r.bytesOutPerSec)),
+    totalBytesInPerSec: reports.reduce((sum, r) => sum + r.bytesInPerSec, 0),
+    totalBytesOutPerSec: reports.reduce((sum, r) => sum + r.bytesOutPerSec, 0),
+  };
+}
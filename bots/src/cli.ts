@@ -0,0 +1,236 @@
+/**
+ * 压测 CLI — 启动 N 个无头机器人客户端连接运行中的 GameServer，定期输出网络指标
+ *
+ * 用法:
+ *   pnpm bots -- --count 40 --url ws://localhost:3000 --duration 120
+ *
+ * 服务器默认限制单 IP 6 个连接，本机压测时需放宽：
+ *   MAX_CONNECTIONS_PER_IP=200 pnpm dev:server
+ */
+import { DEFAULT_PORT, WireFormat } from '@tankgame/shared';
+import { BotClient } from './BotClient.js';
+import { summarizeReports } from './BotMetrics.js';
+import type { BotReport, Distribution, ReportSummary } from './BotMetrics.js';
+
+interface CliOptions {
+  url: string;
+  count: number;
+  /** 相邻客户端的启动间隔 (ms) */
+  ramp: number;
+  /** 运行时长 (s)，0 = 直到 Ctrl+C */
+  duration: number;
+  /** 汇总输出间隔 (s) */
+  interval: number;
+  difficulty: string;
+  wireFormat: WireFormat;
+  prefix: string;
+  /** 全部客户端加入同一房间（缺省快速加入） */
+  room?: string;
+}
+
+const USAGE = `Usage: pnpm bots -- [options]
+
+  --url <ws-url>        server WebSocket URL (default ws://localhost:${DEFAULT_PORT})
+  --count, -n <n>       number of clients (default 10)
+  --ramp <ms>           delay between client starts (default 100)
+  --duration <s>        run time in seconds, 0 = until Ctrl+C (default 60)
+  --interval <s>        summary interval in seconds (default 5)
+  --difficulty <name>   AI difficulty: easy | normal | hard (default normal)
+  --wire <format>       binary | json (default binary)
+  --prefix <name>       nickname prefix (default Bot)
+  --room <id>           join this room instead of quick join (see GET /api/rooms)
+  --help                show this message`;
+
+/**
+ * 解析命令行参数
+ * @throws 参数无效时抛出
+ */
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    url: `ws://localhost:${DEFAULT_PORT}`,
+    count: 10,
+    ramp: 100,
+    duration: 60,
+    interval: 5,
+    difficulty: 'normal',
+    wireFormat: WireFormat.Binary,
+    prefix: 'Bot',
+  };
+
+  const number = (flag: string, value: string | undefined, min: number): number => {
+    const n = Number(value);
+    if (value === undefined || !Number.isFinite(n) || n < min) {
+      throw new Error(`${flag} expects a number >= ${min}`);
+    }
+    return n;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    switch (flag) {
+      case '--url':
+        if (!value) throw new Error('--url expects a value');
+        options.url = value;
+        i++;
+        break;
+      case '--count':
+      case '-n':
+        options.count = Math.floor(number(flag, value, 1));
+        i++;
+        break;
+      case '--ramp':
+        options.ramp = number(flag, value, 0);
+        i++;
+        break;
+      case '--duration':
+        options.duration = number(flag, value, 0);
+        i++;
+        break;
+      case '--interval':
+        options.interval = number(flag, value, 1);
+        i++;
+        break;
+      case '--difficulty':
+        if (!value) throw new Error('--difficulty expects a value');
+        options.difficulty = value;
+        i++;
+        break;
+      case '--wire':
+        if (value !== WireFormat.Binary && value !== WireFormat.Json) {
+          throw new Error('--wire expects binary or json');
+        }
+        options.wireFormat = value;
+        i++;
+        break;
+      case '--prefix':
+        if (!value) throw new Error('--prefix expects a value');
+        options.prefix = value;
+        i++;
+        break;
+      case '--room':
+        if (!value) throw new Error('--room expects a value');
+        options.room = value;
+        i++;
+        break;
+      case '--':
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+  return options;
+}
+
+// ==================== 输出格式 ====================
+
+function formatBytes(bytesPerSec: number): string {
+  if (bytesPerSec >= 1024 * 1024) return `${(bytesPerSec / 1024 / 1024).toFixed(2)} MB/s`;
+  if (bytesPerSec >= 1024) return `${(bytesPerSec / 1024).toFixed(1)} KB/s`;
+  return `${bytesPerSec.toFixed(0)} B/s`;
+}
+
+function formatDist(d: Distribution | null, unit: string, digits: number = 0): string {
+  if (!d) return '-';
+  const f = (v: number) => v.toFixed(digits);
+  return `avg ${f(d.avg)}${unit} p50 ${f(d.p50)} p95 ${f(d.p95)} max ${f(d.max)}`;
+}
+
+function printSummary(elapsed: number, summary: ReportSummary): void {
+  console.log(`\n[${elapsed.toFixed(0)}s] clients ${summary.joined}/${summary.clients} joined`);
+  console.log(`  join latency  ${formatDist(summary.joinLatency, 'ms')}`);
+  console.log(`  snapshot rate ${formatDist(summary.snapshotRate, '/s', 1)}`);
+  console.log(`  rtt           ${formatDist(summary.rtt, 'ms', 1)}`);
+  console.log(`  in / client   ${formatDist(summary.bytesInPerSec, 'B/s')}`);
+  console.log(`  out / client  ${formatDist(summary.bytesOutPerSec, 'B/s')}`);
+  console.log(`  total         in ${formatBytes(summary.totalBytesInPerSec)}  out ${formatBytes(summary.totalBytesOutPerSec)}`);
+}
+
+function printClientTable(bots: BotClient[], reports: BotReport[]): void {
+  console.log('\nnickname         room                     join(ms)  snap/s   rtt(ms)  in          out');
+  bots.forEach((bot, i) => {
+    const r = reports[i];
+    console.log([
+      bot.options.nickname.padEnd(16),
+      (bot.roomId ?? '-').padEnd(24),
+      (r.joinLatency === null ? '-' : r.joinLatency.toFixed(0)).padStart(9),
+      r.snapshotRate.toFixed(1).padStart(7),
+      (r.rtt === null ? '-' : r.rtt.toFixed(1)).padStart(9),
+      formatBytes(r.bytesInPerSec).padStart(11),
+      formatBytes(r.bytesOutPerSec).padStart(11),
+    ].join(' '));
+  });
+}
+
+// ==================== 主流程 ====================
+
+async function main(): Promise<void> {
+  let options: CliOptions;
+  try {
+    if (process.argv.includes('--help')) {
+      console.log(USAGE);
+      return;
+    }
+    options = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error((err as Error).message);
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`[Bots] Starting ${options.count} clients → ${options.url}`);
+  const startedAt = performance.now();
+  const bots: BotClient[] = [];
+  let stopping = false;
+
+  const report = setInterval(() => {
+    const now = performance.now();
+    const reports = bots.map((bot) => bot.metrics.sample(now));
+    printSummary((now - startedAt) / 1000, summarizeReports(reports));
+  }, options.interval * 1000);
+
+  const stop = () => {
+    if (stopping) return;
+    stopping = true;
+    clearInterval(report);
+    const now = performance.now();
+    const totals = bots.map((bot) => bot.metrics.total(now));
+    for (const bot of bots) bot.disconnect();
+
+    console.log('\n==================== Final report ====================');
+    printClientTable(bots, totals);
+    printSummary((now - startedAt) / 1000, summarizeReports(totals));
+  };
+
+  process.on('SIGINT', stop);
+  if (options.duration > 0) {
+    setTimeout(stop, options.duration * 1000).unref();
+  }
+
+  for (let i = 0; i < options.count && !stopping; i++) {
+    const nickname = `${options.prefix}_${i + 1}`;
+    const bot = new BotClient(
+      {
+        url: options.url,
+        nickname,
+        difficulty: options.difficulty,
+        wireFormat: options.wireFormat,
+        roomId: options.room,
+      },
+      {
+        onError: (msg) => console.warn(`[Bots] ${nickname} error: ${msg.code} ${msg.message}`),
+        onClose: (code, reason) => {
+          if (!stopping) console.warn(`[Bots] ${nickname} closed (${code}${reason ? ` ${reason}` : ''})`);
+        },
+      }
+    );
+    bots.push(bot);
+    bot.connect().catch((err: Error) => {
+      console.warn(`[Bots] ${nickname} failed to join: ${err.message}`);
+    });
+    if (options.ramp > 0) await new Promise((r) => setTimeout(r, options.ramp));
+  }
+}
+
+main();
@@ -0,0 +1,5 @@
+// 无头机器人客户端 SDK
+export { BotClient } from './BotClient.js';
+export type { BotClientOptions, BotClientHandlers } from './BotClient.js';
+export { BotMetrics, distribution, summarizeReports } from './BotMetrics.js';
+export type { BotReport, Distribution, ReportSummary } from './BotMetrics.js';
@@ -0,0 +1,179 @@
+import {
+  Vec3,
+  TICK_RATE,
+  TICK_INTERVAL,
+  INPUT_RATE,
+  updateTankPhysics,
+  resolveTankMapCollision,
+  normalizeAngle,
+  lerp,
+  lerpAngle,
+} from '@tankgame/shared';
+import type { InputCmd, TankSnapshot, TankPhysicsState } from '@tankgame/shared';
+import { MapGenerator } from '@tankgame/server/MapGenerator.js';
+import type { GameMapData } from '@tankgame/server/MapGenerator.js';
+
+/** 每条输入在服务器上覆盖的 tick 数（服务器每 tick 消费一条，队列空时重复上一条） */
+const TICKS_PER_INPUT = Math.max(1, Math.round(TICK_RATE / INPUT_RATE));
+/** 输入历史上限（约 4 秒），超出说明服务器长时间未确认 */
+const MAX_INPUT_HISTORY = INPUT_RATE * 4;
+/** 误差超过此距离 (m) 直接对齐（复活、被推开等） */
+const SNAP_DISTANCE = 4;
+/** 视觉误差衰减速率 (1/s) — 约 0.2 秒内收敛 */
+const CORRECTION_RATE = 12;
+
+/**
+ * 预测后的本机坦克渲染状态
+ */
+export interface PredictedTankState {
+  position: Vec3;
+  bodyYaw: number;
+  turretYaw: number;
+  gunPitch: number;
+}
+
+/**
+ * 本机坦克客户端预测
+ *
+ * - 每发送一条输入，立即用共享物理（updateTankPhysics + 掩体/边界约束）推进本地状态
+ * - 收到快照时以服务器状态为准，丢弃已确认的输入并重放未确认的输入
+ * - 重放前后的差值计入视觉偏移，按指数衰减平滑消除，避免画面跳变
+ */
+export class ClientPrediction {
+  private map: GameMapData;
+  /** 已发送但服务器尚未确认的输入 */
+  private history: InputCmd[] = [];
+  /** 当前预测状态（最新输入之后） */
+  private state: TankPhysicsState | null = null;
+  /** 上一条输入之后的状态（用于输入间隔内的渲染插值） */
+  private prevPosition: Vec3 = new Vec3();
+  private prevBodyYaw: number = 0;
+  /** 待消除的视觉误差 */
+  private positionError: Vec3 = new Vec3();
+  private yawError: number = 0;
+
+  constructor(map: GameMapData) {
+    this.map = map;
+  }
+
+  /**
+   * 是否已有预测状态（本机坦克存活且收到过快照）
+   */
+  get active(): boolean {
+    return this.state !== null;
+  }
+
+  /**
+   * 清空预测（死亡、断线、换图）
+   */
+  reset(): void {
+    this.history = [];
+    this.state = null;
+    this.positionError.set(0, 0, 0);
+    this.yawError = 0;
+  }
+
+  /**
+   * 记录并本地执行一条刚发送的输入
+   */
+  applyInput(cmd: InputCmd): void {
+    if (!this.state) return;
+
+    this.history.push(cmd);
+    if (this.history.length > MAX_INPUT_HISTORY) {
+      this.history.shift();
+    }
+
+    this.prevPosition = this.state.position.clone();
+    this.prevBodyYaw = this.state.bodyYaw;
+    this.simulate(this.state, cmd);
+  }
+
+  /**
+   * 服务器快照到达：以权威状态为起点重放未确认的输入
+   * @param serverTank 快照中的本机坦克
+   * @param lastProcessedSeq 服务器已处理的最新输入序号
+   */
+  reconcile(serverTank: TankSnapshot, lastProcessedSeq: number): void {
+    while (this.history.length > 0 && this.history[0].seq <= lastProcessedSeq) {
+      this.history.shift();
+    }
+
+    const next: TankPhysicsState = {
+      position: new Vec3(serverTank.position.x, serverTank.position.y, serverTank.position.z),
+      velocity: new Vec3(serverTank.velocity.x, serverTank.velocity.y, serverTank.velocity.z),
+      bodyYaw: serverTank.bodyYaw,
+      turretYaw: serverTank.turretYaw,
+      gunPitch: serverTank.gunPitch,
+      tankClass: serverTank.tankClass,
+    };
+    for (const cmd of this.history) {
+      this.simulate(next, cmd);
+    }
+
+    const prev = this.state;
+    this.state = next;
+    if (!prev) {
+      // 首次（或复活后）直接采用服务器状态
+      this.prevPosition = next.position.clone();
+      this.prevBodyYaw = next.bodyYaw;
+      return;
+    }
+
+    // 重放结果与原预测的差值 → 视觉偏移
+    const error = prev.position.clone().sub(next.position);
+    const yawError = normalizeAngle(prev.bodyYaw - next.bodyYaw);
+    this.positionError.add(error);
+    this.yawError = normalizeAngle(this.yawError + yawError);
+    // 插值起点同步平移，保证本帧渲染位置连续
+    this.prevPosition.sub(error);
+    this.prevBodyYaw = normalizeAngle(this.prevBodyYaw - yawError);
+
+    if (this.positionError.length() > SNAP_DISTANCE) {
+      this.positionError.set(0, 0, 0);
+      this.yawError = 0;
+      this.prevPosition = next.position.clone();
+      this.prevBodyYaw = next.bodyYaw;
+    }
+  }
+
+  /**
+   * 每帧衰减视觉误差
+   */
+  update(dt: number): void {
+    const decay = Math.exp(-CORRECTION_RATE * dt);
+    this.positionError.multiplyScalar(decay);
+    this.yawError *= decay;
+  }
+
+  /**
+   * 渲染状态
+   * @param alpha 距上一条输入的进度 [0, 1]（在相邻两次预测之间插值）
+   */
+  getRenderState(alpha: number): PredictedTankState | null {
+    if (!this.state) return null;
+    const a = Math.min(1, Math.max(0, alpha));
+    return {
+      position: new Vec3(
+        lerp(this.prevPosition.x, this.state.position.x, a) + this.positionError.x,
+        lerp(this.prevPosition.y, this.state.position.y, a) + this.positionError.y,
+        lerp(this.prevPosition.z, this.state.position.z, a) + this.positionError.z
+      ),
+      bodyYaw: normalizeAngle(lerpAngle(this.prevBodyYaw, this.state.bodyYaw, a) + this.yawError),
+      turretYaw: this.state.turretYaw,
+      gunPitch: this.state.gunPitch,
+    };
+  }
+
+  /**
+   * 按服务器的处理方式推进一条输入
+   */
+  private simulate(state: TankPhysicsState, cmd: InputCmd): void {
+    const dt = TICK_INTERVAL / 1000;
+    const getHeight = (x: number, z: number) => MapGenerator.getHeightAt(this.map, x, z);
+    for (let i = 0; i < TICKS_PER_INPUT; i++) {
+      updateTankPhysics(state, cmd, dt, getHeight);
+      resolveTankMapCollision(state, this.map.covers, this.map.width / 2, this.map.depth / 2, getHeight);
+    }
+  }
+}
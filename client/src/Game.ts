@@ -1,6 +1,10 @@
 import * as THREE from 'three';
 import { InputManager } from './InputManager.js';
 import { NetworkClient } from './NetworkClient.js';
+import type { JoinTarget } from './NetworkClient.js';
+import { ClientPrediction } from './ClientPrediction.js';
+import { SnapshotBuffer } from './SnapshotBuffer.js';
+import type { SnapshotSample } from './SnapshotBuffer.js';
 import { MapGenerator } from '@tankgame/server/MapGenerator.js';
 import type { GameMapData } from '@tankgame/server/MapGenerator.js';
 import { TutorialGame } from './TutorialGame.js';
@@ -11,17 +15,58 @@ import type {
   GameConfigSnapshot,
   TankSnapshot,
   DeathEvent,
+  SafeZoneSnapshot,
+  WaveSnapshot,
   ExplodeEvent,
+  HitEvent,
+  RicochetEvent,
+  SmokeCloudSnapshot,
+  FlagTakenEvent,
+  FlagDroppedEvent,
+  FlagReturnedEvent,
+  FlagCapturedEvent,
   PlayerJoinedMessage,
   PlayerLeftMessage,
   AFKKickMessage,
+  RoomStateMessage,
+  RoundEndMessage,
+  ErrorMessage,
+  RoomInfo,
+  RoomSettings,
+  BotDifficulty,
+  NetworkConditions,
 } from '@tankgame/shared';
 import {
   INPUT_RATE,
-  SNAPSHOT_RATE,
-  RELOAD_TIME,
-  TANK_MAX_HP,
+  INTERPOLATION_DELAY,
   MessageType,
+  WireFormat,
+  ErrorCode,
+  RoomState,
+  GameMode,
+  GameEventType,
+  DeathReason,
+  FlagState,
+  WavePhase,
+  ArmorFacing,
+  AmmoType,
+  AMMO_NAMES,
+  getAmmoStats,
+  SPLASH_RADIUS,
+  TankClass,
+  DEFAULT_TANK_CLASS,
+  TANK_CLASSES,
+  TANK_CLASS_NAMES,
+  getTankClassStats,
+  Team,
+  TEAMS,
+  DEFAULT_ROOM_SETTINGS,
+  CONTROL_POINT_RADIUS,
+  getControlPointPosition,
+  getControlPointName,
+  normalizeInviteCode,
+  parseNetworkConditions,
+  describeNetworkConditions,
 } from '@tankgame/shared';
 
 /**
@@ -42,16 +87,40 @@ export class Game {
   private inputSendInterval: number = 1000 / INPUT_RATE;
 
   // 场景对象
+  /** 当前地图的全部静态物体（地形、掩体、边界雾），换图时整体移除 */
+  private mapGroup: THREE.Group | null = null;
   private terrain: THREE.Mesh | null = null;
   private mapData: GameMapData | null = null;
   private tankMeshes: Map<number, THREE.Group> = new Map();
   private projectileMeshes: Map<number, THREE.Mesh> = new Map();
+  /** 烟雾云 id → mesh */
+  private smokeMeshes: Map<number, THREE.Mesh> = new Map();
+  /** 夺旗模式旗帜模型 team → mesh */
+  private flagMeshes: Map<Team, THREE.Group> = new Map();
+  /** 占点模式控制点标记 id → mesh */
+  private controlPointMeshes: Map<number, THREE.Group> = new Map();
+  /** 控制点上一次的占领方（占领变化提示） id → team */
+  private controlPointOwners: Map<number, Team> = new Map();
+  /** 大逃杀安全区边界墙（单位半径圆柱，按快照缩放） */
+  private zoneWall: THREE.Mesh | null = null;
 
   // 快照插值
-  private prevSnapshot: SnapshotMessage | null = null;
+  /** 抖动缓冲（远端实体按服务器时间延迟 INTERPOLATION_DELAY 渲染） */
+  private snapshotBuffer: SnapshotBuffer = new SnapshotBuffer();
+  /** 最新收到的快照（HUD / 计分板 / 存活状态） */
   private currSnapshot: SnapshotMessage | null = null;
-  private snapshotTime: number = 0;
-  private snapshotInterval: number = 1000 / SNAPSHOT_RATE;
+  /** 玩家名册（计分板用）— 超出 AOI 的坦克不在快照中，保留最后已知数据 */
+  private roster: Map<number, TankSnapshot> = new Map();
+  /** 本帧插值采样（渲染与 viewTick 共用） */
+  private renderSample: SnapshotSample | null = null;
+
+  /** 直击命中点（相对目标坦克锚定），紧随其后的爆炸事件使用 */
+  private hitAnchors: Map<number, { x: number; y: number; z: number }> = new Map();
+  /** 命中标记淡出计时器 */
+  private hitMarkerTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** 本机坦克客户端预测（加入房间后创建） */
+  private prediction: ClientPrediction | null = null;
 
   // 瞄准镜 FOV
   private readonly FOV_NORMAL = 75;
@@ -82,6 +151,12 @@ export class Game {
   // 客户端唯一标识（浏览器持久化，用于数据统计）
   private clientId: string;
 
+  /** 邀请链接 ?room=CODE 指定的房间（加入按钮改为加入该房间） */
+  private inviteCode: string | null = null;
+
+  /** 选择的坦克职业（持久化到 localStorage；加入时生效，游戏中切换在下次复活时生效） */
+  private tankClass: TankClass;
+
   // 排行榜当前时间段
   private leaderboardPeriod: string = 'daily';
 
@@ -89,6 +164,13 @@ export class Game {
   private paused: boolean = false;
   /** 是否在游戏中（已连接服务器） */
   private inGame: boolean = false;
+  /** 游戏循环是否在运行（离开房间后停止，再次加入时重新启动） */
+  private loopRunning: boolean = false;
+
+  // 回合状态
+  private roomState: RoomState = RoomState.Warmup;
+  /** 当前状态结束时刻 (performance.now 时间轴；暖场无倒计时) */
+  private roomStateEndsAt: number = 0;
 
   // 坦克名称标签（Sprite）
   private nameLabels: Map<number, THREE.Sprite> = new Map();
@@ -100,6 +182,7 @@ export class Game {
 
     // 生成或恢复客户端唯一标识
     this.clientId = this.getOrCreateClientId();
+    this.tankClass = this.loadTankClass();
 
     // WebGL2 渲染器
     this.renderer = new THREE.WebGLRenderer({
@@ -148,8 +231,12 @@ export class Game {
       onPlayerJoined: (msg) => this.onPlayerJoined(msg),
       onPlayerLeft: (msg) => this.onPlayerLeft(msg),
       onAFKKick: (msg) => this.onAFKKick(msg),
+      onRoomState: (msg) => this.onRoomState(msg),
+      onRoundEnd: (msg) => this.onRoundEnd(msg),
+      onError: (msg) => this.onServerError(msg),
+      onReconnecting: (attempt) => this.onReconnecting(attempt),
       onDisconnect: () => this.onDisconnect(),
-    });
+    }, this.getPreferredWireFormat(), this.getNetworkConditions());
 
     // 窗口大小调整
     window.addEventListener('resize', () => {
@@ -170,19 +257,40 @@ export class Game {
   private setupLoginUI(): void {
     const joinBtn = document.getElementById('join-btn')!;
     const nicknameInput = document.getElementById('nickname-input') as HTMLInputElement;
+    const passwordInput = document.getElementById('room-password-input') as HTMLInputElement;
+
+    // 邀请链接：?room=CODE 直接进入该房间
+    const code = new URLSearchParams(window.location.search).get('room');
+    this.setInviteCode(code ? normalizeInviteCode(code) : null);
+
+    // 职业选择
+    this.renderClassSelect();
 
     joinBtn.addEventListener('click', async () => {
       const nickname = nicknameInput.value.trim() || 'Player';
-      await this.connect(nickname);
+      await this.connect(nickname, this.getJoinTarget());
     });
 
     nicknameInput.addEventListener('keydown', async (e) => {
       if (e.key === 'Enter') {
         const nickname = nicknameInput.value.trim() || 'Player';
-        await this.connect(nickname);
+        await this.connect(nickname, this.getJoinTarget());
       }
     });
 
+    // 创建私人房间（密码、比赛设置可选）
+    this.resetRoomSettingsForm();
+    document.getElementById('create-room-btn')?.addEventListener('click', async () => {
+      const nickname = nicknameInput.value.trim() || 'Player';
+      await this.connect(nickname, {
+        createRoom: {
+          private: true,
+          password: passwordInput.value || undefined,
+          settings: this.readRoomSettingsForm(),
+        },
+      });
+    });
+
     // 教学模式按钮
     const tutorialBtn = document.getElementById('tutorial-btn');
     if (tutorialBtn) {
@@ -251,19 +359,91 @@ export class Game {
         this.exitTutorial();
       });
     }
+
+    // 房间列表：点击某一行加入该房间
+    document.getElementById('room-refresh-btn')?.addEventListener('click', () => {
+      this.loadRoomList();
+    });
+    document.getElementById('room-list')?.addEventListener('click', async (e) => {
+      const row = (e.target as HTMLElement).closest('[data-room-id]') as HTMLElement | null;
+      if (!row) return;
+      const nickname = nicknameInput.value.trim() || 'Player';
+      await this.connect(nickname, {
+        roomId: row.dataset.roomId,
+        password: passwordInput.value || undefined,
+      });
+    });
+    this.loadRoomList();
+  }
+
+  /**
+   * 自定义房间设置表单填入默认值
+   */
+  private resetRoomSettingsForm(): void {
+    const value = (id: string, v: string) => {
+      (document.getElementById(id) as HTMLInputElement | HTMLSelectElement).value = v;
+    };
+    value('rs-round-minutes', String(DEFAULT_ROOM_SETTINGS.roundDuration / 60));
+    value('rs-max-players', String(DEFAULT_ROOM_SETTINGS.maxPlayers));
+    value('rs-respawn-seconds', String(DEFAULT_ROOM_SETTINGS.respawnDelay / 1000));
+    value('rs-bot-count', String(DEFAULT_ROOM_SETTINGS.botCount));
+    value('rs-bot-difficulty', DEFAULT_ROOM_SETTINGS.botDifficulty);
+    value('rs-map-seed', '');
+    value('rs-mode', DEFAULT_ROOM_SETTINGS.mode);
+    value('rs-kill-cap', String(DEFAULT_ROOM_SETTINGS.killCap));
+    (document.getElementById('rs-friendly-fire') as HTMLInputElement).checked = DEFAULT_ROOM_SETTINGS.friendlyFire;
+  }
+
+  /**
+   * 读取自定义房间设置（范围由服务器校验并钳制）
+   */
+  private readRoomSettingsForm(): Partial<RoomSettings> {
+    const number = (id: string) => Number((document.getElementById(id) as HTMLInputElement).value);
+    const seed = (document.getElementById('rs-map-seed') as HTMLInputElement).value.trim();
+    return {
+      roundDuration: Math.round(number('rs-round-minutes') * 60),
+      maxPlayers: number('rs-max-players'),
+      respawnDelay: Math.round(number('rs-respawn-seconds') * 1000),
+      botCount: number('rs-bot-count'),
+      botDifficulty: (document.getElementById('rs-bot-difficulty') as HTMLSelectElement).value as BotDifficulty,
+      mapSeed: seed === '' ? null : Number(seed),
+      mode: (document.getElementById('rs-mode') as HTMLSelectElement).value as GameMode,
+      killCap: number('rs-kill-cap'),
+      friendlyFire: (document.getElementById('rs-friendly-fire') as HTMLInputElement).checked,
+    };
   }
 
   /**
-   * 连接服务器
+   * 设置邀请链接指定的房间，并更新加入按钮
    */
-  private async connect(nickname: string): Promise<void> {
+  private setInviteCode(code: string | null): void {
+    this.inviteCode = code;
+    document.getElementById('join-btn')!.textContent = code ? `JOIN ROOM ${code}` : 'QUICK JOIN';
+  }
+
+  /**
+   * 加入按钮的目标：邀请链接指定的房间，否则快速加入
+   */
+  private getJoinTarget(): JoinTarget {
+    if (!this.inviteCode) return {};
+    const password = (document.getElementById('room-password-input') as HTMLInputElement).value;
+    return { inviteCode: this.inviteCode, password: password || undefined };
+  }
+
+  /**
+   * 连接服务器并加入房间（缺省 target 为快速加入）
+   */
+  private async connect(nickname: string, target: JoinTarget = {}): Promise<void> {
     try {
       // 开发模式：Vite proxy /ws → ws://localhost:3000
       // 生产模式：同源 WebSocket
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
       const wsUrl = `${protocol}//${window.location.host}/ws`;
-      await this.network.connect(wsUrl);
-      this.network.joinRoom(nickname, this.clientId);
+      // 离开房间后连接仍保持，直接再次加入
+      if (!this.network.connected) {
+        await this.network.connect(wsUrl);
+      }
+      this.network.joinRoom(nickname, this.clientId, target, this.tankClass);
     } catch (err) {
       console.error('Failed to connect:', err);
     }
@@ -273,6 +453,9 @@ export class Game {
    * 加入确认
    */
   private onJoinAck(msg: JoinAckMessage): void {
+    // 断线重连恢复原会话：游戏循环仍在运行，只需丢弃依赖旧连接的状态
+    const resumed = msg.resumed && this.inGame && msg.playerId === this.playerId;
+
     this.playerId = msg.playerId;
     this.config = msg.config;
     this.inGame = true;
@@ -281,24 +464,66 @@ export class Game {
     // 隐藏登录界面
     document.getElementById('login-screen')!.style.display = 'none';
     document.getElementById('hud')!.style.display = 'block';
+    this.showInviteCode(msg.inviteCode, msg.isPrivate);
 
     // 从种子生成地形（与服务器一致）
-    this.mapData = MapGenerator.generate(msg.mapSeed);
-    this.createTerrain();
+    if (!resumed || this.mapData?.seed !== msg.mapSeed) {
+      this.loadMap(msg.mapSeed);
+    } else {
+      this.prediction = new ClientPrediction(this.mapData!);
+      this.snapshotBuffer.clear();
+      this.renderSample = null;
+    }
+    this.applyRoomState(msg.roomState, msg.timeRemaining);
+
+    if (resumed) {
+      this.showNotification('✔ 已重新连接', '#4ecf6a');
+      console.log(`[Game] Resumed as player ${this.playerId}`);
+      return;
+    }
+    this.roster.clear();
+    this.currSnapshot = null;
 
     // 开始游戏循环
-    this.lastTime = performance.now();
-    requestAnimationFrame((t) => this.gameLoop(t));
+    if (!this.loopRunning) {
+      this.loopRunning = true;
+      this.lastTime = performance.now();
+      requestAnimationFrame((t) => this.gameLoop(t));
+    }
 
     console.log(`[Game] Joined as player ${this.playerId}`);
   }
 
   /**
-   * 从服务器地图数据创建地形 Mesh
+   * 按种子生成地图并重建场景（加入房间、新回合换图）
+   */
+  private loadMap(seed: number): void {
+    this.mapData = MapGenerator.generate(seed);
+    this.createTerrain();
+    this.prediction = new ClientPrediction(this.mapData);
+    this.snapshotBuffer.clear();
+    this.renderSample = null;
+    for (const [id, mesh] of this.smokeMeshes) this.removeSmokeMesh(id, mesh);
+  }
+
+  /**
+   * 从服务器地图数据创建地形 Mesh（替换上一张地图）
    */
   private createTerrain(): void {
     if (!this.mapData) return;
 
+    if (this.mapGroup) {
+      this.scene.remove(this.mapGroup);
+      this.mapGroup.traverse((obj) => {
+        if (obj instanceof THREE.Mesh) {
+          obj.geometry.dispose();
+          (obj.material as THREE.Material).dispose();
+        }
+      });
+    }
+    this.mapGroup = new THREE.Group();
+    this.scene.add(this.mapGroup);
+
     const map = this.mapData;
     const res = map.resolution;
 
@@ -340,7 +565,7 @@ export class Game {
 
     this.terrain = new THREE.Mesh(geometry, material);
     this.terrain.receiveShadow = true;
-    this.scene.add(this.terrain);
+    this.mapGroup.add(this.terrain);
 
     // 添加掩体（使用服务器生成的掩体数据）
     for (const cover of map.covers) {
@@ -360,7 +585,7 @@ export class Game {
       );
       coverMesh.castShadow = true;
       coverMesh.receiveShadow = true;
-      this.scene.add(coverMesh);
+      this.mapGroup.add(coverMesh);
     }
 
     // 添加地图边缘雾气遮蔽
@@ -406,17 +631,50 @@ export class Game {
       const fog = new THREE.Mesh(geo, fogMat);
       fog.position.set(s.px, fogHeight / 2 - 3, s.pz);
       fog.renderOrder = 999;
-      this.scene.add(fog);
+      this.mapGroup!.add(fog);
 
       // 内层浓雾（紧贴边界）
       const innerGeo = new THREE.BoxGeometry(s.gw * 0.85, fogHeight * 0.7, s.gd * 0.6);
       const innerFog = new THREE.Mesh(innerGeo, fogMatDense);
       innerFog.position.set(s.px, fogHeight * 0.35 - 2, s.pz);
       innerFog.renderOrder = 998;
-      this.scene.add(innerFog);
+      this.mapGroup!.add(innerFog);
     }
   }
 
+  /**
+   * 大逃杀安全区边界墙 — 半透明蓝色圆柱，随快照移动与缩放；无安全区时移除
+   */
+  private updateZoneWall(): void {
+    const zone = this.currSnapshot?.zone ?? null;
+    if (!zone) {
+      if (this.zoneWall) {
+        this.scene.remove(this.zoneWall);
+        this.zoneWall.geometry.dispose();
+        (this.zoneWall.material as THREE.Material).dispose();
+        this.zoneWall = null;
+      }
+      return;
+    }
+
+    const wallHeight = 60;
+    if (!this.zoneWall) {
+      const geo = new THREE.CylinderGeometry(1, 1, wallHeight, 96, 1, true);
+      const mat = new THREE.MeshBasicMaterial({
+        color: 0x3399ff,
+        transparent: true,
+        opacity: 0.22,
+        side: THREE.DoubleSide,
+        depthWrite: false,
+      });
+      this.zoneWall = new THREE.Mesh(geo, mat);
+      this.zoneWall.renderOrder = 997;
+      this.scene.add(this.zoneWall);
+    }
+    this.zoneWall.position.set(zone.center.x, wallHeight / 2 - 10, zone.center.z);
+    this.zoneWall.scale.set(zone.radius, 1, zone.radius);
+  }
+
   /**
    * 创建坦克模型（低多边形，精细结构：车体+履带+炮塔+炮管层级）
    * 层级结构：
@@ -469,15 +727,64 @@ export class Game {
     return sprite;
   }
 
-  private createTankMesh(entityId: number, isLocal: boolean, isBot: boolean = false): THREE.Group {
+  /**
+   * 各职业的车体轮廓（尺寸单位 m；中型为原始造型）
+   */
+  private static readonly TANK_SHAPES: Record<TankClass, {
+    /** 车体 宽 / 高 / 长 */
+    hull: [number, number, number];
+    /** 炮塔 宽 / 高 / 长 */
+    turret: [number, number, number];
+    /** 炮塔中心相对车体中心的前后偏移（负值靠前） */
+    turretOffsetZ: number;
+    barrelLength: number;
+    barrelRadius: number;
+    /** 每侧负重轮数 */
+    wheels: number;
+    cupola: boolean;
+    skirts: boolean;
+  }> = {
+    [TankClass.Light]: {
+      hull: [3.0, 1.0, 4.6], turret: [1.9, 0.75, 2.2], turretOffsetZ: 0.2,
+      barrelLength: 3.2, barrelRadius: 0.12, wheels: 4, cupola: false, skirts: false,
+    },
+    [TankClass.Medium]: {
+      hull: [3.6, 1.2, 5.5], turret: [2.4, 0.9, 2.8], turretOffsetZ: 0,
+      barrelLength: 4, barrelRadius: 0.15, wheels: 5, cupola: true, skirts: false,
+    },
+    [TankClass.Heavy]: {
+      hull: [4.2, 1.4, 6.4], turret: [3.0, 1.1, 3.4], turretOffsetZ: 0.3,
+      barrelLength: 4.6, barrelRadius: 0.2, wheels: 6, cupola: true, skirts: true,
+    },
+    [TankClass.Destroyer]: {
+      hull: [3.8, 1.0, 6.0], turret: [3.4, 0.9, 3.0], turretOffsetZ: -1.2,
+      barrelLength: 5.4, barrelRadius: 0.2, wheels: 5, cupola: false, skirts: false,
+    },
+  };
+
+  private createTankMesh(
+    entityId: number,
+    isLocal: boolean,
+    isBot: boolean = false,
+    team: Team = Team.None,
+    tankClass: TankClass = DEFAULT_TANK_CLASS
+  ): THREE.Group {
     const group = new THREE.Group();
+    group.userData.tankClass = tankClass;
 
-    // 颜色方案：本机=绿色，AI机器人=蓝灰色，敌方真人=红色
+    // 颜色方案：本机=绿色；团队模式按队伍着色（红队=红色，蓝队=蓝色）；
+    // 个人混战中 AI机器人=蓝灰色，敌方真人=红色
     let bodyColor: number;
     let bodyDarkColor: number;
     if (isLocal) {
       bodyColor = 0x3cb371;
       bodyDarkColor = 0x2e8b57;
+    } else if (team === Team.Red) {
+      bodyColor = 0xcd4a4a;
+      bodyDarkColor = 0xa02020;
+    } else if (team === Team.Blue) {
+      bodyColor = 0x4a7acd;
+      bodyDarkColor = 0x2a50a0;
     } else if (isBot) {
       bodyColor = 0x708090;     // 石板灰（AI）
       bodyDarkColor = 0x556b7a; // 深石板灰
@@ -488,52 +795,69 @@ export class Game {
     const trackColor = 0x3a3a3a;
     const barrelColor = 0x555555;
 
+    const shape = Game.TANK_SHAPES[tankClass];
+    const [hullW, hullH, hullL] = shape.hull;
+    const trackX = hullW / 2 + 0.35;
+
     // === 车体 ===
-    const bodyGeo = new THREE.BoxGeometry(3.6, 1.2, 5.5);
+    const bodyGeo = new THREE.BoxGeometry(hullW, hullH, hullL);
     const bodyMat = new THREE.MeshLambertMaterial({ color: bodyColor, flatShading: true });
     const body = new THREE.Mesh(bodyGeo, bodyMat);
-    body.position.y = 0.8;
+    body.position.y = 0.2 + hullH / 2;
     body.castShadow = true;
     group.add(body);
 
     // 前倾装甲板（方向指示）
-    const frontGeo = new THREE.BoxGeometry(3.6, 0.8, 1.2);
+    const frontGeo = new THREE.BoxGeometry(hullW, hullH * 0.67, 1.2);
     const frontMat = new THREE.MeshLambertMaterial({ color: bodyColor, flatShading: true });
     const frontPlate = new THREE.Mesh(frontGeo, frontMat);
-    frontPlate.position.set(0, 1.2, -3.0);
+    frontPlate.position.set(0, hullH, -hullL / 2 - 0.25);
     frontPlate.rotation.x = -0.3;
     frontPlate.castShadow = true;
     group.add(frontPlate);
 
     // 左右履带
-    const trackGeo = new THREE.BoxGeometry(0.7, 0.9, 6.0);
+    const trackGeo = new THREE.BoxGeometry(0.7, 0.9, hullL + 0.5);
     const trackMat = new THREE.MeshLambertMaterial({ color: trackColor, flatShading: true });
 
     const leftTrack = new THREE.Mesh(trackGeo, trackMat);
-    leftTrack.position.set(-2.15, 0.55, 0);
+    leftTrack.position.set(-trackX, 0.55, 0);
     leftTrack.castShadow = true;
     group.add(leftTrack);
 
     const rightTrack = new THREE.Mesh(trackGeo.clone(), trackMat);
-    rightTrack.position.set(2.15, 0.55, 0);
+    rightTrack.position.set(trackX, 0.55, 0);
     rightTrack.castShadow = true;
     group.add(rightTrack);
 
+    // 重型：履带外侧裙板
+    if (shape.skirts) {
+      const skirtGeo = new THREE.BoxGeometry(0.12, 0.6, hullL + 0.2);
+      const skirtMat = new THREE.MeshLambertMaterial({ color: bodyDarkColor, flatShading: true });
+      for (const side of [-1, 1]) {
+        const skirt = new THREE.Mesh(skirtGeo.clone(), skirtMat);
+        skirt.position.set(side * (trackX + 0.42), 0.85, 0);
+        skirt.castShadow = true;
+        group.add(skirt);
+      }
+    }
+
     // 履带轮（用于滚动动画 — 前后移动都会旋转）
     const wheelRadius = 0.35;
     const wheelGeo = new THREE.CylinderGeometry(wheelRadius, wheelRadius, 0.55, 8);
     wheelGeo.rotateZ(Math.PI / 2); // 轮轴沿 X 方向
     const wheelMat = new THREE.MeshLambertMaterial({ color: 0x2a2a2a, flatShading: true });
-    const wheelPositionsZ = [-2.2, -1.1, 0, 1.1, 2.2]; // 5 个轮对
-    for (const wz of wheelPositionsZ) {
+    const wheelSpacing = (hullL - 1.1) / (shape.wheels - 1);
+    for (let i = 0; i < shape.wheels; i++) {
+      const wz = -(hullL - 1.1) / 2 + i * wheelSpacing;
       const lw = new THREE.Mesh(wheelGeo.clone(), wheelMat);
       lw.name = 'trackWheel';
-      lw.position.set(-2.15, 0.35, wz);
+      lw.position.set(-trackX, 0.35, wz);
       group.add(lw);
 
       const rw = new THREE.Mesh(wheelGeo.clone(), wheelMat);
       rw.name = 'trackWheel';
-      rw.position.set(2.15, 0.35, wz);
+      rw.position.set(trackX, 0.35, wz);
       group.add(rw);
     }
 
@@ -542,58 +866,66 @@ export class Game {
     turretPivot.name = 'turretPivot';
     group.add(turretPivot);
 
-    // 炮塔
-    const turretGeo = new THREE.BoxGeometry(2.4, 0.9, 2.8);
+    // 炮塔（歼击车为车体前部的低矮固定战斗室，只在小角度内随火炮转动）
+    const [turretW, turretH, turretL] = shape.turret;
+    const turretBaseY = 0.2 + hullH;
+    const turretGeo = new THREE.BoxGeometry(turretW, turretH, turretL);
     const turretMat = new THREE.MeshLambertMaterial({ color: bodyDarkColor, flatShading: true });
     const turret = new THREE.Mesh(turretGeo, turretMat);
-    turret.position.y = 1.85;
+    turret.position.set(0, turretBaseY + turretH / 2, shape.turretOffsetZ);
     turret.castShadow = true;
     turretPivot.add(turret);
 
     // 指挥塔（炮塔顶部偏后的圆柱）
-    const cupolaGeo = new THREE.CylinderGeometry(0.35, 0.4, 0.35, 8);
-    const cupolaMat = new THREE.MeshLambertMaterial({ color: bodyDarkColor, flatShading: true });
-    const cupola = new THREE.Mesh(cupolaGeo, cupolaMat);
-    cupola.position.set(0, 2.5, 0.6);
-    cupola.castShadow = true;
-    turretPivot.add(cupola);
+    if (shape.cupola) {
+      const cupolaGeo = new THREE.CylinderGeometry(0.35, 0.4, 0.35, 8);
+      const cupolaMat = new THREE.MeshLambertMaterial({ color: bodyDarkColor, flatShading: true });
+      const cupola = new THREE.Mesh(cupolaGeo, cupolaMat);
+      cupola.position.set(0, turretBaseY + turretH + 0.2, shape.turretOffsetZ + turretL * 0.2);
+      cupola.castShadow = true;
+      turretPivot.add(cupola);
+    }
 
     // === 炮管俯仰枢纽（跟随 gunPitch 旋转） ===
     const barrelPivot = new THREE.Object3D();
     barrelPivot.name = 'barrelPivot';
-    barrelPivot.position.set(0, 2.0, -1.4); // 炮塔前方炮耳位置
+    barrelPivot.position.set(0, turretBaseY + turretH * 2 / 3, shape.turretOffsetZ - turretL / 2); // 炮塔前方炮耳位置
     turretPivot.add(barrelPivot);
 
     // 炮管 — 沿 -Z 方向延伸
-    const barrelGeo = new THREE.CylinderGeometry(0.15, 0.18, 4, 6);
+    const { barrelLength, barrelRadius } = shape;
+    const barrelGeo = new THREE.CylinderGeometry(barrelRadius, barrelRadius * 1.2, barrelLength, 6);
     barrelGeo.rotateX(Math.PI / 2);   // Y轴 → Z轴
-    barrelGeo.translate(0, 0, -2);    // 基座在 z=0，炮口在 z=-4
+    barrelGeo.translate(0, 0, -barrelLength / 2);    // 基座在 z=0，炮口在 z=-barrelLength
     const barrelMat = new THREE.MeshLambertMaterial({ color: barrelColor, flatShading: true });
     const barrel = new THREE.Mesh(barrelGeo, barrelMat);
     barrel.castShadow = true;
     barrelPivot.add(barrel);
 
     // 炮口制退器
-    const muzzleGeo = new THREE.CylinderGeometry(0.22, 0.22, 0.3, 6);
+    const muzzleGeo = new THREE.CylinderGeometry(barrelRadius * 1.5, barrelRadius * 1.5, 0.3, 6);
     muzzleGeo.rotateX(Math.PI / 2);
-    muzzleGeo.translate(0, 0, -4.0);
+    muzzleGeo.translate(0, 0, -barrelLength);
     const muzzleMat = new THREE.MeshLambertMaterial({ color: 0x444444, flatShading: true });
     const muzzle = new THREE.Mesh(muzzleGeo, muzzleMat);
     barrelPivot.add(muzzle);
 
+    const turretTop = turretBaseY + turretH;
+    const markerZ = shape.turretOffsetZ + 0.6;
+
     // AI 机器人标记 — 炮塔顶部小天线（区分 AI 与真人）
     if (isBot && !isLocal) {
       const antGeo = new THREE.CylinderGeometry(0.03, 0.03, 1.2, 4);
       const antMat = new THREE.MeshLambertMaterial({ color: 0x888888, flatShading: true });
       const antenna = new THREE.Mesh(antGeo, antMat);
-      antenna.position.set(0.3, 3.2, 0.6);
+      antenna.position.set(0.3, turretTop + 0.9, markerZ);
       group.add(antenna);
 
       // 天线顶部小球（蓝色标记）
       const tipGeo = new THREE.SphereGeometry(0.1, 6, 4);
       const tipMat = new THREE.MeshBasicMaterial({ color: 0x4488ff });
       const tip = new THREE.Mesh(tipGeo, tipMat);
-      tip.position.set(0.3, 3.9, 0.6);
+      tip.position.set(0.3, turretTop + 1.6, markerZ);
       group.add(tip);
     }
 
@@ -603,7 +935,7 @@ export class Game {
       const poleGeo = new THREE.CylinderGeometry(0.03, 0.03, 1.5, 4);
       const poleMat = new THREE.MeshLambertMaterial({ color: 0x888888, flatShading: true });
       const pole = new THREE.Mesh(poleGeo, poleMat);
-      pole.position.set(-0.3, 3.35, 0.6);
+      pole.position.set(-0.3, turretTop + 1.05, markerZ);
       group.add(pole);
 
       // 旗面（红色三角旗）
@@ -618,7 +950,7 @@ export class Game {
         side: THREE.DoubleSide,
       });
       const flag = new THREE.Mesh(flagGeo, flagMat);
-      flag.position.set(-0.3, 3.6, 0.6);
+      flag.position.set(-0.3, turretTop + 1.3, markerZ);
       flag.rotation.y = Math.PI / 4;
       group.add(flag);
     }
@@ -628,13 +960,39 @@ export class Game {
     return group;
   }
 
+  /**
+   * 队伍显示名称与颜色
+   */
+  private static readonly TEAM_STYLE: Record<Team, { name: string; color: string }> = {
+    [Team.None]: { name: '', color: '#ff6a00' },
+    [Team.Red]: { name: 'RED', color: '#ff4444' },
+    [Team.Blue]: { name: 'BLUE', color: '#4499ff' },
+  };
+
   /**
    * 处理服务器快照
    */
   private onSnapshot(msg: SnapshotMessage): void {
-    this.prevSnapshot = this.currSnapshot;
+    // serverTick 回退 = 新回合：名册中不可见坦克的战绩随服务器一起清零
+    if (this.currSnapshot && msg.serverTick < this.currSnapshot.serverTick) {
+      for (const [id, entry] of this.roster) {
+        this.roster.set(id, { ...entry, kills: 0, deaths: 0 });
+      }
+    }
+    for (const tank of msg.tanks) {
+      this.roster.set(tank.entityId, tank);
+    }
+
     this.currSnapshot = msg;
-    this.snapshotTime = performance.now();
+    this.snapshotBuffer.push(msg);
+
+    // 本机坦克预测纠偏（死亡时清空，复活后从服务器状态重新开始）
+    const localTank = msg.tanks.find((t) => t.entityId === this.playerId);
+    if (localTank && localTank.alive) {
+      this.prediction?.reconcile(localTank, msg.lastProcessedSeq);
+    } else {
+      this.prediction?.reset();
+    }
 
     // 学习 bot ID 映射
     for (const tank of msg.tanks) {
@@ -645,7 +1003,7 @@ export class Game {
   }
 
   /**
-   * 插值渲染坦克（在两帧快照之间平滑）
+   * 插值渲染坦克（抖动缓冲中相邻两帧快照之间平滑，迟到时有限外推）
    * - 所有坦克：使用 turretPivot/barrelPivot 层级，正确同步炮塔偏航和炮管俯仰
    * - 本机坦克存活时：FPS 视角隐藏自身模型
    * - 本机坦克死亡时：显示模型并切换第三人称观察击毁
@@ -653,56 +1011,77 @@ export class Game {
   private interpolateAndRender(): void {
     if (!this.currSnapshot) return;
 
-    // 计算插值系数
-    let t = 1;
-    if (this.prevSnapshot) {
-      const elapsed = performance.now() - this.snapshotTime;
-      t = Math.min(1, elapsed / this.snapshotInterval);
-    }
+    // 渲染时刻 = 估计的服务器时间 - 固定插值延迟
+    const sample = this.snapshotBuffer.sample(this.network.getServerTime() - INTERPOLATION_DELAY);
+    this.renderSample = sample;
+    const t = sample?.t ?? 1;
 
     // 渲染坦克
     for (const currTank of this.currSnapshot.tanks) {
       let mesh = this.tankMeshes.get(currTank.entityId);
+      // 复活时换了职业：按新职业重建模型
+      if (mesh && mesh.userData.tankClass !== currTank.tankClass) {
+        this.scene.remove(mesh);
+        this.tankMeshes.delete(currTank.entityId);
+        mesh = undefined;
+      }
       if (!mesh) {
         // 记住 bot 状态
         if (currTank.isBot) this.botEntityIds.add(currTank.entityId);
         mesh = this.createTankMesh(
           currTank.entityId,
           currTank.entityId === this.playerId,
-          currTank.isBot
+          currTank.isBot,
+          currTank.team,
+          currTank.tankClass
         );
       }
 
       const isLocal = currTank.entityId === this.playerId;
-      const prevTank = this.prevSnapshot?.tanks.find(
+      const prevTank = sample?.from.tanks.find(
         (pt) => pt.entityId === currTank.entityId
       );
+      const nextTank = sample?.to.tanks.find(
+        (nt) => nt.entityId === currTank.entityId
+      );
+
+      // 本机坦克存活时使用预测状态，不等待服务器往返
+      const predicted = isLocal && currTank.alive
+        ? this.prediction?.getRenderState(this.inputSendTimer / this.inputSendInterval)
+        : null;
 
       if (currTank.alive) {
         mesh.visible = true;
 
-        if (prevTank && prevTank.alive) {
-          // 位置插值
+        if (predicted) {
+          mesh.position.set(predicted.position.x, predicted.position.y, predicted.position.z);
+          mesh.rotation.y = predicted.bodyYaw;
+          const turretPivot = mesh.getObjectByName('turretPivot');
+          if (turretPivot) turretPivot.rotation.y = predicted.turretYaw;
+          const barrelPivot = mesh.getObjectByName('barrelPivot');
+          if (barrelPivot) barrelPivot.rotation.x = predicted.gunPitch;
+        } else if (prevTank && prevTank.alive && nextTank && nextTank.alive) {
+          // 位置插值（t > 1 时为外推）
           mesh.position.set(
-            prevTank.position.x + (currTank.position.x - prevTank.position.x) * t,
-            prevTank.position.y + (currTank.position.y - prevTank.position.y) * t,
-            prevTank.position.z + (currTank.position.z - prevTank.position.z) * t
+            prevTank.position.x + (nextTank.position.x - prevTank.position.x) * t,
+            prevTank.position.y + (nextTank.position.y - prevTank.position.y) * t,
+            prevTank.position.z + (nextTank.position.z - prevTank.position.z) * t
           );
           // 车体朝向插值
-          mesh.rotation.y = this.lerpAngle(prevTank.bodyYaw, currTank.bodyYaw, t);
+          mesh.rotation.y = this.lerpAngle(prevTank.bodyYaw, nextTank.bodyYaw, t);
 
           // 履带轮滚动动画（根据速度沿车体方向投影旋转）
-          this.animateTrackWheels(mesh, currTank);
+          this.animateTrackWheels(mesh, nextTank);
 
           // 炮塔偏航插值
           const turretPivot = mesh.getObjectByName('turretPivot');
           if (turretPivot) {
-            turretPivot.rotation.y = this.lerpAngle(prevTank.turretYaw, currTank.turretYaw, t);
+            turretPivot.rotation.y = this.lerpAngle(prevTank.turretYaw, nextTank.turretYaw, t);
           }
           // 炮管俯仰插值
           const barrelPivot = mesh.getObjectByName('barrelPivot');
           if (barrelPivot) {
-            barrelPivot.rotation.x = prevTank.gunPitch + (currTank.gunPitch - prevTank.gunPitch) * t;
+            barrelPivot.rotation.x = prevTank.gunPitch + (nextTank.gunPitch - prevTank.gunPitch) * t;
           }
         } else {
           // 没有前一帧，直接设置
@@ -725,8 +1104,17 @@ export class Game {
           this.deathExplosionSpawned = false;
           this.cleanupWreckage();
           this.restoreTankMesh(mesh);
-          this.updateCamera(currTank, prevTank, t);
-          this.updateHUD(currTank);
+          if (predicted) {
+            const localView = { ...currTank, ...predicted };
+            this.updateCamera(localView, undefined, 1);
+            this.updateHUD(localView);
+          } else if (prevTank && nextTank) {
+            this.updateCamera(nextTank, prevTank, t);
+            this.updateHUD(currTank);
+          } else {
+            this.updateCamera(currTank, undefined, 1);
+            this.updateHUD(currTank);
+          }
           // FPS 视角隐藏自身模型
           mesh.visible = false;
         }
@@ -783,6 +1171,18 @@ export class Game {
     // 渲染弹体
     this.renderProjectiles();
 
+    // 渲染烟雾云
+    this.renderSmokeClouds();
+
+    // 渲染旗帜
+    this.renderFlags();
+
+    // 渲染控制点
+    this.renderControlPoints();
+
+    // 安全区边界
+    this.updateZoneWall();
+
     // 更新名称标签（距离门控）
     this.updateNameLabels();
 
@@ -877,6 +1277,8 @@ export class Game {
 
     // 将 bodyYaw 同步给 InputManager，让鼠标相对角度正确计算
     this.inputManager.setBodyYaw(currTank.bodyYaw);
+    // 炮塔限幅跟随当前驾驶的职业（新选择的职业复活后才生效）
+    this.inputManager.setTurretYawMax(getTankClassStats(currTank.tankClass).turretYawMax);
 
     // 旋转使用本地鼠标值，零延迟
     const localTurretYaw = this.inputManager.getTurretYaw();
@@ -1090,20 +1492,32 @@ export class Game {
    * 渲染弹体
    */
   private renderProjectiles(): void {
-    if (!this.currSnapshot) return;
+    const sample = this.renderSample;
+    if (!sample) return;
 
     const activeIds = new Set<number>();
-    for (const proj of this.currSnapshot.projectiles) {
+    for (const proj of sample.to.projectiles) {
       activeIds.add(proj.projectileId);
       let mesh = this.projectileMeshes.get(proj.projectileId);
       if (!mesh) {
-        const geo = new THREE.SphereGeometry(0.3, 6, 4);
-        const mat = new THREE.MeshBasicMaterial({ color: 0xffaa00 });
+        const tracer = Game.AMMO_TRACER_STYLE[proj.ammoType] ?? Game.AMMO_TRACER_STYLE[AmmoType.AP];
+        const geo = new THREE.SphereGeometry(tracer.size, 6, 4);
+        const mat = new THREE.MeshBasicMaterial({ color: tracer.color });
         mesh = new THREE.Mesh(geo, mat);
         this.scene.add(mesh);
         this.projectileMeshes.set(proj.projectileId, mesh);
       }
-      mesh.position.set(proj.position.x, proj.position.y, proj.position.z);
+      // 与坦克同一渲染时刻插值；上一帧没有该弹体时直接放在最新位置
+      const prev = sample.from.projectiles.find((p) => p.projectileId === proj.projectileId);
+      if (prev && sample.from !== sample.to) {
+        mesh.position.set(
+          prev.position.x + (proj.position.x - prev.position.x) * sample.t,
+          prev.position.y + (proj.position.y - prev.position.y) * sample.t,
+          prev.position.z + (proj.position.z - prev.position.z) * sample.t
+        );
+      } else {
+        mesh.position.set(proj.position.x, proj.position.y, proj.position.z);
+      }
     }
 
     // 清理消失的弹体
@@ -1115,10 +1529,199 @@ export class Game {
     }
   }
 
+  /** 各弹种曳光颜色与弹体大小 */
+  private static readonly AMMO_TRACER_STYLE: Record<AmmoType, { color: number; size: number }> = {
+    [AmmoType.AP]: { color: 0xffaa00, size: 0.3 },
+    [AmmoType.HE]: { color: 0xff4422, size: 0.4 },
+    [AmmoType.Smoke]: { color: 0xdddddd, size: 0.35 },
+  };
+
+  /**
+   * 渲染烟雾云 — 半透明灰色球体，临近消散时逐渐变淡；快照中消失即移除
+   */
+  private renderSmokeClouds(): void {
+    const clouds: SmokeCloudSnapshot[] = this.currSnapshot?.smoke ?? [];
+    const activeIds = new Set<number>();
+    for (const cloud of clouds) {
+      activeIds.add(cloud.id);
+      let mesh = this.smokeMeshes.get(cloud.id);
+      if (!mesh) {
+        const geo = new THREE.SphereGeometry(1, 16, 12);
+        const mat = new THREE.MeshBasicMaterial({
+          color: 0xb8b8b0,
+          transparent: true,
+          opacity: 0.85,
+          depthWrite: false,
+        });
+        mesh = new THREE.Mesh(geo, mat);
+        this.scene.add(mesh);
+        this.smokeMeshes.set(cloud.id, mesh);
+      }
+      mesh.position.set(cloud.position.x, cloud.position.y, cloud.position.z);
+      mesh.scale.set(cloud.radius, cloud.radius * 0.6, cloud.radius);
+      // 最后 3 秒淡出
+      (mesh.material as THREE.MeshBasicMaterial).opacity = 0.85 * Math.min(1, cloud.remaining / 3000);
+    }
+
+    for (const [id, mesh] of this.smokeMeshes) {
+      if (!activeIds.has(id)) this.removeSmokeMesh(id, mesh);
+    }
+  }
+
+  /**
+   * 移除烟雾云 mesh 并释放资源
+   */
+  private removeSmokeMesh(id: number, mesh: THREE.Mesh): void {
+    this.scene.remove(mesh);
+    mesh.geometry.dispose();
+    (mesh.material as THREE.Material).dispose();
+    this.smokeMeshes.delete(id);
+  }
+
+  /**
+   * 渲染旗帜 — 被携带时插在携旗坦克上方，否则放在快照位置
+   */
+  private renderFlags(): void {
+    const flags = this.currSnapshot?.flags ?? [];
+    for (const flag of flags) {
+      let mesh = this.flagMeshes.get(flag.team);
+      if (!mesh) {
+        mesh = this.createFlagMesh(flag.team);
+        this.flagMeshes.set(flag.team, mesh);
+      }
+      const carrier = flag.carrierId !== null ? this.tankMeshes.get(flag.carrierId) : undefined;
+      if (carrier) {
+        mesh.position.set(carrier.position.x, carrier.position.y + 2.5, carrier.position.z);
+      } else {
+        mesh.position.set(flag.position.x, flag.position.y, flag.position.z);
+      }
+    }
+
+    // 非夺旗模式（或换房后）移除旗帜
+    for (const [team, mesh] of this.flagMeshes) {
+      if (!flags.some((f) => f.team === team)) {
+        this.scene.remove(mesh);
+        this.flagMeshes.delete(team);
+      }
+    }
+  }
+
+  /**
+   * 创建旗帜模型（旗杆 + 队伍颜色旗面）
+   */
+  private createFlagMesh(team: Team): THREE.Group {
+    const group = new THREE.Group();
+    const color = new THREE.Color(Game.TEAM_STYLE[team].color);
+
+    const poleGeo = new THREE.CylinderGeometry(0.08, 0.08, 5, 6);
+    const pole = new THREE.Mesh(poleGeo, new THREE.MeshLambertMaterial({ color: 0xcccccc }));
+    pole.position.y = 2.5;
+    group.add(pole);
+
+    const clothGeo = new THREE.BoxGeometry(2.2, 1.4, 0.05);
+    const cloth = new THREE.Mesh(clothGeo, new THREE.MeshBasicMaterial({ color }));
+    cloth.position.set(1.1, 4.2, 0);
+    group.add(cloth);
+
+    this.scene.add(group);
+    return group;
+  }
+
+  /**
+   * 渲染控制点 — 地面圆环按占领方着色，内圈按占领进度缩放，占领方变化时提示
+   */
+  private renderControlPoints(): void {
+    const points = this.currSnapshot?.controlPoints ?? [];
+    for (const point of points) {
+      let mesh = this.controlPointMeshes.get(point.id);
+      if (!mesh) {
+        mesh = this.createControlPointMesh();
+        this.controlPointMeshes.set(point.id, mesh);
+      }
+      const center = getControlPointPosition(point.id);
+      const groundY = this.mapData ? MapGenerator.getHeightAt(this.mapData, center.x, center.z) : 0;
+      mesh.position.set(center.x, groundY + 0.3, center.z);
+
+      const [ring, fill] = mesh.children as THREE.Mesh[];
+      (ring.material as THREE.MeshBasicMaterial).color.set(Game.CONTROL_POINT_COLOR[point.owner]);
+      (fill.material as THREE.MeshBasicMaterial).color.set(Game.CONTROL_POINT_COLOR[point.capturingTeam]);
+      const scale = Math.max(point.progress, 0.001);
+      fill.scale.set(scale, scale, 1);
+
+      const prevOwner = this.controlPointOwners.get(point.id);
+      if (prevOwner !== undefined && prevOwner !== point.owner) {
+        const name = getControlPointName(point.id);
+        this.showKillFeed(point.owner === Team.None
+          ? `${name} 点变为中立`
+          : `${name} 点被 ${Game.TEAM_STYLE[point.owner].name} 占领`);
+      }
+      this.controlPointOwners.set(point.id, point.owner);
+    }
+
+    // 非占点模式（或换房后）移除控制点
+    for (const [id, mesh] of this.controlPointMeshes) {
+      if (!points.some((p) => p.id === id)) {
+        this.scene.remove(mesh);
+        this.controlPointMeshes.delete(id);
+        this.controlPointOwners.delete(id);
+      }
+    }
+  }
+
+  /**
+   * 控制点占领方颜色（中立为灰白）
+   */
+  private static readonly CONTROL_POINT_COLOR: Record<Team, string> = {
+    [Team.None]: '#cccccc',
+    [Team.Red]: Game.TEAM_STYLE[Team.Red].color,
+    [Team.Blue]: Game.TEAM_STYLE[Team.Blue].color,
+  };
+
+  /**
+   * 创建控制点标记（外圈 + 进度内圈，平铺地面）
+   */
+  private createControlPointMesh(): THREE.Group {
+    const group = new THREE.Group();
+    group.rotation.x = -Math.PI / 2;
+
+    const ringGeo = new THREE.RingGeometry(CONTROL_POINT_RADIUS - 0.6, CONTROL_POINT_RADIUS, 48);
+    const ring = new THREE.Mesh(ringGeo, new THREE.MeshBasicMaterial({ side: THREE.DoubleSide }));
+    group.add(ring);
+
+    const fillGeo = new THREE.CircleGeometry(CONTROL_POINT_RADIUS - 0.6, 48);
+    const fill = new THREE.Mesh(fillGeo, new THREE.MeshBasicMaterial({
+      side: THREE.DoubleSide,
+      transparent: true,
+      opacity: 0.25,
+      depthWrite: false,
+    }));
+    group.add(fill);
+
+    this.scene.add(group);
+    return group;
+  }
+
+  /**
+   * 控制点 HUD 行：各点占领方着色，占领中的点显示进度百分比
+   */
+  private controlPointStatusHTML(): string {
+    const points = this.currSnapshot?.controlPoints ?? [];
+    if (points.length === 0) return '';
+    const items = points.map((p) => {
+      const name = getControlPointName(p.id);
+      const contested = p.progress < 1 && p.capturingTeam !== Team.None;
+      const text = contested ? `${name} ${Math.round(p.progress * 100)}%` : name;
+      const color = Game.CONTROL_POINT_COLOR[contested ? p.capturingTeam : p.owner];
+      return `<span style="color:${color}">◆ ${text}</span>`;
+    });
+    return `<div class="control-points">${items.join('  ')}</div>`;
+  }
+
   /**
    * 更新 HUD（含死亡状态显示零血量）
    */
   private updateHUD(tank: TankSnapshot): void {
+    const stats = getTankClassStats(tank.tankClass);
     const speed = Math.sqrt(tank.velocity.x ** 2 + tank.velocity.z ** 2);
     const heading = Math.round(((tank.bodyYaw * 180 / Math.PI) % 360 + 360) % 360);
 
@@ -1131,14 +1734,16 @@ export class Game {
     if (headingEl) headingEl.textContent = `HDG  ${heading}`;
     if (hpEl) {
       const hp = Math.max(0, tank.hp); // 确保死亡时显示 0
-      const bars = Math.round(hp / TANK_MAX_HP * 12);
+      const bars = Math.round(hp / stats.maxHp * 12);
       hpEl.textContent = `HP ${'█'.repeat(bars)}${'░'.repeat(12 - bars)} ${hp}`;
     }
     if (reloadEl) {
       if (tank.reloadRemain <= 0) {
         reloadEl.textContent = '▓▓▓▓▓▓▓▓▓▓▓▓ READY';
       } else {
-        const progress = Math.round((1 - tank.reloadRemain / RELOAD_TIME) * 12);
+        // 装填时间随弹种变化（按当前弹种估算，开火后切换弹种时限幅）
+        const reloadTime = stats.reloadTime * getAmmoStats(this.inputManager.getAmmoType()).reloadFactor;
+        const progress = Math.max(0, Math.min(12, Math.round((1 - tank.reloadRemain / reloadTime) * 12)));
         reloadEl.textContent = `${'▓'.repeat(progress)}${'░'.repeat(12 - progress)} RELOAD`;
       }
     }
@@ -1148,6 +1753,19 @@ export class Game {
       kdEl.textContent = `K ${tank.kills} / D ${tank.deaths}`;
     }
 
+    // 职业（已选择的新职业在复活后生效）
+    const classEl = document.querySelector('.class-stat');
+    if (classEl) {
+      const next = this.tankClass !== tank.tankClass ? ` → ${TANK_CLASS_NAMES[this.tankClass]}` : '';
+      classEl.textContent = `CLS ${TANK_CLASS_NAMES[tank.tankClass]}${next}`;
+    }
+
+    // 弹种（Q 切换）
+    const ammoEl = document.querySelector('.ammo-stat');
+    if (ammoEl) {
+      ammoEl.textContent = `AMO ${AMMO_NAMES[this.inputManager.getAmmoType()]} [Q]`;
+    }
+
     // 玩家数量
     const playerCountEl = document.querySelector('.player-count');
     if (playerCountEl && this.currSnapshot) {
@@ -1157,6 +1775,25 @@ export class Game {
       playerCountEl.textContent = `PLY ${humans}+${bots}AI / ${total}`;
     }
 
+    // 团队比分
+    const teamScoreEl = document.querySelector('.team-score') as HTMLElement | null;
+    if (teamScoreEl && this.currSnapshot) {
+      const scores = this.currSnapshot.teamScores;
+      teamScoreEl.style.display = scores.length > 0 ? 'block' : 'none';
+      if (scores.length > 0) {
+        const flagMarker: Record<FlagState, string> = {
+          [FlagState.AtBase]: ' ⚑',
+          [FlagState.Carried]: ' ⚑被夺',
+          [FlagState.Dropped]: ' ⚑掉落',
+        };
+        teamScoreEl.innerHTML = TEAMS.map((team, i) => {
+          const style = Game.TEAM_STYLE[team];
+          const flag = this.currSnapshot!.flags.find((f) => f.team === team);
+          return `<span style="color:${style.color}">${style.name} ${scores[i]}${flag ? flagMarker[flag.state] : ''}</span>`;
+        }).join(' : ') + this.controlPointStatusHTML();
+      }
+    }
+
     // 瞄准数据面板（Y轴左侧，始终显示 — SPD/ELV/TRT）
     const aimInfo = document.querySelector('.aim-info') as HTMLElement;
     if (aimInfo) {
@@ -1258,6 +1895,10 @@ export class Game {
 
     ctx.restore();
 
+    // ===== 安全区方向（大逃杀） =====
+    const zone = this.currSnapshot?.zone;
+    if (zone) this.drawZoneIndicator(ctx, tank, zone, cx, cy, r, turretWorldYaw);
+
     // ===== 红色60°半透明视野扇形 — 永远朝上（玩家屏幕视角） =====
     ctx.save();
     ctx.translate(cx, cy);
@@ -1337,6 +1978,48 @@ export class Game {
     ctx.fillText(`${relSign}${relDeg}°`, cx, cy + r + 10);
   }
 
+  /**
+   * 罗盘上的安全区指示：刻度环上的圆点指向圈中心（圈外为红色），底部显示离圈距离或收缩倒计时
+   */
+  private drawZoneIndicator(
+    ctx: CanvasRenderingContext2D,
+    tank: TankSnapshot,
+    zone: SafeZoneSnapshot,
+    cx: number,
+    cy: number,
+    r: number,
+    turretWorldYaw: number
+  ): void {
+    const dx = zone.center.x - tank.position.x;
+    const dz = zone.center.z - tank.position.z;
+    const dist = Math.sqrt(dx * dx + dz * dz);
+    const outside = dist > zone.radius;
+    const color = outside ? '#ff3333' : '#66ccff';
+
+    if (dist > 1) {
+      // 与刻度环同一参考系：世界朝向 yaw 位于 (-sin yaw, -cos yaw)
+      const yaw = Math.atan2(-dx, -dz);
+      const markerR = r - 18;
+      ctx.save();
+      ctx.translate(cx, cy);
+      ctx.rotate(-turretWorldYaw);
+      ctx.beginPath();
+      ctx.arc(-Math.sin(yaw) * markerR, -Math.cos(yaw) * markerR, 4, 0, Math.PI * 2);
+      ctx.fillStyle = color;
+      ctx.fill();
+      ctx.restore();
+    }
+
+    let text: string;
+    if (outside) text = `ZONE +${Math.round(dist - zone.radius)}m`;
+    else if (zone.nextShrinkIn > 0) text = `ZONE ${Math.ceil(zone.nextShrinkIn / 1000)}s`;
+    else text = 'ZONE ▼';
+    ctx.fillStyle = color;
+    ctx.font = '10px "Courier New"';
+    ctx.textAlign = 'center';
+    ctx.fillText(text, cx, cy + r + 22);
+  }
+
   /**
    * 处理游戏事件
    */
@@ -1344,25 +2027,142 @@ export class Game {
     switch (msg.event.eventType) {
       case 'death': {
         const deathEvt = msg.event as DeathEvent;
-        const killFeed = document.querySelector('.kill-feed');
-        if (killFeed) {
-          const killerIsBot = this.botEntityIds.has(deathEvt.killerId);
-          const victimIsBot = this.botEntityIds.has(deathEvt.victimId);
-          const killerLabel = killerIsBot ? `[BOT]#${deathEvt.killerId}` : `P${deathEvt.killerId}`;
-          const victimLabel = victimIsBot ? `[BOT]#${deathEvt.victimId}` : `P${deathEvt.victimId}`;
-          killFeed.textContent = `${killerLabel} → ${victimLabel}`;
-          setTimeout(() => { killFeed.textContent = ''; }, 3000);
-        }
+        const killerIsBot = this.botEntityIds.has(deathEvt.killerId);
+        const victimIsBot = this.botEntityIds.has(deathEvt.victimId);
+        const killerLabel = killerIsBot ? `[BOT]#${deathEvt.killerId}` : `P${deathEvt.killerId}`;
+        const victimLabel = victimIsBot ? `[BOT]#${deathEvt.victimId}` : `P${deathEvt.victimId}`;
+        this.showKillFeed(deathEvt.reason === DeathReason.Zone
+          ? `☠ ${victimLabel} 倒在安全区外`
+          : `${killerLabel} → ${victimLabel}`);
+        // 不在快照范围内的坦克，名册战绩由事件推进
+        this.applyDeathToRoster(deathEvt);
         // 击坠火焰爆炸效果 — 大而夸张
         this.spawnDeathExplosion(deathEvt.pos);
         break;
       }
+      case 'hit': {
+        // 服务器按射手视角回溯判定：把命中点平移到目标坦克当前渲染位置上
+        const hitEvt = msg.event as HitEvent;
+        const targetMesh = this.tankMeshes.get(hitEvt.targetId);
+        if (targetMesh) {
+          this.hitAnchors.set(hitEvt.projectileId, {
+            x: targetMesh.position.x + hitEvt.hitPos.x - hitEvt.targetPos.x,
+            y: targetMesh.position.y + hitEvt.hitPos.y - hitEvt.targetPos.y,
+            z: targetMesh.position.z + hitEvt.hitPos.z - hitEvt.targetPos.z,
+          });
+        }
+        if (hitEvt.shooterId === this.playerId) {
+          const style = Game.HIT_MARKER_STYLE[hitEvt.facing];
+          this.showHitMarker(style.color, `${style.label} -${Math.round(hitEvt.damage)}`);
+        }
+        break;
+      }
+      case GameEventType.Ricochet: {
+        // 跳弹：无爆炸，火花沿弹开方向飞散
+        const evt = msg.event as RicochetEvent;
+        this.spawnRicochetEffect(evt.pos, evt.dir);
+        if (evt.shooterId === this.playerId) {
+          this.showHitMarker(Game.RICOCHET_MARKER_COLOR, 'RICOCHET');
+        } else if (evt.targetId === this.playerId) {
+          this.showNotification('↯ 装甲弹开了一发炮弹', Game.RICOCHET_MARKER_COLOR);
+        }
+        break;
+      }
       case 'explode': {
-        // 炮弹落点火焰爆炸效果 — 小而清晰
+        // 炮弹落点火焰爆炸效果 — 小而清晰（直击时使用锚定到目标的命中点）
+        // 无溅射的烟雾弹只有一团白烟，高爆弹按溅射半径放大爆炸
         const explodeEvt = msg.event as ExplodeEvent;
-        this.spawnImpactExplosion(explodeEvt.pos);
+        const anchored = this.hitAnchors.get(explodeEvt.projectileId);
+        this.hitAnchors.delete(explodeEvt.projectileId);
+        if (explodeEvt.radius <= 0) {
+          this.spawnSmokePuff(anchored ?? explodeEvt.pos);
+        } else {
+          this.spawnImpactExplosion(anchored ?? explodeEvt.pos, explodeEvt.radius / SPLASH_RADIUS);
+        }
+        break;
+      }
+      case GameEventType.FlagTaken: {
+        const evt = msg.event as FlagTakenEvent;
+        this.showKillFeed(`${this.playerLabel(evt.playerId)} 夺走了 ${Game.TEAM_STYLE[evt.team].name} 旗`);
+        break;
+      }
+      case GameEventType.FlagDropped: {
+        const evt = msg.event as FlagDroppedEvent;
+        this.showKillFeed(`${Game.TEAM_STYLE[evt.team].name} 旗掉落`);
         break;
       }
+      case GameEventType.FlagReturned: {
+        const evt = msg.event as FlagReturnedEvent;
+        const by = evt.playerId !== null ? `${this.playerLabel(evt.playerId)} 交还了 ` : '';
+        this.showKillFeed(`${by}${Game.TEAM_STYLE[evt.team].name} 旗回到基地`);
+        break;
+      }
+      case GameEventType.FlagCaptured: {
+        const evt = msg.event as FlagCapturedEvent;
+        this.showKillFeed(`🚩 ${this.playerLabel(evt.playerId)} 夺得 ${Game.TEAM_STYLE[evt.team].name} 旗！`);
+        break;
+      }
+    }
+  }
+
+  /** 命中标记：按被命中的装甲面区分颜色与标签（侧后方命中更醒目） */
+  private static readonly HIT_MARKER_STYLE: Record<ArmorFacing, { label: string; color: string }> = {
+    [ArmorFacing.Front]: { label: 'FRONT', color: '#ffffff' },
+    [ArmorFacing.Side]: { label: 'SIDE', color: '#ffb347' },
+    [ArmorFacing.Rear]: { label: 'REAR', color: '#ff3333' },
+  };
+
+  /** 跳弹标记颜色 */
+  private static readonly RICOCHET_MARKER_COLOR = '#8fd3ff';
+
+  /**
+   * 准星处闪现命中标记（0.4 秒后淡出）
+   */
+  private showHitMarker(color: string, label: string): void {
+    const marker = document.querySelector<HTMLElement>('.hit-marker');
+    if (!marker) return;
+    const labelEl = marker.querySelector('.hit-marker-label');
+    if (labelEl) labelEl.textContent = label;
+    marker.style.color = color;
+    marker.style.transition = 'none';
+    marker.style.opacity = '1';
+    if (this.hitMarkerTimer !== null) clearTimeout(this.hitMarkerTimer);
+    this.hitMarkerTimer = setTimeout(() => {
+      marker.style.transition = '';
+      marker.style.opacity = '0';
+      this.hitMarkerTimer = null;
+    }, 400);
+  }
+
+  /**
+   * 击杀 / 旗帜播报（3 秒后清除）
+   */
+  private showKillFeed(text: string): void {
+    const killFeed = document.querySelector('.kill-feed');
+    if (!killFeed) return;
+    killFeed.textContent = text;
+    setTimeout(() => { killFeed.textContent = ''; }, 3000);
+  }
+
+  /**
+   * 播报中的玩家名称（名册中没有时显示 ID）
+   */
+  private playerLabel(playerId: number): string {
+    return this.roster.get(playerId)?.nickname ?? `P${playerId}`;
+  }
+
+  /**
+   * 名册战绩更新 — 仅处理当前快照中不存在的坦克（快照中的以服务器数据为准）
+   */
+  private applyDeathToRoster(evt: DeathEvent): void {
+    const visible = (id: number) => this.currSnapshot?.tanks.some((t) => t.entityId === id) ?? false;
+    const victim = this.roster.get(evt.victimId);
+    if (victim && !visible(evt.victimId)) {
+      this.roster.set(evt.victimId, { ...victim, alive: false, deaths: victim.deaths + 1 });
+    }
+    const killer = this.roster.get(evt.killerId);
+    if (killer && !visible(evt.killerId)) {
+      this.roster.set(evt.killerId, { ...killer, kills: killer.kills + 1 });
     }
   }
 
@@ -1872,17 +2672,18 @@ export class Game {
 
   /**
    * 炮弹落点爆炸 — 小型火花 + 溅射碎片
+   * @param scale 相对标准溅射半径的放大倍数（高爆弹更大）
    */
-  private spawnImpactExplosion(pos: { x: number; y: number; z: number }): void {
+  private spawnImpactExplosion(pos: { x: number; y: number; z: number }, scale: number = 1): void {
     const px = pos.x, py = pos.y + 0.5, pz = pos.z;
 
     // ① 闪光
-    const flash = new THREE.PointLight(0xff6600, 5, 25);
+    const flash = new THREE.PointLight(0xff6600, 5 * scale, 25 * scale);
     flash.position.set(px, py + 1, pz);
     this.scene.add(flash);
 
     // ② 小火球
-    const fireGeo = new THREE.SphereGeometry(0.5, 8, 6);
+    const fireGeo = new THREE.SphereGeometry(0.5 * scale, 8, 6);
     const fireMat = new THREE.MeshBasicMaterial({
       color: 0xff6600,
       transparent: true,
@@ -1892,10 +2693,11 @@ export class Game {
     fireMesh.position.set(px, py, pz);
     this.scene.add(fireMesh);
 
-    // ③ 溅射碎片（6个小粒子向外飞）
+    // ③ 溅射碎片（标准 6 个小粒子向外飞，随爆炸规模增加）
     const sparks: THREE.Mesh[] = [];
     const sparkVelocities: THREE.Vector3[] = [];
-    for (let i = 0; i < 6; i++) {
+    const sparkCount = Math.round(6 * scale);
+    for (let i = 0; i < sparkCount; i++) {
       const sGeo = new THREE.SphereGeometry(0.1, 4, 3);
       const sMat = new THREE.MeshBasicMaterial({
         color: Math.random() > 0.3 ? 0xffaa00 : 0xff4400,
@@ -1907,9 +2709,9 @@ export class Game {
       this.scene.add(s);
       sparks.push(s);
       sparkVelocities.push(new THREE.Vector3(
-        (Math.random() - 0.5) * 12,
+        (Math.random() - 0.5) * 12 * scale,
         Math.random() * 8 + 2,
-        (Math.random() - 0.5) * 12,
+        (Math.random() - 0.5) * 12 * scale,
       ));
     }
 
@@ -1925,7 +2727,7 @@ export class Game {
       fireMesh.scale.setScalar(1 + t * 3);
       fireMat.opacity = Math.max(0, 1 - t * 2);
 
-      flash.intensity = 5 * Math.max(0, 1 - t * 4);
+      flash.intensity = 5 * scale * Math.max(0, 1 - t * 4);
 
       // 溅射粒子
       const dt = 1 / 60;
@@ -1949,6 +2751,132 @@ export class Game {
     requestAnimationFrame(animateImpact);
   }
 
+  /**
+   * 跳弹效果 — 蓝白色火花沿弹开方向飞出，拖一道短曳光，无火球
+   */
+  private spawnRicochetEffect(
+    pos: { x: number; y: number; z: number },
+    dir: { x: number; y: number; z: number }
+  ): void {
+    const origin = new THREE.Vector3(pos.x, pos.y, pos.z);
+    const out = new THREE.Vector3(dir.x, dir.y, dir.z).normalize();
+
+    // ① 短促的冷色闪光
+    const flash = new THREE.PointLight(0xcfe8ff, 3, 15);
+    flash.position.copy(origin);
+    this.scene.add(flash);
+
+    // ② 弹开的曳光（沿弹开方向飞行的细长线段）
+    const tracerMat = new THREE.LineBasicMaterial({ color: 0xfff2c0, transparent: true, opacity: 1.0 });
+    const tracerGeo = new THREE.BufferGeometry().setFromPoints([origin.clone(), origin.clone()]);
+    const tracer = new THREE.Line(tracerGeo, tracerMat);
+    this.scene.add(tracer);
+
+    // ③ 火花（集中在弹开方向的锥形内）
+    const sparks: THREE.Mesh[] = [];
+    const sparkVelocities: THREE.Vector3[] = [];
+    for (let i = 0; i < 10; i++) {
+      const sGeo = new THREE.SphereGeometry(0.06, 4, 3);
+      const sMat = new THREE.MeshBasicMaterial({
+        color: Math.random() > 0.4 ? 0xffffff : 0x8fd3ff,
+        transparent: true,
+        opacity: 1.0,
+      });
+      const s = new THREE.Mesh(sGeo, sMat);
+      s.position.copy(origin);
+      this.scene.add(s);
+      sparks.push(s);
+      sparkVelocities.push(out.clone().multiplyScalar(10 + Math.random() * 14).add(new THREE.Vector3(
+        (Math.random() - 0.5) * 6,
+        Math.random() * 4,
+        (Math.random() - 0.5) * 6,
+      )));
+    }
+
+    // 动画 — 0.4秒
+    const startTime = performance.now();
+    const duration = 400;
+    const tracerSpeed = 60;
+
+    const animateRicochet = () => {
+      const elapsed = performance.now() - startTime;
+      const t = Math.min(1, elapsed / duration);
+
+      flash.intensity = 3 * Math.max(0, 1 - t * 5);
+
+      // 曳光：头部按弹开速度前进，尾部稍后跟上
+      const head = origin.clone().addScaledVector(out, tracerSpeed * elapsed / 1000);
+      const tail = origin.clone().addScaledVector(out, Math.max(0, tracerSpeed * elapsed / 1000 - 6));
+      tracerGeo.setFromPoints([tail, head]);
+      tracerMat.opacity = Math.max(0, 1 - t);
+
+      const dt = 1 / 60;
+      for (let i = 0; i < sparks.length; i++) {
+        sparkVelocities[i].y -= 12 * dt;
+        sparks[i].position.addScaledVector(sparkVelocities[i], dt);
+        (sparks[i].material as THREE.MeshBasicMaterial).opacity = Math.max(0, 1 - t * 1.3);
+      }
+
+      if (t < 1) {
+        requestAnimationFrame(animateRicochet);
+      } else {
+        this.scene.remove(flash, tracer);
+        tracerGeo.dispose();
+        tracerMat.dispose();
+        for (const s of sparks) { this.scene.remove(s); s.geometry.dispose(); }
+      }
+    };
+
+    requestAnimationFrame(animateRicochet);
+  }
+
+  /**
+   * 烟雾弹落点 — 几团白烟向外翻涌（持续的烟雾云由快照渲染）
+   */
+  private spawnSmokePuff(pos: { x: number; y: number; z: number }): void {
+    const puffs: THREE.Mesh[] = [];
+    const puffVelocities: THREE.Vector3[] = [];
+    for (let i = 0; i < 8; i++) {
+      const geo = new THREE.SphereGeometry(0.8, 6, 4);
+      const mat = new THREE.MeshBasicMaterial({ color: 0xe0e0d8, transparent: true, opacity: 0.9, depthWrite: false });
+      const puff = new THREE.Mesh(geo, mat);
+      puff.position.set(pos.x, pos.y + 0.5, pos.z);
+      this.scene.add(puff);
+      puffs.push(puff);
+      puffVelocities.push(new THREE.Vector3(
+        (Math.random() - 0.5) * 8,
+        Math.random() * 3 + 1,
+        (Math.random() - 0.5) * 8,
+      ));
+    }
+
+    // 动画 — 1秒
+    const startTime = performance.now();
+    const duration = 1000;
+
+    const animatePuff = () => {
+      const t = Math.min(1, (performance.now() - startTime) / duration);
+      const dt = 1 / 60;
+      for (let i = 0; i < puffs.length; i++) {
+        puffs[i].position.addScaledVector(puffVelocities[i], dt);
+        puffs[i].scale.setScalar(1 + t * 3);
+        (puffs[i].material as THREE.MeshBasicMaterial).opacity = 0.9 * (1 - t);
+      }
+
+      if (t < 1) {
+        requestAnimationFrame(animatePuff);
+      } else {
+        for (const p of puffs) {
+          this.scene.remove(p);
+          p.geometry.dispose();
+          (p.material as THREE.Material).dispose();
+        }
+      }
+    };
+
+    requestAnimationFrame(animatePuff);
+  }
+
   /**
    * 创建通知容器（用于显示玩家加入/离开等消息）
    */
@@ -2006,6 +2934,7 @@ export class Game {
    * 玩家离开通知
    */
   private onPlayerLeft(msg: PlayerLeftMessage): void {
+    this.roster.delete(msg.playerId);
     this.showNotification(`◀ ${msg.nickname} 离开了房间`, '#ff6a00');
   }
 
@@ -2017,6 +2946,39 @@ export class Game {
     this.returnToLogin(msg.reason);
   }
 
+  /**
+   * 服务器拒绝 — 断开连接，返回登录界面，显示原因
+   */
+  private onServerError(msg: ErrorMessage): void {
+    console.warn(`[Game] Server error: ${msg.code} — ${msg.message}`);
+    this.network.disconnect();
+    switch (msg.code) {
+      case ErrorCode.VersionMismatch:
+        this.returnToLogin('游戏已更新，请刷新页面后重新进入');
+        break;
+      case ErrorCode.RoomFull:
+        this.returnToLogin('房间已满，请稍后再试');
+        break;
+      case ErrorCode.RoomNotFound:
+        // 邀请链接失效后回到快速加入
+        this.setInviteCode(null);
+        this.returnToLogin('房间不存在或已关闭');
+        break;
+      case ErrorCode.WrongPassword:
+        this.returnToLogin('房间密码错误');
+        document.getElementById('room-password-input')?.focus();
+        break;
+      case ErrorCode.ServerFull:
+        this.returnToLogin('服务器房间已满，请稍后再试');
+        break;
+      case ErrorCode.RoomCreateCooldown:
+        this.returnToLogin('创建房间过于频繁，请稍后再试');
+        break;
+      default:
+        this.returnToLogin(msg.message);
+    }
+  }
+
   /**
    * 返回登录界面（附带提示消息）
    */
@@ -2025,8 +2987,10 @@ export class Game {
     this.paused = false;
     document.getElementById('pause-menu')!.style.display = 'none';
     document.getElementById('scoreboard-overlay')!.style.display = 'none';
+    document.getElementById('round-end-overlay')!.style.display = 'none';
     document.getElementById('login-screen')!.style.display = 'flex';
     document.getElementById('hud')!.style.display = 'none';
+    this.loadRoomList();
 
     // 显示提示消息
     if (message) {
@@ -2061,6 +3025,13 @@ export class Game {
       }
     });
 
+    // 数字键 1-4：选择下次复活时的职业
+    document.addEventListener('keydown', (e) => {
+      if (!this.inGame || this.paused || !e.code.startsWith('Digit')) return;
+      const tankClass = TANK_CLASSES[Number(e.code.slice(5)) - 1];
+      if (tankClass !== undefined) this.selectTankClass(tankClass);
+    });
+
     // Tab 键：按住显示计分板
     document.addEventListener('keydown', (e) => {
       if (e.code === 'Tab' && this.inGame) {
@@ -2084,6 +3055,29 @@ export class Game {
     document.getElementById('pause-exit-btn')!.addEventListener('click', () => {
       this.exitGame();
     });
+
+    // 复制邀请链接
+    document.getElementById('pause-invite-btn')!.addEventListener('click', (e) => {
+      const btn = e.currentTarget as HTMLElement;
+      const link = btn.dataset.link;
+      if (!link) return;
+      navigator.clipboard?.writeText(link).then(() => {
+        btn.textContent = '✔ 已复制';
+        setTimeout(() => { btn.textContent = '🔗 复制邀请链接'; }, 1500);
+      });
+    });
+  }
+
+  /**
+   * 暂停菜单中显示当前房间的邀请码与邀请链接
+   */
+  private showInviteCode(code: string, isPrivate: boolean): void {
+    document.getElementById('pause-room-code')!.textContent =
+      `${isPrivate ? '🔒 私人房间' : '房间'}  邀请码 ${code}`;
+    const url = new URL(window.location.href);
+    url.search = '';
+    url.searchParams.set('room', code);
+    document.getElementById('pause-invite-btn')!.dataset.link = url.toString();
   }
 
   /**
@@ -2111,15 +3105,127 @@ export class Game {
   }
 
   /**
-   * 退出游戏 — 断开连接，返回登录界面
+   * 退出游戏 — 离开房间（保留连接），返回登录界面
    */
   private exitGame(): void {
     this.paused = false;
     document.getElementById('pause-menu')!.style.display = 'none';
-    this.network.disconnect();
+    this.network.leaveRoom();
     this.returnToLogin();
   }
 
+  // ==================== 回合状态 ====================
+
+  /**
+   * 房间状态变化（暖场 / 回合中 / 结算倒计时）
+   */
+  private onRoomState(msg: RoomStateMessage): void {
+    // 新回合服务器会重新生成地图
+    if (this.mapData && this.mapData.seed !== msg.mapSeed) {
+      this.loadMap(msg.mapSeed);
+    }
+    this.applyRoomState(msg.state, msg.timeRemaining);
+  }
+
+  /**
+   * 记录房间状态与剩余时间
+   */
+  private applyRoomState(state: RoomState, timeRemaining: number): void {
+    this.roomState = state;
+    this.roomStateEndsAt = performance.now() + timeRemaining;
+    if (state !== RoomState.RoundEnd) {
+      document.getElementById('round-end-overlay')!.style.display = 'none';
+    }
+    this.updateRoundTimer();
+  }
+
+  /**
+   * 回合结束 — 显示结算画面
+   */
+  private onRoundEnd(msg: RoundEndMessage): void {
+    const winner = msg.scoreboard.find((s) => s.playerId === msg.winnerId);
+    const winnerEl = document.getElementById('round-end-winner')!;
+    if (msg.teamScores.length > 0) {
+      const score = msg.teamScores.join(' : ');
+      const style = msg.winnerTeam !== null ? Game.TEAM_STYLE[msg.winnerTeam] : null;
+      winnerEl.innerHTML = style
+        ? `<span style="color:${style.color}">🏆 ${style.name} 队获胜</span> ${score}`
+        : `平局 ${score}`;
+    } else if (this.currSnapshot?.wave) {
+      winnerEl.textContent = `坚持到第 ${this.currSnapshot.wave.wave} 波`;
+    } else {
+      winnerEl.textContent = winner ? `🏆 ${winner.nickname}` : '无人获胜';
+    }
+
+    let html = '';
+    msg.scoreboard.forEach((s, i) => {
+      const isMe = s.playerId === this.playerId;
+      const teamColor = s.team !== Team.None ? ` color:${Game.TEAM_STYLE[s.team].color};` : '';
+      const accuracy = s.shots === 0 ? '-' : `${Math.round((s.hits / s.shots) * 100)}%`;
+      const rowStyle = isMe ? 'background:rgba(255,106,0,0.18); font-weight:bold;' : '';
+      html += `<tr style="${rowStyle}; border-bottom:1px solid #ff6a0020;">
+        <td style="padding:6px 8px;">${i + 1}</td>
+        <td style="padding:6px 8px;${teamColor}">${isMe ? '▶ ' : ''}${s.nickname}</td>
+        <td style="padding:6px 8px; text-align:center;">${s.kills}</td>
+        <td style="padding:6px 8px; text-align:center;">${s.deaths}</td>
+        <td style="padding:6px 8px; text-align:center;">${accuracy}</td>
+      </tr>`;
+    });
+    document.getElementById('round-end-body')!.innerHTML = html;
+    document.getElementById('round-end-overlay')!.style.display = 'block';
+    this.roomStateEndsAt = performance.now() + msg.nextRoundIn;
+    this.updateRoundTimer();
+  }
+
+  /**
+   * 刷新回合计时器与结算倒计时
+   */
+  private updateRoundTimer(): void {
+    const timerEl = document.querySelector('.round-timer') as HTMLElement | null;
+    if (!timerEl) return;
+    const remaining = Math.max(0, this.roomStateEndsAt - performance.now());
+
+    switch (this.roomState) {
+      case RoomState.Warmup:
+        timerEl.textContent = 'WARMUP';
+        timerEl.style.color = '';
+        break;
+      case RoomState.InRound: {
+        const wave = this.currSnapshot?.wave;
+        if (wave) {
+          timerEl.textContent = this.waveStatusText(wave);
+          timerEl.style.color = wave.lives === 0 ? '#ff3333' : '';
+          break;
+        }
+        const seconds = Math.ceil(remaining / 1000);
+        const m = Math.floor(seconds / 60);
+        const sec = (seconds % 60).toString().padStart(2, '0');
+        timerEl.textContent = `⏱ ${m}:${sec}`;
+        timerEl.style.color = seconds <= 30 ? '#ff3333' : '';
+        break;
+      }
+      case RoomState.RoundEnd: {
+        timerEl.textContent = 'ROUND OVER';
+        timerEl.style.color = '';
+        const countdown = document.getElementById('round-end-countdown');
+        if (countdown) countdown.textContent = `下一回合 ${Math.ceil(remaining / 1000)} 秒后开始`;
+        break;
+      }
+    }
+  }
+
+  /**
+   * 合作模式状态：战斗中显示波次与剩余敌人，维修阶段显示下一波倒计时；均附带共享复活次数
+   */
+  private waveStatusText(wave: WaveSnapshot): string {
+    const lives = `❤ ${wave.lives}`;
+    if (wave.phase === WavePhase.Repair) {
+      const seconds = Math.ceil(wave.phaseTimeRemaining / 1000);
+      return `🔧 第 ${wave.wave + 1} 波 ${seconds}s  ${lives}`;
+    }
+    return `🌊 第 ${wave.wave} 波  敌 ${wave.botsRemaining}  ${lives}`;
+  }
+
   // ==================== Tab 计分板 ====================
 
   /**
@@ -2130,15 +3236,29 @@ export class Game {
     const overlay = document.getElementById('scoreboard-overlay')!;
     const tbody = document.getElementById('scoreboard-body')!;
 
-    // 按击坠数降序排列，相同时按阵亡数升序
-    const sorted = [...this.currSnapshot.tanks].sort((a, b) => {
+    // 按队伍分组，组内按击坠数降序排列，相同时按阵亡数升序（名册含 AOI 之外的坦克）
+    const sorted = [...this.roster.values()].sort((a, b) => {
+      if (a.team !== b.team) return a.team - b.team;
       if (b.kills !== a.kills) return b.kills - a.kills;
       return a.deaths - b.deaths;
     });
+    const teamScores = this.currSnapshot.teamScores;
 
-    // 渲染行
+    // 渲染行（团队模式每队前插入队伍标题行）
     let html = '';
-    sorted.forEach((t, i) => {
+    let rank = 0;
+    let currentTeam: Team | null = null;
+    sorted.forEach((t) => {
+      if (teamScores.length > 0 && t.team !== currentTeam) {
+        currentTeam = t.team;
+        rank = 0;
+        const style = Game.TEAM_STYLE[t.team];
+        const score = teamScores[TEAMS.indexOf(t.team)] ?? 0;
+        html += `<tr style="color:${style.color}; border-bottom:1px solid ${style.color}60;">
+          <td colspan="6" style="padding:10px 8px 4px; font-weight:bold; letter-spacing:2px;">${style.name} · ${score}</td>
+        </tr>`;
+      }
+      const i = rank++;
       const isMe = t.entityId === this.playerId;
       const kd = t.deaths === 0 ? t.kills.toFixed(1) : (t.kills / t.deaths).toFixed(1);
       const tag = t.isBot ? ' [BOT]' : '';
@@ -2168,6 +3288,78 @@ export class Game {
     document.getElementById('scoreboard-overlay')!.style.display = 'none';
   }
 
+  /**
+   * 当前渲染的服务器 tick（抖动缓冲采样点），随输入上报用于延迟补偿
+   * 外推部分不计入：服务器只能回溯到真实存在过的状态
+   */
+  private getViewTick(): number | undefined {
+    const sample = this.renderSample;
+    if (!sample) return undefined;
+    const fromTick = sample.from.serverTick;
+    return Math.round(fromTick + (sample.to.serverTick - fromTick) * Math.min(1, sample.t));
+  }
+
+  /**
+   * 线路编码格式 — 默认二进制，URL 参数 ?wire=json 可强制 JSON（便于抓包调试）
+   */
+  private getPreferredWireFormat(): WireFormat {
+    const param = new URLSearchParams(window.location.search).get('wire');
+    return param === WireFormat.Json ? WireFormat.Json : WireFormat.Binary;
+  }
+
+  /**
+   * 网络条件模拟 — URL 参数 ?netsim=latency=75,jitter=10,drop=5%,reorder=1%（本机测试弱网用）
+   */
+  private getNetworkConditions(): NetworkConditions | null {
+    const param = new URLSearchParams(window.location.search).get('netsim');
+    if (!param) return null;
+    const conditions = parseNetworkConditions(param);
+    if (conditions) {
+      console.log(`[Network] Simulating ${describeNetworkConditions(conditions)}`);
+    } else {
+      console.warn(`[Network] Ignoring invalid netsim spec: ${param}`);
+    }
+    return conditions;
+  }
+
+  /**
+   * 读取上次选择的职业（缺省为默认职业）
+   */
+  private loadTankClass(): TankClass {
+    const saved = Number(localStorage.getItem('tankgame_tank_class'));
+    return TANK_CLASSES.find((c) => c === saved) ?? DEFAULT_TANK_CLASS;
+  }
+
+  /**
+   * 选择职业：登录界面直接作为加入时的职业，游戏中通知服务器在下次复活时换用
+   */
+  private selectTankClass(tankClass: TankClass): void {
+    this.tankClass = tankClass;
+    localStorage.setItem('tankgame_tank_class', String(tankClass));
+    if (this.inGame) this.network.selectClass(tankClass);
+    this.renderClassSelect();
+  }
+
+  /**
+   * 登录界面职业按钮（显示主要属性，当前选择高亮）
+   */
+  private renderClassSelect(): void {
+    const container = document.getElementById('class-select');
+    if (!container) return;
+    container.innerHTML = TANK_CLASSES.map((c, i) => {
+      const stats = getTankClassStats(c);
+      const active = c === this.tankClass;
+      const style = active
+        ? 'background:#ff6a0030; border:2px solid #ff6a00; color:#ff6a00;'
+        : 'background:#ff6a0010; border:2px solid #ff6a0060; color:#ff6a0080;';
+      const tip = `HP ${stats.maxHp} / 伤害 ${stats.damage} / 装填 ${(stats.reloadTime / 1000).toFixed(1)}s`;
+      return `<button data-class="${c}" title="${tip}" style="flex:1; ${style} padding:6px; font-size:13px; cursor:pointer; font-family:'Courier New',monospace;">${i + 1} ${TANK_CLASS_NAMES[c]}</button>`;
+    }).join('');
+    container.querySelectorAll('button').forEach((btn) => {
+      btn.addEventListener('click', () => this.selectTankClass(Number(btn.dataset.class) as TankClass));
+    });
+  }
+
   /**
    * 获取或创建客户端唯一标识（持久化到 localStorage）
    */
@@ -2191,6 +3383,13 @@ export class Game {
     return id;
   }
 
+  /**
+   * 掉线重连中（画面保持，输入暂不送达）
+   */
+  private onReconnecting(attempt: number): void {
+    this.showNotification(`⚠ 连接中断，正在重连（第 ${attempt} 次）…`, '#ff6a00');
+  }
+
   /**
    * 断开连接
    */
@@ -2439,6 +3638,11 @@ export class Game {
    * 游戏主循环
    */
   private gameLoop(timestamp: number): void {
+    // 离开房间后停止循环
+    if (!this.inGame) {
+      this.loopRunning = false;
+      return;
+    }
     const dt = (timestamp - this.lastTime) / 1000;
     this.lastTime = timestamp;
 
@@ -2447,10 +3651,13 @@ export class Game {
       this.inputSendTimer += dt * 1000;
       if (this.inputSendTimer >= this.inputSendInterval) {
         const input = this.inputManager.sample();
+        input.viewTick = this.getViewTick();
         this.network.sendInput(input);
+        this.prediction?.applyInput(input);
         this.inputSendTimer -= this.inputSendInterval;
       }
     }
+    this.prediction?.update(dt);
 
     // 插值渲染
     this.interpolateAndRender();
@@ -2458,12 +3665,68 @@ export class Game {
     // 瞄准镜 FOV 平滑过渡
     this.updateScope(dt);
 
+    this.updateRoundTimer();
+
     // 渲染
     this.renderer.render(this.scene, this.camera);
 
     requestAnimationFrame((t) => this.gameLoop(t));
   }
 
+  // ==================== 房间浏览器 ====================
+
+  /**
+   * 加载房间列表（登录界面）
+   */
+  private async loadRoomList(): Promise<void> {
+    const list = document.getElementById('room-list');
+    if (!list) return;
+
+    try {
+      const res = await fetch('/api/rooms');
+      if (!res.ok) throw new Error('API error');
+      const data: { rooms: RoomInfo[] } = await res.json();
+
+      if (data.rooms.length === 0) {
+        list.innerHTML = '<div style="text-align:center; padding:12px; color:#ff6a0060;">暂无房间，快速加入将创建新房间</div>';
+        return;
+      }
+
+      const stateLabel: Record<RoomState, string> = {
+        [RoomState.Warmup]: '暖场',
+        [RoomState.InRound]: '对战中',
+        [RoomState.RoundEnd]: '结算中',
+      };
+      const modeLabel: Record<GameMode, string> = {
+        [GameMode.FreeForAll]: 'FFA',
+        [GameMode.TeamDeathmatch]: 'TDM',
+        [GameMode.CaptureTheFlag]: 'CTF',
+        [GameMode.Domination]: 'DOM',
+        [GameMode.BattleRoyale]: 'BR',
+        [GameMode.Coop]: 'COOP',
+      };
+      let html = '';
+      for (const room of data.rooms) {
+        const full = room.humans >= room.maxPlayers;
+        const seconds = Math.ceil(room.timeRemaining / 1000);
+        const time = room.state === RoomState.InRound && room.mode !== GameMode.Coop
+          ? `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+          : '';
+        html += `<div ${full ? '' : `data-room-id="${this.escapeHtml(room.roomId)}"`} style="display:flex; justify-content:space-between; gap:12px; padding:6px 10px; border-bottom:1px solid #ff6a0015; cursor:${full ? 'default' : 'pointer'}; opacity:${full ? 0.4 : 1};">`;
+        html += `<span>${room.locked ? '🔒 ' : ''}${this.escapeHtml(room.roomId.slice(-4).toUpperCase())}</span>`;
+        html += `<span>${modeLabel[room.mode]}</span>`;
+        html += `<span>${stateLabel[room.state]} ${time}</span>`;
+        html += `<span>👤 ${room.humans}/${room.maxPlayers}</span>`;
+        html += `<span>🤖 ${room.bots}</span>`;
+        html += `<span style="color:#ff6a0080;">MAP ${room.mapSeed % 10000}</span>`;
+        html += '</div>';
+      }
+      list.innerHTML = html;
+    } catch {
+      list.innerHTML = '<div style="text-align:center; padding:12px; color:#ff333380;">无法获取房间列表</div>';
+    }
+  }
+
   // ==================== 排行榜 ====================
 
   /**
@@ -2500,7 +3763,8 @@ export class Game {
       html += '<tr style="border-bottom:1px solid #ff6a0030;">';
       html += '<th style="padding:8px; text-align:left;">#</th>';
       html += '<th style="padding:8px; text-align:left;">昵称</th>';
-      html += `<th style="padding:8px; text-align:right;">${type === 'playtime' ? '游玩时间' : '击坠数'}</th>`;
+      const valueLabel = type === 'playtime' ? '游玩时间' : type === 'wave' ? '最高波次' : '击坠数';
+      html += `<th style="padding:8px; text-align:right;">${valueLabel}</th>`;
       html += '</tr>';
 
       for (let i = 0; i < data.entries.length; i++) {
@@ -2508,7 +3772,7 @@ export class Game {
         const medal = i === 0 ? '🥇' : i === 1 ? '🥈' : i === 2 ? '🥉' : `${i + 1}`;
         const valueStr = type === 'playtime'
           ? this.formatDuration(entry.value)
-          : `${entry.value} 击坠`;
+          : type === 'wave' ? `第 ${entry.value} 波` : `${entry.value} 击坠`;
         html += `<tr style="border-bottom:1px solid #ff6a0015;">`;
         html += `<td style="padding:8px;">${medal}</td>`;
         html += `<td style="padding:8px;">${this.escapeHtml(entry.nickname)}</td>`;
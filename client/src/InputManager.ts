@@ -1,4 +1,13 @@
-import { InputCmd, MessageType, GUN_PITCH_MIN, GUN_PITCH_MAX, TURRET_YAW_MAX } from '@tankgame/shared';
+import {
+  InputCmd,
+  MessageType,
+  GUN_PITCH_MIN,
+  GUN_PITCH_MAX,
+  TURRET_YAW_MAX,
+  AmmoType,
+  AMMO_TYPES,
+  DEFAULT_AMMO_TYPE,
+} from '@tankgame/shared';
 
 /**
  * 输入管理器 — 采集键盘/鼠标输入
@@ -6,7 +15,7 @@ import { InputCmd, MessageType, GUN_PITCH_MIN, GUN_PITCH_MAX, TURRET_YAW_MAX } f
  * 炮塔控制模型（坦克风格）：
  * - mouseX 累计鼠标水平移动 → 世界空间目标朝向
  * - turretYaw = worldYaw - bodyYaw → 相对于车体的炮塔偏转角
- * - 受 ±TURRET_YAW_MAX 限制（270° 总行程）
+ * - 受当前职业的 ±turretYawMax 限制（默认 ±TURRET_YAW_MAX，270° 总行程）
  */
 export class InputManager {
   private keys: Set<string> = new Set();
@@ -20,14 +29,19 @@ export class InputManager {
   private _aiming: boolean = false;
   /** 当前车体朝向（由 Game.ts 每帧更新） */
   private _bodyYaw: number = 0;
+  /** 炮塔最大偏转角（随所驾驶坦克的职业，由 Game.ts 每帧更新） */
+  private _turretYawMax: number = TURRET_YAW_MAX;
   /** 抑制锁定时的首次点击自动开火 */
   private _suppressNextFire: boolean = false;
   /** 外部暂停状态（暂停时不重新锁定指针） */
   private _externalPaused: boolean = false;
+  /** 当前弹种（Q 键循环切换） */
+  private _ammoType: AmmoType = DEFAULT_AMMO_TYPE;
 
   constructor(canvas: HTMLCanvasElement) {
     document.addEventListener('keydown', (e) => {
       this.keys.add(e.code);
+      if (e.code === 'KeyQ' && !e.repeat) this.cycleAmmoType();
     });
 
     document.addEventListener('keyup', (e) => {
@@ -101,7 +115,7 @@ export class InputManager {
 
   /**
    * 采集当前帧的输入命令
-   * turretYaw 为相对于车体的炮塔偏转角（已限幅 ±TURRET_YAW_MAX）
+   * turretYaw 为相对于车体的炮塔偏转角（已限幅 ±turretYawMax）
    */
   sample(): InputCmd {
     // 计算相对于车体的炮塔偏转角并限幅
@@ -109,13 +123,14 @@ export class InputManager {
     // 规范化到 [-π, π]
     while (relTurret > Math.PI) relTurret -= 2 * Math.PI;
     while (relTurret < -Math.PI) relTurret += 2 * Math.PI;
-    // 限幅到 ±TURRET_YAW_MAX
-    if (relTurret > TURRET_YAW_MAX) {
-      relTurret = TURRET_YAW_MAX;
-      this.mouseX = this._bodyYaw + TURRET_YAW_MAX;
-    } else if (relTurret < -TURRET_YAW_MAX) {
-      relTurret = -TURRET_YAW_MAX;
-      this.mouseX = this._bodyYaw - TURRET_YAW_MAX;
+    // 限幅到 ±turretYawMax
+    const yawMax = this._turretYawMax;
+    if (relTurret > yawMax) {
+      relTurret = yawMax;
+      this.mouseX = this._bodyYaw + yawMax;
+    } else if (relTurret < -yawMax) {
+      relTurret = -yawMax;
+      this.mouseX = this._bodyYaw - yawMax;
     }
 
     return {
@@ -129,10 +144,26 @@ export class InputManager {
       gunPitch: -this.mouseY,
       fire: this.mouseDown,
       stabilize: this.rightMouseDown,
+      ammoType: this._ammoType,
       timestamp: performance.now(),
     };
   }
 
+  /**
+   * 切换到下一种弹种
+   */
+  cycleAmmoType(): void {
+    const index = AMMO_TYPES.indexOf(this._ammoType);
+    this._ammoType = AMMO_TYPES[(index + 1) % AMMO_TYPES.length];
+  }
+
+  /**
+   * 获取当前弹种
+   */
+  getAmmoType(): AmmoType {
+    return this._ammoType;
+  }
+
   /**
    * 重置开火状态（单次发射用）
    */
@@ -147,7 +178,14 @@ export class InputManager {
     let rel = this.mouseX - this._bodyYaw;
     while (rel > Math.PI) rel -= 2 * Math.PI;
     while (rel < -Math.PI) rel += 2 * Math.PI;
-    return Math.max(-TURRET_YAW_MAX, Math.min(TURRET_YAW_MAX, rel));
+    return Math.max(-this._turretYawMax, Math.min(this._turretYawMax, rel));
+  }
+
+  /**
+   * 设置炮塔最大偏转角（所驾驶坦克的职业 turretYawMax，与服务端限幅一致）
+   */
+  setTurretYawMax(yawMax: number): void {
+    this._turretYawMax = yawMax;
   }
 
   /**
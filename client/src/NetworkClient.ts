@@ -1,15 +1,66 @@
-import { MessageType } from '@tankgame/shared';
+import {
+  MessageType,
+  WireFormat,
+  SNAPSHOT_BASELINE_WINDOW,
+  INPUT_REDUNDANCY,
+  PROTOCOL_VERSION,
+  CONTENT_VERSION,
+  encodeInputCmd,
+  encodeSnapshotAck,
+  decodeBinaryMessage,
+  applySnapshotDelta,
+  NetworkSimulator,
+} from '@tankgame/shared';
 import type {
   SnapshotMessage,
+  SnapshotDeltaMessage,
+  TankStatics,
+  JoinRoomMessage,
   JoinAckMessage,
   GameEventMessage,
   PongMessage,
   PlayerJoinedMessage,
   PlayerLeftMessage,
   AFKKickMessage,
+  RoomStateMessage,
+  RoundEndMessage,
+  ErrorMessage,
   InputCmd,
+  InputFrame,
+  NetworkConditions,
+  TankClass,
 } from '@tankgame/shared';
 
+/** 没有输入可捎带确认时（死亡/暂停），单独发送快照确认的最小间隔 (ms) */
+const SNAPSHOT_ACK_INTERVAL = 100;
+
+/** 时钟偏移平滑系数（每个 Pong 样本的权重） */
+const CLOCK_OFFSET_SMOOTHING = 0.1;
+
+/** 自动重连首次等待 (ms)，之后每次翻倍 */
+const RECONNECT_BASE_DELAY = 500;
+/** 自动重连最长等待 (ms) */
+const RECONNECT_MAX_DELAY = 8000;
+/** 自动重连最多尝试次数（累计等待约 24 秒，落在服务器断线保留期内） */
+const RECONNECT_MAX_ATTEMPTS = 6;
+/** 主动离开的关闭码（服务器据此立即移除玩家，不保留会话） */
+const CLOSE_NORMAL = 1000;
+/** 只属于当前房间的消息（离开房间后丢弃） */
+const ROOM_MESSAGES: ReadonlySet<number> = new Set([
+  MessageType.Snapshot,
+  MessageType.GameEvent,
+  MessageType.PlayerJoined,
+  MessageType.PlayerLeft,
+  MessageType.RoomState,
+  MessageType.RoundEnd,
+]);
+/** 网络模拟中允许丢弃的消息（与服务器一致：握手、错误、房间状态等关键消息不丢） */
+const DROPPABLE_MESSAGES: ReadonlySet<number> = new Set([
+  MessageType.Snapshot,
+  MessageType.GameEvent,
+  MessageType.Pong,
+]);
+
 type MessageHandler = {
   onJoinAck?: (msg: JoinAckMessage) => void;
   onSnapshot?: (msg: SnapshotMessage) => void;
@@ -18,9 +69,21 @@ type MessageHandler = {
   onPlayerJoined?: (msg: PlayerJoinedMessage) => void;
   onPlayerLeft?: (msg: PlayerLeftMessage) => void;
   onAFKKick?: (msg: AFKKickMessage) => void;
+  /** 房间状态切换（暖场 / 回合中 / 回合结算） */
+  onRoomState?: (msg: RoomStateMessage) => void;
+  /** 回合结算 */
+  onRoundEnd?: (msg: RoundEndMessage) => void;
+  /** 服务器拒绝请求（版本不一致、房间已满等） */
+  onError?: (msg: ErrorMessage) => void;
+  /** 掉线后即将第 attempt 次重连 */
+  onReconnecting?: (attempt: number, delayMs: number) => void;
+  /** 连接关闭且不再重连 */
   onDisconnect?: () => void;
 };
 
+/** 加入哪个房间：新建 / 邀请码 / 房间 ID，全部缺省为快速加入 */
+export type JoinTarget = Pick<JoinRoomMessage, 'roomId' | 'inviteCode' | 'password' | 'createRoom'>;
+
 /**
  * 网络客户端 — WebSocket 通信
  */
@@ -29,40 +92,125 @@ export class NetworkClient {
   private handlers: MessageHandler;
   private rtt: number = 0;
   private pingInterval: ReturnType<typeof setInterval> | null = null;
+  /** 请求的线路编码格式 */
+  private preferredWireFormat: WireFormat;
+  /** 服务器在 JoinAck 中确认的线路编码格式 */
+  private wireFormat: WireFormat = WireFormat.Json;
+  /** 已还原的完整快照（增量基线），按 snapshotId 索引 */
+  private snapshots: Map<number, SnapshotMessage> = new Map();
+  /** 坦克静态字段缓存（nickname / isBot 只在实体首次出现时下发） */
+  private tankStatics: Map<number, TankStatics> = new Map();
+  /** 最新还原成功的快照 ID（随输入捎带确认） */
+  private latestSnapshotId: number = 0;
+  /** 上次发送确认的时间 */
+  private lastAckTime: number = 0;
+  /** 最近发送、服务器尚未处理的输入（随后续输入冗余重发） */
+  private pendingInputs: InputFrame[] = [];
+  /** 服务器时钟偏移：serverTime ≈ performance.now() + clockOffset（null = 尚未估计） */
+  private clockOffset: number | null = null;
+  /** 是否已有 Pong 样本（之前的偏移仅由快照时间戳粗估） */
+  private clockSynced: boolean = false;
+
+  // 断线重连
+  private url: string = '';
+  /** 加入请求参数（重连时原样重发） */
+  private joinParams: { nickname: string; clientId?: string; target: JoinTarget; tankClass?: TankClass } | null = null;
+  /** 服务器下发的重连凭证（null = 尚未加入，掉线后不重连） */
+  private resumeToken: string | null = null;
+  /** 是否在房间中（离开后到下次 JoinAck 之前忽略旧房间的在途消息） */
+  private inRoom: boolean = false;
+  private reconnectAttempt: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  /** 是否由本端主动断开 */
+  private closedByUser: boolean = false;
 
-  constructor(handlers: MessageHandler) {
+  // 网络条件模拟（?netsim=，null = 关闭）
+  private netConditions: NetworkConditions | null;
+  private inboundSim: NetworkSimulator | null = null;
+  private outboundSim: NetworkSimulator | null = null;
+
+  constructor(
+    handlers: MessageHandler,
+    preferredWireFormat: WireFormat = WireFormat.Binary,
+    netConditions: NetworkConditions | null = null
+  ) {
     this.handlers = handlers;
+    this.preferredWireFormat = preferredWireFormat;
+    this.netConditions = netConditions;
   }
 
   /**
    * 连接服务器
    */
   connect(url: string): Promise<void> {
+    this.cancelReconnect();
+    this.url = url;
+    this.closedByUser = false;
+    this.resumeToken = null;
+    return this.open();
+  }
+
+  /**
+   * 建立 WebSocket（首次连接与重连共用）
+   */
+  private open(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.ws = new WebSocket(url);
+      const ws = new WebSocket(this.url);
+      this.ws = ws;
+      ws.binaryType = 'arraybuffer';
+      this.wireFormat = WireFormat.Json;
+      this.snapshots.clear();
+      this.tankStatics.clear();
+      this.latestSnapshotId = 0;
+      this.inRoom = false;
+      this.pendingInputs = [];
+      this.clockOffset = null;
+      this.clockSynced = false;
+      this.createSimulators();
 
-      this.ws.onopen = () => {
+      ws.onopen = () => {
         console.log('[Network] Connected to server');
         this.startPing();
         resolve();
       };
 
-      this.ws.onmessage = (event) => {
+      ws.onmessage = (event) => {
+        // 先解码：网络模拟按消息类型决定能否丢弃
+        let msg: { type: number };
         try {
-          const msg = JSON.parse(event.data);
-          this.dispatchMessage(msg);
+          msg = typeof event.data === 'string'
+            ? JSON.parse(event.data)
+            : decodeBinaryMessage(new Uint8Array(event.data as ArrayBuffer));
         } catch (err) {
           console.error('[Network] parse error:', err);
+          return;
         }
+        const receive = () => {
+          if (this.ws !== ws) return;
+          try {
+            this.dispatchMessage(msg);
+          } catch (err) {
+            console.error('[Network] dispatch error:', err);
+          }
+        };
+        if (this.inboundSim) this.inboundSim.send(receive, DROPPABLE_MESSAGES.has(msg.type));
+        else receive();
       };
 
-      this.ws.onclose = () => {
-        console.log('[Network] Disconnected');
+      ws.onclose = (event) => {
+        // 已被新连接取代
+        if (this.ws !== ws) return;
+        console.log('[Network] Disconnected', event.code);
         this.stopPing();
-        this.handlers.onDisconnect?.();
+        this.ws = null;
+        if (this.shouldReconnect(event.code)) {
+          this.scheduleReconnect();
+        } else {
+          this.handlers.onDisconnect?.();
+        }
       };
 
-      this.ws.onerror = (err) => {
+      ws.onerror = (err) => {
         console.error('[Network] Error:', err);
         reject(err);
       };
@@ -73,19 +221,34 @@ export class NetworkClient {
    * 分发消息到处理器
    */
   private dispatchMessage(msg: { type: number }): void {
+    if (!this.inRoom && ROOM_MESSAGES.has(msg.type)) return;
     switch (msg.type) {
-      case MessageType.JoinAck:
-        this.handlers.onJoinAck?.(msg as unknown as JoinAckMessage);
+      case MessageType.JoinAck: {
+        const ack = msg as unknown as JoinAckMessage;
+        this.inRoom = true;
+        // 旧服务器不回传 wireFormat → 保持 JSON
+        this.wireFormat = ack.wireFormat ?? WireFormat.Json;
+        this.resumeToken = ack.resumeToken ?? null;
+        this.reconnectAttempt = 0;
+        // 恢复会话失败时按邀请码回到同一房间，而不是再新建一个
+        if (this.joinParams) {
+          const { password, createRoom } = this.joinParams.target;
+          this.joinParams.target = { inviteCode: ack.inviteCode, password: password ?? createRoom?.password };
+        }
+        this.handlers.onJoinAck?.(ack);
         break;
+      }
       case MessageType.Snapshot:
-        this.handlers.onSnapshot?.(msg as unknown as SnapshotMessage);
+        this.receiveSnapshot(msg as unknown as SnapshotDeltaMessage);
         break;
       case MessageType.GameEvent:
         this.handlers.onGameEvent?.(msg as unknown as GameEventMessage);
         break;
       case MessageType.Pong:
         const pong = msg as unknown as PongMessage;
-        this.rtt = performance.now() - pong.clientTime;
+        const now = performance.now();
+        this.rtt = now - pong.clientTime;
+        this.updateClockOffset(pong.serverTime + this.rtt / 2 - now);
         this.handlers.onPong?.(pong);
         break;
       case MessageType.PlayerJoined:
@@ -97,42 +260,240 @@ export class NetworkClient {
       case MessageType.AFKKick:
         this.handlers.onAFKKick?.(msg as unknown as AFKKickMessage);
         break;
+      case MessageType.RoomState:
+        this.handlers.onRoomState?.(msg as unknown as RoomStateMessage);
+        break;
+      case MessageType.RoundEnd:
+        this.handlers.onRoundEnd?.(msg as unknown as RoundEndMessage);
+        break;
+      case MessageType.Error:
+        this.handlers.onError?.(msg as unknown as ErrorMessage);
+        break;
     }
   }
 
   /**
-   * 发送加入房间请求
+   * 还原增量快照并确认
    */
-  joinRoom(nickname: string, clientId?: string): void {
-    this.send({ type: MessageType.JoinRoom, nickname, clientId });
+  private receiveSnapshot(delta: SnapshotDeltaMessage): void {
+    let snapshot: SnapshotMessage;
+    try {
+      snapshot = applySnapshotDelta(
+        delta,
+        this.snapshots.get(delta.baselineId ?? 0),
+        this.tankStatics
+      );
+    } catch (err) {
+      // 基线已丢弃：不确认，服务器会在窗口过期后改发关键帧
+      console.warn('[Network] snapshot dropped:', err);
+      return;
+    }
+
+    // 首个 Pong 之前先用快照时间戳粗略估计（忽略单程延迟）
+    if (this.clockOffset === null) {
+      this.clockOffset = snapshot.timestamp - performance.now();
+    }
+
+    this.snapshots.set(snapshot.snapshotId, snapshot);
+    this.pendingInputs = this.pendingInputs.filter((f) => f.seq > snapshot.lastProcessedSeq);
+    for (const id of this.snapshots.keys()) {
+      if (snapshot.snapshotId - id > SNAPSHOT_BASELINE_WINDOW) {
+        this.snapshots.delete(id);
+      }
+    }
+
+    if (snapshot.snapshotId > this.latestSnapshotId) {
+      this.latestSnapshotId = snapshot.snapshotId;
+      if (performance.now() - this.lastAckTime >= SNAPSHOT_ACK_INTERVAL) {
+        this.sendSnapshotAck();
+      }
+    }
+
+    this.handlers.onSnapshot?.(snapshot);
+  }
+
+  /**
+   * 单独发送快照确认
+   */
+  private sendSnapshotAck(): void {
+    const ack = { type: MessageType.SnapshotAck as const, snapshotId: this.latestSnapshotId };
+    if (this.wireFormat === WireFormat.Binary) {
+      this.transmit(encodeSnapshotAck(ack));
+    } else {
+      this.send(ack);
+    }
+    this.lastAckTime = performance.now();
+  }
+
+  /**
+   * 发送加入房间请求（缺省 target 为快速加入）
+   * @param tankClass 初始职业
+   */
+  joinRoom(nickname: string, clientId?: string, target: JoinTarget = {}, tankClass?: TankClass): void {
+    this.joinParams = { nickname, clientId, target, tankClass };
+    this.sendJoin();
   }
 
   /**
-   * 发送输入命令
+   * 选择下次复活时的职业（之后重新加入也沿用）
+   */
+  selectClass(tankClass: TankClass): void {
+    this.send({ type: MessageType.SelectClass, tankClass }, false);
+    if (this.joinParams) this.joinParams.tankClass = tankClass;
+  }
+
+  /**
+   * 发送 JoinRoom（持有重连凭证时请求恢复原会话）
+   */
+  private sendJoin(): void {
+    if (!this.joinParams) return;
+    this.send({
+      type: MessageType.JoinRoom,
+      nickname: this.joinParams.nickname,
+      clientId: this.joinParams.clientId,
+      ...this.joinParams.target,
+      tankClass: this.joinParams.tankClass,
+      wireFormat: this.preferredWireFormat,
+      resumeToken: this.resumeToken ?? undefined,
+      protocolVersion: PROTOCOL_VERSION,
+      contentVersion: CONTENT_VERSION,
+    }, false);
+  }
+
+  /**
+   * 掉线后是否自动重连
+   * 主动断开、尚未加入、服务器以应用关闭码（4xxx：AFK、限流、会话被接管）关闭时不重连
+   */
+  private shouldReconnect(code: number): boolean {
+    if (this.closedByUser || this.resumeToken === null) return false;
+    return code !== CLOSE_NORMAL && (code < 4000 || code > 4999);
+  }
+
+  /**
+   * 按指数退避安排下一次重连；超过次数上限则放弃
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempt >= RECONNECT_MAX_ATTEMPTS) {
+      console.warn('[Network] Reconnect failed, giving up');
+      this.resumeToken = null;
+      this.reconnectAttempt = 0;
+      this.handlers.onDisconnect?.();
+      return;
+    }
+
+    // 加少量随机抖动，避免服务器重启后所有客户端同时重连
+    const backoff = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempt);
+    const delay = backoff * (1 + Math.random() * 0.2);
+    this.reconnectAttempt++;
+    this.handlers.onReconnecting?.(this.reconnectAttempt, delay);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open()
+        .then(() => this.sendJoin())
+        .catch(() => {
+          // 连接失败会触发 onclose，由其继续安排下一次重连
+        });
+    }, delay);
+  }
+
+  /**
+   * 取消待执行的重连
+   */
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+  }
+
+  /**
+   * 发送输入命令（按协商结果选择二进制或 JSON，捎带快照确认与未处理的历史输入）
    */
   sendInput(cmd: InputCmd): void {
-    this.send(cmd);
+    const msg: InputCmd = { ...cmd };
+    if (this.latestSnapshotId) msg.ackSnapshotId = this.latestSnapshotId;
+    if (this.pendingInputs.length > 0) msg.redundant = this.pendingInputs.slice();
+
+    const { type: _type, ackSnapshotId: _ack, redundant: _redundant, ...frame } = cmd;
+    this.pendingInputs.push(frame);
+    if (this.pendingInputs.length > INPUT_REDUNDANCY) this.pendingInputs.shift();
+
+    this.lastAckTime = performance.now();
+    if (this.wireFormat === WireFormat.Binary) {
+      this.transmit(encodeInputCmd(msg));
+      return;
+    }
+    this.send(msg);
   }
 
   /**
    * 发送 JSON 消息
    */
-  private send(data: unknown): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(data));
+  private send(data: unknown, droppable: boolean = true): void {
+    this.transmit(JSON.stringify(data), droppable);
+  }
+
+  /**
+   * 写入 socket（启用网络模拟时经出站模拟器延迟 / 丢弃）
+   */
+  private transmit(data: string | Uint8Array, droppable: boolean = true): void {
+    const ws = this.ws;
+    if (ws?.readyState !== WebSocket.OPEN) return;
+    if (!this.outboundSim) {
+      ws.send(data);
+      return;
     }
+    this.outboundSim.send(() => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(data);
+    }, droppable);
   }
 
   /**
-   * 开始 Ping
+   * 为新连接创建收发两个方向的模拟器（排队中的旧消息随旧 socket 作废）
+   */
+  private createSimulators(): void {
+    if (!this.netConditions) return;
+    const schedule = (fn: () => void, delayMs: number) => {
+      window.setTimeout(fn, delayMs);
+    };
+    const now = () => performance.now();
+    this.inboundSim = new NetworkSimulator(this.netConditions, schedule, now);
+    this.outboundSim = new NetworkSimulator(this.netConditions, schedule, now);
+  }
+
+  /**
+   * 开始 Ping（连接后立即发送一次，尽早完成时钟同步）
    */
   private startPing(): void {
-    this.pingInterval = setInterval(() => {
+    const ping = () => {
       this.send({
         type: MessageType.Ping,
         clientTime: performance.now(),
       });
-    }, 2000);
+    };
+    ping();
+    this.pingInterval = setInterval(ping, 2000);
+  }
+
+  /**
+   * 用 Pong 样本平滑更新时钟偏移
+   */
+  private updateClockOffset(sample: number): void {
+    if (this.clockOffset === null || !this.clockSynced) {
+      this.clockOffset = sample;
+      this.clockSynced = true;
+    } else {
+      this.clockOffset += (sample - this.clockOffset) * CLOCK_OFFSET_SMOOTHING;
+    }
+  }
+
+  /**
+   * 估计的当前服务器时间 (ms, 与快照 timestamp 同一时间轴)
+   */
+  getServerTime(): number {
+    return performance.now() + (this.clockOffset ?? 0);
   }
 
   /**
@@ -152,12 +513,37 @@ export class NetworkClient {
     return this.rtt;
   }
 
+  /**
+   * 离开房间但保持连接（之后可直接 joinRoom 再次加入）
+   */
+  leaveRoom(): void {
+    this.send({ type: MessageType.LeaveRoom }, false);
+    this.inRoom = false;
+    this.joinParams = null;
+    this.resumeToken = null;
+    this.pendingInputs = [];
+    this.snapshots.clear();
+    this.tankStatics.clear();
+    this.latestSnapshotId = 0;
+  }
+
+  /**
+   * 连接是否打开
+   */
+  get connected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
   /**
    * 断开连接
    */
   disconnect(): void {
+    this.inRoom = false;
+    this.closedByUser = true;
+    this.resumeToken = null;
+    this.cancelReconnect();
     this.stopPing();
-    this.ws?.close();
+    this.ws?.close(CLOSE_NORMAL, 'Leave');
     this.ws = null;
   }
 }
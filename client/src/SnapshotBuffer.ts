@@ -0,0 +1,87 @@
+import { SNAPSHOT_BUFFER_SIZE, MAX_EXTRAPOLATION } from '@tankgame/shared';
+import type { SnapshotMessage } from '@tankgame/shared';
+
+/**
+ * 插值采样结果 — 在 from 与 to 之间按 t 插值
+ * t ∈ [0, 1] 为插值；t > 1 表示快照迟到，沿 from→to 方向有限外推
+ */
+export interface SnapshotSample {
+  from: SnapshotMessage;
+  to: SnapshotMessage;
+  t: number;
+}
+
+/**
+ * 快照抖动缓冲区
+ *
+ * 按 snapshotId 排序保存最近的快照，以服务器时间戳为时间轴采样：
+ * 渲染时刻固定落后服务器时间 INTERPOLATION_DELAY，
+ * 使到达时间的抖动不再直接反映为画面卡顿。
+ */
+export class SnapshotBuffer {
+  private snapshots: SnapshotMessage[] = [];
+  private readonly capacity: number;
+
+  constructor(capacity: number = SNAPSHOT_BUFFER_SIZE) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * 加入新快照（乱序到达时按 snapshotId 插入，重复的丢弃）
+   */
+  push(snapshot: SnapshotMessage): void {
+    let i = this.snapshots.length;
+    while (i > 0 && this.snapshots[i - 1].snapshotId > snapshot.snapshotId) i--;
+    if (i > 0 && this.snapshots[i - 1].snapshotId === snapshot.snapshotId) return;
+    this.snapshots.splice(i, 0, snapshot);
+
+    if (this.snapshots.length > this.capacity) {
+      this.snapshots.shift();
+    }
+  }
+
+  /**
+   * 清空（换房间 / 断线）
+   */
+  clear(): void {
+    this.snapshots = [];
+  }
+
+  /**
+   * 缓冲快照数
+   */
+  get size(): number {
+    return this.snapshots.length;
+  }
+
+  /**
+   * 在指定服务器时间采样
+   * @param renderTime 渲染时刻（服务器时钟，ms）
+   */
+  sample(renderTime: number): SnapshotSample | null {
+    const list = this.snapshots;
+    if (list.length === 0) return null;
+
+    const first = list[0];
+    if (list.length === 1 || renderTime <= first.timestamp) {
+      return { from: first, to: first, t: 0 };
+    }
+
+    for (let i = list.length - 1; i > 0; i--) {
+      const from = list[i - 1];
+      const to = list[i];
+      if (renderTime >= from.timestamp && renderTime <= to.timestamp) {
+        const span = to.timestamp - from.timestamp;
+        return { from, to, t: span > 0 ? (renderTime - from.timestamp) / span : 1 };
+      }
+    }
+
+    // 渲染时刻已超过最新快照：沿最后两帧的方向外推，最多 MAX_EXTRAPOLATION
+    const from = list[list.length - 2];
+    const to = list[list.length - 1];
+    const span = to.timestamp - from.timestamp;
+    if (span <= 0) return { from: to, to, t: 0 };
+    const overshoot = Math.min(renderTime - to.timestamp, MAX_EXTRAPOLATION);
+    return { from, to, t: 1 + overshoot / span };
+  }
+}
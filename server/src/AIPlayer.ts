@@ -1,13 +1,28 @@
-import { Vec3, MessageType } from '@tankgame/shared';
+import {
+  Vec3,
+  MessageType,
+  FlagState,
+  Team,
+  isSameTeam,
+  getFlagBasePosition,
+  getControlPointPosition,
+  TANK_CLASSES,
+} from '@tankgame/shared';
 import {
   MUZZLE_VELOCITY,
   GRAVITY,
   GUN_PITCH_MIN,
   GUN_PITCH_MAX,
   TICK_INTERVAL,
-  TURRET_YAW_MAX,
+  CONTROL_POINT_RADIUS,
+} from '@tankgame/shared';
+import type {
+  InputCmd,
+  FlagSnapshot,
+  ControlPointSnapshot,
+  SafeZoneSnapshot,
+  TankClass,
 } from '@tankgame/shared';
-import type { InputCmd } from '@tankgame/shared';
 import { Player } from './Player.js';
 import { normalizeAngle } from '@tankgame/shared';
 
@@ -21,6 +36,21 @@ enum AIState {
   Retreat,  // 撤退：受伤后后退找掩体
 }
 
+/**
+ * 模式目标状态（取自世界快照；个人混战与团队死斗为空）
+ */
+export interface AIObjectives {
+  /** 夺旗模式的旗帜 */
+  flags?: readonly FlagSnapshot[];
+  /** 占点模式的控制点 */
+  controlPoints?: readonly ControlPointSnapshot[];
+  /** 大逃杀安全区 */
+  zone?: SafeZoneSnapshot | null;
+}
+
+/** 大逃杀：距安全区中心超过半径的该比例即返回圈内 */
+const ZONE_EDGE_RATIO = 0.8;
+
 /**
  * AI 难度配置
  */
@@ -120,24 +150,52 @@ export class AIPlayer {
 
   /**
    * 创建 AI 玩家（工厂方法）
+   * @param tankClass 职业（缺省随机）
    */
-  static create(playerId: number, difficulty: string = 'normal'): { player: Player; ai: AIPlayer } {
+  static create(
+    playerId: number,
+    difficulty: string = 'normal',
+    tankClass: TankClass = TANK_CLASSES[Math.floor(Math.random() * TANK_CLASSES.length)]
+  ): { player: Player; ai: AIPlayer } {
     const name = AI_NAMES[AIPlayer.nameIndex % AI_NAMES.length];
     AIPlayer.nameIndex++;
     const diffConfig = AI_DIFFICULTIES[difficulty] ?? AI_DIFFICULTIES.normal;
     const player = new Player(playerId, `[BOT] ${name}`);
     player.isBot = true;
+    player.setTankClass(tankClass);
     const ai = new AIPlayer(player, diffConfig);
     return { player, ai };
   }
 
   /**
    * 每 tick 更新 AI 逻辑，生成并注入输入命令
+   * @param objectives 夺旗 / 占点模式的目标状态
    */
-  update(allPlayers: Map<number, Player>, mapWidth: number, mapDepth: number): void {
-    if (!this.player.alive) return;
+  update(
+    allPlayers: Map<number, Player>,
+    mapWidth: number,
+    mapDepth: number,
+    objectives: AIObjectives = {}
+  ): void {
+    const cmd = this.decide(allPlayers, mapWidth, mapDepth, TICK_INTERVAL, objectives);
+    if (cmd) this.player.pushInput(cmd);
+  }
 
-    const dt = TICK_INTERVAL;
+  /**
+   * 推进 AI 决策并返回输入命令（不注入队列）
+   * 服务器内置机器人经 update() 每 tick 调用；无头客户端按自己的发送间隔调用并自行发送
+   * @param dt 距上次决策的时间 (ms)
+   * @param objectives 夺旗 / 占点模式的目标状态
+   * @returns 输入命令；己方坦克阵亡时返回 null
+   */
+  decide(
+    allPlayers: Map<number, Player>,
+    mapWidth: number,
+    mapDepth: number,
+    dt: number = TICK_INTERVAL,
+    objectives: AIObjectives = {}
+  ): InputCmd | null {
+    if (!this.player.alive) return null;
 
     // 找到最近的活着的敌人
     const target = this.findNearestEnemy(allPlayers);
@@ -183,12 +241,32 @@ export class AIPlayer {
           // 面向敌人后退
           this.updateAimAt(target, dt);
         }
-        if (this.player.hp > 60) {
+        if (this.player.hp > this.player.stats.maxHp * 0.6) {
           this.state = AIState.Patrol;
         }
         break;
     }
 
+    // 模式目标：携旗时无论交战与否都返回基地；其余情况只取代巡逻与追击的移动
+    const flags = objectives.flags ?? [];
+    const points = objectives.controlPoints ?? [];
+    const objective = this.getFlagObjective(flags, mapWidth) ?? this.getControlPointObjective(points);
+    if (objective && (this.isCarryingFlag(flags) || this.state === AIState.Patrol || this.state === AIState.Chase)) {
+      // 进入控制点中心区域后原地停留，避免绕圈驶出圈外
+      const holding = points.length > 0 && this.reachedTarget(objective, CONTROL_POINT_RADIUS / 2);
+      ({ forward, turnLeft, turnRight } = holding
+        ? { forward: false, turnLeft: false, turnRight: false }
+        : this.moveToward(objective));
+      backward = false;
+    }
+
+    // 安全区：靠近圈边或在圈外时无论交战与否都驶向圈中心
+    const zoneObjective = this.getZoneObjective(objectives.zone ?? null);
+    if (zoneObjective) {
+      ({ forward, turnLeft, turnRight } = this.moveToward(zoneObjective));
+      backward = false;
+    }
+
     // 卡住检测
     this.detectStuck(dt);
 
@@ -202,8 +280,9 @@ export class AIPlayer {
     const aimYawWithSpread = this.currentAimYaw + (Math.random() - 0.5) * spread;
     const aimPitchWithSpread = this.currentAimPitch + (Math.random() - 0.5) * spread * 0.5;
 
-    // 限幅炮塔偏转角到 ±TURRET_YAW_MAX
-    const clampedTurretYaw = Math.max(-TURRET_YAW_MAX, Math.min(TURRET_YAW_MAX, aimYawWithSpread));
+    // 限幅炮塔偏转角到职业的 ±turretYawMax
+    const yawMax = this.player.stats.turretYawMax;
+    const clampedTurretYaw = Math.max(-yawMax, Math.min(yawMax, aimYawWithSpread));
 
     // 生成输入命令
     const cmd: InputCmd = {
@@ -220,7 +299,7 @@ export class AIPlayer {
       timestamp: Date.now(),
     };
 
-    this.player.pushInput(cmd);
+    return cmd;
   }
 
   /**
@@ -234,7 +313,7 @@ export class AIPlayer {
     }
 
     // 受伤严重时撤退
-    if (this.player.hp < 30 && dist < 30) {
+    if (this.player.hp < this.player.stats.maxHp * 0.3 && dist < 30) {
       this.state = AIState.Retreat;
       return;
     }
@@ -319,7 +398,7 @@ export class AIPlayer {
     const dz = target.position.z - this.player.position.z;
     const targetWorldYaw = Math.atan2(-dx, -dz);
     const targetRelYaw = normalizeAngle(targetWorldYaw - this.player.bodyYaw);
-    const turretMargin = TURRET_YAW_MAX * 0.85; // 留15%余量
+    const turretMargin = this.player.stats.turretYawMax * 0.85; // 留15%余量
     if (Math.abs(targetRelYaw) > turretMargin) {
       // 需要转动车体使目标回到炮塔行程内
       if (targetRelYaw > 0) turnLeft = true;
@@ -377,7 +456,8 @@ export class AIPlayer {
     // 目标 turretYaw = targetAimYaw - bodyYaw
     const targetTurretYaw = normalizeAngle(this.targetAimYaw - this.player.bodyYaw);
     // 限幅到合法范围
-    const clampedTarget = Math.max(-TURRET_YAW_MAX, Math.min(TURRET_YAW_MAX, targetTurretYaw));
+    const yawMax = this.player.stats.turretYawMax;
+    const clampedTarget = Math.max(-yawMax, Math.min(yawMax, targetTurretYaw));
     const yawDiff = normalizeAngle(clampedTarget - this.currentAimYaw);
     if (Math.abs(yawDiff) <= maxStep) {
       this.currentAimYaw = clampedTarget;
@@ -387,7 +467,7 @@ export class AIPlayer {
       );
     }
     // 确保最终值在限幅范围内
-    this.currentAimYaw = Math.max(-TURRET_YAW_MAX, Math.min(TURRET_YAW_MAX, this.currentAimYaw));
+    this.currentAimYaw = Math.max(-yawMax, Math.min(yawMax, this.currentAimYaw));
 
     // Pitch
     const pitchDiff = this.targetAimPitch - this.currentAimPitch;
@@ -421,6 +501,62 @@ export class AIPlayer {
     return { forward: true, turnLeft, turnRight };
   }
 
+  /**
+   * 夺旗模式的移动目标（null = 按常规行为）
+   * 优先级：携旗回基地 > 交还己方掉落的旗帜 > 夺取敌方旗帜 > 追击夺走己方旗帜的敌人 > 护送携旗队友
+   */
+  getFlagObjective(flags: readonly FlagSnapshot[], mapWidth: number): Vec3 | null {
+    if (this.player.team === Team.None || flags.length === 0) return null;
+    const own = flags.find((f) => f.team === this.player.team);
+    const enemy = flags.find((f) => f.team !== this.player.team);
+
+    if (enemy?.carrierId === this.player.id) return getFlagBasePosition(this.player.team, mapWidth);
+    if (own?.state === FlagState.Dropped) return own.position;
+    if (enemy && enemy.state !== FlagState.Carried) return enemy.position;
+    if (own?.state === FlagState.Carried) return own.position;
+    return enemy?.position ?? null;
+  }
+
+  /**
+   * 占点模式的移动目标：最近的未被己方稳固占领的控制点（全部稳固时为 null，按常规行为索敌）
+   */
+  getControlPointObjective(points: readonly ControlPointSnapshot[]): Vec3 | null {
+    if (this.player.team === Team.None) return null;
+
+    let nearest: Vec3 | null = null;
+    let minDist = Infinity;
+    for (const point of points) {
+      const secured =
+        point.owner === this.player.team &&
+        point.capturingTeam === this.player.team &&
+        point.progress >= 1;
+      if (secured) continue;
+      const center = getControlPointPosition(point.id);
+      const d = this.horizontalDist(this.player.position, center);
+      if (d < minDist) {
+        minDist = d;
+        nearest = center;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * 大逃杀的移动目标：靠近安全区边缘或已在圈外时返回圈中心（null = 按常规行为）
+   */
+  getZoneObjective(zone: SafeZoneSnapshot | null): Vec3 | null {
+    if (!zone) return null;
+    const dist = this.horizontalDist(this.player.position, zone.center);
+    return dist > zone.radius * ZONE_EDGE_RATIO ? zone.center : null;
+  }
+
+  /**
+   * 是否正携带敌方旗帜
+   */
+  private isCarryingFlag(flags: readonly FlagSnapshot[]): boolean {
+    return flags.some((f) => f.carrierId === this.player.id);
+  }
+
   /**
    * 找到最近的活着的敌人
    */
@@ -430,6 +566,7 @@ export class AIPlayer {
 
     for (const p of allPlayers.values()) {
       if (p.id === this.player.id || !p.alive) continue;
+      if (isSameTeam(p.team, this.player.team)) continue;
       const d = this.horizontalDist(this.player.position, p.position);
       if (d < minDist) {
         minDist = d;
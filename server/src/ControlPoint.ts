@@ -0,0 +1,71 @@
+import { Team, CONTROL_POINT_CAPTURE_TIME } from '@tankgame/shared';
+import type { ControlPointSnapshot, Vec3 } from '@tankgame/shared';
+
+/**
+ * 服务器端控制点实体（占点模式）
+ *
+ * 只有一队坦克在圈内时推进进度：先清空对方进度（中立化），再从零占领；
+ * 多队同时在圈内为争夺，进度冻结；无人时已占领的点回满，中立点进度回落。
+ */
+export class ControlPoint {
+  readonly id: number;
+  /** 中心（已按地形修正高度） */
+  readonly center: Vec3;
+  readonly radius: number;
+
+  owner: Team = Team.None;
+  /** 当前进度所属队伍 */
+  capturingTeam: Team = Team.None;
+  /** 占领进度 0-1 */
+  progress: number = 0;
+
+  constructor(id: number, center: Vec3, radius: number) {
+    this.id = id;
+    this.center = center.clone();
+    this.radius = radius;
+  }
+
+  /**
+   * 推进一帧
+   * @param presentTeams 圈内存活坦克所属的队伍（去重）
+   */
+  update(presentTeams: readonly Team[], dtMs: number): void {
+    if (presentTeams.length > 1) return;
+
+    const step = dtMs / CONTROL_POINT_CAPTURE_TIME;
+    const team = presentTeams[0] ?? this.owner;
+
+    if (team === Team.None) {
+      // 中立点无人：未完成的占领进度回落
+      this.progress = Math.max(0, this.progress - step);
+      if (this.progress === 0) this.capturingTeam = Team.None;
+      return;
+    }
+
+    if (this.capturingTeam === team || this.progress === 0) {
+      this.capturingTeam = team;
+      this.progress = Math.min(1, this.progress + step);
+      if (this.progress === 1) this.owner = team;
+      return;
+    }
+
+    // 先抵消对方进度，归零时原占领方失去该点
+    this.progress = Math.max(0, this.progress - step);
+    if (this.progress === 0) {
+      this.owner = Team.None;
+      this.capturingTeam = team;
+    }
+  }
+
+  /**
+   * 获取快照数据
+   */
+  toSnapshot(): ControlPointSnapshot {
+    return {
+      id: this.id,
+      owner: this.owner,
+      capturingTeam: this.capturingTeam,
+      progress: this.progress,
+    };
+  }
+}
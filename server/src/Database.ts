@@ -77,6 +77,17 @@ export class GameDatabase {
 
       CREATE INDEX IF NOT EXISTS idx_sessions_client ON sessions(client_id);
       CREATE INDEX IF NOT EXISTS idx_sessions_start ON sessions(start_time);
+
+      CREATE TABLE IF NOT EXISTS coop_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        client_id TEXT NOT NULL,
+        nickname TEXT NOT NULL DEFAULT 'Player',
+        wave INTEGER NOT NULL,
+        ended_at INTEGER NOT NULL,
+        FOREIGN KEY (client_id) REFERENCES players(client_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_coop_runs_ended ON coop_runs(ended_at);
     `);
   }
 
@@ -145,14 +156,25 @@ export class GameDatabase {
   }
 
   /**
-   * 获取排行榜 — 按游玩时长或击坠数排名
-   * @param type 'playtime' | 'kills'
+   * 记录一局合作模式的到达波次（玩家信息取自会话）
+   */
+  recordCoopRun(sessionId: number, wave: number): void {
+    const insert = this.db.prepare(`
+      INSERT INTO coop_runs (client_id, nickname, wave, ended_at)
+      SELECT client_id, nickname, ?, ? FROM sessions WHERE id = ?
+    `);
+    insert.run(wave, Date.now(), sessionId);
+  }
+
+  /**
+   * 获取排行榜 — 按游玩时长、击坠数或合作模式最高波次排名
+   * @param type 'playtime' | 'kills' | 'wave'
    * @param period 'daily' | 'weekly' | 'alltime'
    * @param limit 返回条目数（上限50）
    */
   getLeaderboard(type: string, period: string, limit: number = 20): LeaderboardEntry[] {
     // 输入验证
-    if (type !== 'playtime' && type !== 'kills') type = 'playtime';
+    if (type !== 'playtime' && type !== 'kills' && type !== 'wave') type = 'playtime';
     if (period !== 'daily' && period !== 'weekly' && period !== 'alltime') period = 'weekly';
     limit = Math.max(1, Math.min(50, limit));
 
@@ -167,6 +189,22 @@ export class GameDatabase {
     }
     // alltime → minTime = 0，不过滤
 
+    if (type === 'wave') {
+      const stmt = this.db.prepare(`
+        SELECT
+          r.client_id,
+          r.nickname,
+          MAX(r.wave) as value
+        FROM coop_runs r
+        WHERE r.ended_at >= ?
+        GROUP BY r.client_id
+        HAVING value > 0
+        ORDER BY value DESC
+        LIMIT ?
+      `);
+      return stmt.all(minTime, limit) as LeaderboardEntry[];
+    }
+
     const valueExpr = type === 'playtime'
       ? 'SUM(COALESCE(s.duration_ms, 0))'
       : 'SUM(COALESCE(s.kills, 0))';
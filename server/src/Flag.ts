@@ -0,0 +1,66 @@
+import { Vec3, FlagState, FLAG_RETURN_TIME } from '@tankgame/shared';
+import type { FlagSnapshot, Team } from '@tankgame/shared';
+
+/**
+ * 服务器端旗帜实体（夺旗模式，每队一面）
+ */
+export class Flag {
+  /** 旗帜所属队伍 */
+  readonly team: Team;
+  /** 基地位置（已按地形修正高度） */
+  readonly basePosition: Vec3;
+
+  position: Vec3;
+  state: FlagState = FlagState.AtBase;
+  /** 携旗者（未被携带为 null） */
+  carrierId: number | null = null;
+  /** 掉落后距自动回到基地的剩余时间 (ms) */
+  returnTimer: number = 0;
+
+  constructor(team: Team, basePosition: Vec3) {
+    this.team = team;
+    this.basePosition = basePosition.clone();
+    this.position = basePosition.clone();
+  }
+
+  /**
+   * 被敌方坦克拾取
+   */
+  pickUp(playerId: number): void {
+    this.state = FlagState.Carried;
+    this.carrierId = playerId;
+    this.returnTimer = 0;
+  }
+
+  /**
+   * 携旗者阵亡或离开，旗帜掉落在原地
+   */
+  drop(pos: Vec3): void {
+    this.state = FlagState.Dropped;
+    this.carrierId = null;
+    this.position = pos.clone();
+    this.returnTimer = FLAG_RETURN_TIME;
+  }
+
+  /**
+   * 回到基地（交还、夺旗得分或超时回收）
+   */
+  returnToBase(): void {
+    this.state = FlagState.AtBase;
+    this.carrierId = null;
+    this.position = this.basePosition.clone();
+    this.returnTimer = 0;
+  }
+
+  /**
+   * 获取快照数据
+   */
+  toSnapshot(): FlagSnapshot {
+    return {
+      team: this.team,
+      state: this.state,
+      position: this.position.clone(),
+      carrierId: this.carrierId,
+    };
+  }
+}
@@ -1,26 +1,79 @@
 import {
   RoomState,
-  ROUND_DURATION,
+  ROUND_END_DELAY,
   MIN_PLAYERS,
-  MAX_PLAYERS,
   TICK_INTERVAL,
   MessageType,
   AFK_TIMEOUT,
   AFK_CHECK_INTERVAL,
+  RECONNECT_GRACE_PERIOD,
+  INVITE_CODE_LENGTH,
+  INVITE_CODE_ALPHABET,
+  WireFormat,
+  GameMode,
+  Team,
+  TEAMS,
+  DOMINATION_SCORE_TARGET,
+  COOP_MAX_BOTS,
+  WavePhase,
+  DEFAULT_ROOM_SETTINGS,
+  DEFAULT_TANK_CLASS,
+  isTeamMode,
+  encodeSnapshot,
+  encodeGameEvent,
 } from '@tankgame/shared';
 import type {
   InputCmd,
   GameEvent,
   GameEventMessage,
   PlayerScore,
+  RoomInfo,
+  RoomSettings,
+  RoomStateMessage,
+  RoundEndMessage,
+  TankClass,
 } from '@tankgame/shared';
 import { Player } from './Player.js';
 import { GameWorld } from './GameWorld.js';
 import { AIPlayer } from './AIPlayer.js';
+import { getWaveBotCount, getWaveDifficulty } from './WaveManager.js';
+import { SnapshotHistory } from './SnapshotHistory.js';
 
 export interface RoomClient {
   playerId: number;
-  send(data: string): void;
+  /** 线路编码格式（缺省 JSON）；二进制客户端的快照与事件以二进制帧发送 */
+  wireFormat?: WireFormat;
+  send(data: string | Uint8Array): void;
+}
+
+/**
+ * 房间创建选项
+ */
+export interface RoomOptions {
+  /** 私人房间：不出现在房间列表，快速加入跳过 */
+  isPrivate?: boolean;
+  /** 邀请码（由 GameServer 分配以保证全服唯一；缺省随机生成） */
+  inviteCode?: string;
+  /** 加入密码（缺省不设密码） */
+  password?: string;
+  /** 比赛设置（已校验；缺省 DEFAULT_ROOM_SETTINGS） */
+  settings?: RoomSettings;
+}
+
+/** 合作模式中真人所在的队伍 */
+const COOP_HUMAN_TEAM = Team.Blue;
+/** 合作模式中 AI 所在的队伍 */
+const COOP_BOT_TEAM = Team.Red;
+
+/**
+ * 生成随机邀请码
+ */
+export function generateInviteCode(): string {
+  let code = '';
+  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+    code += INVITE_CODE_ALPHABET[Math.floor(Math.random() * INVITE_CODE_ALPHABET.length)];
+  }
+  return code;
 }
 
 /**
@@ -28,14 +81,24 @@ export interface RoomClient {
  */
 export class GameRoom {
   readonly id: string;
+  readonly inviteCode: string;
+  readonly isPrivate: boolean;
+  readonly settings: Readonly<RoomSettings>;
+  private password: string | null;
   state: RoomState = RoomState.Warmup;
   world: GameWorld;
   clients: Map<number, RoomClient> = new Map();
+  /** 每个客户端的快照历史（增量压缩基线） */
+  private snapshotHistories: Map<number, SnapshotHistory> = new Map();
 
   private roundTimer: number = 0; // 回合已用时间 (ms)
   private tickTimer: ReturnType<typeof setInterval> | null = null;
   private nextPlayerId: number = 1;
-  private roundDuration: number = ROUND_DURATION * 1000;
+  private roundDuration: number;
+  /** 回合结算后开始下一回合的定时器 */
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  /** 下一回合开始时间 (Date.now 时间轴，仅 RoundEnd 状态有效) */
+  private nextRoundAt: number = 0;
 
   // AI 玩家
   private aiBots: Map<number, AIPlayer> = new Map();
@@ -45,33 +108,49 @@ export class GameRoom {
   private lastInputTime: Map<number, number> = new Map();
   private lastAFKCheck: number = 0;
 
-  /** AFK 踢出回调（由 GameServer 注册，用于清理 WebSocket 映射） */
-  onPlayerKicked?: (playerId: number) => void;
+  // 断线保留：playerId → 保留截止时间
+  private heldPlayers: Map<number, number> = new Map();
+
+  /** AFK 踢出回调（移出世界后调用，由 GameServer 注册，用于结算会话、清理 WebSocket 映射） */
+  onPlayerKicked?: (playerId: number, player: Player | undefined) => void;
+  /** 断线保留期满回调（移出世界后调用，由 GameServer 注册，用于结算会话、作废重连凭证） */
+  onPlayerExpired?: (playerId: number, player: Player | undefined) => void;
+  /** 合作模式一局结束回调（由 GameServer 注册，用于记录最高波次） */
+  onCoopRunEnded?: (wave: number, playerIds: number[]) => void;
 
-  constructor(id: string, mapSeed?: number) {
+  constructor(id: string, mapSeed?: number, options: RoomOptions = {}) {
     this.id = id;
-    this.world = new GameWorld(mapSeed ?? Date.now());
-    // 用 AI 填充到 MAX_PLAYERS
+    this.inviteCode = options.inviteCode ?? generateInviteCode();
+    this.isPrivate = options.isPrivate ?? false;
+    this.password = options.password || null;
+    this.settings = options.settings ?? DEFAULT_ROOM_SETTINGS;
+    this.roundDuration = this.settings.roundDuration * 1000;
+    this.world = new GameWorld(mapSeed ?? this.nextMapSeed(), undefined, this.settings);
+    // 按设置添加 AI
     this.fillWithAIBots();
   }
 
   /**
    * 添加玩家
+   * @param tankClass 初始职业
    */
-  addPlayer(client: RoomClient, nickname: string): Player | null {
-    // 如果满员（含 AI），先移除一个 AI 腾出位置
-    if (this.world.players.size >= MAX_PLAYERS) {
-      if (this.aiBots.size > 0) {
-        const firstBotId = this.aiBots.keys().next().value!;
-        this.removeAIBot(firstBotId);
-      } else {
-        return null;
-      }
+  addPlayer(client: RoomClient, nickname: string, tankClass: TankClass = DEFAULT_TANK_CLASS): Player | null {
+    // 如果满员（含 AI），先移除一个 AI 腾出位置（团队模式从人数较多的一队移除）
+    // 合作模式的 AI 另有上限，不占用真人名额
+    if (this.settings.mode === GameMode.Coop) {
+      if (this.isFull()) return null;
+    } else if (this.world.players.size >= this.settings.maxPlayers) {
+      const botId = this.pickBotToReplace();
+      if (botId === null) return null;
+      this.removeAIBot(botId);
     }
 
     const player = new Player(this.nextPlayerId++, nickname);
+    player.team = this.pickTeam();
+    player.setTankClass(tankClass);
     this.world.addPlayer(player);
     this.clients.set(player.id, client);
+    this.snapshotHistories.set(player.id, new SnapshotHistory());
     client.playerId = player.id;
 
     // 记录最后输入时间（AFK 检测）
@@ -88,9 +167,7 @@ export class GameRoom {
     // 确保 tick 循环运行（暖场中也需要发送快照让玩家能看到自己）
     this.startTickLoop();
 
-    // 有 AI 时，1 人即可开始；否则需要 MIN_PLAYERS
-    const totalPlayers = this.clients.size + this.aiBots.size;
-    if (this.state === RoomState.Warmup && totalPlayers >= MIN_PLAYERS) {
+    if (this.state === RoomState.Warmup && this.hasEnoughPlayers()) {
       this.startRound();
     }
 
@@ -106,6 +183,8 @@ export class GameRoom {
 
     this.world.removePlayer(playerId);
     this.clients.delete(playerId);
+    this.heldPlayers.delete(playerId);
+    this.snapshotHistories.delete(playerId);
     this.lastInputTime.delete(playerId);
 
     // 广播玩家离开通知
@@ -115,47 +194,168 @@ export class GameRoom {
       nickname,
     });
 
-    // 人数不足时回到暖场
-    if (this.state === RoomState.InRound && this.clients.size < MIN_PLAYERS) {
-      this.state = RoomState.Warmup;
-    }
-
-    // 无人时停止 tick 循环
-    if (this.clients.size === 0) {
+    // 无人（含断线保留）时停止 tick 循环
+    if (this.isEmpty()) {
       this.stopTickLoop();
     }
 
-    // 用 AI 补充到 MAX_PLAYERS
+    // 按设置补回 AI
     this.fillWithAIBots();
+
+    // 人数不足时回到暖场（与 addPlayer 的开战条件一致：AI 也计入）
+    if (this.state === RoomState.InRound && !this.hasEnoughPlayers()) {
+      this.world.stopBattleRoyale();
+      this.abandonCoopRun(playerId);
+      this.setState(RoomState.Warmup);
+    }
+  }
+
+  /**
+   * 合作模式真人全部离开：按最后离开的玩家记录本局波次，清掉波次 AI 与进度，下一位加入者重新开局
+   */
+  private abandonCoopRun(lastPlayerId: number): void {
+    if (!this.world.waves) return;
+    this.onCoopRunEnded?.(this.world.waves.wave, [lastPlayerId]);
+    this.removeAllAIBots();
+    this.world.stopCoop();
+  }
+
+  /**
+   * 连接断开 — 坦克与战绩保留 RECONNECT_GRACE_PERIOD，期满后移除
+   */
+  disconnectPlayer(playerId: number): void {
+    if (!this.clients.has(playerId)) return;
+
+    this.clients.delete(playerId);
+    this.snapshotHistories.delete(playerId);
+    this.lastInputTime.delete(playerId);
+    this.world.players.get(playerId)?.clearInput();
+    this.heldPlayers.set(playerId, Date.now() + RECONNECT_GRACE_PERIOD);
+  }
+
+  /**
+   * 断线重连 — 把保留中的玩家绑定到新连接
+   * @returns 恢复的玩家；不在保留期内时返回 null
+   */
+  reconnectPlayer(playerId: number, client: RoomClient): Player | null {
+    const player = this.world.players.get(playerId);
+    if (!player || !this.heldPlayers.has(playerId)) return null;
+
+    this.heldPlayers.delete(playerId);
+    this.clients.set(playerId, client);
+    // 新连接没有任何基线，下一帧发送关键帧
+    this.snapshotHistories.set(playerId, new SnapshotHistory());
+    this.lastInputTime.set(playerId, Date.now());
+    client.playerId = playerId;
+
+    this.startTickLoop();
+    return player;
+  }
+
+  /**
+   * 是否处于断线保留中
+   */
+  isHeld(playerId: number): boolean {
+    return this.heldPlayers.has(playerId);
+  }
+
+  /**
+   * 选择职业（下次复活时生效）
+   */
+  selectTankClass(playerId: number, tankClass: TankClass): void {
+    this.world.players.get(playerId)?.selectClass(tankClass);
   }
 
   /**
    * 处理玩家输入
    */
   handleInput(playerId: number, cmd: InputCmd): void {
-    const player = this.world.players.get(playerId);
-    if (player && player.alive) {
-      player.pushInput(cmd);
+    // 阵亡时同样交给玩家推进已收到的 seq（不入队）
+    this.world.players.get(playerId)?.receiveInput(cmd);
+    if (cmd.ackSnapshotId) {
+      this.acknowledgeSnapshot(playerId, cmd.ackSnapshotId);
     }
     // 更新最后输入时间（AFK 检测）
     this.lastInputTime.set(playerId, Date.now());
   }
 
+  /**
+   * 处理快照确认（确认的快照成为后续增量的基线）
+   */
+  acknowledgeSnapshot(playerId: number, snapshotId: number): void {
+    this.snapshotHistories.get(playerId)?.acknowledge(snapshotId);
+  }
+
   /**
    * 开始回合
    */
   startRound(): void {
-    this.state = RoomState.InRound;
     this.roundTimer = 0;
 
     // 重置所有玩家统计
     for (const player of this.world.players.values()) {
       player.resetStats();
     }
+    this.world.startBattleRoyale();
+    this.world.startCoop();
 
+    this.setState(RoomState.InRound);
     this.startTickLoop();
   }
 
+  /**
+   * 当前状态剩余时间 (ms)：回合中为回合剩余时间，回合结算为距下一回合的倒计时，暖场为 0
+   */
+  getTimeRemaining(): number {
+    switch (this.state) {
+      case RoomState.InRound:
+        // 合作模式不限时
+        if (this.settings.mode === GameMode.Coop) return 0;
+        return Math.max(0, this.roundDuration - this.roundTimer);
+      case RoomState.RoundEnd:
+        return Math.max(0, this.nextRoundAt - Date.now());
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * 房间状态消息（状态切换时广播）
+   */
+  getRoomState(): RoomStateMessage {
+    return {
+      type: MessageType.RoomState,
+      state: this.state,
+      timeRemaining: this.getTimeRemaining(),
+      mapSeed: this.world.map.seed,
+    };
+  }
+
+  /**
+   * 房间列表项（房间浏览器）
+   */
+  getInfo(): RoomInfo {
+    return {
+      roomId: this.id,
+      state: this.state,
+      humans: this.clients.size + this.heldPlayers.size,
+      bots: this.aiBots.size,
+      mode: this.settings.mode,
+      maxPlayers: this.settings.maxPlayers,
+      locked: this.hasPassword(),
+      mapSeed: this.world.map.seed,
+      timeRemaining: this.getTimeRemaining(),
+    };
+  }
+
+  /**
+   * 切换房间状态并通知所有客户端
+   */
+  private setState(state: RoomState): void {
+    this.state = state;
+    this.broadcastJSON(this.getRoomState());
+  }
+
   /**
    * 启动 Tick 循环
    */
@@ -182,13 +382,24 @@ export class GameRoom {
    */
   tick(): void {
     // AI 更新（在世界模拟前注入输入）
+    const objectives = {
+      flags: this.world.getFlagSnapshots(),
+      controlPoints: this.world.getControlPointSnapshots(),
+      zone: this.world.safeZone?.toSnapshot() ?? null,
+    };
     for (const bot of this.aiBots.values()) {
-      bot.update(this.world.players, this.world.map.width, this.world.map.depth);
+      bot.update(this.world.players, this.world.map.width, this.world.map.depth, objectives);
     }
 
     // 世界模拟
     const events = this.world.update();
 
+    // 合作模式波次推进
+    if (this.state === RoomState.InRound) this.updateWaves();
+
+    // 断线保留期满的玩家
+    this.expireHeldPlayers();
+
     // AFK 检测（每 AFK_CHECK_INTERVAL 检查一次）
     this.lastAFKCheck += TICK_INTERVAL;
     if (this.lastAFKCheck >= AFK_CHECK_INTERVAL) {
@@ -210,7 +421,7 @@ export class GameRoom {
     // 更新回合计时
     if (this.state === RoomState.InRound) {
       this.roundTimer += TICK_INTERVAL;
-      if (this.roundTimer >= this.roundDuration) {
+      if (this.isRoundOver()) {
         this.endRound();
       }
     }
@@ -220,26 +431,105 @@ export class GameRoom {
    * 结束回合
    */
   endRound(): void {
-    this.state = RoomState.RoundEnd;
     this.stopTickLoop();
+    this.nextRoundAt = Date.now() + ROUND_END_DELAY;
+    this.setState(RoomState.RoundEnd);
 
     const scoreboard = this.getScoreboard();
-    this.broadcastJSON({
-      type: 0x85, // RoundEnd
+    const teamScores = this.world.getTeamScores();
+    if (this.world.waves) {
+      this.onCoopRunEnded?.(this.world.waves.wave, [...this.clients.keys(), ...this.heldPlayers.keys()]);
+    }
+    const msg: RoundEndMessage = {
+      type: MessageType.RoundEnd,
       scoreboard,
-    });
-
-    // 3 秒后重新开始
-    setTimeout(() => {
+      winnerId: this.getWinnerId(scoreboard),
+      winnerTeam: getWinningTeam(teamScores),
+      teamScores,
+      nextRoundIn: ROUND_END_DELAY,
+    };
+    this.broadcastJSON(msg);
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
       this.restartRound();
-    }, 3000);
+    }, ROUND_END_DELAY);
+  }
+
+  /**
+   * 是否有个人（个人混战）或队伍（团队模式）达到上限（夺旗模式按夺旗次数，占点模式按占点得分）
+   */
+  private isKillCapReached(): boolean {
+    const cap = this.getScoreTarget();
+    if (cap <= 0) return false;
+    if (isTeamMode(this.settings.mode)) {
+      return this.world.getTeamScores().some((score) => score >= cap);
+    }
+    for (const player of this.world.players.values()) {
+      if (player.kills >= cap) return true;
+    }
+    return false;
+  }
+
+  /**
+   * 回合是否结束：合作模式不限时，全队阵亡且无复活次数时结束；其他模式按计时、得分上限与大逃杀存活判定
+   */
+  private isRoundOver(): boolean {
+    if (this.world.waves) return this.isCoopDefeated();
+    return this.roundTimer >= this.roundDuration || this.isKillCapReached() || this.isLastTankStanding();
+  }
+
+  /**
+   * 合作模式：在线真人全部阵亡且没有等待复活的（断线保留中的玩家仍可能重连，不算阵亡）
+   */
+  private isCoopDefeated(): boolean {
+    if (this.heldPlayers.size > 0) return false;
+    for (const id of this.clients.keys()) {
+      const player = this.world.players.get(id);
+      if (player?.alive || this.world.isAwaitingRespawn(id)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * 大逃杀：只剩一辆（或没有）存活坦克
+   */
+  private isLastTankStanding(): boolean {
+    return this.world.safeZone !== null && this.world.getAliveCount() <= 1;
+  }
+
+  /**
+   * 回合胜者：大逃杀为最后存活者（超时仍有多辆存活时取剩余血量最高者），其他模式为击坠最多者
+   */
+  private getWinnerId(scoreboard: PlayerScore[]): number | null {
+    if (!this.world.safeZone) {
+      const top = scoreboard[0];
+      return top && top.kills > 0 ? top.playerId : null;
+    }
+    let survivor: Player | null = null;
+    for (const player of this.world.players.values()) {
+      if (player.alive && (!survivor || player.hp > survivor.hp)) survivor = player;
+    }
+    return survivor?.id ?? null;
+  }
+
+  /**
+   * 本回合得分上限（0 = 不限）；占点模式未设置时使用默认目标分，否则回合只能靠计时结束
+   */
+  getScoreTarget(): number {
+    const cap = this.settings.killCap;
+    if (cap <= 0 && this.settings.mode === GameMode.Domination) return DOMINATION_SCORE_TARGET;
+    return cap;
   }
 
   /**
    * 重新开始
    */
   private restartRound(): void {
-    this.world.reset(Date.now());
+    this.world.reset(this.nextMapSeed());
+
+    // 合作模式上一局残留的波次 AI 不再保留
+    if (this.settings.mode === GameMode.Coop) this.removeAllAIBots();
 
     // 重新添加 AI 玩家到世界
     for (const bot of this.aiBots.values()) {
@@ -248,13 +538,23 @@ export class GameRoom {
       }
     }
 
-    if (this.clients.size >= MIN_PLAYERS || this.aiBots.size > 0) {
+    if (this.hasEnoughPlayers() || this.aiBots.size > 0) {
       this.startRound();
     } else {
-      this.state = RoomState.Warmup;
+      this.setState(RoomState.Warmup);
+      // 暖场中仍需向留下的玩家发送快照
+      if (!this.isEmpty()) this.startTickLoop();
     }
   }
 
+  /**
+   * 是否满足开战人数：合作模式有真人（含断线保留中）即可，其他模式真人 + AI 不少于 MIN_PLAYERS（有 AI 时 1 人即可开始）
+   */
+  private hasEnoughPlayers(): boolean {
+    if (this.settings.mode === GameMode.Coop) return this.clients.size + this.heldPlayers.size > 0;
+    return this.clients.size + this.aiBots.size >= MIN_PLAYERS;
+  }
+
   /**
    * 获取计分板
    */
@@ -265,12 +565,17 @@ export class GameRoom {
   }
 
   /**
-   * 广播快照给所有客户端
+   * 广播快照给所有客户端（相对各自确认的基线做增量压缩）
    */
   private broadcastSnapshots(): void {
     for (const [playerId, client] of this.clients) {
-      const snapshot = this.world.getSnapshot(playerId);
-      client.send(JSON.stringify(snapshot));
+      const history = this.snapshotHistories.get(playerId)!;
+      const snapshot = history.encode(this.world.getSnapshot(playerId));
+      client.send(
+        client.wireFormat === WireFormat.Binary
+          ? encodeSnapshot(snapshot)
+          : JSON.stringify(snapshot)
+      );
     }
   }
 
@@ -278,11 +583,23 @@ export class GameRoom {
    * 广播事件
    */
   private broadcastEvent(event: GameEvent): void {
-    this.broadcastJSON({
-      type: 0x83, // GameEvent
+    const msg: GameEventMessage = {
+      type: MessageType.GameEvent,
       event,
       serverTick: this.world.currentTick,
-    } as GameEventMessage);
+    };
+    // 每种编码只序列化一次
+    let json: string | null = null;
+    let binary: Uint8Array | null = null;
+    for (const client of this.clients.values()) {
+      if (client.wireFormat === WireFormat.Binary) {
+        binary ??= encodeGameEvent(msg);
+        client.send(binary);
+      } else {
+        json ??= JSON.stringify(msg);
+        client.send(json);
+      }
+    }
   }
 
   /**
@@ -300,50 +617,164 @@ export class GameRoom {
    */
   destroy(): void {
     this.stopTickLoop();
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
     this.clients.clear();
+    this.heldPlayers.clear();
     this.world.players.clear();
     this.world.projectiles.clear();
   }
 
   /**
-   * 房间是否空闲
+   * 房间是否空闲（断线保留中的玩家仍占用房间）
    */
   isEmpty(): boolean {
-    return this.clients.size === 0;
+    return this.clients.size === 0 && this.heldPlayers.size === 0;
   }
 
   /**
-   * 房间是否已满（真人玩家 = MAX_PLAYERS，无 AI 可替换）
+   * 是否设有密码
+   */
+  hasPassword(): boolean {
+    return this.password !== null;
+  }
+
+  /**
+   * 校验加入密码（未设密码的房间总是通过）
+   */
+  checkPassword(password: string | undefined): boolean {
+    return this.password === null || password === this.password;
+  }
+
+  /**
+   * 房间是否已满（真人玩家 + 断线保留 = 人数上限，无 AI 可替换）
    */
   isFull(): boolean {
-    return this.clients.size >= MAX_PLAYERS;
+    return this.clients.size + this.heldPlayers.size >= this.settings.maxPlayers;
+  }
+
+  /**
+   * 各队当前人数（含 AI 与断线保留中的玩家）
+   */
+  getTeamSizes(): Map<Team, number> {
+    const sizes = new Map<Team, number>(TEAMS.map((team) => [team, 0]));
+    for (const player of this.world.players.values()) {
+      if (sizes.has(player.team)) sizes.set(player.team, sizes.get(player.team)! + 1);
+    }
+    return sizes;
+  }
+
+  /**
+   * 自动平衡：新玩家加入人数较少的一队（人数相同时按 TEAMS 顺序）；个人混战无队伍；合作模式真人与 AI 各占一队
+   */
+  private pickTeam(isBot: boolean = false): Team {
+    if (this.settings.mode === GameMode.Coop) return isBot ? COOP_BOT_TEAM : COOP_HUMAN_TEAM;
+    if (!isTeamMode(this.settings.mode)) return Team.None;
+    let best = TEAMS[0];
+    const sizes = this.getTeamSizes();
+    for (const team of TEAMS) {
+      if (sizes.get(team)! < sizes.get(best)!) best = team;
+    }
+    return best;
+  }
+
+  /**
+   * 满员时为真人让位的 AI：团队模式取人数最多一队的 AI，否则取最早加入的 AI
+   */
+  private pickBotToReplace(): number | null {
+    if (this.aiBots.size === 0) return null;
+    if (isTeamMode(this.settings.mode)) {
+      const sizes = this.getTeamSizes();
+      let pick: AIPlayer | null = null;
+      for (const bot of this.aiBots.values()) {
+        if (!pick || sizes.get(bot.player.team)! > sizes.get(pick.player.team)!) pick = bot;
+      }
+      return pick!.player.id;
+    }
+    return this.aiBots.keys().next().value!;
+  }
+
+  /**
+   * 下一回合的地图种子：设置了固定种子则沿用，否则随机
+   */
+  private nextMapSeed(): number {
+    return this.settings.mapSeed ?? Date.now();
+  }
+
+  /**
+   * 移除保留期已满的断线玩家
+   */
+  private expireHeldPlayers(): void {
+    if (this.heldPlayers.size === 0) return;
+    const now = Date.now();
+    for (const [playerId, expiresAt] of this.heldPlayers) {
+      if (now >= expiresAt) {
+        const player = this.world.players.get(playerId);
+        this.removePlayer(playerId);
+        this.onPlayerExpired?.(playerId, player);
+      }
+    }
   }
 
   // ==================== AI 管理 ====================
 
   /**
-   * 用 AI 填充空位，使总人数达到 MAX_PLAYERS
+   * 按设置补充 AI：数量为 botCount，但不占用真人的位置（团队模式下补到人数较少的一队）
    */
   fillWithAIBots(): void {
-    const totalPlayers = this.world.players.size;
-    if (totalPlayers < MAX_PLAYERS) {
-      this.addAIBots(MAX_PLAYERS - totalPlayers, 'normal');
+    // 合作模式的 AI 只按波次生成
+    if (this.settings.mode === GameMode.Coop) return;
+    const humans = this.world.players.size - this.aiBots.size;
+    const target = Math.min(this.settings.botCount, this.settings.maxPlayers - humans);
+    if (this.aiBots.size < target) {
+      this.addAIBots(target - this.aiBots.size);
     }
   }
 
   /**
-   * 添加多个 AI 玩家
+   * 添加多个 AI 玩家（缺省使用房间设置的难度）
    */
-  addAIBots(count: number, difficulty: string = 'normal'): void {
+  addAIBots(count: number, difficulty: string = this.settings.botDifficulty): void {
     for (let i = 0; i < count; i++) {
-      if (this.world.players.size >= MAX_PLAYERS) break;
+      if (this.isBotCapReached()) break;
       const id = this.aiIdCounter++;
       const { player, ai } = AIPlayer.create(id, difficulty);
+      player.team = this.pickTeam(true);
       this.world.addPlayer(player);
       this.aiBots.set(id, ai);
     }
   }
 
+  /**
+   * AI 是否已达上限：合作模式按 COOP_MAX_BOTS 单独计，其他模式与真人共用 maxPlayers
+   */
+  private isBotCapReached(): boolean {
+    if (this.settings.mode === GameMode.Coop) return this.aiBots.size >= COOP_MAX_BOTS;
+    return this.world.players.size >= this.settings.maxPlayers;
+  }
+
+  /**
+   * 合作模式波次推进：本波 AI 全灭 → 清理并进入维修；维修倒计时结束 → 生成下一波
+   */
+  private updateWaves(): void {
+    const waves = this.world.waves;
+    if (!waves) return;
+
+    if (waves.phase === WavePhase.Combat) {
+      for (const bot of this.aiBots.values()) {
+        if (bot.player.alive) return;
+      }
+      this.removeAllAIBots();
+      waves.startRepair();
+      this.world.repairHumans();
+    } else if (waves.readyForNextWave) {
+      const wave = waves.startWave();
+      this.addAIBots(getWaveBotCount(wave), getWaveDifficulty(wave));
+    }
+  }
+
   /**
    * 移除一个 AI 玩家
    */
@@ -395,6 +826,7 @@ export class GameRoom {
    * 踢出玩家 — 发送 AFKKick 消息后移除
    */
   kickPlayer(playerId: number, reason: string): void {
+    const player = this.world.players.get(playerId);
     const client = this.clients.get(playerId);
     if (client) {
       client.send(JSON.stringify({
@@ -403,6 +835,16 @@ export class GameRoom {
       }));
     }
     this.removePlayer(playerId);
-    this.onPlayerKicked?.(playerId);
+    this.onPlayerKicked?.(playerId, player);
   }
 }
+
+/**
+ * 团队模式获胜队伍：得分最高且唯一的队伍（平局或个人混战为 null）
+ */
+function getWinningTeam(teamScores: number[]): Team | null {
+  if (teamScores.length === 0) return null;
+  const best = Math.max(...teamScores);
+  const leaders = TEAMS.filter((_, i) => teamScores[i] === best);
+  return leaders.length === 1 ? leaders[0] : null;
+}
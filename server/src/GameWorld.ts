@@ -1,36 +1,83 @@
 import {
   updateTankPhysics,
+  resolveTankMapCollision,
   calculateMuzzleVelocity,
   getMuzzlePosition,
   getBarrelDirection,
   checkProjectileHit,
   calculateSplashDamage,
+  resolveArmorHit,
+  reflectOffArmor,
   TICK_INTERVAL,
   PROJECTILE_TTL,
   PROJECTILE_COLLISION_RADIUS,
   TANK_COLLISION_RADIUS,
-  DIRECT_HIT_DAMAGE,
-  SPLASH_RADIUS,
-  RESPAWN_DELAY,
   SNAPSHOT_INTERVAL,
+  MAX_LAG_COMPENSATION,
+  AOI_NEAR_DISTANCE,
+  AOI_FAR_DISTANCE,
+  AOI_FAR_UPDATE_INTERVAL,
+  AOI_PROJECTILE_DISTANCE,
+  FLAG_PICKUP_RADIUS,
+  FLAG_CAPTURE_RADIUS,
+  CONTROL_POINT_SCORE_INTERVAL,
+  ZONE_DAMAGE_PER_SECOND,
   MessageType,
+  GameMode,
+  FlagState,
+  GameEventType,
+  DeathReason,
+  AmmoType,
+  DEFAULT_AMMO_TYPE,
+  ARMOR_FACING_MULTIPLIERS,
+  Team,
+  TEAMS,
+  DEFAULT_ROOM_SETTINGS,
+  isSameTeam,
+  isTeamMode,
+  getAmmoStats,
+  getFlagBasePosition,
+  clamp,
 } from '@tankgame/shared';
 import type {
+  Vec3,
   InputCmd,
   SnapshotMessage,
+  TankSnapshot,
   GameEvent,
   FireEvent,
   HitEvent,
+  RicochetEvent,
   ExplodeEvent,
   DeathEvent,
   RespawnEvent,
-  GameEventType,
+  FlagSnapshot,
+  ControlPointSnapshot,
+  SmokeCloudSnapshot,
+  RoomSettings,
 } from '@tankgame/shared';
 import { Player } from './Player.js';
 import { Projectile } from './Projectile.js';
+import { Flag } from './Flag.js';
+import { ControlPoint } from './ControlPoint.js';
+import { SafeZone } from './SafeZone.js';
+import { WaveManager } from './WaveManager.js';
+import { SmokeCloud } from './SmokeCloud.js';
 import { MapGenerator } from './MapGenerator.js';
 import type { GameMapData } from './MapGenerator.js';
 import { SpawnManager } from './SpawnManager.js';
+import { VisibilityManager } from './VisibilityManager.js';
+
+/**
+ * 单个 tick 的坦克位置记录（延迟补偿回溯用）
+ */
+interface PositionFrame {
+  tick: number;
+  /** 该 tick 存活坦克的位置 playerId → position */
+  positions: Map<number, Vec3>;
+  /** 该 tick 存活坦克的车体朝向 playerId → bodyYaw（装甲面判定用） */
+  yaws: Map<number, number>;
+}
 
 /**
  * 游戏世界 — 权威物理模拟
@@ -39,19 +86,58 @@ export class GameWorld {
   currentTick: number = 0;
   snapshotId: number = 0;
 
+  /** 延迟补偿最大回溯 tick 数 */
+  readonly maxRewindTicks: number;
+  /** 房间比赛设置（复活延迟等） */
+  readonly settings: Readonly<RoomSettings>;
+
   players: Map<number, Player> = new Map();
   projectiles: Map<number, Projectile> = new Map();
+  /** 夺旗模式的旗帜（其他模式为空） */
+  flags: Flag[] = [];
+  /** 占点模式的控制点（其他模式为空） */
+  controlPoints: ControlPoint[] = [];
+  /** 大逃杀安全区（仅回合进行中存在；存在期间阵亡不复活） */
+  safeZone: SafeZone | null = null;
+  /** 合作模式波次状态（仅回合进行中存在；AI 由 GameRoom 按波次生成） */
+  waves: WaveManager | null = null;
+  /** 烟雾弹生成的烟雾云 id → cloud（遮挡视线，到时消散） */
+  smokeClouds: Map<number, SmokeCloud> = new Map();
 
   map: GameMapData;
   spawnManager: SpawnManager;
+  visibility: VisibilityManager;
 
   private nextProjectileId: number = 1;
+  private nextSmokeId: number = 1;
   private pendingEvents: GameEvent[] = [];
   private respawnQueue: Array<{ player: Player; timer: number }> = [];
+  /** 坦克位置历史环（按 tick 取模索引） */
+  private positionHistory: Array<PositionFrame | undefined>;
+  /** AOI：每个接收者最近下发的其他坦克状态（降频期间沿用） recipientId → (entityId → snapshot) */
+  private aoiCache: Map<number, Map<number, TankSnapshot>> = new Map();
+  /** 团队模式本回合各队得分 team → score（团队死斗为击坠数，夺旗为夺旗次数，占点为占点得分） */
+  private teamScores: Map<Team, number> = new Map();
+  /** 占点得分计时 (ms) */
+  private controlScoreTimer: number = 0;
 
-  constructor(mapSeed: number) {
+  /**
+   * @param maxRewindMs 延迟补偿最大回溯时间 (ms)，0 表示关闭
+   * @param settings 房间比赛设置
+   */
+  constructor(
+    mapSeed: number,
+    maxRewindMs: number = MAX_LAG_COMPENSATION,
+    settings: Readonly<RoomSettings> = DEFAULT_ROOM_SETTINGS
+  ) {
+    this.settings = settings;
     this.map = MapGenerator.generate(mapSeed);
     this.spawnManager = new SpawnManager();
+    this.visibility = new VisibilityManager(this.map, this.smokeClouds);
+    this.maxRewindTicks = Math.max(0, Math.round(maxRewindMs / TICK_INTERVAL));
+    this.positionHistory = new Array(this.maxRewindTicks + 1);
+    this.createFlags();
+    this.createControlPoints();
   }
 
   /**
@@ -59,7 +145,6 @@ export class GameWorld {
    */
   update(): GameEvent[] {
     const dt = TICK_INTERVAL / 1000;
-    this.pendingEvents = [];
     this.currentTick++;
 
     // 1. 处理输入 & 物理更新（每tick都执行物理模拟，保证运动流畅）
@@ -74,6 +159,9 @@ export class GameWorld {
     // 1.5 坦克间碰撞检测（对称推开）
     this.resolveTankTankCollisions();
 
+    // 1.6 记录本 tick 坦克位置（延迟补偿）
+    this.recordPositions();
+
     // 2. 更新弹体
     for (const proj of this.projectiles.values()) {
       if (!proj.active) continue;
@@ -109,6 +197,21 @@ export class GameWorld {
       }
     }
 
+    // 4.5 旗帜拾取 / 交还 / 夺旗
+    this.updateFlags(TICK_INTERVAL);
+
+    // 4.6 控制点占领与计分
+    this.updateControlPoints(TICK_INTERVAL);
+
+    // 4.7 安全区收缩与圈外伤害
+    this.updateSafeZone(TICK_INTERVAL);
+
+    // 4.8 波次维修倒计时
+    this.waves?.update(TICK_INTERVAL);
+
+    // 4.9 烟雾消散
+    this.updateSmokeClouds(TICK_INTERVAL);
+
     // 5. 更新复活队列
     this.updateRespawnQueue(TICK_INTERVAL);
 
@@ -117,20 +220,26 @@ export class GameWorld {
       player.updateReload(TICK_INTERVAL);
     }
 
-    return this.pendingEvents;
+    // tick 之间产生的事件（如携旗者离开房间）随本 tick 一起返回
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    return events;
   }
 
   /**
    * 应用玩家输入
    */
   private applyInput(player: Player, input: InputCmd, dt: number): void {
-    // 更新物理
+    // 更新物理（与客户端预测共用同一套函数）
     const state = player.getPhysicsState();
-    updateTankPhysics(
+    const getHeight = (x: number, z: number) => MapGenerator.getHeightAt(this.map, x, z);
+    updateTankPhysics(state, input, dt, getHeight);
+    resolveTankMapCollision(
       state,
-      input,
-      dt,
-      (x, z) => MapGenerator.getHeightAt(this.map, x, z)
+      this.map.covers,
+      this.map.width / 2,
+      this.map.depth / 2,
+      getHeight
     );
 
     // 回写
@@ -141,56 +250,62 @@ export class GameWorld {
     player.gunPitch = state.gunPitch;
     player.lastProcessedSeq = input.seq;
 
-    // 掩体碰撞检测（圆柱 vs 圆柱）
-    for (const cover of this.map.covers) {
-      const dx = player.position.x - cover.position.x;
-      const dz = player.position.z - cover.position.z;
-      const dist = Math.sqrt(dx * dx + dz * dz);
-      const minDist = TANK_COLLISION_RADIUS + cover.radius;
-      if (dist < minDist && dist > 0.001) {
-        // 将坦克推出掩体
-        const pushX = (dx / dist) * (minDist - dist);
-        const pushZ = (dz / dist) * (minDist - dist);
-        player.position.x += pushX;
-        player.position.z += pushZ;
-        // 消除朝向掩体方向的速度分量
-        const nx = dx / dist;
-        const nz = dz / dist;
-        const vDotN = player.velocity.x * nx + player.velocity.z * nz;
-        if (vDotN < 0) {
-          player.velocity.x -= vDotN * nx;
-          player.velocity.z -= vDotN * nz;
-        }
-        // 推开后重新采样地形高度，防止坦克悬空或嵌入地下
-        player.position.y = MapGenerator.getHeightAt(this.map, player.position.x, player.position.z);
-      }
+    // 开火（弹种随每帧输入更新，决定本发的弹道与装填）
+    player.ammoType = input.ammoType ?? DEFAULT_AMMO_TYPE;
+    if (input.fire && player.tryFire()) {
+      this.spawnProjectile(player, this.getRewindTicks(input));
+      this.visibility.reveal(player.id, this.currentTick);
     }
+  }
 
-    // 地图边界限制 — 碰到边缘停速 + 推回
-    const halfW = this.map.width / 2;
-    const halfD = this.map.depth / 2;
-    if (player.position.x < -halfW) {
-      player.position.x = -halfW;
-      if (player.velocity.x < 0) player.velocity.x = 0;
-    } else if (player.position.x > halfW) {
-      player.position.x = halfW;
-      if (player.velocity.x > 0) player.velocity.x = 0;
-    }
-    if (player.position.z < -halfD) {
-      player.position.z = -halfD;
-      if (player.velocity.z < 0) player.velocity.z = 0;
-    } else if (player.position.z > halfD) {
-      player.position.z = halfD;
-      if (player.velocity.z > 0) player.velocity.z = 0;
+  /**
+   * 射手视角的回溯 tick 数 — 由输入携带的 viewTick 推算，限制在最大回溯范围内
+   */
+  private getRewindTicks(input: InputCmd): number {
+    if (!input.viewTick) return 0;
+    return clamp(this.currentTick - input.viewTick, 0, this.maxRewindTicks);
+  }
+
+  /**
+   * 记录当前 tick 所有存活坦克的位置与车体朝向
+   */
+  private recordPositions(): void {
+    const positions = new Map<number, Vec3>();
+    const yaws = new Map<number, number>();
+    for (const player of this.players.values()) {
+      if (!player.alive) continue;
+      positions.set(player.id, player.position.clone());
+      yaws.set(player.id, player.bodyYaw);
     }
+    this.positionHistory[this.currentTick % this.positionHistory.length] = {
+      tick: this.currentTick,
+      positions,
+      yaws,
+    };
+  }
 
-    // 边界/掩体推挤后重新采样地形高度
-    player.position.y = MapGenerator.getHeightAt(this.map, player.position.x, player.position.z);
+  /**
+   * 获取回溯后的目标位置
+   * @returns 回溯时刻的位置；目标当时不存在（未出生/已阵亡）时返回 null；
+   *          历史不足时退回当前位置
+   */
+  getRewoundPosition(player: Player, rewindTicks: number): Vec3 | null {
+    if (rewindTicks <= 0) return player.position;
+    const tick = this.currentTick - rewindTicks;
+    const frame = this.positionHistory[tick % this.positionHistory.length];
+    if (!frame || frame.tick !== tick) return player.position;
+    return frame.positions.get(player.id) ?? null;
+  }
 
-    // 开火
-    if (input.fire && player.tryFire()) {
-      this.spawnProjectile(player);
-    }
+  /**
+   * 获取回溯后的车体朝向（历史缺失时退回当前朝向）
+   */
+  getRewoundYaw(player: Player, rewindTicks: number): number {
+    if (rewindTicks <= 0) return player.bodyYaw;
+    const tick = this.currentTick - rewindTicks;
+    const frame = this.positionHistory[tick % this.positionHistory.length];
+    if (!frame || frame.tick !== tick) return player.bodyYaw;
+    return frame.yaws.get(player.id) ?? player.bodyYaw;
   }
 
   /**
@@ -239,9 +354,10 @@ export class GameWorld {
   /**
    * 发射弹体
    */
-  private spawnProjectile(player: Player): void {
+  private spawnProjectile(player: Player, rewindTicks: number = 0): void {
+    const ammo = getAmmoStats(player.ammoType);
     const state = player.getPhysicsState();
-    const velocity = calculateMuzzleVelocity(state);
+    const velocity = calculateMuzzleVelocity(state, ammo.muzzleVelocity);
     const muzzlePos = getMuzzlePosition(state);
     const barrelDir = getBarrelDirection(
       player.bodyYaw,
@@ -254,7 +370,10 @@ export class GameWorld {
       player.id,
       muzzlePos,
       velocity,
-      PROJECTILE_TTL
+      PROJECTILE_TTL,
+      rewindTicks,
+      player.stats.damage * ammo.damageFactor,
+      player.ammoType
     );
 
     this.projectiles.set(proj.id, proj);
@@ -266,6 +385,7 @@ export class GameWorld {
       muzzleDir: barrelDir.clone(),
       projectileId: proj.id,
       serverTick: this.currentTick,
+      ammoType: proj.ammoType,
     } as FireEvent);
   }
 
@@ -348,15 +468,19 @@ export class GameWorld {
         if (!player.alive) continue;
         if (player.id === proj.shooterId) continue; // 不打自己
 
+        // 延迟补偿：与射手开火时看到的目标位置比较
+        const targetPos = this.getRewoundPosition(player, proj.rewindTicks);
+        if (!targetPos) continue;
+
         if (
           checkProjectileHit(
             proj.position,
-            player.position,
+            targetPos,
             PROJECTILE_COLLISION_RADIUS,
             TANK_COLLISION_RADIUS
           )
         ) {
-          this.handleDirectHit(proj, player);
+          this.handleDirectHit(proj, player, targetPos);
           break;
         }
       }
@@ -364,18 +488,54 @@ export class GameWorld {
   }
 
   /**
-   * 处理直接命中
+   * 处理直接命中 — 伤害取决于命中的装甲面与入射角，擦过时跳弹
+   * 高爆弹触发即爆，只按装甲面结算；烟雾弹只生成烟雾
    */
-  private handleDirectHit(proj: Projectile, target: Player): void {
+  private handleDirectHit(proj: Projectile, target: Player, targetPos: Vec3): void {
     proj.active = false;
 
+    // 烟雾弹直接起烟；关闭误伤时命中队友只爆炸、不造成伤害
+    if (proj.ammoType === AmmoType.Smoke || !this.canDamage(proj.shooterId, target)) {
+      this.handleProjectileExplode(proj, target.id);
+      return;
+    }
+
+    const ammo = getAmmoStats(proj.ammoType);
+    const armor = resolveArmorHit(
+      proj.position,
+      proj.velocity,
+      targetPos,
+      this.getRewoundYaw(target, proj.rewindTicks)
+    );
+
+    // 跳弹：炮弹弹开，不爆炸也不计命中
+    if (ammo.angleSensitive && armor.ricochet) {
+      this.pendingEvents.push({
+        eventType: 'ricochet' as GameEventType,
+        projectileId: proj.id,
+        shooterId: proj.shooterId,
+        targetId: target.id,
+        pos: proj.position.clone(),
+        dir: reflectOffArmor(proj.velocity, armor.normal),
+        facing: armor.facing,
+      } as RicochetEvent);
+      return;
+    }
+
+    const damage = proj.damage *
+      (ammo.angleSensitive ? armor.damageFactor : ARMOR_FACING_MULTIPLIERS[armor.facing]);
+
     // 命中事件
     this.pendingEvents.push({
       eventType: 'hit' as GameEventType,
       projectileId: proj.id,
+      shooterId: proj.shooterId,
       targetId: target.id,
       hitPos: proj.position.clone(),
-      damage: DIRECT_HIT_DAMAGE,
+      damage,
+      facing: armor.facing,
+      rewindTicks: proj.rewindTicks,
+      targetPos: targetPos.clone(),
     } as HitEvent);
 
     // 记录射手命中
@@ -383,7 +543,7 @@ export class GameWorld {
     if (shooter) shooter.hits++;
 
     // 造成伤害
-    const died = target.takeDamage(DIRECT_HIT_DAMAGE);
+    const died = target.takeDamage(damage);
 
     if (died) {
       this.handleDeath(target, proj.shooterId);
@@ -394,23 +554,40 @@ export class GameWorld {
   }
 
   /**
-   * 处理弹体爆炸（溅射伤害）
+   * 处理弹体爆炸（溅射伤害按弹种；烟雾弹在落点生成烟雾云）
    */
   private handleProjectileExplode(proj: Projectile, directHitTargetId?: number): void {
+    const ammo = getAmmoStats(proj.ammoType);
     this.pendingEvents.push({
       eventType: 'explode' as GameEventType,
       projectileId: proj.id,
       pos: proj.position.clone(),
-      radius: SPLASH_RADIUS,
+      radius: ammo.splashRadius,
     } as ExplodeEvent);
 
+    if (proj.ammoType === AmmoType.Smoke) {
+      const cloud = new SmokeCloud(this.nextSmokeId++, proj.position);
+      this.smokeClouds.set(cloud.id, cloud);
+    }
+    if (ammo.splashRadius <= 0) return;
+
     // 溅射伤害（排除射手自身和已被直击的目标）
     for (const player of this.players.values()) {
       if (!player.alive) continue;
       if (player.id === proj.shooterId) continue;
       if (player.id === directHitTargetId) continue;
+      if (!this.canDamage(proj.shooterId, player)) continue;
+
+      const targetPos = this.getRewoundPosition(player, proj.rewindTicks);
+      if (!targetPos) continue;
 
-      const splashDamage = calculateSplashDamage(proj.position, player.position);
+      const splashDamage = calculateSplashDamage(
+        proj.position,
+        targetPos,
+        proj.damage,
+        ammo.splashRadius,
+        ammo.splashFactor
+      );
       if (splashDamage > 0) {
         const died = player.takeDamage(splashDamage);
         if (died) {
@@ -421,23 +598,296 @@ export class GameWorld {
   }
 
   /**
-   * 处理玩家死亡
+   * 射手能否对目标造成伤害（关闭误伤时队友之间免伤；射手已离开按敌人处理）
    */
-  private handleDeath(victim: Player, killerId: number): void {
+  private canDamage(shooterId: number, target: Player): boolean {
+    if (this.settings.friendlyFire) return true;
+    const shooter = this.players.get(shooterId);
+    return !shooter || !isSameTeam(shooter.team, target.team);
+  }
+
+  /**
+   * 处理玩家死亡（误伤击毁队友不计击坠）
+   */
+  private handleDeath(victim: Player, killerId: number, reason: DeathReason = DeathReason.Killed): void {
     victim.deaths++;
     const killer = this.players.get(killerId);
-    if (killer) killer.kills++;
+    if (killer && !isSameTeam(killer.team, victim.team)) {
+      killer.kills++;
+      if (this.settings.mode === GameMode.TeamDeathmatch) this.addTeamScore(killer.team);
+    }
 
     this.pendingEvents.push({
       eventType: 'death' as GameEventType,
       victimId: victim.id,
       killerId: killerId,
-      reason: 'killed',
+      reason,
       pos: victim.position.clone(),
     } as DeathEvent);
 
-    // 加入复活队列
-    this.respawnQueue.push({ player: victim, timer: RESPAWN_DELAY });
+    this.dropCarriedFlag(victim);
+
+    if (this.canRespawn(victim)) {
+      this.respawnQueue.push({ player: victim, timer: this.settings.respawnDelay });
+    }
+  }
+
+  /**
+   * 阵亡后能否进入复活队列：大逃杀回合中不复活；合作模式 AI 不复活，真人消耗一次共享复活
+   */
+  private canRespawn(victim: Player): boolean {
+    if (this.safeZone) return false;
+    if (this.waves) return !victim.isBot && this.waves.consumeLife();
+    return true;
+  }
+
+  /**
+   * 队伍得分 +1
+   */
+  private addTeamScore(team: Team): void {
+    this.teamScores.set(team, (this.teamScores.get(team) ?? 0) + 1);
+  }
+
+  // ==================== 夺旗 ====================
+
+  /**
+   * 夺旗模式：在各队基地放置旗帜
+   */
+  private createFlags(): void {
+    this.flags = [];
+    if (this.settings.mode !== GameMode.CaptureTheFlag) return;
+    for (const team of TEAMS) {
+      const base = getFlagBasePosition(team, this.map.width);
+      base.y = MapGenerator.getHeightAt(this.map, base.x, base.z);
+      this.flags.push(new Flag(team, base));
+    }
+  }
+
+  /**
+   * 旗帜逻辑
+   * - 携带中：跟随携旗者；携旗者进入己方基地即得分，旗帜回到基地
+   * - 掉落：超时自动回到基地
+   * - 未被携带：敌方坦克驶过即拾取，己方坦克驶过掉落的旗帜即交还
+   */
+  private updateFlags(dtMs: number): void {
+    for (const flag of this.flags) {
+      if (flag.state === FlagState.Carried) {
+        const carrier = this.players.get(flag.carrierId!);
+        if (!carrier) continue;
+        flag.position = carrier.position.clone();
+        const home = this.flags.find((f) => f.team === carrier.team);
+        if (home && horizontalDistance(carrier.position, home.basePosition) <= FLAG_CAPTURE_RADIUS) {
+          flag.returnToBase();
+          this.addTeamScore(carrier.team);
+          this.pendingEvents.push({
+            eventType: GameEventType.FlagCaptured,
+            team: flag.team,
+            playerId: carrier.id,
+          });
+        }
+        continue;
+      }
+
+      if (flag.state === FlagState.Dropped) {
+        flag.returnTimer -= dtMs;
+        if (flag.returnTimer <= 0) {
+          flag.returnToBase();
+          this.pendingEvents.push({ eventType: GameEventType.FlagReturned, team: flag.team, playerId: null });
+          continue;
+        }
+      }
+
+      for (const player of this.players.values()) {
+        if (!player.alive) continue;
+        if (horizontalDistance(player.position, flag.position) > FLAG_PICKUP_RADIUS) continue;
+        if (player.team === flag.team) {
+          if (flag.state !== FlagState.Dropped) continue;
+          flag.returnToBase();
+          this.pendingEvents.push({ eventType: GameEventType.FlagReturned, team: flag.team, playerId: player.id });
+          break;
+        }
+        if (this.isCarryingFlag(player.id)) continue;
+        flag.pickUp(player.id);
+        this.pendingEvents.push({ eventType: GameEventType.FlagTaken, team: flag.team, playerId: player.id });
+        break;
+      }
+    }
+  }
+
+  /**
+   * 玩家是否正携带旗帜
+   */
+  private isCarryingFlag(playerId: number): boolean {
+    return this.flags.some((f) => f.carrierId === playerId);
+  }
+
+  /**
+   * 携旗者阵亡或离开时旗帜掉落
+   */
+  private dropCarriedFlag(player: Player): void {
+    const flag = this.flags.find((f) => f.carrierId === player.id);
+    if (!flag) return;
+    flag.drop(player.position);
+    this.pendingEvents.push({
+      eventType: GameEventType.FlagDropped,
+      team: flag.team,
+      playerId: player.id,
+      pos: player.position.clone(),
+    });
+  }
+
+  /**
+   * 旗帜快照（AI 决策与状态快照共用）
+   */
+  getFlagSnapshots(): FlagSnapshot[] {
+    return this.flags.map((f) => f.toSnapshot());
+  }
+
+  // ==================== 占点 ====================
+
+  /**
+   * 占点模式：按地图生成的控制点区域放置控制点
+   */
+  private createControlPoints(): void {
+    this.controlPoints = [];
+    this.controlScoreTimer = 0;
+    if (this.settings.mode !== GameMode.Domination) return;
+    for (const zone of this.map.controlPoints) {
+      const center = zone.center.clone();
+      center.y = MapGenerator.getHeightAt(this.map, center.x, center.z);
+      this.controlPoints.push(new ControlPoint(zone.id, center, zone.radius));
+    }
+  }
+
+  /**
+   * 控制点逻辑：统计圈内存活坦克的队伍推进占领，并按间隔为每个已占领的点计分
+   */
+  private updateControlPoints(dtMs: number): void {
+    if (this.controlPoints.length === 0) return;
+
+    for (const point of this.controlPoints) {
+      const present = new Set<Team>();
+      for (const player of this.players.values()) {
+        if (!player.alive) continue;
+        if (horizontalDistance(player.position, point.center) <= point.radius) present.add(player.team);
+      }
+      point.update([...present], dtMs);
+    }
+
+    this.controlScoreTimer += dtMs;
+    while (this.controlScoreTimer >= CONTROL_POINT_SCORE_INTERVAL) {
+      this.controlScoreTimer -= CONTROL_POINT_SCORE_INTERVAL;
+      for (const point of this.controlPoints) {
+        if (point.owner !== Team.None) this.addTeamScore(point.owner);
+      }
+    }
+  }
+
+  /**
+   * 控制点快照（AI 决策与状态快照共用）
+   */
+  getControlPointSnapshots(): ControlPointSnapshot[] {
+    return this.controlPoints.map((p) => p.toSnapshot());
+  }
+
+  // ==================== 大逃杀 ====================
+
+  /**
+   * 大逃杀回合开始：生成安全区，所有坦克满血重新出生，此后阵亡不再复活
+   */
+  startBattleRoyale(): void {
+    if (this.settings.mode !== GameMode.BattleRoyale) return;
+    this.safeZone = new SafeZone(this.map.width, this.map.depth);
+    this.respawnQueue = [];
+    for (const player of this.players.values()) {
+      this.respawnNow(player);
+    }
+  }
+
+  /**
+   * 大逃杀回合中断（人数不足回到暖场）：移除安全区，阵亡坦克恢复正常复活
+   */
+  stopBattleRoyale(): void {
+    if (!this.safeZone) return;
+    this.safeZone = null;
+    for (const player of this.players.values()) {
+      if (!player.alive) this.respawnQueue.push({ player, timer: this.settings.respawnDelay });
+    }
+  }
+
+  /**
+   * 安全区收缩，圈外存活坦克每 tick 受到伤害（无击杀者）
+   */
+  private updateSafeZone(dtMs: number): void {
+    if (!this.safeZone) return;
+    this.safeZone.update(dtMs);
+
+    const damage = ZONE_DAMAGE_PER_SECOND * dtMs / 1000;
+    for (const player of this.players.values()) {
+      if (!player.alive || this.safeZone.contains(player.position)) continue;
+      if (player.takeDamage(damage)) this.handleDeath(player, 0, DeathReason.Zone);
+    }
+  }
+
+  /**
+   * 存活坦克数
+   */
+  getAliveCount(): number {
+    let count = 0;
+    for (const player of this.players.values()) {
+      if (player.alive) count++;
+    }
+    return count;
+  }
+
+  // ==================== 合作模式 ====================
+
+  /**
+   * 合作模式回合开始：从维修阶段（第一波倒计时）开始
+   */
+  startCoop(): void {
+    if (this.settings.mode !== GameMode.Coop) return;
+    this.waves = new WaveManager();
+  }
+
+  /**
+   * 合作模式中断（真人全部离开回到暖场）：丢弃波次进度
+   */
+  stopCoop(): void {
+    this.waves = null;
+  }
+
+  /**
+   * 维修：存活的真人坦克回满血，阵亡的真人立即免费复活
+   */
+  repairHumans(): void {
+    for (const player of this.players.values()) {
+      if (player.isBot) continue;
+      if (player.alive) {
+        player.hp = player.stats.maxHp;
+      } else {
+        this.respawnQueue = this.respawnQueue.filter((e) => e.player.id !== player.id);
+        this.respawnNow(player);
+      }
+    }
+  }
+
+  /**
+   * 玩家是否在复活队列中
+   */
+  isAwaitingRespawn(playerId: number): boolean {
+    return this.respawnQueue.some((e) => e.player.id === playerId);
+  }
+
+  /**
+   * 存活的 AI 数
+   */
+  private countAliveBots(): number {
+    let count = 0;
+    for (const player of this.players.values()) {
+      if (player.isBot && player.alive) count++;
+    }
+    return count;
   }
 
   /**
@@ -456,67 +906,189 @@ export class GameWorld {
     });
 
     for (const player of toRespawn) {
-      const enemies = Array.from(this.players.values()).filter(
-        (p) => p.id !== player.id
-      );
-      const spawnPos = this.spawnManager.selectSpawnPoint(
-        player,
-        enemies,
-        this.map
-      );
+      this.respawnNow(player);
+    }
+  }
 
-      player.respawn(spawnPos);
+  /**
+   * 立即在出生点复活并广播复活事件
+   */
+  private respawnNow(player: Player): void {
+    const enemies = this.enemiesOf(player);
+    const spawnPos = this.spawnManager.selectSpawnPoint(
+      player,
+      enemies,
+      this.map
+    );
 
-      this.pendingEvents.push({
-        eventType: 'respawn' as GameEventType,
-        playerId: player.id,
-        spawnPos: spawnPos.clone(),
-      } as RespawnEvent);
-    }
+    player.respawn(spawnPos);
+
+    this.pendingEvents.push({
+      eventType: 'respawn' as GameEventType,
+      playerId: player.id,
+      spawnPos: spawnPos.clone(),
+    } as RespawnEvent);
   }
 
   /**
-   * 生成状态快照
+   * 生成状态快照（按接收者做兴趣区域与视野过滤）
+   * - 自己：始终完整
+   * - 未被发现的坦克（见 VisibilityManager）：不下发
+   * - AOI_NEAR_DISTANCE 以内：每帧更新
+   * - AOI_FAR_DISTANCE 以内：每 AOI_FAR_UPDATE_INTERVAL 帧更新，其余帧沿用上次状态；存活状态变化立即更新
+   * - 更远：不下发
+   * - 弹体：只下发 AOI_PROJECTILE_DISTANCE 以内或自己发射的
    */
   getSnapshot(forPlayerId: number): SnapshotMessage {
     const player = this.players.get(forPlayerId);
     const allPlayers = Array.from(this.players.values());
+
+    let tanks: TankSnapshot[];
+    let projectiles = Array.from(this.projectiles.values()).filter((p) => p.active);
+
+    if (player) {
+      let cache = this.aoiCache.get(forPlayerId);
+      if (!cache) {
+        cache = new Map();
+        this.aoiCache.set(forPlayerId, cache);
+      }
+      tanks = [];
+      for (const other of allPlayers) {
+        const tank = this.getRelevantTank(player, other, cache);
+        if (tank) tanks.push(tank);
+      }
+      projectiles = projectiles.filter(
+        (p) =>
+          p.shooterId === forPlayerId ||
+          horizontalDistance(p.position, player.position) <= AOI_PROJECTILE_DISTANCE
+      );
+    } else {
+      tanks = allPlayers.map((p) => p.toSnapshot());
+    }
+
     return {
       type: MessageType.Snapshot,
       serverTick: this.currentTick,
       snapshotId: this.snapshotId,
       timestamp: Date.now(),
       lastProcessedSeq: player?.lastProcessedSeq ?? 0,
-      tanks: allPlayers.map((p) => p.toSnapshot()),
-      projectiles: Array.from(this.projectiles.values())
-        .filter((p) => p.active)
-        .map((p) => p.toSnapshot()),
+      tanks,
+      projectiles: projectiles.map((p) => p.toSnapshot()),
       playerCount: allPlayers.length,
       humanCount: allPlayers.filter((p) => !p.isBot).length,
+      teamScores: this.getTeamScores(),
+      flags: this.getFlagSnapshots(),
+      controlPoints: this.getControlPointSnapshots(),
+      zone: this.safeZone?.toSnapshot() ?? null,
+      wave: this.waves?.toSnapshot(this.countAliveBots()) ?? null,
+      smoke: this.getSmokeSnapshots(),
     };
   }
 
+  /**
+   * 烟雾云快照（全员可见）
+   */
+  getSmokeSnapshots(): SmokeCloudSnapshot[] {
+    return Array.from(this.smokeClouds.values(), (c) => c.toSnapshot());
+  }
+
+  /**
+   * 推进烟雾云消散，移除已散尽的
+   */
+  private updateSmokeClouds(dtMs: number): void {
+    for (const [id, cloud] of this.smokeClouds) {
+      cloud.update(dtMs);
+      if (cloud.expired) this.smokeClouds.delete(id);
+    }
+  }
+
+  /**
+   * 团队模式各队得分（按 TEAMS 顺序）；个人混战返回空数组
+   */
+  getTeamScores(): number[] {
+    if (!isTeamMode(this.settings.mode)) return [];
+    return TEAMS.map((team) => this.teamScores.get(team) ?? 0);
+  }
+
+  /**
+   * 玩家的敌人（除自己和队友外的所有玩家）
+   */
+  enemiesOf(player: Player): Player[] {
+    return Array.from(this.players.values()).filter(
+      (p) => p.id !== player.id && !isSameTeam(p.team, player.team)
+    );
+  }
+
+  /**
+   * 计算某坦克对接收者的可见状态（null = 不下发）
+   */
+  private getRelevantTank(
+    viewer: Player,
+    other: Player,
+    cache: Map<number, TankSnapshot>
+  ): TankSnapshot | null {
+    if (other.id === viewer.id) return other.toSnapshot();
+
+    const dist = horizontalDistance(viewer.position, other.position);
+    if (dist > AOI_FAR_DISTANCE) {
+      cache.delete(other.id);
+      return null;
+    }
+    // 队友共享位置，不受视野限制
+    if (
+      !isSameTeam(viewer.team, other.team) &&
+      !this.visibility.isVisible(viewer, other, this.currentTick)
+    ) {
+      cache.delete(other.id);
+      return null;
+    }
+
+    const cached = cache.get(other.id);
+    // 按实体 ID 错开降频更新的帧，避免所有远距离坦克挤在同一帧
+    const refresh =
+      dist <= AOI_NEAR_DISTANCE ||
+      !cached ||
+      cached.alive !== other.alive ||
+      (this.snapshotId + other.id) % AOI_FAR_UPDATE_INTERVAL === 0;
+    if (!refresh) return cached;
+
+    const tank = other.toSnapshot();
+    cache.set(other.id, tank);
+    return tank;
+  }
+
   /**
    * 添加玩家到世界
    */
   addPlayer(player: Player): void {
     this.players.set(player.id, player);
-    const enemies = Array.from(this.players.values()).filter(
-      (p) => p.id !== player.id
-    );
+    const enemies = this.enemiesOf(player);
     const spawnPos = this.spawnManager.selectSpawnPoint(
       player,
       enemies,
       this.map
     );
     player.respawn(spawnPos);
+
+    // 大逃杀回合进行中加入：观战到下一回合
+    if (this.safeZone) {
+      player.hp = 0;
+      player.alive = false;
+    }
   }
 
   /**
    * 移除玩家
    */
   removePlayer(playerId: number): void {
+    const player = this.players.get(playerId);
+    if (player) this.dropCarriedFlag(player);
     this.players.delete(playerId);
+    this.aoiCache.delete(playerId);
+    this.visibility.removePlayer(playerId);
+    for (const cache of this.aoiCache.values()) {
+      cache.delete(playerId);
+    }
     this.respawnQueue = this.respawnQueue.filter(
       (e) => e.player.id !== playerId
     );
@@ -534,18 +1106,25 @@ export class GameWorld {
    */
   reset(newSeed: number): void {
     this.currentTick = 0;
-    this.snapshotId = 0;
+    this.positionHistory.fill(undefined);
+    this.aoiCache.clear();
+    // snapshotId 跨回合保持递增：客户端确认的基线 ID 不能与新回合冲突
     this.projectiles.clear();
+    this.smokeClouds.clear();
     this.respawnQueue = [];
+    this.teamScores.clear();
+    this.safeZone = null;
+    this.waves = null;
     this.map = MapGenerator.generate(newSeed);
+    this.createFlags();
+    this.createControlPoints();
     this.spawnManager.reset();
+    this.visibility.reset(this.map);
 
     // 重新出生所有玩家
     for (const player of this.players.values()) {
       player.resetStats();
-      const enemies = Array.from(this.players.values()).filter(
-        (p) => p.id !== player.id
-      );
+      const enemies = this.enemiesOf(player);
       const spawnPos = this.spawnManager.selectSpawnPoint(
         player,
         enemies,
@@ -555,3 +1134,12 @@ export class GameWorld {
     }
   }
 }
+
+/**
+ * 水平面距离（AOI 判定忽略高度）
+ */
+function horizontalDistance(a: Vec3, b: Vec3): number {
+  const dx = a.x - b.x;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx * dx + dz * dz);
+}
@@ -1,6 +1,8 @@
-import { Vec3 } from '@tankgame/shared';
+import { Vec3, getControlPointPosition } from '@tankgame/shared';
 import {
   MAP_WIDTH,
+  CONTROL_POINT_COUNT,
+  CONTROL_POINT_RADIUS,
   MAP_DEPTH,
   HEIGHTMAP_RESOLUTION,
   MAX_SLOPE,
@@ -25,6 +27,15 @@ export interface SpawnZone {
   radius: number;
 }
 
+/**
+ * 控制点区域（占点模式）
+ */
+export interface ControlPointZone {
+  id: number;
+  center: Vec3;
+  radius: number;
+}
+
 /**
  * 地图数据
  */
@@ -35,6 +46,7 @@ export interface GameMapData {
   resolution: number;
   covers: CoverNode[];
   spawnZones: SpawnZone[];
+  controlPoints: ControlPointZone[];
   seed: number;
 }
 
@@ -93,6 +105,9 @@ export class MapGenerator {
     // 4. 生成出生区域
     const spawnZones = generateSpawnZones();
 
+    // 5. 控制点（中央平坦区，不消耗随机数，不影响掩体布局）
+    const controlPoints = generateControlPoints();
+
     return {
       width: MAP_WIDTH,
       depth: MAP_DEPTH,
@@ -100,6 +115,7 @@ export class MapGenerator {
       resolution,
       covers,
       spawnZones,
+      controlPoints,
       seed,
     };
   }
@@ -287,6 +303,14 @@ function generateSpawnZones(): SpawnZone[] {
   ];
 }
 
+function generateControlPoints(): ControlPointZone[] {
+  return Array.from({ length: CONTROL_POINT_COUNT }, (_, id) => ({
+    id,
+    center: getControlPointPosition(id),
+    radius: CONTROL_POINT_RADIUS,
+  }));
+}
+
 function calculateFairness(zones: SpawnZone[]): number {
   if (zones.length < 2) return 1;
   const dists = zones.map((z) => z.center.distanceTo(Vec3.zero()));
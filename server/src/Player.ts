@@ -1,10 +1,13 @@
-import { Vec3 } from '@tankgame/shared';
+import { Vec3, Team } from '@tankgame/shared';
 import {
   TANK_MAX_HP,
-  RELOAD_TIME,
+  DEFAULT_TANK_CLASS,
+  DEFAULT_AMMO_TYPE,
+  getTankClassStats,
+  getAmmoStats,
 } from '@tankgame/shared';
 import type { InputCmd, TankSnapshot, PlayerScore } from '@tankgame/shared';
-import type { TankPhysicsState } from '@tankgame/shared';
+import type { TankPhysicsState, TankClass, TankClassStats, AmmoType } from '@tankgame/shared';
 
 /**
  * 服务器端玩家实体
@@ -29,6 +32,8 @@ export class Player {
 
   // 武器状态
   reloadRemain: number = 0;
+  /** 当前选择的弹种（随输入更新） */
+  ammoType: AmmoType = DEFAULT_AMMO_TYPE;
 
   // 输入队列
   inputQueue: InputCmd[] = [];
@@ -36,6 +41,8 @@ export class Player {
 
   // 上一次的输入状态（用于无新输入时持续物理模拟）
   lastInput: InputCmd | null = null;
+  /** 已接收的最大输入序号（冗余输入去重） */
+  lastReceivedSeq: number = 0;
 
   // 统计
   kills: number = 0;
@@ -49,11 +56,42 @@ export class Player {
   /** 是否为 AI 机器人 */
   isBot: boolean = false;
 
+  /** 所属队伍（个人混战为 None） */
+  team: Team = Team.None;
+
+  /** 坦克职业 */
+  tankClass: TankClass = DEFAULT_TANK_CLASS;
+  /** 已选择、下次复活时换用的职业（null = 不更换） */
+  pendingClass: TankClass | null = null;
+
   constructor(id: number, nickname: string) {
     this.id = id;
     this.nickname = nickname;
   }
 
+  /**
+   * 当前职业属性
+   */
+  get stats(): Readonly<TankClassStats> {
+    return getTankClassStats(this.tankClass);
+  }
+
+  /**
+   * 立即切换职业并回满对应 HP（加入房间时使用）
+   */
+  setTankClass(tankClass: TankClass): void {
+    this.tankClass = tankClass;
+    this.pendingClass = null;
+    this.hp = this.stats.maxHp;
+  }
+
+  /**
+   * 选择下次复活时的职业
+   */
+  selectClass(tankClass: TankClass): void {
+    this.pendingClass = tankClass === this.tankClass ? null : tankClass;
+  }
+
   /**
    * 获取物理状态（用于共享物理计算）
    */
@@ -64,6 +102,7 @@ export class Player {
       bodyYaw: this.bodyYaw,
       turretYaw: this.turretYaw,
       gunPitch: this.gunPitch,
+      tankClass: this.tankClass,
     };
   }
 
@@ -85,6 +124,8 @@ export class Player {
       deaths: this.deaths,
       nickname: this.nickname,
       isBot: this.isBot,
+      team: this.team,
+      tankClass: this.tankClass,
     };
   }
 
@@ -99,6 +140,7 @@ export class Player {
       deaths: this.deaths,
       hits: this.hits,
       shots: this.shots,
+      team: this.team,
     };
   }
 
@@ -112,6 +154,28 @@ export class Player {
     }
   }
 
+  /**
+   * 接收网络输入包 — 展开捎带的冗余历史输入，按 seq 去重后依次入队
+   * 丢包或突发到达时，缺失的输入（包括开火）由后续包补齐
+   * 阵亡期间只推进 seq 不入队，复活后的首个包不会重放阵亡时的冗余帧（包括开火）
+   */
+  receiveInput(cmd: InputCmd): void {
+    if (!this.alive) {
+      this.lastReceivedSeq = Math.max(this.lastReceivedSeq, cmd.seq);
+      return;
+    }
+    const { redundant, ...current } = cmd;
+    const frames: InputCmd[] = (redundant ?? []).map((f) => ({ ...f, type: cmd.type }));
+    frames.push(current);
+    frames.sort((a, b) => a.seq - b.seq);
+
+    for (const frame of frames) {
+      if (frame.seq <= this.lastReceivedSeq) continue;
+      this.lastReceivedSeq = frame.seq;
+      this.pushInput(frame);
+    }
+  }
+
   /**
    * 取出本 tick 的输入命令，若无新命令则返回上次输入（保持移动连续性）
    */
@@ -128,6 +192,14 @@ export class Player {
     return null;
   }
 
+  /**
+   * 清空输入（断线保留期间坦克原地停下）
+   */
+  clearInput(): void {
+    this.inputQueue.length = 0;
+    this.lastInput = null;
+  }
+
   /**
    * 受到伤害
    */
@@ -146,15 +218,19 @@ export class Player {
   }
 
   /**
-   * 复活
+   * 复活（换用已选择的职业）
    */
   respawn(position: Vec3): void {
+    if (this.pendingClass !== null) {
+      this.tankClass = this.pendingClass;
+      this.pendingClass = null;
+    }
     this.position = position.clone();
     this.velocity = Vec3.zero();
     this.bodyYaw = Math.random() * Math.PI * 2 - Math.PI;
     this.turretYaw = 0;
     this.gunPitch = 0;
-    this.hp = TANK_MAX_HP;
+    this.hp = this.stats.maxHp;
     this.alive = true;
     this.reloadRemain = 0;
     this.respawnTimer = 0;
@@ -167,11 +243,11 @@ export class Player {
   }
 
   /**
-   * 尝试开火
+   * 尝试开火（装填时间 = 职业装填 × 弹种倍率）
    */
   tryFire(): boolean {
     if (!this.alive || this.reloadRemain > 0) return false;
-    this.reloadRemain = RELOAD_TIME;
+    this.reloadRemain = this.stats.reloadTime * getAmmoStats(this.ammoType).reloadFactor;
     this.shots++;
     return true;
   }
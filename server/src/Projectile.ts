@@ -1,5 +1,5 @@
-import { Vec3 } from '@tankgame/shared';
-import type { ProjectileSnapshot } from '@tankgame/shared';
+import { Vec3, DIRECT_HIT_DAMAGE, DEFAULT_AMMO_TYPE } from '@tankgame/shared';
+import type { ProjectileSnapshot, AmmoType } from '@tankgame/shared';
 import { updateProjectile } from '@tankgame/shared';
 
 /**
@@ -12,19 +12,31 @@ export class Projectile {
   velocity: Vec3;
   ttl: number; // 剩余存活时间 (ms)
   active: boolean = true;
+  /** 延迟补偿：命中判定时目标位置回溯的 tick 数 */
+  readonly rewindTicks: number;
+  /** 直接命中伤害（取自射手开火时的职业与弹种） */
+  readonly damage: number;
+  /** 弹种 */
+  readonly ammoType: AmmoType;
 
   constructor(
     id: number,
     shooterId: number,
     position: Vec3,
     velocity: Vec3,
-    ttl: number
+    ttl: number,
+    rewindTicks: number = 0,
+    damage: number = DIRECT_HIT_DAMAGE,
+    ammoType: AmmoType = DEFAULT_AMMO_TYPE
   ) {
     this.id = id;
     this.shooterId = shooterId;
     this.position = position.clone();
     this.velocity = velocity.clone();
     this.ttl = ttl;
+    this.rewindTicks = rewindTicks;
+    this.damage = damage;
+    this.ammoType = ammoType;
   }
 
   /**
@@ -64,6 +76,7 @@ export class Projectile {
       position: this.position.clone(),
       velocity: this.velocity.clone(),
       ttl: this.ttl,
+      ammoType: this.ammoType,
     };
   }
 }
@@ -0,0 +1,114 @@
+import {
+  Vec3,
+  ZONE_INITIAL_RADIUS,
+  ZONE_MIN_RADIUS,
+  ZONE_SHRINK_FACTOR,
+  ZONE_SHRINK_DELAY,
+  ZONE_SHRINK_DURATION,
+  clamp,
+} from '@tankgame/shared';
+import type { SafeZoneSnapshot } from '@tankgame/shared';
+
+/**
+ * 大逃杀安全区 — 等待与收缩两个阶段交替
+ *
+ * 每次收缩前在当前圈内随机选取下一个圈（半径乘以 ZONE_SHRINK_FACTOR），
+ * 收缩期间中心与半径线性过渡；到达 ZONE_MIN_RADIUS 后保持不变。
+ */
+export class SafeZone {
+  center: Vec3 = Vec3.zero();
+  radius: number = ZONE_INITIAL_RADIUS;
+
+  private shrinking: boolean = false;
+  /** 当前阶段剩余时间 (ms) */
+  private phaseTimer: number = ZONE_SHRINK_DELAY;
+  private fromCenter: Vec3 = Vec3.zero();
+  private fromRadius: number = ZONE_INITIAL_RADIUS;
+  private targetCenter: Vec3 = Vec3.zero();
+  private targetRadius: number = ZONE_INITIAL_RADIUS;
+
+  private readonly mapWidth: number;
+  private readonly mapDepth: number;
+  private readonly random: () => number;
+
+  /**
+   * @param mapWidth 地图宽度（下一个圈的中心限制在地图内）
+   * @param mapDepth 地图深度
+   * @param random 随机源（测试可注入）
+   */
+  constructor(mapWidth: number, mapDepth: number, random: () => number = Math.random) {
+    this.mapWidth = mapWidth;
+    this.mapDepth = mapDepth;
+    this.random = random;
+  }
+
+  /**
+   * 推进安全区
+   */
+  update(dtMs: number): void {
+    if (!this.shrinking && this.radius <= ZONE_MIN_RADIUS) return;
+
+    this.phaseTimer -= dtMs;
+    if (this.shrinking) {
+      const t = clamp(1 - this.phaseTimer / ZONE_SHRINK_DURATION, 0, 1);
+      this.center = this.fromCenter.clone().lerp(this.targetCenter, t);
+      this.radius = this.fromRadius + (this.targetRadius - this.fromRadius) * t;
+      if (this.phaseTimer <= 0) {
+        this.shrinking = false;
+        this.phaseTimer = ZONE_SHRINK_DELAY;
+      }
+    } else if (this.phaseTimer <= 0) {
+      this.beginShrink();
+    }
+  }
+
+  /**
+   * 选取下一个圈并开始收缩
+   */
+  private beginShrink(): void {
+    this.shrinking = true;
+    this.phaseTimer = ZONE_SHRINK_DURATION;
+    this.fromCenter = this.center.clone();
+    this.fromRadius = this.radius;
+    this.targetRadius = Math.max(ZONE_MIN_RADIUS, this.radius * ZONE_SHRINK_FACTOR);
+
+    // 新圈完全落在旧圈内，再限制中心不超出地图
+    const angle = this.random() * Math.PI * 2;
+    const offset = Math.sqrt(this.random()) * (this.radius - this.targetRadius);
+    const limitX = Math.max(0, this.mapWidth / 2 - this.targetRadius);
+    const limitZ = Math.max(0, this.mapDepth / 2 - this.targetRadius);
+    this.targetCenter = new Vec3(
+      clamp(this.center.x + Math.cos(angle) * offset, -limitX, limitX),
+      0,
+      clamp(this.center.z + Math.sin(angle) * offset, -limitZ, limitZ)
+    );
+  }
+
+  /**
+   * 位置是否在安全区内（水平距离）
+   */
+  contains(pos: Vec3): boolean {
+    const dx = pos.x - this.center.x;
+    const dz = pos.z - this.center.z;
+    return dx * dx + dz * dz <= this.radius * this.radius;
+  }
+
+  /**
+   * 距下次开始收缩的时间 (ms)；收缩中或已到最小半径为 0
+   */
+  get nextShrinkIn(): number {
+    if (this.shrinking || this.radius <= ZONE_MIN_RADIUS) return 0;
+    return Math.max(0, this.phaseTimer);
+  }
+
+  /**
+   * 获取快照数据
+   */
+  toSnapshot(): SafeZoneSnapshot {
+    return {
+      center: this.center.clone(),
+      radius: this.radius,
+      nextShrinkIn: this.nextShrinkIn,
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { Vec3, SMOKE_CLOUD_RADIUS, SMOKE_CLOUD_DURATION } from '@tankgame/shared';
+import type { SmokeCloudSnapshot } from '@tankgame/shared';
+
+/**
+ * 烟雾云 — 烟雾弹落点生成，持续期间遮挡穿过它的视线
+ */
+export class SmokeCloud {
+  readonly id: number;
+  /** 中心（落点） */
+  readonly position: Vec3;
+  readonly radius: number;
+  /** 剩余持续时间 (ms) */
+  remaining: number;
+
+  constructor(
+    id: number,
+    position: Vec3,
+    radius: number = SMOKE_CLOUD_RADIUS,
+    duration: number = SMOKE_CLOUD_DURATION
+  ) {
+    this.id = id;
+    this.position = position.clone();
+    this.radius = radius;
+    this.remaining = duration;
+  }
+
+  /**
+   * 推进消散计时
+   */
+  update(dtMs: number): void {
+    this.remaining = Math.max(0, this.remaining - dtMs);
+  }
+
+  /** 已完全消散 */
+  get expired(): boolean {
+    return this.remaining <= 0;
+  }
+
+  /**
+   * 两点之间的视线是否穿过烟雾（水平投影；任一端在烟雾中也算遮挡）
+   */
+  blocksSight(from: Vec3, to: Vec3): boolean {
+    const dx = to.x - from.x;
+    const dz = to.z - from.z;
+    const lenSq = dx * dx + dz * dz;
+    const px = this.position.x - from.x;
+    const pz = this.position.z - from.z;
+    const t = lenSq < 1e-6 ? 0 : Math.max(0, Math.min(1, (px * dx + pz * dz) / lenSq));
+    const ox = px - dx * t;
+    const oz = pz - dz * t;
+    return ox * ox + oz * oz < this.radius * this.radius;
+  }
+
+  /**
+   * 获取快照数据
+   */
+  toSnapshot(): SmokeCloudSnapshot {
+    return {
+      id: this.id,
+      position: this.position.clone(),
+      radius: this.radius,
+      remaining: this.remaining,
+    };
+  }
+}
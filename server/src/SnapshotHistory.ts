@@ -0,0 +1,105 @@
+import {
+  SNAPSHOT_BASELINE_WINDOW,
+  createSnapshotDelta,
+  applySnapshotDelta,
+  staticsKey,
+} from '@tankgame/shared';
+import type {
+  SnapshotMessage,
+  SnapshotDeltaMessage,
+  TankStatics,
+} from '@tankgame/shared';
+
+/**
+ * 单个客户端的快照历史 — 增量压缩的服务器端状态
+ *
+ * 记录最近发送的快照（按客户端还原后的视角保存，避免阈值误差累积），
+ * 以客户端最新确认的快照为基线生成增量；
+ * 基线丢失或过旧时回退为关键帧。
+ */
+export class SnapshotHistory {
+  /** 已发送快照（客户端视角），按 snapshotId 索引 */
+  private sent: Map<number, SnapshotMessage> = new Map();
+  /** 客户端最新确认的快照 ID（0 = 无） */
+  private ackedId: number = 0;
+  /** 客户端已确认收到的静态字段签名 entityId → staticsKey */
+  private knownStatics: Map<number, string> = new Map();
+  /** 每个已发送快照中携带的静态字段签名 */
+  private sentStatics: Map<number, Map<number, string>> = new Map();
+  /** 还原快照时使用的静态字段缓存 */
+  private statics: Map<number, TankStatics> = new Map();
+
+  /**
+   * 生成要发送的快照（关键帧或增量），并记入历史
+   */
+  encode(snapshot: SnapshotMessage): SnapshotDeltaMessage {
+    const baseline = this.getBaseline(snapshot.snapshotId);
+    const carried = new Map<number, string>();
+
+    const delta = createSnapshotDelta(snapshot, baseline, (tank) => {
+      const key = staticsKey(tank);
+      if (this.knownStatics.get(tank.entityId) === key) return false;
+      carried.set(tank.entityId, key);
+      return true;
+    });
+
+    this.sent.set(snapshot.snapshotId, applySnapshotDelta(delta, baseline, this.statics));
+    this.sentStatics.set(snapshot.snapshotId, carried);
+    this.prune(snapshot.snapshotId);
+    return delta;
+  }
+
+  /**
+   * 处理客户端确认（乱序或重复的旧确认会被忽略）
+   */
+  acknowledge(snapshotId: number): void {
+    if (snapshotId <= this.ackedId || !this.sent.has(snapshotId)) return;
+    this.ackedId = snapshotId;
+
+    const carried = this.sentStatics.get(snapshotId);
+    if (carried) {
+      for (const [entityId, key] of carried) {
+        this.knownStatics.set(entityId, key);
+      }
+    }
+  }
+
+  /**
+   * 最新确认的快照 ID
+   */
+  get lastAckedId(): number {
+    return this.ackedId;
+  }
+
+  /**
+   * 清空历史（下一帧发送关键帧）
+   */
+  reset(): void {
+    this.sent.clear();
+    this.sentStatics.clear();
+    this.knownStatics.clear();
+    this.statics.clear();
+    this.ackedId = 0;
+  }
+
+  /**
+   * 取可用的基线：已确认、仍在历史中且未超出窗口
+   */
+  private getBaseline(currentId: number): SnapshotMessage | undefined {
+    if (this.ackedId === 0) return undefined;
+    if (currentId - this.ackedId > SNAPSHOT_BASELINE_WINDOW) return undefined;
+    return this.sent.get(this.ackedId);
+  }
+
+  /**
+   * 丢弃窗口之外的历史
+   */
+  private prune(currentId: number): void {
+    for (const id of this.sent.keys()) {
+      if (currentId - id > SNAPSHOT_BASELINE_WINDOW) {
+        this.sent.delete(id);
+        this.sentStatics.delete(id);
+      }
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Vec3 } from '@tankgame/shared';
+import { Vec3, Team } from '@tankgame/shared';
 import {
   gaussianScore,
   SPAWN_CANDIDATE_COUNT,
@@ -9,7 +9,7 @@ import {
   SPAWN_COOLDOWN_RADIUS,
   SPAWN_WEIGHTS,
 } from '@tankgame/shared';
-import { MapGenerator, type GameMapData } from './MapGenerator.js';
+import { MapGenerator, type GameMapData, type SpawnZone } from './MapGenerator.js';
 import type { Player } from './Player.js';
 
 /**
@@ -29,7 +29,7 @@ export class SpawnManager {
     map: GameMapData
   ): Vec3 {
     const aliveEnemies = enemies.filter((e) => e.alive && e.id !== player.id);
-    const candidates = this.generateCandidates(map);
+    const candidates = this.generateCandidates(map, this.getZonesForTeam(map, player.team));
 
     const scored = candidates.map((point) => ({
       point,
@@ -51,13 +51,24 @@ export class SpawnManager {
   }
 
   /**
-   * 在所有出生区内生成候选点
+   * 队伍可用的出生区：红队在地图西侧 (x < 0)，蓝队在东侧 (x > 0)
+   * 无队伍或该侧没有出生区时使用全部出生区
    */
-  private generateCandidates(map: GameMapData): Vec3[] {
+  getZonesForTeam(map: GameMapData, team: Team): SpawnZone[] {
+    if (team === Team.None) return map.spawnZones;
+    const side = team === Team.Red ? -1 : 1;
+    const zones = map.spawnZones.filter((zone) => Math.sign(zone.center.x) === side);
+    return zones.length > 0 ? zones : map.spawnZones;
+  }
+
+  /**
+   * 在给定出生区内生成候选点
+   */
+  private generateCandidates(map: GameMapData, zones: SpawnZone[]): Vec3[] {
     const candidates: Vec3[] = [];
-    const pointsPerZone = Math.ceil(SPAWN_CANDIDATE_COUNT / map.spawnZones.length);
+    const pointsPerZone = Math.ceil(SPAWN_CANDIDATE_COUNT / zones.length);
 
-    for (const zone of map.spawnZones) {
+    for (const zone of zones) {
       for (let i = 0; i < pointsPerZone; i++) {
         const angle = Math.random() * Math.PI * 2;
         const r = Math.random() * zone.radius;
@@ -146,7 +157,7 @@ export class SpawnManager {
 /**
  * 检查一个点是否大致在两点连线上（用于简化 LOS 遮挡判断）
  */
-function isPointBetween(
+export function isPointBetween(
   from: Vec3,
   to: Vec3,
   point: Vec3,
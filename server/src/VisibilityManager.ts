@@ -0,0 +1,141 @@
+import {
+  TICK_INTERVAL,
+  VISIBILITY_EYE_HEIGHT,
+  VISIBILITY_PROXIMITY_RADIUS,
+  VISIBILITY_LINGER,
+  FIRE_REVEAL_DURATION,
+  VISIBILITY_SAMPLE_STEP,
+} from '@tankgame/shared';
+import type { Vec3 } from '@tankgame/shared';
+import { MapGenerator, type GameMapData } from './MapGenerator.js';
+import { isPointBetween } from './SpawnManager.js';
+import type { Player } from './Player.js';
+import type { SmokeCloud } from './SmokeCloud.js';
+
+/**
+ * 视野管理器 — 服务器端战争迷雾
+ *
+ * 按接收者判定敌方坦克是否被发现，未发现的坦克不下发，防止透视外挂：
+ * - 近身距离内直接发现
+ * - 视线（炮塔高度）未被掩体、地形或烟雾遮挡则发现
+ * - 发现后脱离视线仍保持 VISIBILITY_LINGER
+ * - 开火后 FIRE_REVEAL_DURATION 内对所有玩家暴露
+ */
+export class VisibilityManager {
+  private map: GameMapData;
+  /** 当前存在的烟雾云（由 GameWorld 维护，此处只读） */
+  private readonly smokeClouds: ReadonlyMap<number, SmokeCloud>;
+  /** 最近一次被发现的 tick viewerId → (targetId → tick) */
+  private lastSeen: Map<number, Map<number, number>> = new Map();
+  /** 最近一次开火的 tick playerId → tick */
+  private firedAt: Map<number, number> = new Map();
+  private readonly lingerTicks: number;
+  private readonly revealTicks: number;
+
+  constructor(map: GameMapData, smokeClouds: ReadonlyMap<number, SmokeCloud> = new Map()) {
+    this.map = map;
+    this.smokeClouds = smokeClouds;
+    this.lingerTicks = Math.round(VISIBILITY_LINGER / TICK_INTERVAL);
+    this.revealTicks = Math.round(FIRE_REVEAL_DURATION / TICK_INTERVAL);
+  }
+
+  /**
+   * 开火暴露射手
+   */
+  reveal(playerId: number, tick: number): void {
+    this.firedAt.set(playerId, tick);
+  }
+
+  /**
+   * target 对 viewer 是否可见（会刷新发现记录）
+   */
+  isVisible(viewer: Player, target: Player, tick: number): boolean {
+    if (viewer.id === target.id) return true;
+    // 残骸不含战术信息，死亡事件也已公开位置
+    if (!target.alive) return true;
+
+    const fired = this.firedAt.get(target.id);
+    if (fired !== undefined && tick - fired <= this.revealTicks) return true;
+
+    let seen = this.lastSeen.get(viewer.id);
+    if (!seen) {
+      seen = new Map();
+      this.lastSeen.set(viewer.id, seen);
+    }
+
+    if (this.canSpot(viewer.position, target.position)) {
+      seen.set(target.id, tick);
+      return true;
+    }
+
+    const last = seen.get(target.id);
+    return last !== undefined && tick - last <= this.lingerTicks;
+  }
+
+  /**
+   * 近身或视线畅通
+   */
+  canSpot(from: Vec3, to: Vec3): boolean {
+    const dx = to.x - from.x;
+    const dz = to.z - from.z;
+    if (dx * dx + dz * dz <= VISIBILITY_PROXIMITY_RADIUS * VISIBILITY_PROXIMITY_RADIUS) {
+      return true;
+    }
+    return this.hasLineOfSight(from, to);
+  }
+
+  /**
+   * 两坦克炮塔高度之间的视线是否畅通（烟雾 + 掩体圆柱 + 高度图）
+   */
+  hasLineOfSight(from: Vec3, to: Vec3): boolean {
+    // 烟雾：不论高度，穿过即遮挡
+    for (const cloud of this.smokeClouds.values()) {
+      if (cloud.blocksSight(from, to)) return false;
+    }
+
+    const y0 = from.y + VISIBILITY_EYE_HEIGHT;
+    const y1 = to.y + VISIBILITY_EYE_HEIGHT;
+    const dx = to.x - from.x;
+    const dz = to.z - from.z;
+    const lenSq = dx * dx + dz * dz;
+    if (lenSq < 1e-6) return true;
+
+    // 掩体：水平投影相交且顶部高于该处视线
+    for (const cover of this.map.covers) {
+      if (!isPointBetween(from, to, cover.position, cover.radius)) continue;
+      const t = ((cover.position.x - from.x) * dx + (cover.position.z - from.z) * dz) / lenSq;
+      const top = MapGenerator.getHeightAt(this.map, cover.position.x, cover.position.z) + cover.height;
+      if (top > y0 + (y1 - y0) * t) return false;
+    }
+
+    // 地形：沿视线等距采样（不含两端）
+    const steps = Math.floor(Math.sqrt(lenSq) / VISIBILITY_SAMPLE_STEP);
+    for (let i = 1; i < steps; i++) {
+      const t = i / steps;
+      const ground = MapGenerator.getHeightAt(this.map, from.x + dx * t, from.z + dz * t);
+      if (ground > y0 + (y1 - y0) * t) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 移除玩家的所有记录
+   */
+  removePlayer(playerId: number): void {
+    this.lastSeen.delete(playerId);
+    this.firedAt.delete(playerId);
+    for (const seen of this.lastSeen.values()) {
+      seen.delete(playerId);
+    }
+  }
+
+  /**
+   * 重置（新回合 / 新地图）
+   */
+  reset(map: GameMapData): void {
+    this.map = map;
+    this.lastSeen.clear();
+    this.firedAt.clear();
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  WavePhase,
+  COOP_MAX_BOTS,
+  COOP_FIRST_WAVE_BOTS,
+  COOP_BOTS_PER_WAVE,
+  COOP_SHARED_LIVES,
+  COOP_FIRST_WAVE_DELAY,
+  COOP_REPAIR_TIME,
+} from '@tankgame/shared';
+import type { WaveSnapshot } from '@tankgame/shared';
+
+/**
+ * 波次难度阶梯：达到 fromWave 后使用对应的 AI_DIFFICULTIES 难度
+ */
+const WAVE_DIFFICULTY_STEPS: ReadonlyArray<{ fromWave: number; difficulty: string }> = [
+  { fromWave: 1, difficulty: 'easy' },
+  { fromWave: 3, difficulty: 'normal' },
+  { fromWave: 6, difficulty: 'hard' },
+];
+
+/**
+ * 某一波的 AI 数量（逐波递增，不超过 COOP_MAX_BOTS）
+ */
+export function getWaveBotCount(wave: number): number {
+  return Math.min(COOP_MAX_BOTS, COOP_FIRST_WAVE_BOTS + (wave - 1) * COOP_BOTS_PER_WAVE);
+}
+
+/**
+ * 某一波的 AI 难度
+ */
+export function getWaveDifficulty(wave: number): string {
+  let difficulty = WAVE_DIFFICULTY_STEPS[0].difficulty;
+  for (const step of WAVE_DIFFICULTY_STEPS) {
+    if (wave >= step.fromWave) difficulty = step.difficulty;
+  }
+  return difficulty;
+}
+
+/**
+ * 合作模式波次状态 — 维修与交战两个阶段交替，全队共享复活次数
+ *
+ * 只负责计时与计数；生成 / 清理 AI 由 GameRoom 根据阶段完成。
+ */
+export class WaveManager {
+  /** 当前波次（第一波开始前为 0） */
+  wave: number = 0;
+  phase: WavePhase = WavePhase.Repair;
+  /** 共享复活次数剩余 */
+  lives: number = COOP_SHARED_LIVES;
+  /** 维修阶段剩余时间 (ms) */
+  private phaseTimer: number = COOP_FIRST_WAVE_DELAY;
+
+  /**
+   * 推进维修倒计时
+   */
+  update(dtMs: number): void {
+    if (this.phase === WavePhase.Repair) {
+      this.phaseTimer = Math.max(0, this.phaseTimer - dtMs);
+    }
+  }
+
+  /**
+   * 维修倒计时结束，可以开始下一波
+   */
+  get readyForNextWave(): boolean {
+    return this.phase === WavePhase.Repair && this.phaseTimer <= 0;
+  }
+
+  /**
+   * 开始下一波
+   * @returns 新的波次
+   */
+  startWave(): number {
+    this.wave++;
+    this.phase = WavePhase.Combat;
+    this.phaseTimer = 0;
+    return this.wave;
+  }
+
+  /**
+   * 本波清空，进入维修阶段
+   */
+  startRepair(): void {
+    this.phase = WavePhase.Repair;
+    this.phaseTimer = COOP_REPAIR_TIME;
+  }
+
+  /**
+   * 消耗一次共享复活
+   * @returns 是否还有复活次数
+   */
+  consumeLife(): boolean {
+    if (this.lives <= 0) return false;
+    this.lives--;
+    return true;
+  }
+
+  /**
+   * 获取快照数据
+   * @param botsRemaining 本波存活的 AI 数
+   */
+  toSnapshot(botsRemaining: number): WaveSnapshot {
+    return {
+      wave: this.wave,
+      phase: this.phase,
+      botsRemaining,
+      lives: this.lives,
+      phaseTimeRemaining: this.phaseTimer,
+    };
+  }
+}
@@ -2,9 +2,9 @@ import { WebSocketServer, WebSocket } from 'ws';
 import http from 'http';
 import fs from 'fs';
 import path from 'path';
+import { randomUUID } from 'crypto';
 import {
   DEFAULT_PORT,
-  MAX_PLAYERS,
   MessageType,
   TICK_RATE,
   SNAPSHOT_RATE,
@@ -15,12 +15,32 @@ import {
   RELOAD_TIME,
   GRAVITY,
   SPLASH_RADIUS,
-  ROUND_DURATION,
-  RESPAWN_DELAY,
+  RECONNECT_GRACE_PERIOD,
+  MAX_NICKNAME_LENGTH,
+  PROTOCOL_VERSION,
+  CONTENT_VERSION,
+  WireFormat,
+  ErrorCode,
+  decodeBinaryMessage,
+  isCompatibleVersion,
+  validateClientMessage,
+  resolveRoomSettings,
+  parseNetworkConditions,
+  describeNetworkConditions,
+  NetworkSimulator,
 } from '@tankgame/shared';
-import type { InputCmd } from '@tankgame/shared';
-import { GameRoom } from './GameRoom.js';
-import type { RoomClient } from './GameRoom.js';
+import type {
+  ClientMessage,
+  JoinRoomMessage,
+  InputCmd,
+  SnapshotAckMessage,
+  SelectClassMessage,
+  ErrorMessage,
+  RoomInfo,
+} from '@tankgame/shared';
+import { GameRoom, generateInviteCode } from './GameRoom.js';
+import type { RoomClient, RoomOptions } from './GameRoom.js';
+import type { Player } from './Player.js';
 import { GameDatabase } from './Database.js';
 
 const PORT = parseInt(process.env.PORT ?? String(DEFAULT_PORT), 10);
@@ -28,12 +48,28 @@ const PORT = parseInt(process.env.PORT ?? String(DEFAULT_PORT), 10);
 /* ── 安全常量 ──────────────────────────── */
 /** WebSocket 最大消息尺寸 (16KB) */
 const MAX_WS_PAYLOAD = 16 * 1024;
-/** 单个 IP 最大并发连接数 */
-const MAX_CONNECTIONS_PER_IP = 6;
+/** 单个 IP 默认最大并发连接数 */
+const DEFAULT_MAX_CONNECTIONS_PER_IP = 6;
+/** 单个 IP 最大并发连接数（本机压测时可用环境变量放宽；不是正整数时回退默认值，避免限流失效） */
+const MAX_CONNECTIONS_PER_IP = parsePositiveInt(process.env.MAX_CONNECTIONS_PER_IP) ?? DEFAULT_MAX_CONNECTIONS_PER_IP;
+/** 全服最大房间数（含快速加入自动新建的房间） */
+const MAX_ROOMS = 100;
+/** 同一 IP 两次主动建房的最小间隔 (ms) */
+const ROOM_CREATE_COOLDOWN_MS = 10_000;
 /** 单个连接每秒最大消息数 */
 const MAX_MESSAGES_PER_SECOND = 60;
-/** 昵称最大长度 */
-const MAX_NICKNAME_LENGTH = 16;
+/** 单个连接允许的协议违规次数（解析失败、校验拒绝、字段越界），超过即断开 */
+const MAX_PROTOCOL_VIOLATIONS = 20;
+/** 客户端主动离开的关闭码（其余由客户端一侧关闭的连接视为掉线，保留会话等待重连） */
+const CLOSE_NORMAL = 1000;
+/** 会话被新连接接管时关闭旧连接 */
+const CLOSE_SESSION_RESUMED = 4002;
+/** 客户端版本不兼容 */
+const CLOSE_VERSION_MISMATCH = 4426;
+/** 连接数或消息速率超限 */
+const CLOSE_RATE_LIMITED = 4429;
+/** 协议违规次数超限 */
+const CLOSE_PROTOCOL_VIOLATION = 4400;
 /** 允许的 HTTP 源; 空 = 允许所有（开发模式） */
 const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
   ? process.env.ALLOWED_ORIGINS.split(',').map((s) => s.trim())
@@ -42,6 +78,8 @@ const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
 const PRODUCTION = process.env.NODE_ENV === 'production';
 /** 静态文件目录（生产模式） */
 const STATIC_DIR = process.env.STATIC_DIR || path.join(process.cwd(), 'public');
+/** 网络条件模拟（开发调试用），如 NET_SIM="latency=75,jitter=10,drop=5%" */
+const NET_SIM = process.env.NET_SIM ? parseNetworkConditions(process.env.NET_SIM) : null;
 
 /* ── MIME 类型映射 ─────────────────────── */
 const MIME_TYPES: Record<string, string> = {
@@ -68,10 +106,13 @@ const MIME_TYPES: Record<string, string> = {
  * - WebSocket 消息尺寸限制
  * - 单 IP 并发连接限制
  * - 消息速率限制
+ * - 客户端消息运行时校验 & 违规计数
  * - 昵称清洗 & 长度限制
  * - CORS 源白名单（生产模式）
  * - 安全响应头（CSP / X-Frame / XSS 等）
  * - 生产模式下统一端口（HTTP+WS+静态文件）
+ *
+ * 调试：设置 NET_SIM 时每个连接的收发都经过网络条件模拟
  */
 class GameServer {
   private wss: WebSocketServer;
@@ -85,10 +126,18 @@ class GameServer {
   private playerSessions: Map<number, number> = new Map();
   // clientId 跟踪：ws → clientId
   private playerClientIds: Map<WebSocket, string> = new Map();
+  // 断线重连凭证：resumeToken → 房间与玩家
+  private resumeTokens: Map<string, { roomId: string; playerId: number }> = new Map();
 
   // 安全：连接数 / 速率追踪
   private ipConnections: Map<string, number> = new Map();
   private wsMessageCounts: Map<WebSocket, { count: number; resetAt: number }> = new Map();
+  private wsViolations: Map<WebSocket, number> = new Map();
+  // 建房冷却：ip → 上次主动建房时间
+  private roomCreatedAt: Map<string, number> = new Map();
+
+  // 网络条件模拟：ws → 收 / 发两个方向的模拟器
+  private netSims: Map<WebSocket, { inbound: NetworkSimulator; outbound: NetworkSimulator }> = new Map();
 
   constructor(port: number) {
     // 初始化数据库
@@ -119,6 +168,17 @@ class GameServer {
 
     this.wss.on('connection', (ws, req) => this.handleConnection(ws, req));
 
+    if (process.env.MAX_CONNECTIONS_PER_IP !== undefined && parsePositiveInt(process.env.MAX_CONNECTIONS_PER_IP) === null) {
+      console.warn(
+        `[Server] Ignoring invalid MAX_CONNECTIONS_PER_IP "${process.env.MAX_CONNECTIONS_PER_IP}", using ${DEFAULT_MAX_CONNECTIONS_PER_IP}`
+      );
+    }
+    if (process.env.NET_SIM && !NET_SIM) {
+      console.warn(`[Server] Ignoring invalid NET_SIM "${process.env.NET_SIM}"`);
+    } else if (NET_SIM) {
+      console.log(`[Server] Network simulation enabled: ${describeNetworkConditions(NET_SIM)}`);
+    }
+
     // 定期清理空房间 & 速率表
     setInterval(() => this.cleanupRooms(), 30000);
   }
@@ -131,34 +191,42 @@ class GameServer {
       || req.socket.remoteAddress || 'unknown';
     const currentCount = this.ipConnections.get(ip) || 0;
     if (currentCount >= MAX_CONNECTIONS_PER_IP) {
-      ws.close(4429, 'Too many connections');
+      ws.close(CLOSE_RATE_LIMITED, 'Too many connections');
       return;
     }
     this.ipConnections.set(ip, currentCount + 1);
 
     console.log('[Server] New connection from', ip);
 
-    ws.on('message', (data) => {
-      // 消息速率限制
-      if (!this.checkMessageRate(ws)) {
-        ws.close(4429, 'Rate limit exceeded');
-        return;
-      }
-      try {
-        const msg = JSON.parse(data.toString());
-        this.handleMessage(ws, msg);
-      } catch (err) {
-        console.error('[Server] Invalid message:', err);
+    if (NET_SIM) {
+      const schedule = (fn: () => void, ms: number) => { setTimeout(fn, ms); };
+      this.netSims.set(ws, {
+        inbound: new NetworkSimulator(NET_SIM, schedule, Date.now),
+        outbound: new NetworkSimulator(NET_SIM, schedule, Date.now),
+      });
+    }
+
+    ws.on('message', (data, isBinary) => {
+      const inbound = this.netSims.get(ws)?.inbound;
+      if (inbound) {
+        // 模拟延迟期间连接可能已关闭（close 处理已执行），迟到的消息直接丢弃
+        inbound.send(() => {
+          if (ws.readyState === WebSocket.OPEN) this.handleRawMessage(ws, ip, data, isBinary);
+        });
+      } else {
+        this.handleRawMessage(ws, ip, data, isBinary);
       }
     });
 
-    ws.on('close', () => {
-      this.handleDisconnect(ws);
+    ws.on('close', (code) => {
+      this.handleDisconnect(ws, code !== CLOSE_NORMAL);
+      this.netSims.delete(ws);
       // 释放 IP 计数
       const count = this.ipConnections.get(ip) || 1;
       if (count <= 1) this.ipConnections.delete(ip);
       else this.ipConnections.set(ip, count - 1);
       this.wsMessageCounts.delete(ws);
+      this.wsViolations.delete(ws);
     });
 
     ws.on('error', (err) => {
@@ -166,6 +234,61 @@ class GameServer {
     });
   }
 
+  /**
+   * 处理一条原始消息：速率限制 → 解码 → 校验 → 分发
+   */
+  private handleRawMessage(ws: WebSocket, ip: string, data: WebSocket.RawData, isBinary: boolean): void {
+    // 消息速率限制
+    if (!this.checkMessageRate(ws)) {
+      this.close(ws, CLOSE_RATE_LIMITED, 'Rate limit exceeded');
+      return;
+    }
+    let raw: unknown;
+    try {
+      // 二进制帧（快照/输入编解码见 shared/protocol），其余为 JSON 文本
+      raw = isBinary
+        ? decodeBinaryMessage(toUint8Array(data))
+        : JSON.parse(data.toString());
+    } catch (err) {
+      console.error('[Server] Invalid message:', err);
+      this.recordViolation(ws, 1);
+      return;
+    }
+
+    const result = validateClientMessage(raw);
+    if (!result.ok) {
+      console.warn(`[Server] Rejected message from ${ip}: ${result.error}`);
+      this.recordViolation(ws, 1);
+      return;
+    }
+    if (result.clamped > 0 && !this.recordViolation(ws, result.clamped)) return;
+    this.handleMessage(ws, ip, result.message);
+  }
+
+  /**
+   * 发送消息（启用网络模拟时经模拟链路）
+   * @param droppable 是否允许被模拟丢包（握手与错误通知不丢）
+   */
+  private send(ws: WebSocket, data: string | Uint8Array, droppable: boolean = true): void {
+    const write = () => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(data);
+    };
+    const outbound = this.netSims.get(ws)?.outbound;
+    if (outbound) outbound.send(write, droppable);
+    else write();
+  }
+
+  /**
+   * 服务端主动关闭连接（启用网络模拟时排在已发送的消息之后）
+   * 先按主动离开处理：结束会话、作废恢复凭证并移除坦克，被断开的连接不能重连回对局
+   */
+  private close(ws: WebSocket, code: number, reason: string): void {
+    this.leaveRoom(ws);
+    const outbound = this.netSims.get(ws)?.outbound;
+    if (outbound) outbound.send(() => ws.close(code, reason), false);
+    else ws.close(code, reason);
+  }
+
   /**
    * 检查消息速率 — 每秒最多 MAX_MESSAGES_PER_SECOND 条
    */
@@ -180,18 +303,49 @@ class GameServer {
     return entry.count <= MAX_MESSAGES_PER_SECOND;
   }
 
-  private handleMessage(ws: WebSocket, msg: { type: number; [key: string]: unknown }): void {
+  /**
+   * 记录协议违规；超过 MAX_PROTOCOL_VIOLATIONS 断开连接
+   * @returns 连接是否仍然保留
+   */
+  private recordViolation(ws: WebSocket, count: number): boolean {
+    const total = (this.wsViolations.get(ws) ?? 0) + count;
+    this.wsViolations.set(ws, total);
+    if (total > MAX_PROTOCOL_VIOLATIONS) {
+      console.warn(`[Server] Closing connection after ${total} protocol violations`);
+      this.close(ws, CLOSE_PROTOCOL_VIOLATION, 'Protocol violation');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 分发已校验的客户端消息
+   */
+  private handleMessage(ws: WebSocket, ip: string, msg: ClientMessage): void {
     switch (msg.type) {
       case MessageType.JoinRoom:
-        this.handleJoinRoom(ws, msg as { type: number; nickname: string });
+        this.handleJoinRoom(ws, ip, msg);
         break;
 
       case MessageType.InputCmd:
-        this.handleInputCmd(ws, msg as unknown as InputCmd);
+        this.handleInputCmd(ws, msg);
+        break;
+
+      case MessageType.SnapshotAck:
+        this.handleSnapshotAck(ws, msg);
+        break;
+
+      case MessageType.LeaveRoom:
+        this.leaveRoom(ws);
+        break;
+
+      case MessageType.SelectClass:
+        this.handleSelectClass(ws, msg);
         break;
 
       case MessageType.Ping:
-        ws.send(
+        this.send(
+          ws,
           JSON.stringify({
             type: MessageType.Pong,
             clientTime: msg.clientTime,
@@ -202,7 +356,25 @@ class GameServer {
     }
   }
 
-  private handleJoinRoom(ws: WebSocket, msg: { nickname: string; clientId?: string }): void {
+  private handleJoinRoom(ws: WebSocket, ip: string, msg: JoinRoomMessage): void {
+    // 版本握手：旧缓存客户端会生成不同的地形或误解析消息，直接拒绝
+    if (!isCompatibleVersion(msg.protocolVersion, msg.contentVersion)) {
+      this.sendError(ws, ErrorCode.VersionMismatch, 'Client version is outdated, please reload', {
+        protocolVersion: PROTOCOL_VERSION,
+        contentVersion: CONTENT_VERSION,
+      });
+      console.log(
+        `[Server] Rejected client v${msg.protocolVersion}/${msg.contentVersion} (server v${PROTOCOL_VERSION}/${CONTENT_VERSION})`
+      );
+      this.close(ws, CLOSE_VERSION_MISMATCH, 'Version mismatch');
+      return;
+    }
+
+    // 已在房间中再次加入：先离开原房间（连接复用）
+    if (this.playerRooms.has(ws)) {
+      this.leaveRoom(ws);
+    }
+
     // 昵称清洗
     let nickname = (msg.nickname || 'Player').trim().slice(0, MAX_NICKNAME_LENGTH);
     if (!nickname) nickname = 'Player';
@@ -213,25 +385,30 @@ class GameServer {
       clientId = 'anonymous';
     }
 
-    // Quick Join: 找一个有空位的房间，或新建
-    let room = this.findAvailableRoom();
-    if (!room) {
-      room = this.createRoom();
-    }
+    // 线路编码协商：仅接受已知格式，其余回退 JSON
+    const wireFormat = msg.wireFormat === WireFormat.Binary ? WireFormat.Binary : WireFormat.Json;
 
     const client: RoomClient = {
       playerId: 0,
-      send: (data: string) => {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(data);
-        }
-      },
+      wireFormat,
+      send: (data: string | Uint8Array) => this.send(ws, data),
     };
 
-    const player = room.addPlayer(client, nickname);
-    if (!player) {
-      ws.send(JSON.stringify({ type: 'error', message: 'Room is full' }));
-      return;
+    // 断线重连：凭证有效则恢复原房间中的原玩家（沿用数据库会话）
+    const resumed = msg.resumeToken ? this.resumeSession(ws, msg.resumeToken, client) : null;
+    let room: GameRoom;
+    let player: Player | null;
+    if (resumed) {
+      ({ room, player } = resumed);
+    } else {
+      const target = this.selectRoom(ws, ip, msg);
+      if (!target) return;
+      room = target;
+      player = room.addPlayer(client, nickname, msg.tankClass);
+      if (!player) {
+        this.sendError(ws, ErrorCode.RoomFull, 'Room is full');
+        return;
+      }
     }
 
     this.playerRooms.set(ws, room.id);
@@ -239,19 +416,26 @@ class GameServer {
 
     // 记录 clientId 并创建数据库会话
     this.playerClientIds.set(ws, clientId);
-    try {
-      const sessionId = this.db.onPlayerLogin(clientId, nickname);
-      this.playerSessions.set(player.id, sessionId);
-    } catch (err) {
-      console.error('[Server] Database error on login:', err);
+    if (!resumed) {
+      try {
+        const sessionId = this.db.onPlayerLogin(clientId, nickname);
+        this.playerSessions.set(player.id, sessionId);
+      } catch (err) {
+        console.error('[Server] Database error on login:', err);
+      }
     }
 
+    // 每次加入 / 恢复都轮换凭证
+    const resumeToken = randomUUID();
+    this.resumeTokens.set(resumeToken, { roomId: room.id, playerId: player.id });
+
     // 注册 AFK 踢出回调（用于清理 WebSocket 映射）
-    room.onPlayerKicked = (kickedId: number) => {
+    room.onPlayerKicked = (kickedId: number, kickedPlayer: Player | undefined) => {
+      this.revokeResumeToken(room.id, kickedId);
       for (const [socket, pid] of this.playerIds) {
         if (pid === kickedId) {
           // 结束数据库会话
-          this.endPlayerSession(kickedId, socket);
+          this.endPlayerSession(kickedId, kickedPlayer);
           this.playerRooms.delete(socket);
           this.playerIds.delete(socket);
           this.playerClientIds.delete(socket);
@@ -265,13 +449,17 @@ class GameServer {
     };
 
     // 发送 JoinAck
-    ws.send(
+    this.send(
+      ws,
       JSON.stringify({
         type: MessageType.JoinAck,
         playerId: player.id,
         roomId: room.id,
         roomState: room.state,
+        timeRemaining: room.getTimeRemaining(),
         mapSeed: room.world.map.seed,
+        inviteCode: room.inviteCode,
+        isPrivate: room.isPrivate,
         config: {
           tickRate: TICK_RATE,
           snapshotRate: SNAPSHOT_RATE,
@@ -282,17 +470,79 @@ class GameServer {
           reloadTime: RELOAD_TIME,
           gravity: GRAVITY,
           splashRadius: SPLASH_RADIUS,
-          roundDuration: ROUND_DURATION,
-          respawnDelay: RESPAWN_DELAY,
+          roundDuration: room.settings.roundDuration,
+          respawnDelay: room.settings.respawnDelay,
+          settings: room.settings,
         },
-      })
+        wireFormat,
+        resumeToken,
+        resumed: resumed !== null,
+      }),
+      false
     );
 
     console.log(
-      `[Server] Player "${nickname}" (id=${player.id}) joined room ${room.id} (${room.clients.size}/${MAX_PLAYERS})`
+      resumed
+        ? `[Server] Player "${player.nickname}" (id=${player.id}) resumed in room ${room.id}`
+        : `[Server] Player "${nickname}" (id=${player.id}) joined room ${room.id} (${room.clients.size}/${room.settings.maxPlayers}, ${wireFormat})`
     );
   }
 
+  /**
+   * 发送错误通知
+   */
+  private sendError(
+    ws: WebSocket,
+    code: ErrorCode,
+    message: string,
+    extra?: Pick<ErrorMessage, 'protocolVersion' | 'contentVersion'>
+  ): void {
+    const msg: ErrorMessage = { type: MessageType.Error, code, message, ...extra };
+    this.send(ws, JSON.stringify(msg), false);
+  }
+
+  /**
+   * 凭 resumeToken 恢复会话（凭证一次性使用）
+   * 旧连接若仍被认为在线（半开连接），先由新连接接管
+   */
+  private resumeSession(
+    ws: WebSocket,
+    token: string,
+    client: RoomClient
+  ): { room: GameRoom; player: Player } | null {
+    const session = this.resumeTokens.get(token);
+    if (!session) return null;
+    this.resumeTokens.delete(token);
+
+    const room = this.rooms.get(session.roomId);
+    if (!room) return null;
+
+    for (const [socket, pid] of this.playerIds) {
+      if (socket !== ws && pid === session.playerId && this.playerRooms.get(socket) === room.id) {
+        this.playerRooms.delete(socket);
+        this.playerIds.delete(socket);
+        this.playerClientIds.delete(socket);
+        room.disconnectPlayer(pid);
+        socket.close(CLOSE_SESSION_RESUMED, 'Session resumed elsewhere');
+        break;
+      }
+    }
+
+    const player = room.reconnectPlayer(session.playerId, client);
+    return player ? { room, player } : null;
+  }
+
+  /**
+   * 作废某玩家的重连凭证
+   */
+  private revokeResumeToken(roomId: string, playerId: number): void {
+    for (const [token, session] of this.resumeTokens) {
+      if (session.roomId === roomId && session.playerId === playerId) {
+        this.resumeTokens.delete(token);
+      }
+    }
+  }
+
   private handleInputCmd(ws: WebSocket, cmd: InputCmd): void {
     const roomId = this.playerRooms.get(ws);
     if (!roomId) return;
@@ -306,16 +556,51 @@ class GameServer {
     }
   }
 
-  private handleDisconnect(ws: WebSocket): void {
+  private handleSelectClass(ws: WebSocket, msg: SelectClassMessage): void {
+    const roomId = this.playerRooms.get(ws);
+    if (!roomId) return;
+
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    const playerId = this.playerIds.get(ws);
+    if (playerId !== undefined) {
+      room.selectTankClass(playerId, msg.tankClass);
+    }
+  }
+
+  private handleSnapshotAck(ws: WebSocket, msg: SnapshotAckMessage): void {
+    const roomId = this.playerRooms.get(ws);
+    if (!roomId) return;
+
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    const playerId = this.playerIds.get(ws);
+    if (playerId !== undefined) {
+      room.acknowledgeSnapshot(playerId, msg.snapshotId);
+    }
+  }
+
+
+  /**
+   * 连接关闭
+   * @param dropped 非主动离开（掉线）— 保留坦克与会话等待重连，期满由 onPlayerExpired 清理
+   */
+  private handleDisconnect(ws: WebSocket, dropped: boolean): void {
+    if (!dropped) {
+      this.leaveRoom(ws);
+      return;
+    }
     const roomId = this.playerRooms.get(ws);
     if (roomId) {
       const room = this.rooms.get(roomId);
       const playerId = this.playerIds.get(ws);
       if (room && playerId !== undefined) {
-        // 结束数据库会话（在移除前获取统计）
-        this.endPlayerSession(playerId, ws);
-        room.removePlayer(playerId);
-        console.log(`[Server] Player ${playerId} disconnected from room ${roomId}`);
+        room.disconnectPlayer(playerId);
+        console.log(
+          `[Server] Player ${playerId} dropped from room ${roomId}, held for ${RECONNECT_GRACE_PERIOD / 1000}s`
+        );
       }
       this.playerRooms.delete(ws);
       this.playerIds.delete(ws);
@@ -323,18 +608,35 @@ class GameServer {
     }
   }
 
+  /**
+   * 离开房间（主动离开或正常关闭）— 立即移除玩家并结算会话，连接本身保持不变
+   */
+  private leaveRoom(ws: WebSocket): void {
+    const roomId = this.playerRooms.get(ws);
+    if (!roomId) return;
+
+    const room = this.rooms.get(roomId);
+    const playerId = this.playerIds.get(ws);
+    if (room && playerId !== undefined) {
+      // 移除后再结束数据库会话（合作模式移除时可能结算本局波次，需要会话仍在）
+      const player = room.world.players.get(playerId);
+      this.revokeResumeToken(roomId, playerId);
+      room.removePlayer(playerId);
+      this.endPlayerSession(playerId, player);
+      console.log(`[Server] Player ${playerId} left room ${roomId}`);
+    }
+    this.playerRooms.delete(ws);
+    this.playerIds.delete(ws);
+    this.playerClientIds.delete(ws);
+  }
+
   /**
    * 结束玩家数据库会话 — 记录最终战绩
    */
-  private endPlayerSession(playerId: number, ws: WebSocket): void {
+  private endPlayerSession(playerId: number, player: Player | undefined): void {
     const sessionId = this.playerSessions.get(playerId);
     if (sessionId === undefined) return;
 
-    // 获取玩家当前战绩
-    const roomId = this.playerRooms.get(ws);
-    const room = roomId ? this.rooms.get(roomId) : undefined;
-    const player = room?.world.players.get(playerId);
-
     try {
       this.db.onPlayerLogout(sessionId, {
         kills: player?.kills ?? 0,
@@ -400,12 +702,25 @@ class GameServer {
       return;
     }
 
+    // ── API：房间列表 ──
+    if (url.pathname === '/api/rooms' && req.method === 'GET') {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-store');
+      const rooms: RoomInfo[] = [...this.rooms.values()]
+        .filter((room) => !room.isPrivate)
+        .map((room) => room.getInfo());
+      res.writeHead(200);
+      res.end(JSON.stringify({ rooms }));
+      return;
+    }
+
     // ── 健康检查 ──
     if (url.pathname === '/api/health' && req.method === 'GET') {
       res.setHeader('Content-Type', 'application/json');
       res.writeHead(200);
       res.end(JSON.stringify({
         status: 'ok',
+        version: { protocol: PROTOCOL_VERSION, content: CONTENT_VERSION },
         rooms: this.rooms.size,
         connections: this.wss.clients.size,
         uptime: process.uptime(),
@@ -467,18 +782,100 @@ class GameServer {
     });
   }
 
+  /**
+   * 按 JoinRoom 请求选择房间：新建 / 邀请码 / 房间 ID / 快速加入
+   * 失败时已向客户端发送错误，返回 null
+   */
+  private selectRoom(ws: WebSocket, ip: string, msg: JoinRoomMessage): GameRoom | null {
+    if (msg.createRoom) {
+      // 主动建房受全服上限与同 IP 冷却限制，防止反复建房耗尽服务器
+      if (!this.checkRoomCapacity(ws)) return null;
+      const now = Date.now();
+      const lastCreated = this.roomCreatedAt.get(ip);
+      if (lastCreated !== undefined && now - lastCreated < ROOM_CREATE_COOLDOWN_MS) {
+        this.sendError(ws, ErrorCode.RoomCreateCooldown, 'Creating rooms too frequently');
+        return null;
+      }
+      this.roomCreatedAt.set(ip, now);
+      return this.createRoom({
+        isPrivate: msg.createRoom.private,
+        password: msg.createRoom.password,
+        settings: resolveRoomSettings(msg.createRoom.settings),
+      });
+    }
+    if (msg.inviteCode === undefined && msg.roomId === undefined) {
+      const available = this.findAvailableRoom();
+      if (available) return available;
+      return this.checkRoomCapacity(ws) ? this.createRoom() : null;
+    }
+
+    // 私人房间只能凭邀请码进入，房间 ID 对外不可见
+    const room = msg.inviteCode !== undefined
+      ? this.findRoomByInviteCode(msg.inviteCode)
+      : this.rooms.get(msg.roomId!);
+    if (!room || (room.isPrivate && msg.inviteCode === undefined)) {
+      this.sendError(ws, ErrorCode.RoomNotFound, 'Room not found');
+      return null;
+    }
+    if (!room.checkPassword(msg.password)) {
+      this.sendError(ws, ErrorCode.WrongPassword, 'Wrong room password');
+      return null;
+    }
+    return room;
+  }
+
+  /** 房间数已达上限时向客户端发送错误并返回 false */
+  private checkRoomCapacity(ws: WebSocket): boolean {
+    if (this.rooms.size < MAX_ROOMS) return true;
+    this.sendError(ws, ErrorCode.ServerFull, 'Too many rooms on this server');
+    return false;
+  }
+
+  /**
+   * 快速加入：跳过私人房间与设有密码的房间
+   */
   private findAvailableRoom(): GameRoom | null {
     for (const room of this.rooms.values()) {
-      if (!room.isFull()) return room;
+      if (!room.isPrivate && !room.hasPassword() && !room.isFull()) return room;
     }
     return null;
   }
 
-  private createRoom(): GameRoom {
+  private findRoomByInviteCode(code: string): GameRoom | undefined {
+    for (const room of this.rooms.values()) {
+      if (room.inviteCode === code) return room;
+    }
+    return undefined;
+  }
+
+  private createRoom(options: RoomOptions = {}): GameRoom {
     const id = `room_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
-    const room = new GameRoom(id);
+    // 邀请码全服唯一
+    let inviteCode = generateInviteCode();
+    while (this.findRoomByInviteCode(inviteCode)) {
+      inviteCode = generateInviteCode();
+    }
+    const room = new GameRoom(id, undefined, { ...options, inviteCode });
+    // 断线保留期满：结算数据库会话
+    room.onPlayerExpired = (playerId: number, player: Player | undefined) => {
+      this.endPlayerSession(playerId, player);
+      this.revokeResumeToken(id, playerId);
+      console.log(`[Server] Player ${playerId} did not reconnect to room ${id}`);
+    };
+    // 合作模式一局结束：记录每位在场玩家到达的波次
+    room.onCoopRunEnded = (wave: number, playerIds: number[]) => {
+      for (const playerId of playerIds) {
+        const sessionId = this.playerSessions.get(playerId);
+        if (sessionId === undefined) continue;
+        try {
+          this.db.recordCoopRun(sessionId, wave);
+        } catch (err) {
+          console.error('[Server] Database error on coop run:', err);
+        }
+      }
+    };
     this.rooms.set(id, room);
-    console.log(`[Server] Created room ${id}`);
+    console.log(`[Server] Created ${room.isPrivate ? 'private ' : ''}room ${id} (code ${inviteCode})`);
     return room;
   }
 
@@ -490,6 +887,11 @@ class GameServer {
         console.log(`[Server] Cleaned up empty room ${id}`);
       }
     }
+    // 清理已过冷却期的建房记录
+    const now = Date.now();
+    for (const [ip, createdAt] of this.roomCreatedAt) {
+      if (now - createdAt >= ROOM_CREATE_COOLDOWN_MS) this.roomCreatedAt.delete(ip);
+    }
   }
 
   /** 优雅关闭：销毁所有房间 → 关闭 WebSocket → 关闭 HTTP → 关闭数据库 */
@@ -520,6 +922,25 @@ class GameServer {
   }
 }
 
+/**
+ * ws 的 RawData（Buffer / ArrayBuffer / Buffer[]）统一为 Uint8Array
+ */
+function toUint8Array(data: WebSocket.RawData): Uint8Array {
+  if (Array.isArray(data)) return new Uint8Array(Buffer.concat(data));
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  return data;
+}
+
+/**
+ * 解析正整数环境变量
+ * @returns 未设置或不是正整数（含 NaN、小数、带后缀的字符串）时返回 null
+ */
+function parsePositiveInt(value: string | undefined): number | null {
+  if (value === undefined || !/^\d+$/.test(value.trim())) return null;
+  const parsed = parseInt(value, 10);
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
 // 启动服务器
 const server = new GameServer(PORT);
 
@@ -0,0 +1,94 @@
+import {
+  MUZZLE_VELOCITY,
+  SPLASH_RADIUS,
+  SPLASH_DAMAGE_FACTOR,
+} from './constants.js';
+
+/**
+ * 弹种 — 随输入切换，开火时决定弹道、伤害与装填
+ */
+export enum AmmoType {
+  /** 穿甲弹：标准弹道与伤害，受装甲入射角影响（会跳弹） */
+  AP = 0,
+  /** 高爆弹：弹速低、直击伤害低，触发即爆（不跳弹），溅射范围大 */
+  HE = 1,
+  /** 烟雾弹：无伤害，落点生成遮挡视线的烟雾云 */
+  Smoke = 2,
+}
+
+/** 全部弹种（切换顺序） */
+export const AMMO_TYPES: readonly AmmoType[] = [
+  AmmoType.AP,
+  AmmoType.HE,
+  AmmoType.Smoke,
+];
+
+/** 默认弹种 */
+export const DEFAULT_AMMO_TYPE = AmmoType.AP;
+
+/**
+ * 弹种属性（伤害与装填为相对坦克职业的倍率）
+ */
+export interface AmmoStats {
+  /** 炮口初速 (m/s) */
+  muzzleVelocity: number;
+  /** 直击伤害倍率（× 职业直击伤害） */
+  damageFactor: number;
+  /** 溅射半径 (m) */
+  splashRadius: number;
+  /** 溅射伤害衰减因子 */
+  splashFactor: number;
+  /** 装填时间倍率（× 职业装填时间） */
+  reloadFactor: number;
+  /** 是否按装甲入射角结算（可能跳弹）；否则只按装甲面倍率结算 */
+  angleSensitive: boolean;
+}
+
+/** 各弹种属性表 */
+export const AMMO_STATS: Readonly<Record<AmmoType, Readonly<AmmoStats>>> = {
+  [AmmoType.AP]: {
+    muzzleVelocity: MUZZLE_VELOCITY,
+    damageFactor: 1,
+    splashRadius: SPLASH_RADIUS,
+    splashFactor: SPLASH_DAMAGE_FACTOR,
+    reloadFactor: 1,
+    angleSensitive: true,
+  },
+  [AmmoType.HE]: {
+    muzzleVelocity: 60,
+    damageFactor: 0.8,
+    splashRadius: 7,
+    splashFactor: 0.8,
+    reloadFactor: 1.2,
+    angleSensitive: false,
+  },
+  [AmmoType.Smoke]: {
+    muzzleVelocity: 50,
+    damageFactor: 0,
+    splashRadius: 0,
+    splashFactor: 0,
+    reloadFactor: 1.6,
+    angleSensitive: false,
+  },
+};
+
+/** 弹种显示名称 */
+export const AMMO_NAMES: Readonly<Record<AmmoType, string>> = {
+  [AmmoType.AP]: '穿甲弹',
+  [AmmoType.HE]: '高爆弹',
+  [AmmoType.Smoke]: '烟雾弹',
+};
+
+/**
+ * 获取弹种属性（未知值按默认弹种处理，兼容缺省字段）
+ */
+export function getAmmoStats(ammoType: AmmoType | undefined): Readonly<AmmoStats> {
+  return AMMO_STATS[ammoType ?? DEFAULT_AMMO_TYPE] ?? AMMO_STATS[DEFAULT_AMMO_TYPE];
+}
+
+/**
+ * 是否为合法的弹种值（校验客户端输入）
+ */
+export function isAmmoType(value: unknown): value is AmmoType {
+  return (AMMO_TYPES as readonly unknown[]).includes(value);
+}
@@ -0,0 +1,134 @@
+import { Vec3 } from './types.js';
+import {
+  TANK_COLLISION_RADIUS,
+  PROJECTILE_COLLISION_RADIUS,
+  ARMOR_FRONT_ARC,
+  ARMOR_REAR_ARC,
+  ARMOR_FRONT_MULTIPLIER,
+  ARMOR_SIDE_MULTIPLIER,
+  ARMOR_REAR_MULTIPLIER,
+  RICOCHET_ANGLE,
+  ARMOR_ANGLE_MIN_FACTOR,
+} from './constants.js';
+import { getForwardVector, lerp } from './physics.js';
+
+/**
+ * 被命中的装甲面（相对车体朝向 bodyYaw）
+ */
+export enum ArmorFacing {
+  Front = 0,
+  Side = 1,
+  Rear = 2,
+}
+
+/** 各装甲面的伤害倍率 */
+export const ARMOR_FACING_MULTIPLIERS: Readonly<Record<ArmorFacing, number>> = {
+  [ArmorFacing.Front]: ARMOR_FRONT_MULTIPLIER,
+  [ArmorFacing.Side]: ARMOR_SIDE_MULTIPLIER,
+  [ArmorFacing.Rear]: ARMOR_REAR_MULTIPLIER,
+};
+
+/**
+ * 装甲判定结果
+ */
+export interface ArmorHit {
+  facing: ArmorFacing;
+  /** 入射角 (rad)：炮弹来向与装甲面法线的夹角，0 = 垂直命中 */
+  impactAngle: number;
+  /** 入射角达到跳弹角，炮弹弹开 */
+  ricochet: boolean;
+  /** 伤害系数 = 装甲面倍率 × 入射角衰减（跳弹为 0） */
+  damageFactor: number;
+  /** 被命中装甲面的外法线（水平单位向量） */
+  normal: Vec3;
+}
+
+/**
+ * 判定炮弹命中的装甲面与入射角
+ *
+ * 碰撞体是球，取炮弹所在高度的水平截面圆：先沿弹道反推炮弹进入截面圆的位置，
+ * 按该点相对车头的方位划分正面 / 侧面 / 后部，再取弹道与该面法线的夹角作为入射角。
+ * 斜置车体会增大入射角（减伤乃至跳弹），绕到侧后方则吃到更高倍率。
+ * @param projPos 判定命中时的炮弹位置
+ * @param projVelocity 炮弹速度
+ * @param targetPos 目标位置（延迟补偿回溯后）
+ * @param bodyYaw 目标车体朝向
+ * @param radius 碰撞球半径（坦克 + 炮弹）
+ */
+export function resolveArmorHit(
+  projPos: Vec3,
+  projVelocity: Vec3,
+  targetPos: Vec3,
+  bodyYaw: number,
+  radius: number = TANK_COLLISION_RADIUS + PROJECTILE_COLLISION_RADIUS
+): ArmorHit {
+  const forward = getForwardVector(bodyYaw);
+  const ox = projPos.x - targetPos.x;
+  const oz = projPos.z - targetPos.z;
+
+  // 水平弹道方向；近乎垂直下落时按指向车体中心处理
+  let dx = projVelocity.x;
+  let dz = projVelocity.z;
+  let len = Math.sqrt(dx * dx + dz * dz);
+  if (len < 1e-6) {
+    dx = -ox;
+    dz = -oz;
+    len = Math.sqrt(dx * dx + dz * dz);
+  }
+  if (len < 1e-6) {
+    dx = -forward.x;
+    dz = -forward.z;
+    len = 1;
+  }
+  dx /= len;
+  dz /= len;
+
+  // 炮弹高度处的截面半径（不小于当前水平距离，保证判别式非负）
+  const dy = projPos.y - targetPos.y;
+  const offsetSq = ox * ox + oz * oz;
+  const sliceSq = Math.max(radius * radius - dy * dy, offsetSq);
+
+  // 沿弹道反推进入截面圆的位置
+  const along = ox * dx + oz * dz;
+  const back = along + Math.sqrt(along * along - offsetSq + sliceSq);
+  const ex = ox - dx * back;
+  const ez = oz - dz * back;
+
+  // 入射点方位：0 = 车头，π = 车尾
+  const rightX = -forward.z;
+  const rightZ = forward.x;
+  const side = ex * rightX + ez * rightZ;
+  const bearing = Math.atan2(Math.abs(side), ex * forward.x + ez * forward.z);
+
+  let facing: ArmorFacing;
+  let normal: Vec3;
+  if (bearing <= ARMOR_FRONT_ARC) {
+    facing = ArmorFacing.Front;
+    normal = forward;
+  } else if (bearing >= Math.PI - ARMOR_REAR_ARC) {
+    facing = ArmorFacing.Rear;
+    normal = forward.multiplyScalar(-1);
+  } else {
+    facing = ArmorFacing.Side;
+    const sign = side >= 0 ? 1 : -1;
+    normal = new Vec3(rightX * sign, 0, rightZ * sign);
+  }
+
+  // 来向与法线夹角；炮弹顺着装甲面离开（cos ≤ 0）视为擦过
+  const cos = -(dx * normal.x + dz * normal.z);
+  const impactAngle = cos <= 0 ? Math.PI / 2 : Math.acos(Math.min(1, cos));
+  const ricochet = impactAngle >= RICOCHET_ANGLE;
+  const damageFactor = ricochet
+    ? 0
+    : ARMOR_FACING_MULTIPLIERS[facing] * lerp(1, ARMOR_ANGLE_MIN_FACTOR, impactAngle / RICOCHET_ANGLE);
+
+  return { facing, impactAngle, ricochet, damageFactor, normal };
+}
+
+/**
+ * 跳弹后的飞行方向 — 速度关于装甲面镜像反射（保留竖直分量）
+ */
+export function reflectOffArmor(velocity: Vec3, normal: Vec3): Vec3 {
+  const d = velocity.dot(normal);
+  return velocity.clone().sub(normal.clone().multiplyScalar(2 * d)).normalize();
+}
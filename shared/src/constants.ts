@@ -25,7 +25,7 @@ export const TANK_DAMPING = 0.985;
 /** 炮塔旋转速度 (rad/s) */
 export const TURRET_TURN_RATE = 2.0;
 
-/** 炮塔最大偏转角 (rad) — 左右各135°，总行程270° */
+/** 炮塔最大偏转角 (rad) — 左右各135°，总行程270°（所有职业的上限，歼击车更小） */
 export const TURRET_YAW_MAX = Math.PI * 0.75;  // 135° = 2.356 rad
 
 /** 火炮最小俯角 (rad) */
@@ -54,6 +54,12 @@ export const SPLASH_DAMAGE_FACTOR = 0.5;
 /** 直接命中伤害 */
 export const DIRECT_HIT_DAMAGE = 20;
 
+/** 烟雾云半径 (m) */
+export const SMOKE_CLOUD_RADIUS = 8;
+
+/** 烟雾云持续时间 (ms) */
+export const SMOKE_CLOUD_DURATION = 12000;
+
 /** 击毁所需直击次数 */
 export const HITS_TO_DESTROY = 5;
 
@@ -66,25 +72,86 @@ export const PROJECTILE_COLLISION_RADIUS = 0.5;
 /** 坦克碰撞半径 (m) */
 export const TANK_COLLISION_RADIUS = 2.5;
 
+// ==================== 装甲常量 ====================
+
+/** 正面装甲覆盖的半角 (rad) — 入射点偏离车头 ±45° 以内算正面 */
+export const ARMOR_FRONT_ARC = Math.PI / 4;
+
+/** 后部装甲覆盖的半角 (rad) — 入射点偏离车尾 ±45° 以内算后部，其余为侧面 */
+export const ARMOR_REAR_ARC = Math.PI / 4;
+
+/** 正面命中伤害倍率（基准，DIRECT_HIT_DAMAGE 即正面垂直命中的伤害） */
+export const ARMOR_FRONT_MULTIPLIER = 1.0;
+
+/** 侧面命中伤害倍率 */
+export const ARMOR_SIDE_MULTIPLIER = 1.25;
+
+/** 后部命中伤害倍率 */
+export const ARMOR_REAR_MULTIPLIER = 1.5;
+
+/** 跳弹角 (rad) — 入射方向与装甲法线夹角达到 70° 时炮弹弹开，不造成伤害 */
+export const RICOCHET_ANGLE = Math.PI * 7 / 18;
+
+/** 接近跳弹角时的最低伤害系数（垂直命中为 1，按入射角线性递减） */
+export const ARMOR_ANGLE_MIN_FACTOR = 0.5;
+
 // ==================== 房间常量 ====================
 
-/** 最大玩家数 */
+/** 最大玩家数（默认值，也是房间设置允许的上限） */
 export const MAX_PLAYERS = 10;
 
 /** 最小开战人数 */
 export const MIN_PLAYERS = 2;
 
-/** 回合时长 (秒) */
+/** 回合时长 (秒)，房间默认值 */
 export const ROUND_DURATION = 300;
 
-/** 复活延迟 (ms) */
+/** 房间设置：回合时长范围 (秒) */
+export const ROUND_DURATION_MIN = 60;
+export const ROUND_DURATION_MAX = 1800;
+
+/** 回合结算画面停留时长 (ms)，之后开始下一回合 */
+export const ROUND_END_DELAY = 3000;
+
+/** 复活延迟 (ms)，房间默认值 */
 export const RESPAWN_DELAY = 4000;
 
+/** 房间设置：复活延迟范围 (ms) */
+export const RESPAWN_DELAY_MIN = 1000;
+export const RESPAWN_DELAY_MAX = 15000;
+
+/** AI 难度（与服务器 AI_DIFFICULTIES 的键一致） */
+export const BOT_DIFFICULTIES = ['easy', 'normal', 'hard'] as const;
+
+/** 房间设置：击坠上限最大值（0 = 不设上限） */
+export const KILL_CAP_MAX = 200;
+
 /** 暖场最大时长 (秒) */
 export const WARMUP_DURATION = 60;
 
+/** 昵称最大长度 */
+export const MAX_NICKNAME_LENGTH = 16;
+
+/** 房间邀请码长度 */
+export const INVITE_CODE_LENGTH = 6;
+
+/** 邀请码字符集（去掉易混淆的 0/O、1/I/L） */
+export const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/** 房间密码最大长度 */
+export const MAX_ROOM_PASSWORD_LENGTH = 32;
+
+/** 断线保留时长 (ms) — 期间坦克留在场上，客户端可凭 resumeToken 恢复 */
+export const RECONNECT_GRACE_PERIOD = 30000;
+
 // ==================== 网络常量 ====================
 
+/** 网络协议版本 — 消息结构或二进制编码变化时递增 */
+export const PROTOCOL_VERSION = 11;
+
+/** 内容版本 — 地图生成、物理等客户端同步计算的规则变化时递增 */
+export const CONTENT_VERSION = 1;
+
 /** 服务器 Tick 频率 (Hz) */
 export const TICK_RATE = 60;
 
@@ -100,12 +167,55 @@ export const SNAPSHOT_INTERVAL = TICK_RATE / SNAPSHOT_RATE;
 /** 客户端输入发送频率 (Hz) */
 export const INPUT_RATE = 30;
 
+/** 每个输入包捎带的未确认历史输入条数（抵抗丢包与突发延迟） */
+export const INPUT_REDUNDANCY = 3;
+
 /** 客户端插值延迟 (ms) */
 export const INTERPOLATION_DELAY = 100;
 
 /** 快照缓冲区大小 */
 export const SNAPSHOT_BUFFER_SIZE = 30;
 
+/** 快照迟到时的最大外推时间 (ms) — 超过后远端实体停在外推终点等待新快照 */
+export const MAX_EXTRAPOLATION = 200;
+
+/** 增量快照基线窗口（快照数）— 确认的基线早于此窗口时改发关键帧 */
+export const SNAPSHOT_BASELINE_WINDOW = 32;
+
+/** 延迟补偿最大回溯时间 (ms) — 超过此延迟的射手需要自行提前量 */
+export const MAX_LAG_COMPENSATION = 250;
+
+// ==================== 兴趣区域（AOI）常量 ====================
+
+/** 近距离 (m) — 每帧快照都更新（与客户端名称标签可见距离一致） */
+export const AOI_NEAR_DISTANCE = 150;
+
+/** 远距离 (m) — 超出后不再下发该坦克（客户端雾效已完全遮蔽） */
+export const AOI_FAR_DISTANCE = 400;
+
+/** 近、远距离之间的坦克每 N 帧快照更新一次，其余帧沿用上次下发的状态 */
+export const AOI_FAR_UPDATE_INTERVAL = 4;
+
+/** 弹体下发距离 (m) — 自己发射的弹体不受限制 */
+export const AOI_PROJECTILE_DISTANCE = 250;
+
+// ==================== 视野（战争迷雾）常量 ====================
+
+/** 视线起止点距地面高度 (m) — 约为炮塔顶部 */
+export const VISIBILITY_EYE_HEIGHT = 2.3;
+
+/** 近身距离 (m) — 以内无视遮挡直接发现 */
+export const VISIBILITY_PROXIMITY_RADIUS = 25;
+
+/** 发现后保持可见的时间 (ms) — 脱离视线后才开始计时 */
+export const VISIBILITY_LINGER = 2000;
+
+/** 开火暴露时间 (ms) — 期间对所有玩家可见 */
+export const FIRE_REVEAL_DURATION = 3000;
+
+/** 地形遮挡采样步长 (m) */
+export const VISIBILITY_SAMPLE_STEP = 4;
+
 // ==================== 地图常量 ====================
 
 /** 默认地图宽度 (m) */
@@ -152,6 +262,80 @@ export const SPAWN_WEIGHTS = {
   recent: 1.5,
 } as const;
 
+// ==================== 夺旗常量 ====================
+
+/** 旗帜基地与地图东西边界的距离 (m) */
+export const FLAG_BASE_MARGIN = 40;
+
+/** 拾取 / 交还旗帜的距离 (m) */
+export const FLAG_PICKUP_RADIUS = 5;
+
+/** 携旗者进入己方基地此范围内即夺旗得分 (m) */
+export const FLAG_CAPTURE_RADIUS = 8;
+
+/** 掉落的旗帜无人处理时自动回到基地的时间 (ms) */
+export const FLAG_RETURN_TIME = 20_000;
+
+// ==================== 占点常量 ====================
+
+/** 控制点数量（沿地图中轴南北排列） */
+export const CONTROL_POINT_COUNT = 3;
+
+/** 相邻控制点间距 (m) */
+export const CONTROL_POINT_SPACING = 60;
+
+/** 控制点半径 (m) */
+export const CONTROL_POINT_RADIUS = 12;
+
+/** 无人争夺时从中立到完全占领所需时间 (ms) */
+export const CONTROL_POINT_CAPTURE_TIME = 6000;
+
+/** 占点得分间隔 (ms)：每个已占领的控制点每间隔为所属队伍加 1 分 */
+export const CONTROL_POINT_SCORE_INTERVAL = 1000;
+
+/** 占点模式未设置得分上限时的默认目标分 */
+export const DOMINATION_SCORE_TARGET = 200;
+
+// ==================== 大逃杀常量 ====================
+
+/** 安全区初始半径 (m)：覆盖整张地图 */
+export const ZONE_INITIAL_RADIUS = Math.ceil(Math.hypot(MAP_WIDTH, MAP_DEPTH) / 2);
+
+/** 安全区最小半径 (m)，收缩到此后不再缩小 */
+export const ZONE_MIN_RADIUS = 20;
+
+/** 每次收缩后的半径比例 */
+export const ZONE_SHRINK_FACTOR = 0.55;
+
+/** 两次收缩之间的等待时间 (ms)（回合开始后先等待一次） */
+export const ZONE_SHRINK_DELAY = 30_000;
+
+/** 单次收缩持续时间 (ms) */
+export const ZONE_SHRINK_DURATION = 25_000;
+
+/** 安全区外每秒伤害 */
+export const ZONE_DAMAGE_PER_SECOND = 10;
+
+// ==================== 合作模式常量 ====================
+
+/** 合作模式同时在场的 AI 上限（独立于房间人数上限，真人仍受 maxPlayers 限制） */
+export const COOP_MAX_BOTS = 16;
+
+/** 第一波 AI 数量 */
+export const COOP_FIRST_WAVE_BOTS = 3;
+
+/** 每波增加的 AI 数量 */
+export const COOP_BOTS_PER_WAVE = 1;
+
+/** 全队共享的复活次数 */
+export const COOP_SHARED_LIVES = 10;
+
+/** 回合开始到第一波的准备时间 (ms) */
+export const COOP_FIRST_WAVE_DELAY = 5000;
+
+/** 波次之间的维修阶段时长 (ms)：存活坦克回满血，阵亡玩家免费复活 */
+export const COOP_REPAIR_TIME = 15_000;
+
 // ==================== AFK 常量 ====================
 
 /** AFK 超时时间 (ms) — 3分钟无操作踢出 */
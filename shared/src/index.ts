@@ -4,3 +4,9 @@ export type { AABB } from './types.js';
 export * from './constants.js';
 export * from './protocol.js';
 export * from './physics.js';
+export * from './tankClasses.js';
+export * from './armor.js';
+export * from './ammo.js';
+export * from './snapshotDelta.js';
+export * from './validation.js';
+export * from './netsim.js';
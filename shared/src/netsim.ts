@@ -0,0 +1,123 @@
+/**
+ * 网络条件模拟 — 在本机 WebSocket 上注入延迟、抖动、乱序与丢包
+ *
+ * 客户端（URL 参数 ?netsim=）与服务器（环境变量 NET_SIM）各自包装收发两个方向，
+ * 每个方向一个 NetworkSimulator 实例。配置格式：
+ *   latency=75,jitter=10,drop=5%,reorder=1%
+ * latency / jitter 单位 ms，作用于单个方向：两端各设 latency=75 时 RTT 约增加 300 ms。
+ * drop / reorder 可写成比例 (0.05) 或百分数 (5%)。
+ */
+
+/** 模拟的链路条件 */
+export interface NetworkConditions {
+  /** 单向固定延迟 (ms) */
+  latency: number;
+  /** 延迟抖动幅度 (ms)，实际延迟在 latency ± jitter 之间均匀分布 */
+  jitter: number;
+  /** 丢包率 [0, 1] */
+  drop: number;
+  /** 乱序率 [0, 1] — 被选中的消息额外滞后，排到后续消息之后 */
+  reorder: number;
+}
+
+/** 延迟调度函数（客户端传 window.setTimeout，服务器传 setTimeout） */
+export type SimulatorScheduler = (fn: () => void, delayMs: number) => void;
+
+/** 乱序消息的最少额外滞后 (ms) */
+const REORDER_HOLD = 50;
+
+/**
+ * 解析配置字符串
+ * @returns 解析结果；格式错误或没有任何生效的条件时返回 null
+ */
+export function parseNetworkConditions(spec: string): NetworkConditions | null {
+  const conditions: NetworkConditions = { latency: 0, jitter: 0, drop: 0, reorder: 0 };
+
+  for (const part of spec.split(',')) {
+    const entry = part.trim();
+    if (!entry) continue;
+    const match = /^(\w+)\s*[=:]\s*([\d.]+)(%?)$/.exec(entry);
+    if (!match) return null;
+
+    const key = match[1] as keyof NetworkConditions;
+    let value = parseFloat(match[2]);
+    if (!Number.isFinite(value)) return null;
+
+    switch (key) {
+      case 'latency':
+      case 'jitter':
+        conditions[key] = value;
+        break;
+      case 'drop':
+      case 'reorder':
+        if (match[3] === '%') value /= 100;
+        conditions[key] = Math.min(1, value);
+        break;
+      default:
+        return null;
+    }
+  }
+
+  const active =
+    conditions.latency > 0 || conditions.jitter > 0 || conditions.drop > 0 || conditions.reorder > 0;
+  return active ? conditions : null;
+}
+
+/**
+ * 单方向链路模拟器
+ *
+ * 默认保持消息顺序（与 WebSocket 一致，抖动不会让消息互相超车）；
+ * 只有命中 reorder 的消息才会落到后续消息之后。
+ */
+export class NetworkSimulator {
+  readonly conditions: NetworkConditions;
+  private schedule: SimulatorScheduler;
+  private now: () => number;
+  private random: () => number;
+  /** 上一条按序消息的投递时间 */
+  private lastDeliverAt: number = 0;
+
+  constructor(
+    conditions: NetworkConditions,
+    schedule: SimulatorScheduler,
+    now: () => number,
+    random: () => number = Math.random
+  ) {
+    this.conditions = conditions;
+    this.schedule = schedule;
+    this.now = now;
+    this.random = random;
+  }
+
+  /**
+   * 经模拟链路投递一条消息
+   * @param deliver 到达时执行
+   * @param droppable 是否允许丢弃（握手等关键消息传 false）
+   * @returns 消息是否被丢弃
+   */
+  send(deliver: () => void, droppable: boolean = true): boolean {
+    const c = this.conditions;
+    if (droppable && c.drop > 0 && this.random() < c.drop) return true;
+
+    const now = this.now();
+    const jitter = c.jitter > 0 ? (this.random() * 2 - 1) * c.jitter : 0;
+    let at = now + Math.max(0, c.latency + jitter);
+
+    if (c.reorder > 0 && this.random() < c.reorder) {
+      at += Math.max(REORDER_HOLD, c.jitter * 2);
+    } else {
+      at = Math.max(at, this.lastDeliverAt);
+      this.lastDeliverAt = at;
+    }
+
+    this.schedule(deliver, at - now);
+    return false;
+  }
+}
+
+/**
+ * 条件的可读描述（日志用）
+ */
+export function describeNetworkConditions(c: NetworkConditions): string {
+  return `latency ${c.latency}ms ±${c.jitter}ms, drop ${(c.drop * 100).toFixed(1)}%, reorder ${(c.reorder * 100).toFixed(1)}%`;
+}
@@ -1,20 +1,18 @@
 import { Vec3 } from './types.js';
 import {
   GRAVITY,
-  TANK_MAX_SPEED,
-  TANK_ACCELERATION,
   TANK_REVERSE_FACTOR,
-  TANK_TURN_RATE,
   TANK_DAMPING,
-  TURRET_TURN_RATE,
-  TURRET_YAW_MAX,
   GUN_PITCH_MIN,
   GUN_PITCH_MAX,
   MUZZLE_VELOCITY,
   SPLASH_RADIUS,
   SPLASH_DAMAGE_FACTOR,
   DIRECT_HIT_DAMAGE,
+  TANK_COLLISION_RADIUS,
 } from './constants.js';
+import { getTankClassStats } from './tankClasses.js';
+import type { TankClass } from './tankClasses.js';
 
 /**
  * 坦克实体状态（物理模拟用）
@@ -25,6 +23,8 @@ export interface TankPhysicsState {
   bodyYaw: number;
   turretYaw: number;
   gunPitch: number;
+  /** 坦克职业（缺省为默认职业） */
+  tankClass?: TankClass;
 }
 
 /**
@@ -82,7 +82,7 @@ export function getMuzzlePosition(tank: TankPhysicsState, barrelLength: number =
 
 /**
  * 更新坦克物理状态（单步）
- * 服务器和客户端预测共用此函数
+ * 服务器和客户端预测共用此函数；机动参数取自坦克职业
  */
 export function updateTankPhysics(
   tank: TankPhysicsState,
@@ -91,28 +91,31 @@ export function updateTankPhysics(
   getTerrainHeight?: (x: number, z: number) => number,
   _getTerrainNormal?: (x: number, z: number) => Vec3
 ): void {
+  const stats = getTankClassStats(tank.tankClass);
+
   // 1. 转向
   if (input.turnLeft) {
-    tank.bodyYaw += TANK_TURN_RATE * dt;
+    tank.bodyYaw += stats.turnRate * dt;
   }
   if (input.turnRight) {
-    tank.bodyYaw -= TANK_TURN_RATE * dt;
+    tank.bodyYaw -= stats.turnRate * dt;
   }
 
   // 规范化 yaw 到 [-π, π]
   tank.bodyYaw = normalizeAngle(tank.bodyYaw);
 
-  // 2. 炮塔旋转（增量旋转，限速 + 角度限制 ±TURRET_YAW_MAX）
+  // 2. 炮塔旋转（增量旋转，限速 + 角度限制 ±turretYawMax）
   {
-    const targetTurretYaw = clamp(input.turretYaw, -TURRET_YAW_MAX, TURRET_YAW_MAX);
+    const yawMax = stats.turretYawMax;
+    const targetTurretYaw = clamp(input.turretYaw, -yawMax, yawMax);
     const diff = normalizeAngle(targetTurretYaw - tank.turretYaw);
-    const maxStep = TURRET_TURN_RATE * dt;
+    const maxStep = stats.turretTurnRate * dt;
     if (Math.abs(diff) <= maxStep) {
       tank.turretYaw = targetTurretYaw;
     } else {
       tank.turretYaw += Math.sign(diff) * maxStep;
     }
-    tank.turretYaw = clamp(tank.turretYaw, -TURRET_YAW_MAX, TURRET_YAW_MAX);
+    tank.turretYaw = clamp(tank.turretYaw, -yawMax, yawMax);
   }
 
   // 3. 火炮俯仰
@@ -121,11 +124,11 @@ export function updateTankPhysics(
   // 4. 加速/减速（坦克风格：沿车体前进方向移动，不跟随炮塔）
   const forward = getForwardVector(tank.bodyYaw);
   if (input.forward) {
-    tank.velocity.add(forward.clone().multiplyScalar(TANK_ACCELERATION * dt));
+    tank.velocity.add(forward.clone().multiplyScalar(stats.acceleration * dt));
   }
   if (input.backward) {
     tank.velocity.add(
-      forward.clone().multiplyScalar(-TANK_ACCELERATION * TANK_REVERSE_FACTOR * dt)
+      forward.clone().multiplyScalar(-stats.acceleration * TANK_REVERSE_FACTOR * dt)
     );
   }
 
@@ -134,8 +137,8 @@ export function updateTankPhysics(
 
   // 6. 速度限制
   const speed = tank.velocity.length();
-  if (speed > TANK_MAX_SPEED) {
-    tank.velocity.normalize().multiplyScalar(TANK_MAX_SPEED);
+  if (speed > stats.maxSpeed) {
+    tank.velocity.normalize().multiplyScalar(stats.maxSpeed);
   }
 
   // 7. 位置更新
@@ -147,6 +150,68 @@ export function updateTankPhysics(
   }
 }
 
+/**
+ * 圆柱掩体（碰撞检测所需的最小字段）
+ */
+export interface CoverCollider {
+  position: { x: number; z: number };
+  radius: number;
+}
+
+/**
+ * 坦克与掩体 / 地图边界的碰撞约束（在 updateTankPhysics 之后调用）
+ * 服务器和客户端预测共用此函数
+ */
+export function resolveTankMapCollision(
+  tank: TankPhysicsState,
+  covers: readonly CoverCollider[],
+  halfWidth: number,
+  halfDepth: number,
+  getTerrainHeight?: (x: number, z: number) => number
+): void {
+  // 掩体碰撞（圆柱 vs 圆柱）
+  for (const cover of covers) {
+    const dx = tank.position.x - cover.position.x;
+    const dz = tank.position.z - cover.position.z;
+    const dist = Math.sqrt(dx * dx + dz * dz);
+    const minDist = TANK_COLLISION_RADIUS + cover.radius;
+    if (dist < minDist && dist > 0.001) {
+      // 将坦克推出掩体
+      const nx = dx / dist;
+      const nz = dz / dist;
+      tank.position.x += nx * (minDist - dist);
+      tank.position.z += nz * (minDist - dist);
+      // 消除朝向掩体方向的速度分量
+      const vDotN = tank.velocity.x * nx + tank.velocity.z * nz;
+      if (vDotN < 0) {
+        tank.velocity.x -= vDotN * nx;
+        tank.velocity.z -= vDotN * nz;
+      }
+    }
+  }
+
+  // 地图边界限制 — 碰到边缘停速 + 推回
+  if (tank.position.x < -halfWidth) {
+    tank.position.x = -halfWidth;
+    if (tank.velocity.x < 0) tank.velocity.x = 0;
+  } else if (tank.position.x > halfWidth) {
+    tank.position.x = halfWidth;
+    if (tank.velocity.x > 0) tank.velocity.x = 0;
+  }
+  if (tank.position.z < -halfDepth) {
+    tank.position.z = -halfDepth;
+    if (tank.velocity.z < 0) tank.velocity.z = 0;
+  } else if (tank.position.z > halfDepth) {
+    tank.position.z = halfDepth;
+    if (tank.velocity.z > 0) tank.velocity.z = 0;
+  }
+
+  // 推挤后重新采样地形高度，防止坦克悬空或嵌入地下
+  if (getTerrainHeight) {
+    tank.position.y = getTerrainHeight(tank.position.x, tank.position.z);
+  }
+}
+
 /**
  * 更新弹体物理状态（单步）
  */
@@ -165,22 +230,34 @@ export function updateProjectile(
 /**
  * 计算炮弹初速度（含载具惯性）
  */
-export function calculateMuzzleVelocity(tank: TankPhysicsState): Vec3 {
+export function calculateMuzzleVelocity(
+  tank: TankPhysicsState,
+  muzzleVelocity: number = MUZZLE_VELOCITY
+): Vec3 {
   const barrelDir = getBarrelDirection(tank.bodyYaw, tank.turretYaw, tank.gunPitch);
   return tank.velocity.clone().add(
-    barrelDir.multiplyScalar(MUZZLE_VELOCITY)
+    barrelDir.multiplyScalar(muzzleVelocity)
   );
 }
 
 /**
  * 计算溅射伤害
+ * @param damage 该发炮弹的直接命中伤害
+ * @param radius 该弹种的溅射半径
+ * @param factor 该弹种的溅射衰减因子
  */
-export function calculateSplashDamage(hitPos: Vec3, targetPos: Vec3): number {
+export function calculateSplashDamage(
+  hitPos: Vec3,
+  targetPos: Vec3,
+  damage: number = DIRECT_HIT_DAMAGE,
+  radius: number = SPLASH_RADIUS,
+  factor: number = SPLASH_DAMAGE_FACTOR
+): number {
   const dist = hitPos.distanceTo(targetPos);
-  if (dist > SPLASH_RADIUS) return 0;
+  if (dist > radius) return 0;
 
-  const falloff = 1 - dist / SPLASH_RADIUS;
-  return DIRECT_HIT_DAMAGE * falloff * SPLASH_DAMAGE_FACTOR;
+  const falloff = 1 - dist / radius;
+  return damage * falloff * factor;
 }
 
 /**
@@ -1,4 +1,20 @@
 import { Vec3 } from './types.js';
+import { normalizeAngle } from './physics.js';
+import type { TankClass } from './tankClasses.js';
+import type { ArmorFacing } from './armor.js';
+import type { AmmoType } from './ammo.js';
+import {
+  PROTOCOL_VERSION,
+  CONTENT_VERSION,
+  ROUND_DURATION,
+  MAX_PLAYERS,
+  RESPAWN_DELAY,
+  BOT_DIFFICULTIES,
+  MAP_WIDTH,
+  FLAG_BASE_MARGIN,
+  CONTROL_POINT_COUNT,
+  CONTROL_POINT_SPACING,
+} from './constants.js';
 
 /**
  * 网络消息类型枚举
@@ -9,6 +25,8 @@ export enum MessageType {
   InputCmd = 0x02,
   Ping = 0x03,
   LeaveRoom = 0x04,
+  SnapshotAck = 0x05,
+  SelectClass = 0x06,
 
   // 服务器 → 客户端
   JoinAck = 0x81,
@@ -20,6 +38,25 @@ export enum MessageType {
   PlayerLeft = 0x87,
   RoomState = 0x88,
   AFKKick = 0x89,
+  Error = 0x8a,
+}
+
+/**
+ * 错误码（服务器拒绝请求的原因）
+ */
+export enum ErrorCode {
+  /** 客户端协议或内容版本与服务器不一致，需要刷新页面 */
+  VersionMismatch = 'version_mismatch',
+  /** 房间已满 */
+  RoomFull = 'room_full',
+  /** 指定的房间不存在（已关闭、ID 或邀请码错误） */
+  RoomNotFound = 'room_not_found',
+  /** 房间密码错误 */
+  WrongPassword = 'wrong_password',
+  /** 服务器房间数已达上限，无法新建房间 */
+  ServerFull = 'server_full',
+  /** 建房过于频繁，需等待冷却 */
+  RoomCreateCooldown = 'room_create_cooldown',
 }
 
 /**
@@ -33,6 +70,123 @@ export enum GameEventType {
   Respawn = 'respawn',
   RoundStart = 'round_start',
   RoundEnd = 'round_end',
+  FlagTaken = 'flag_taken',
+  FlagDropped = 'flag_dropped',
+  FlagReturned = 'flag_returned',
+  FlagCaptured = 'flag_captured',
+  Ricochet = 'ricochet',
+}
+
+/**
+ * 游戏模式
+ */
+export enum GameMode {
+  /** 个人混战 */
+  FreeForAll = 'ffa',
+  /** 团队死斗 */
+  TeamDeathmatch = 'tdm',
+  /** 夺旗 */
+  CaptureTheFlag = 'ctf',
+  /** 占点 */
+  Domination = 'dom',
+  /** 大逃杀：不复活，安全区逐步收缩，最后存活者获胜 */
+  BattleRoyale = 'br',
+  /** 合作生存：全部真人同队，抵御逐波增强的 AI */
+  Coop = 'coop',
+}
+
+/**
+ * 合作模式波次阶段
+ */
+export enum WavePhase {
+  /** 维修 / 准备：倒计时结束后开始下一波 */
+  Repair = 0,
+  /** 交战：本波 AI 全部击毁后进入维修 */
+  Combat = 1,
+}
+
+/**
+ * 死亡原因
+ */
+export enum DeathReason {
+  /** 被炮弹击毁 */
+  Killed = 'killed',
+  /** 大逃杀安全区外伤害（无击杀者，killerId 为 0） */
+  Zone = 'zone',
+}
+
+/**
+ * 是否为分队模式
+ */
+export function isTeamMode(mode: GameMode): boolean {
+  return (
+    mode === GameMode.TeamDeathmatch ||
+    mode === GameMode.CaptureTheFlag ||
+    mode === GameMode.Domination
+  );
+}
+
+/**
+ * 队伍（个人混战中为 None）
+ */
+export enum Team {
+  None = 0,
+  Red = 1,
+  Blue = 2,
+}
+
+/** 团队模式下的队伍（按 teamScores 下标顺序） */
+export const TEAMS: readonly Team[] = [Team.Red, Team.Blue];
+
+/**
+ * 是否为队友（个人混战中没有队友）
+ */
+export function isSameTeam(a: Team, b: Team): boolean {
+  return a !== Team.None && a === b;
+}
+
+/**
+ * 旗帜状态
+ */
+export enum FlagState {
+  /** 在己方基地 */
+  AtBase = 0,
+  /** 被敌方携带 */
+  Carried = 1,
+  /** 携旗者阵亡后掉落在地 */
+  Dropped = 2,
+}
+
+/**
+ * 队伍旗帜基地位置（红队在西侧，蓝队在东侧，与出生区一致；y 为 0，由服务器按地形修正）
+ */
+export function getFlagBasePosition(team: Team, mapWidth: number = MAP_WIDTH): Vec3 {
+  const side = team === Team.Red ? -1 : 1;
+  return new Vec3(side * (mapWidth / 2 - FLAG_BASE_MARGIN), 0, 0);
+}
+
+/**
+ * 控制点中心（沿中轴 x = 0 南北等距排列，位于地图中央平坦区，与两队基地等距；y 为 0）
+ */
+export function getControlPointPosition(id: number): Vec3 {
+  return new Vec3(0, 0, (id - (CONTROL_POINT_COUNT - 1) / 2) * CONTROL_POINT_SPACING);
+}
+
+/**
+ * 控制点显示名称（A、B、C…）
+ */
+export function getControlPointName(id: number): string {
+  return String.fromCharCode(65 + id);
+}
+
+/**
+ * 线路编码格式 — 加入房间时协商
+ * - Json: 文本帧，调试友好
+ * - Binary: 二进制帧，仅用于高频消息（快照 / 输入 / 游戏事件）
+ */
+export enum WireFormat {
+  Json = 'json',
+  Binary = 'binary',
 }
 
 /**
@@ -54,8 +208,76 @@ export interface JoinRoomMessage {
   nickname: string;
   /** 浏览器唯一标识（用于数据统计） */
   clientId?: string;
+  /** 期望的线路编码格式（缺省为 JSON） */
+  wireFormat?: WireFormat;
+  /** 断线重连凭证（上次 JoinAck 下发）；有效时恢复原房间中的原玩家 */
+  resumeToken?: string;
+  /** 客户端构建时的 PROTOCOL_VERSION（缺省视为不兼容的旧客户端） */
+  protocolVersion?: number;
+  /** 客户端构建时的 CONTENT_VERSION */
+  contentVersion?: number;
+  /** 指定加入的房间（房间浏览器）；缺省为快速加入 */
+  roomId?: string;
+  /** 凭邀请码加入房间（私人房间只能以此方式加入），优先于 roomId */
+  inviteCode?: string;
+  /** 房间密码（加入设有密码的房间时需要） */
+  password?: string;
+  /** 新建房间并加入（忽略 roomId / inviteCode） */
+  createRoom?: CreateRoomOptions;
+  /** 初始坦克职业（缺省为默认职业；断线重连时忽略） */
+  tankClass?: TankClass;
 }
 
+/**
+ * 新建房间选项
+ */
+export interface CreateRoomOptions {
+  /** 私人房间：不出现在房间列表，快速加入不会进入 */
+  private: boolean;
+  /** 加入密码（缺省不设密码） */
+  password?: string;
+  /** 自定义比赛设置（缺省字段取 DEFAULT_ROOM_SETTINGS） */
+  settings?: Partial<RoomSettings>;
+}
+
+/** AI 难度 */
+export type BotDifficulty = (typeof BOT_DIFFICULTIES)[number];
+
+/**
+ * 房间比赛设置 — 建房时确定，整个房间生命周期不变
+ */
+export interface RoomSettings {
+  mode: GameMode;
+  /** 是否允许误伤队友（仅团队模式） */
+  friendlyFire: boolean;
+  /** 得分上限：个人或队伍击坠（夺旗模式为夺旗次数）达到即结束回合（0 = 只按时间结束） */
+  killCap: number;
+  /** 回合时长 (秒) */
+  roundDuration: number;
+  /** 人数上限（真人 + AI） */
+  maxPlayers: number;
+  /** 复活延迟 (ms) */
+  respawnDelay: number;
+  /** AI 数量（真人加入时让出位置） */
+  botCount: number;
+  botDifficulty: BotDifficulty;
+  /** 固定地图种子；null = 每回合随机生成 */
+  mapSeed: number | null;
+}
+
+/** 默认房间设置（快速加入的房间） */
+export const DEFAULT_ROOM_SETTINGS: Readonly<RoomSettings> = {
+  mode: GameMode.FreeForAll,
+  friendlyFire: false,
+  killCap: 0,
+  roundDuration: ROUND_DURATION,
+  maxPlayers: MAX_PLAYERS,
+  respawnDelay: RESPAWN_DELAY,
+  botCount: MAX_PLAYERS,
+  botDifficulty: 'normal',
+  mapSeed: null,
+};
+
 /**
  * 输入命令 — 客户端以固定频率发送
  */
@@ -79,8 +301,44 @@ export interface InputCmd {
   fire: boolean;
   /** 稳定瞄准 */
   stabilize: boolean;
+  /** 当前选择的弹种（缺省为穿甲弹） */
+  ammoType?: AmmoType;
   /** 客户端时间戳 */
   timestamp: number;
+  /** 捎带确认：客户端已收到并还原的最新快照 ID */
+  ackSnapshotId?: number;
+  /** 客户端当前渲染的服务器 tick（延迟补偿回溯依据） */
+  viewTick?: number;
+  /** 冗余：之前发送但尚未被服务器确认的输入（按 seq 升序，最多 INPUT_REDUNDANCY 条） */
+  redundant?: InputFrame[];
+}
+
+/**
+ * 冗余携带的历史输入（只含逐帧字段）
+ */
+export type InputFrame = Omit<InputCmd, 'type' | 'ackSnapshotId' | 'redundant'>;
+
+/**
+ * 快照确认 — 不发送输入时（死亡/暂停）单独确认
+ */
+export interface SnapshotAckMessage {
+  type: MessageType.SnapshotAck;
+  snapshotId: number;
+}
+
+/**
+ * 选择职业 — 下次复活时生效
+ */
+export interface SelectClassMessage {
+  type: MessageType.SelectClass;
+  tankClass: TankClass;
+}
+
+/**
+ * 离开房间 — 回到大厅但保持连接，之后可在同一连接上再次 JoinRoom
+ */
+export interface LeaveRoomMessage {
+  type: MessageType.LeaveRoom;
 }
 
 /**
@@ -112,6 +370,8 @@ export interface TankSnapshot {
   nickname: string;
   /** 是否为 AI 机器人 */
   isBot: boolean;
+  team: Team;
+  tankClass: TankClass;
 }
 
 /**
@@ -122,6 +382,71 @@ export interface ProjectileSnapshot {
   position: Vec3;
   velocity: Vec3;
   ttl: number;
+  ammoType: AmmoType;
+}
+
+/**
+ * 烟雾云（快照内嵌，全员可见，每帧全量下发）
+ */
+export interface SmokeCloudSnapshot {
+  id: number;
+  /** 中心（落点） */
+  position: Vec3;
+  radius: number;
+  /** 剩余持续时间 (ms) */
+  remaining: number;
+}
+
+/**
+ * 旗帜状态（快照内嵌，夺旗模式每帧全量下发）
+ */
+export interface FlagSnapshot {
+  /** 旗帜所属队伍 */
+  team: Team;
+  state: FlagState;
+  position: Vec3;
+  /** 携旗者（未被携带为 null） */
+  carrierId: number | null;
+}
+
+/**
+ * 控制点状态（快照内嵌，占点模式每帧全量下发；位置见 getControlPointPosition）
+ */
+export interface ControlPointSnapshot {
+  id: number;
+  /** 占领方（中立为 None） */
+  owner: Team;
+  /** 进度所属队伍：占领中为进攻方，已占领且无人争夺时为占领方 */
+  capturingTeam: Team;
+  /** 占领进度 0-1 */
+  progress: number;
+}
+
+/**
+ * 大逃杀安全区（快照内嵌；其他模式或回合未开始时为 null）
+ */
+export interface SafeZoneSnapshot {
+  /** 当前中心（y 为 0） */
+  center: Vec3;
+  /** 当前半径 (m) */
+  radius: number;
+  /** 距下次开始收缩的时间 (ms)；收缩中或已到最小半径为 0 */
+  nextShrinkIn: number;
+}
+
+/**
+ * 合作模式波次状态（快照内嵌；其他模式或回合未开始时为 null）
+ */
+export interface WaveSnapshot {
+  /** 当前波次（第一波开始前为 0） */
+  wave: number;
+  phase: WavePhase;
+  /** 本波剩余 AI 数 */
+  botsRemaining: number;
+  /** 共享复活次数剩余 */
+  lives: number;
+  /** 维修阶段剩余时间 (ms)；交战中为 0 */
+  phaseTimeRemaining: number;
 }
 
 /**
@@ -134,6 +459,7 @@ export interface PlayerScore {
   deaths: number;
   hits: number;
   shots: number;
+  team: Team;
 }
 
 /**
@@ -151,6 +477,36 @@ export interface SnapshotMessage {
   playerCount: number;
   /** 房间内真人玩家数 */
   humanCount: number;
+  /** 团队模式各队得分（按 TEAMS 顺序）；个人混战为空 */
+  teamScores: number[];
+  /** 夺旗模式的旗帜；其他模式为空 */
+  flags: FlagSnapshot[];
+  /** 占点模式的控制点；其他模式为空 */
+  controlPoints: ControlPointSnapshot[];
+  /** 大逃杀安全区 */
+  zone: SafeZoneSnapshot | null;
+  /** 合作模式波次状态 */
+  wave: WaveSnapshot | null;
+  /** 烟雾云 */
+  smoke: SmokeCloudSnapshot[];
+}
+
+/**
+ * 坦克增量状态 — 除 entityId 外只携带相对基线发生变化的字段
+ * nickname / isBot 为静态字段，客户端确认收到后不再重复发送
+ */
+export type TankSnapshotDelta = Partial<TankSnapshot> & { entityId: number };
+
+/**
+ * 线路上的快照 — 相对 baselineId 的增量
+ * - baselineId 缺省或为 0 表示关键帧（动态字段齐全）
+ * - 坦克列表始终包含全部存活实体，未出现的实体视为已移除
+ * - 弹体每帧都在移动，始终完整发送
+ * 客户端还原为完整的 SnapshotMessage 后再交给游戏逻辑
+ */
+export interface SnapshotDeltaMessage extends Omit<SnapshotMessage, 'tanks'> {
+  baselineId?: number;
+  tanks: TankSnapshotDelta[];
 }
 
 /**
@@ -161,8 +517,20 @@ export interface JoinAckMessage {
   playerId: number;
   roomId: string;
   roomState: RoomState;
+  /** 当前状态剩余时间 (ms)，含义同 RoomStateMessage.timeRemaining */
+  timeRemaining: number;
   mapSeed: number;
   config: GameConfigSnapshot;
+  /** 服务器确认的线路编码格式 */
+  wireFormat: WireFormat;
+  /** 房间邀请码（分享给好友，?room=CODE） */
+  inviteCode: string;
+  /** 是否为私人房间 */
+  isPrivate: boolean;
+  /** 断线重连凭证（每次加入或恢复都会轮换） */
+  resumeToken: string;
+  /** 是否恢复了断线前的会话（同一 playerId、战绩与房间） */
+  resumed: boolean;
 }
 
 /**
@@ -189,6 +557,8 @@ export interface GameConfigSnapshot {
   splashRadius: number;
   roundDuration: number;
   respawnDelay: number;
+  /** 房间比赛设置（roundDuration / respawnDelay 与其一致） */
+  settings: RoomSettings;
 }
 
 // ==================== 游戏事件消息 ====================
@@ -200,14 +570,23 @@ export interface FireEvent {
   muzzleDir: Vec3;
   projectileId: number;
   serverTick: number;
+  ammoType: AmmoType;
 }
 
 export interface HitEvent {
   eventType: GameEventType.Hit;
   projectileId: number;
+  shooterId: number;
   targetId: number;
   hitPos: Vec3;
+  /** 按装甲面与入射角修正后的伤害 */
   damage: number;
+  /** 被命中的装甲面 */
+  facing: ArmorFacing;
+  /** 延迟补偿回溯的 tick 数（0 = 未回溯） */
+  rewindTicks: number;
+  /** 判定命中时目标所在位置（回溯后，即射手看到的位置） */
+  targetPos: Vec3;
 }
 
 export interface ExplodeEvent {
@@ -221,7 +600,7 @@ export interface DeathEvent {
   eventType: GameEventType.Death;
   victimId: number;
   killerId: number;
-  reason: string;
+  reason: DeathReason;
   pos: Vec3;
 }
 
@@ -236,13 +615,59 @@ export interface RoundEndEvent {
   scoreboard: PlayerScore[];
 }
 
+/** 旗帜被敌方拾取（team 为旗帜所属队伍，下同） */
+export interface FlagTakenEvent {
+  eventType: GameEventType.FlagTaken;
+  team: Team;
+  playerId: number;
+}
+
+/** 携旗者阵亡或离开，旗帜掉落 */
+export interface FlagDroppedEvent {
+  eventType: GameEventType.FlagDropped;
+  team: Team;
+  playerId: number;
+  pos: Vec3;
+}
+
+/** 旗帜回到基地（playerId 为交还旗帜的队员；超时自动回收为 null） */
+export interface FlagReturnedEvent {
+  eventType: GameEventType.FlagReturned;
+  team: Team;
+  playerId: number | null;
+}
+
+/** 携旗者把旗帜带回己方基地得分 */
+export interface FlagCapturedEvent {
+  eventType: GameEventType.FlagCaptured;
+  team: Team;
+  playerId: number;
+}
+
+/** 炮弹以过大入射角擦过装甲弹开（无伤害、无爆炸） */
+export interface RicochetEvent {
+  eventType: GameEventType.Ricochet;
+  projectileId: number;
+  shooterId: number;
+  targetId: number;
+  pos: Vec3;
+  /** 弹开后的飞行方向 */
+  dir: Vec3;
+  facing: ArmorFacing;
+}
+
 export type GameEvent =
   | FireEvent
   | HitEvent
+  | RicochetEvent
   | ExplodeEvent
   | DeathEvent
   | RespawnEvent
-  | RoundEndEvent;
+  | RoundEndEvent
+  | FlagTakenEvent
+  | FlagDroppedEvent
+  | FlagReturnedEvent
+  | FlagCapturedEvent;
 
 export interface GameEventMessage {
   type: MessageType.GameEvent;
@@ -277,18 +702,877 @@ export interface AFKKickMessage {
   reason: string;
 }
 
+/**
+ * 房间状态变更 — 每次状态切换时广播（加入时的状态见 JoinAck）
+ */
+export interface RoomStateMessage {
+  type: MessageType.RoomState;
+  state: RoomState;
+  /** 当前状态剩余时间 (ms)：回合中为回合剩余时间，回合结算为距下一回合的倒计时，暖场为 0 */
+  timeRemaining: number;
+  /** 当前地图种子（每个新回合重新生成地图） */
+  mapSeed: number;
+}
+
+/**
+ * 回合结算
+ */
+export interface RoundEndMessage {
+  type: MessageType.RoundEnd;
+  /** 计分板（按击坠数降序） */
+  scoreboard: PlayerScore[];
+  /** 击坠数最多的玩家（无人击坠为 null） */
+  winnerId: number | null;
+  /** 团队模式获胜队伍（平局为 null；个人混战为 null） */
+  winnerTeam: Team | null;
+  /** 团队模式各队得分（按 TEAMS 顺序）；个人混战为空 */
+  teamScores: number[];
+  /** 距下一回合开始 (ms) */
+  nextRoundIn: number;
+}
+
+/**
+ * 错误通知 — 请求被拒绝；版本不一致时附带服务器版本
+ */
+export interface ErrorMessage {
+  type: MessageType.Error;
+  code: ErrorCode;
+  message: string;
+  protocolVersion?: number;
+  contentVersion?: number;
+}
+
+// ==================== HTTP API ====================
+
+/**
+ * 房间列表项 — GET /api/rooms
+ */
+export interface RoomInfo {
+  roomId: string;
+  state: RoomState;
+  /** 真人玩家数（含断线保留中的玩家） */
+  humans: number;
+  bots: number;
+  mode: GameMode;
+  /** 真人玩家上限 */
+  maxPlayers: number;
+  /** 是否需要密码 */
+  locked: boolean;
+  mapSeed: number;
+  /** 当前状态剩余时间 (ms)，含义同 RoomStateMessage.timeRemaining */
+  timeRemaining: number;
+}
+
+/**
+ * 客户端版本是否与本端一致（协议与内容都必须完全相同）
+ */
+export function isCompatibleVersion(
+  protocolVersion: number | undefined,
+  contentVersion: number | undefined
+): boolean {
+  return protocolVersion === PROTOCOL_VERSION && contentVersion === CONTENT_VERSION;
+}
+
 // ==================== 消息联合类型 ====================
 
 export type ClientMessage =
   | JoinRoomMessage
   | InputCmd
-  | PingMessage;
+  | SnapshotAckMessage
+  | PingMessage
+  | LeaveRoomMessage
+  | SelectClassMessage;
 
 export type ServerMessage =
   | JoinAckMessage
-  | SnapshotMessage
+  | SnapshotDeltaMessage
   | GameEventMessage
   | PongMessage
   | PlayerJoinedMessage
   | PlayerLeftMessage
-  | AFKKickMessage;
+  | AFKKickMessage
+  | RoomStateMessage
+  | RoundEndMessage
+  | ErrorMessage;
+
+// ==================== 二进制编解码 ====================
+//
+// 所有多字节字段均为小端序。位置、速度、角度做定点量化：
+// - 位置：int16，1/32 m 精度，覆盖 ±1024 m（含飞出地图的弹体）
+// - 速度：int16，0.01 m/s 精度，覆盖 ±327 m/s
+// - 角度：uint16 映射 [-π, π)，精度约 0.0001 rad
+// - 方向向量分量：int16 映射 [-1, 1]
+
+/** 位置量化倍率 (1/m) */
+const POSITION_SCALE = 32;
+/** 速度量化倍率 (s/m) */
+const VELOCITY_SCALE = 100;
+/** 单位向量量化倍率 */
+const UNIT_SCALE = 32767;
+/** 角度量化倍率 (1/rad) */
+const ANGLE_SCALE = 65536 / (Math.PI * 2);
+/** HP / 伤害量化倍率 */
+const HP_SCALE = 10;
+/** 溅射半径量化倍率 */
+const RADIUS_SCALE = 100;
+/** 占领进度量化倍率（u8） */
+const PROGRESS_SCALE = 255;
+
+/** 坦克字段掩码位（增量快照只写入置位的字段） */
+const TANK_FIELD_POSITION = 1 << 0;
+const TANK_FIELD_BODY_YAW = 1 << 1;
+const TANK_FIELD_TURRET_YAW = 1 << 2;
+const TANK_FIELD_GUN_PITCH = 1 << 3;
+const TANK_FIELD_VELOCITY = 1 << 4;
+const TANK_FIELD_HP = 1 << 5;
+const TANK_FIELD_ALIVE = 1 << 6;
+const TANK_FIELD_RELOAD = 1 << 7;
+const TANK_FIELD_KILLS = 1 << 8;
+const TANK_FIELD_DEATHS = 1 << 9;
+const TANK_FIELD_STATICS = 1 << 10;
+const TANK_FIELD_TEAM = 1 << 11;
+const TANK_FIELD_CLASS = 1 << 12;
+/** 布尔字段的取值直接放在掩码里 */
+const TANK_VALUE_ALIVE = 1 << 14;
+const TANK_VALUE_BOT = 1 << 15;
+
+/** 输入按键位 */
+const INPUT_FORWARD = 1 << 0;
+const INPUT_BACKWARD = 1 << 1;
+const INPUT_TURN_LEFT = 1 << 2;
+const INPUT_TURN_RIGHT = 1 << 3;
+const INPUT_FIRE = 1 << 4;
+const INPUT_STABILIZE = 1 << 5;
+
+/** 二进制事件类型编号（GameEventType 字符串 → 单字节） */
+const EVENT_CODES: Record<string, number> = {
+  [GameEventType.Fire]: 1,
+  [GameEventType.Hit]: 2,
+  [GameEventType.Explode]: 3,
+  [GameEventType.Death]: 4,
+  [GameEventType.Respawn]: 5,
+  [GameEventType.RoundEnd]: 7,
+  [GameEventType.FlagTaken]: 8,
+  [GameEventType.FlagDropped]: 9,
+  [GameEventType.FlagReturned]: 10,
+  [GameEventType.FlagCaptured]: 11,
+  [GameEventType.Ricochet]: 12,
+};
+
+/**
+ * UTF-8 编码（shared 不依赖 DOM/Node 的 TextEncoder）
+ * 超出 maxBytes 时在字符边界处截断
+ */
+function encodeUtf8(str: string, maxBytes: number): number[] {
+  const out: number[] = [];
+  for (const ch of str) {
+    const c = ch.codePointAt(0)!;
+    const bytes = c < 0x80 ? [c]
+      : c < 0x800 ? [0xc0 | (c >> 6), 0x80 | (c & 0x3f)]
+      : c < 0x10000 ? [0xe0 | (c >> 12), 0x80 | ((c >> 6) & 0x3f), 0x80 | (c & 0x3f)]
+      : [0xf0 | (c >> 18), 0x80 | ((c >> 12) & 0x3f), 0x80 | ((c >> 6) & 0x3f), 0x80 | (c & 0x3f)];
+    if (out.length + bytes.length > maxBytes) break;
+    out.push(...bytes);
+  }
+  return out;
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  let str = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const b = bytes[i++];
+    let c: number;
+    if (b < 0x80) {
+      c = b;
+    } else if (b < 0xe0) {
+      c = ((b & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (b < 0xf0) {
+      c = ((b & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else {
+      c = ((b & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    }
+    str += String.fromCodePoint(c);
+  }
+  return str;
+}
+
+function clampInt(value: number, min: number, max: number): number {
+  const v = Math.round(value);
+  return v < min ? min : v > max ? max : v;
+}
+
+/**
+ * 二进制写入器 — 自动扩容的小端序缓冲区
+ */
+class BinaryWriter {
+  private buf: Uint8Array;
+  private view: DataView;
+  private offset = 0;
+
+  constructor(initialSize: number = 256) {
+    this.buf = new Uint8Array(initialSize);
+    this.view = new DataView(this.buf.buffer);
+  }
+
+  private ensure(bytes: number): void {
+    if (this.offset + bytes <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.offset + bytes) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf);
+    this.buf = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(v: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.offset, clampInt(v, 0, 0xff));
+    this.offset += 1;
+  }
+
+  u16(v: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.offset, clampInt(v, 0, 0xffff), true);
+    this.offset += 2;
+  }
+
+  i16(v: number): void {
+    this.ensure(2);
+    this.view.setInt16(this.offset, clampInt(v, -0x8000, 0x7fff), true);
+    this.offset += 2;
+  }
+
+  u32(v: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.offset, clampInt(v, 0, 0xffffffff), true);
+    this.offset += 4;
+  }
+
+  f64(v: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.offset, v, true);
+    this.offset += 8;
+  }
+
+  str(v: string): void {
+    const bytes = encodeUtf8(v, 0xff);
+    this.u8(bytes.length);
+    this.ensure(bytes.length);
+    this.buf.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+
+  position(v: Vec3): void {
+    this.i16(v.x * POSITION_SCALE);
+    this.i16(v.y * POSITION_SCALE);
+    this.i16(v.z * POSITION_SCALE);
+  }
+
+  velocity(v: Vec3): void {
+    this.i16(v.x * VELOCITY_SCALE);
+    this.i16(v.y * VELOCITY_SCALE);
+    this.i16(v.z * VELOCITY_SCALE);
+  }
+
+  unit(v: Vec3): void {
+    this.i16(v.x * UNIT_SCALE);
+    this.i16(v.y * UNIT_SCALE);
+    this.i16(v.z * UNIT_SCALE);
+  }
+
+  angle(v: number): void {
+    this.u16((normalizeAngle(v) + Math.PI) * ANGLE_SCALE);
+  }
+
+  finish(): Uint8Array {
+    return this.buf.slice(0, this.offset);
+  }
+}
+
+/**
+ * 二进制读取器
+ */
+class BinaryReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private readonly buf: Uint8Array) {
+    this.view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  }
+
+  u8(): number {
+    const v = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return v;
+  }
+
+  u16(): number {
+    const v = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return v;
+  }
+
+  i16(): number {
+    const v = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return v;
+  }
+
+  u32(): number {
+    const v = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return v;
+  }
+
+  f64(): number {
+    const v = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return v;
+  }
+
+  str(): string {
+    const len = this.u8();
+    if (this.offset + len > this.buf.length) {
+      throw new RangeError('String length exceeds buffer');
+    }
+    const v = decodeUtf8(this.buf.subarray(this.offset, this.offset + len));
+    this.offset += len;
+    return v;
+  }
+
+  position(): Vec3 {
+    return new Vec3(
+      this.i16() / POSITION_SCALE,
+      this.i16() / POSITION_SCALE,
+      this.i16() / POSITION_SCALE
+    );
+  }
+
+  velocity(): Vec3 {
+    return new Vec3(
+      this.i16() / VELOCITY_SCALE,
+      this.i16() / VELOCITY_SCALE,
+      this.i16() / VELOCITY_SCALE
+    );
+  }
+
+  unit(): Vec3 {
+    return new Vec3(
+      this.i16() / UNIT_SCALE,
+      this.i16() / UNIT_SCALE,
+      this.i16() / UNIT_SCALE
+    );
+  }
+
+  angle(): number {
+    return this.u16() / ANGLE_SCALE - Math.PI;
+  }
+}
+
+function writeTank(w: BinaryWriter, t: TankSnapshotDelta): void {
+  let mask = 0;
+  if (t.position !== undefined) mask |= TANK_FIELD_POSITION;
+  if (t.bodyYaw !== undefined) mask |= TANK_FIELD_BODY_YAW;
+  if (t.turretYaw !== undefined) mask |= TANK_FIELD_TURRET_YAW;
+  if (t.gunPitch !== undefined) mask |= TANK_FIELD_GUN_PITCH;
+  if (t.velocity !== undefined) mask |= TANK_FIELD_VELOCITY;
+  if (t.hp !== undefined) mask |= TANK_FIELD_HP;
+  if (t.alive !== undefined) mask |= TANK_FIELD_ALIVE | (t.alive ? TANK_VALUE_ALIVE : 0);
+  if (t.reloadRemain !== undefined) mask |= TANK_FIELD_RELOAD;
+  if (t.kills !== undefined) mask |= TANK_FIELD_KILLS;
+  if (t.deaths !== undefined) mask |= TANK_FIELD_DEATHS;
+  if (t.nickname !== undefined) mask |= TANK_FIELD_STATICS | (t.isBot ? TANK_VALUE_BOT : 0);
+  if (t.team !== undefined) mask |= TANK_FIELD_TEAM;
+  if (t.tankClass !== undefined) mask |= TANK_FIELD_CLASS;
+
+  w.u16(t.entityId);
+  w.u16(mask);
+  if (t.position !== undefined) w.position(t.position);
+  if (t.bodyYaw !== undefined) w.angle(t.bodyYaw);
+  if (t.turretYaw !== undefined) w.angle(t.turretYaw);
+  if (t.gunPitch !== undefined) w.angle(t.gunPitch);
+  if (t.velocity !== undefined) w.velocity(t.velocity);
+  if (t.hp !== undefined) w.u16(t.hp * HP_SCALE);
+  if (t.reloadRemain !== undefined) w.u16(t.reloadRemain);
+  if (t.kills !== undefined) w.u16(t.kills);
+  if (t.deaths !== undefined) w.u16(t.deaths);
+  if (t.nickname !== undefined) w.str(t.nickname);
+  if (t.team !== undefined) w.u8(t.team);
+  if (t.tankClass !== undefined) w.u8(t.tankClass);
+}
+
+function readTank(r: BinaryReader): TankSnapshotDelta {
+  const t: TankSnapshotDelta = { entityId: r.u16() };
+  const mask = r.u16();
+  if (mask & TANK_FIELD_POSITION) t.position = r.position();
+  if (mask & TANK_FIELD_BODY_YAW) t.bodyYaw = r.angle();
+  if (mask & TANK_FIELD_TURRET_YAW) t.turretYaw = r.angle();
+  if (mask & TANK_FIELD_GUN_PITCH) t.gunPitch = r.angle();
+  if (mask & TANK_FIELD_VELOCITY) t.velocity = r.velocity();
+  if (mask & TANK_FIELD_HP) t.hp = r.u16() / HP_SCALE;
+  if (mask & TANK_FIELD_ALIVE) t.alive = (mask & TANK_VALUE_ALIVE) !== 0;
+  if (mask & TANK_FIELD_RELOAD) t.reloadRemain = r.u16();
+  if (mask & TANK_FIELD_KILLS) t.kills = r.u16();
+  if (mask & TANK_FIELD_DEATHS) t.deaths = r.u16();
+  if (mask & TANK_FIELD_STATICS) {
+    t.nickname = r.str();
+    t.isBot = (mask & TANK_VALUE_BOT) !== 0;
+  }
+  if (mask & TANK_FIELD_TEAM) t.team = r.u8();
+  if (mask & TANK_FIELD_CLASS) t.tankClass = r.u8();
+  return t;
+}
+
+/**
+ * 编码状态快照（关键帧或增量）
+ */
+export function encodeSnapshot(msg: SnapshotDeltaMessage): Uint8Array {
+  const w = new BinaryWriter(32 + msg.tanks.length * 48 + msg.projectiles.length * 20);
+  w.u8(MessageType.Snapshot);
+  w.u32(msg.serverTick);
+  w.u32(msg.snapshotId);
+  w.u32(msg.baselineId ?? 0);
+  w.f64(msg.timestamp);
+  w.u32(msg.lastProcessedSeq);
+  w.u8(msg.playerCount);
+  w.u8(msg.humanCount);
+  w.u8(msg.teamScores.length);
+  for (const score of msg.teamScores) w.u16(score);
+
+  w.u16(msg.tanks.length);
+  for (const t of msg.tanks) writeTank(w, t);
+
+  w.u16(msg.projectiles.length);
+  for (const p of msg.projectiles) {
+    w.u32(p.projectileId);
+    w.position(p.position);
+    w.velocity(p.velocity);
+    w.u16(p.ttl);
+    w.u8(p.ammoType);
+  }
+
+  w.u8(msg.flags.length);
+  for (const f of msg.flags) {
+    w.u8(f.team);
+    w.u8(f.state);
+    w.position(f.position);
+    w.u16(f.carrierId ?? 0);
+  }
+
+  w.u8(msg.controlPoints.length);
+  for (const p of msg.controlPoints) {
+    w.u8(p.id);
+    w.u8(p.owner);
+    w.u8(p.capturingTeam);
+    w.u8(Math.round(p.progress * PROGRESS_SCALE));
+  }
+
+  w.u8(msg.zone ? 1 : 0);
+  if (msg.zone) {
+    w.position(msg.zone.center);
+    w.u16(msg.zone.radius * RADIUS_SCALE);
+    w.u32(msg.zone.nextShrinkIn);
+  }
+
+  w.u8(msg.wave ? 1 : 0);
+  if (msg.wave) {
+    w.u16(msg.wave.wave);
+    w.u8(msg.wave.phase);
+    w.u8(msg.wave.botsRemaining);
+    w.u8(msg.wave.lives);
+    w.u32(msg.wave.phaseTimeRemaining);
+  }
+
+  w.u8(msg.smoke.length);
+  for (const s of msg.smoke) {
+    w.u16(s.id);
+    w.position(s.position);
+    w.u16(s.radius * RADIUS_SCALE);
+    w.u16(s.remaining);
+  }
+  return w.finish();
+}
+
+function readSnapshot(r: BinaryReader): SnapshotDeltaMessage {
+  const serverTick = r.u32();
+  const snapshotId = r.u32();
+  const baselineId = r.u32();
+  const timestamp = r.f64();
+  const lastProcessedSeq = r.u32();
+  const playerCount = r.u8();
+  const humanCount = r.u8();
+  const teamScores: number[] = [];
+  const teamCount = r.u8();
+  for (let i = 0; i < teamCount; i++) teamScores.push(r.u16());
+
+  const tanks: TankSnapshotDelta[] = [];
+  const tankCount = r.u16();
+  for (let i = 0; i < tankCount; i++) tanks.push(readTank(r));
+
+  const projectiles: ProjectileSnapshot[] = [];
+  const projCount = r.u16();
+  for (let i = 0; i < projCount; i++) {
+    projectiles.push({
+      projectileId: r.u32(),
+      position: r.position(),
+      velocity: r.velocity(),
+      ttl: r.u16(),
+      ammoType: r.u8(),
+    });
+  }
+
+  const flags: FlagSnapshot[] = [];
+  const flagCount = r.u8();
+  for (let i = 0; i < flagCount; i++) {
+    const team = r.u8();
+    const state = r.u8();
+    const position = r.position();
+    const carrierId = r.u16();
+    flags.push({ team, state, position, carrierId: carrierId || null });
+  }
+
+  const controlPoints: ControlPointSnapshot[] = [];
+  const pointCount = r.u8();
+  for (let i = 0; i < pointCount; i++) {
+    controlPoints.push({
+      id: r.u8(),
+      owner: r.u8(),
+      capturingTeam: r.u8(),
+      progress: r.u8() / PROGRESS_SCALE,
+    });
+  }
+
+  const zone: SafeZoneSnapshot | null = r.u8()
+    ? { center: r.position(), radius: r.u16() / RADIUS_SCALE, nextShrinkIn: r.u32() }
+    : null;
+
+  const wave: WaveSnapshot | null = r.u8()
+    ? { wave: r.u16(), phase: r.u8(), botsRemaining: r.u8(), lives: r.u8(), phaseTimeRemaining: r.u32() }
+    : null;
+
+  const smoke: SmokeCloudSnapshot[] = [];
+  const smokeCount = r.u8();
+  for (let i = 0; i < smokeCount; i++) {
+    smoke.push({
+      id: r.u16(),
+      position: r.position(),
+      radius: r.u16() / RADIUS_SCALE,
+      remaining: r.u16(),
+    });
+  }
+
+  return {
+    type: MessageType.Snapshot,
+    serverTick,
+    snapshotId,
+    baselineId,
+    timestamp,
+    lastProcessedSeq,
+    tanks,
+    projectiles,
+    playerCount,
+    humanCount,
+    teamScores,
+    flags,
+    controlPoints,
+    zone,
+    wave,
+    smoke,
+  };
+}
+
+/**
+ * 编码输入命令
+ */
+export function encodeInputCmd(cmd: InputCmd): Uint8Array {
+  const redundant = cmd.redundant ?? [];
+  const w = new BinaryWriter(32 + redundant.length * 24);
+  w.u8(MessageType.InputCmd);
+  writeInputFrame(w, cmd);
+  w.u32(cmd.ackSnapshotId ?? 0);
+  w.u8(redundant.length);
+  for (const f of redundant) writeInputFrame(w, f);
+  return w.finish();
+}
+
+/**
+ * 单帧输入：seq u32 | 按键位 u8 | turretYaw | gunPitch | timestamp f64 | viewTick u32 | ammoType u8
+ */
+function writeInputFrame(w: BinaryWriter, f: InputFrame): void {
+  w.u32(f.seq);
+  w.u8(
+    (f.forward ? INPUT_FORWARD : 0) |
+    (f.backward ? INPUT_BACKWARD : 0) |
+    (f.turnLeft ? INPUT_TURN_LEFT : 0) |
+    (f.turnRight ? INPUT_TURN_RIGHT : 0) |
+    (f.fire ? INPUT_FIRE : 0) |
+    (f.stabilize ? INPUT_STABILIZE : 0)
+  );
+  w.angle(f.turretYaw);
+  w.angle(f.gunPitch);
+  w.f64(f.timestamp);
+  w.u32(f.viewTick ?? 0);
+  w.u8(f.ammoType ?? 0);
+}
+
+/**
+ * 编码快照确认
+ */
+export function encodeSnapshotAck(msg: SnapshotAckMessage): Uint8Array {
+  const w = new BinaryWriter(8);
+  w.u8(MessageType.SnapshotAck);
+  w.u32(msg.snapshotId);
+  return w.finish();
+}
+
+function readInputCmd(r: BinaryReader): InputCmd {
+  const frame = readInputFrame(r);
+  const ackSnapshotId = r.u32();
+  const count = r.u8();
+  const redundant: InputFrame[] = [];
+  for (let i = 0; i < count; i++) redundant.push(readInputFrame(r));
+  return {
+    type: MessageType.InputCmd,
+    ...frame,
+    ...(ackSnapshotId ? { ackSnapshotId } : {}),
+    ...(count ? { redundant } : {}),
+  };
+}
+
+function readInputFrame(r: BinaryReader): InputFrame {
+  const seq = r.u32();
+  const buttons = r.u8();
+  const turretYaw = r.angle();
+  const gunPitch = r.angle();
+  const timestamp = r.f64();
+  const viewTick = r.u32();
+  const ammoType = r.u8();
+  return {
+    seq,
+    forward: (buttons & INPUT_FORWARD) !== 0,
+    backward: (buttons & INPUT_BACKWARD) !== 0,
+    turnLeft: (buttons & INPUT_TURN_LEFT) !== 0,
+    turnRight: (buttons & INPUT_TURN_RIGHT) !== 0,
+    turretYaw,
+    gunPitch,
+    fire: (buttons & INPUT_FIRE) !== 0,
+    stabilize: (buttons & INPUT_STABILIZE) !== 0,
+    timestamp,
+    ...(viewTick ? { viewTick } : {}),
+    ...(ammoType ? { ammoType } : {}),
+  };
+}
+
+/**
+ * 编码游戏事件
+ */
+export function encodeGameEvent(msg: GameEventMessage): Uint8Array {
+  const w = new BinaryWriter(64);
+  const e = msg.event;
+  w.u8(MessageType.GameEvent);
+  w.u32(msg.serverTick);
+  w.u8(EVENT_CODES[e.eventType] ?? 0);
+
+  switch (e.eventType) {
+    case GameEventType.Fire:
+      w.u16(e.shooterId);
+      w.position(e.muzzlePos);
+      w.unit(e.muzzleDir);
+      w.u32(e.projectileId);
+      w.u32(e.serverTick);
+      w.u8(e.ammoType);
+      break;
+    case GameEventType.Hit:
+      w.u32(e.projectileId);
+      w.u16(e.shooterId);
+      w.u16(e.targetId);
+      w.position(e.hitPos);
+      w.u16(e.damage * HP_SCALE);
+      w.u8(e.facing);
+      w.u8(e.rewindTicks);
+      w.position(e.targetPos);
+      break;
+    case GameEventType.Explode:
+      w.u32(e.projectileId);
+      w.position(e.pos);
+      w.u16(e.radius * RADIUS_SCALE);
+      break;
+    case GameEventType.Death:
+      w.u16(e.victimId);
+      w.u16(e.killerId);
+      w.str(e.reason);
+      w.position(e.pos);
+      break;
+    case GameEventType.Respawn:
+      w.u16(e.playerId);
+      w.position(e.spawnPos);
+      break;
+    case GameEventType.RoundEnd:
+      w.u8(e.scoreboard.length);
+      for (const s of e.scoreboard) {
+        w.u16(s.playerId);
+        w.str(s.nickname);
+        w.u16(s.kills);
+        w.u16(s.deaths);
+        w.u16(s.hits);
+        w.u16(s.shots);
+        w.u8(s.team);
+      }
+      break;
+    case GameEventType.FlagTaken:
+    case GameEventType.FlagCaptured:
+      w.u8(e.team);
+      w.u16(e.playerId);
+      break;
+    case GameEventType.FlagDropped:
+      w.u8(e.team);
+      w.u16(e.playerId);
+      w.position(e.pos);
+      break;
+    case GameEventType.FlagReturned:
+      w.u8(e.team);
+      w.u16(e.playerId ?? 0);
+      break;
+    case GameEventType.Ricochet:
+      w.u32(e.projectileId);
+      w.u16(e.shooterId);
+      w.u16(e.targetId);
+      w.position(e.pos);
+      w.unit(e.dir);
+      w.u8(e.facing);
+      break;
+  }
+  return w.finish();
+}
+
+function readGameEvent(r: BinaryReader): GameEventMessage {
+  const serverTick = r.u32();
+  const code = r.u8();
+  let event: GameEvent;
+
+  switch (code) {
+    case EVENT_CODES[GameEventType.Fire]:
+      event = {
+        eventType: GameEventType.Fire,
+        shooterId: r.u16(),
+        muzzlePos: r.position(),
+        muzzleDir: r.unit(),
+        projectileId: r.u32(),
+        serverTick: r.u32(),
+        ammoType: r.u8(),
+      };
+      break;
+    case EVENT_CODES[GameEventType.Hit]:
+      event = {
+        eventType: GameEventType.Hit,
+        projectileId: r.u32(),
+        shooterId: r.u16(),
+        targetId: r.u16(),
+        hitPos: r.position(),
+        damage: r.u16() / HP_SCALE,
+        facing: r.u8(),
+        rewindTicks: r.u8(),
+        targetPos: r.position(),
+      };
+      break;
+    case EVENT_CODES[GameEventType.Explode]:
+      event = {
+        eventType: GameEventType.Explode,
+        projectileId: r.u32(),
+        pos: r.position(),
+        radius: r.u16() / RADIUS_SCALE,
+      };
+      break;
+    case EVENT_CODES[GameEventType.Death]:
+      event = {
+        eventType: GameEventType.Death,
+        victimId: r.u16(),
+        killerId: r.u16(),
+        reason: r.str() as DeathReason,
+        pos: r.position(),
+      };
+      break;
+    case EVENT_CODES[GameEventType.Respawn]:
+      event = {
+        eventType: GameEventType.Respawn,
+        playerId: r.u16(),
+        spawnPos: r.position(),
+      };
+      break;
+    case EVENT_CODES[GameEventType.RoundEnd]: {
+      const scoreboard: PlayerScore[] = [];
+      const count = r.u8();
+      for (let i = 0; i < count; i++) {
+        scoreboard.push({
+          playerId: r.u16(),
+          nickname: r.str(),
+          kills: r.u16(),
+          deaths: r.u16(),
+          hits: r.u16(),
+          shots: r.u16(),
+          team: r.u8(),
+        });
+      }
+      event = { eventType: GameEventType.RoundEnd, scoreboard };
+      break;
+    }
+    case EVENT_CODES[GameEventType.FlagTaken]:
+      event = { eventType: GameEventType.FlagTaken, team: r.u8(), playerId: r.u16() };
+      break;
+    case EVENT_CODES[GameEventType.FlagDropped]:
+      event = { eventType: GameEventType.FlagDropped, team: r.u8(), playerId: r.u16(), pos: r.position() };
+      break;
+    case EVENT_CODES[GameEventType.FlagReturned]:
+      event = { eventType: GameEventType.FlagReturned, team: r.u8(), playerId: r.u16() || null };
+      break;
+    case EVENT_CODES[GameEventType.FlagCaptured]:
+      event = { eventType: GameEventType.FlagCaptured, team: r.u8(), playerId: r.u16() };
+      break;
+    case EVENT_CODES[GameEventType.Ricochet]:
+      event = {
+        eventType: GameEventType.Ricochet,
+        projectileId: r.u32(),
+        shooterId: r.u16(),
+        targetId: r.u16(),
+        pos: r.position(),
+        dir: r.unit(),
+        facing: r.u8(),
+      };
+      break;
+    default:
+      throw new Error(`Unknown binary event code: ${code}`);
+  }
+
+  return { type: MessageType.GameEvent, event, serverTick };
+}
+
+/**
+ * 二进制帧支持的消息
+ */
+export type BinaryMessage =
+  | SnapshotDeltaMessage
+  | InputCmd
+  | SnapshotAckMessage
+  | GameEventMessage;
+
+/**
+ * 解码二进制帧 — 首字节为 MessageType
+ * @throws 消息类型不支持或数据截断时抛出
+ */
+export function decodeBinaryMessage(data: Uint8Array): BinaryMessage {
+  const r = new BinaryReader(data);
+  const type = r.u8();
+  switch (type) {
+    case MessageType.Snapshot:
+      return readSnapshot(r);
+    case MessageType.InputCmd:
+      return readInputCmd(r);
+    case MessageType.SnapshotAck:
+      return { type: MessageType.SnapshotAck, snapshotId: r.u32() };
+    case MessageType.GameEvent:
+      return readGameEvent(r);
+    default:
+      throw new Error(`Unsupported binary message type: 0x${type.toString(16)}`);
+  }
+}
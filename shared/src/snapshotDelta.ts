@@ -0,0 +1,176 @@
+import type {
+  SnapshotMessage,
+  SnapshotDeltaMessage,
+  TankSnapshot,
+  TankSnapshotDelta,
+} from './protocol.js';
+import { MessageType } from './protocol.js';
+
+/**
+ * 增量快照 — 服务器与客户端共用的差分 / 还原逻辑
+ *
+ * 服务器对每个客户端记录已发送的快照（按客户端视角还原后的状态），
+ * 以客户端最近确认的快照为基线只发送变化的字段；
+ * 客户端按相同规则把增量还原成完整快照。
+ */
+
+/** 坦克静态字段（每个实体生命周期只需送达一次） */
+export interface TankStatics {
+  nickname: string;
+  isBot: boolean;
+}
+
+/** 位置变化阈值 (m) */
+const POSITION_EPSILON = 0.01;
+/** 角度变化阈值 (rad) */
+const ANGLE_EPSILON = 0.001;
+/** 速度变化阈值 (m/s) */
+const VELOCITY_EPSILON = 0.01;
+
+/** 向量字段只依赖 x/y/z（JSON 解析后为普通对象） */
+interface XYZ {
+  x: number;
+  y: number;
+  z: number;
+}
+
+function vecChanged(a: XYZ, b: XYZ, epsilon: number): boolean {
+  return (
+    Math.abs(a.x - b.x) > epsilon ||
+    Math.abs(a.y - b.y) > epsilon ||
+    Math.abs(a.z - b.z) > epsilon
+  );
+}
+
+/**
+ * 静态字段签名 — 用于判断客户端已确认的静态字段是否仍然有效（实体 ID 可能被复用）
+ */
+export function staticsKey(t: TankStatics): string {
+  return `${t.isBot ? 1 : 0}:${t.nickname}`;
+}
+
+/**
+ * 计算单个坦克相对基线的增量
+ * @param base 基线中的同一实体（缺省 → 发送全部动态字段）
+ * @param includeStatics 是否携带 nickname / isBot
+ */
+export function diffTank(
+  base: TankSnapshot | undefined,
+  cur: TankSnapshot,
+  includeStatics: boolean
+): TankSnapshotDelta {
+  const d: TankSnapshotDelta = { entityId: cur.entityId };
+
+  if (!base || vecChanged(base.position, cur.position, POSITION_EPSILON)) d.position = cur.position;
+  if (!base || Math.abs(base.bodyYaw - cur.bodyYaw) > ANGLE_EPSILON) d.bodyYaw = cur.bodyYaw;
+  if (!base || Math.abs(base.turretYaw - cur.turretYaw) > ANGLE_EPSILON) d.turretYaw = cur.turretYaw;
+  if (!base || Math.abs(base.gunPitch - cur.gunPitch) > ANGLE_EPSILON) d.gunPitch = cur.gunPitch;
+  if (!base || vecChanged(base.velocity, cur.velocity, VELOCITY_EPSILON)) d.velocity = cur.velocity;
+  if (!base || base.hp !== cur.hp) d.hp = cur.hp;
+  if (!base || base.alive !== cur.alive) d.alive = cur.alive;
+  if (!base || base.reloadRemain !== cur.reloadRemain) d.reloadRemain = cur.reloadRemain;
+  if (!base || base.kills !== cur.kills) d.kills = cur.kills;
+  if (!base || base.deaths !== cur.deaths) d.deaths = cur.deaths;
+  if (!base || base.team !== cur.team) d.team = cur.team;
+  if (!base || base.tankClass !== cur.tankClass) d.tankClass = cur.tankClass;
+
+  if (includeStatics) {
+    d.nickname = cur.nickname;
+    d.isBot = cur.isBot;
+  }
+  return d;
+}
+
+/**
+ * 把坦克增量叠加到基线上
+ * 没有基线时动态字段必须齐全；静态字段缺失时从 statics 缓存补齐
+ */
+export function applyTankDelta(
+  base: TankSnapshot | undefined,
+  d: TankSnapshotDelta,
+  statics: Map<number, TankStatics>
+): TankSnapshot {
+  if (d.nickname !== undefined && d.isBot !== undefined) {
+    statics.set(d.entityId, { nickname: d.nickname, isBot: d.isBot });
+  }
+  const known = statics.get(d.entityId);
+
+  return {
+    entityId: d.entityId,
+    position: d.position ?? base!.position,
+    bodyYaw: d.bodyYaw ?? base!.bodyYaw,
+    turretYaw: d.turretYaw ?? base!.turretYaw,
+    gunPitch: d.gunPitch ?? base!.gunPitch,
+    velocity: d.velocity ?? base!.velocity,
+    hp: d.hp ?? base!.hp,
+    alive: d.alive ?? base!.alive,
+    reloadRemain: d.reloadRemain ?? base!.reloadRemain,
+    kills: d.kills ?? base!.kills,
+    deaths: d.deaths ?? base!.deaths,
+    team: d.team ?? base!.team,
+    tankClass: d.tankClass ?? base!.tankClass,
+    nickname: d.nickname ?? known?.nickname ?? base?.nickname ?? '',
+    isBot: d.isBot ?? known?.isBot ?? base?.isBot ?? false,
+  };
+}
+
+/**
+ * 生成增量快照
+ * @param baseline 基线快照（缺省 → 关键帧）
+ * @param needsStatics 判断某实体是否需要携带静态字段
+ */
+export function createSnapshotDelta(
+  snapshot: SnapshotMessage,
+  baseline: SnapshotMessage | undefined,
+  needsStatics: (tank: TankSnapshot) => boolean
+): SnapshotDeltaMessage {
+  const baseTanks = new Map<number, TankSnapshot>();
+  if (baseline) {
+    for (const t of baseline.tanks) baseTanks.set(t.entityId, t);
+  }
+
+  return {
+    ...snapshot,
+    baselineId: baseline ? baseline.snapshotId : 0,
+    tanks: snapshot.tanks.map((t) => diffTank(baseTanks.get(t.entityId), t, needsStatics(t))),
+  };
+}
+
+/**
+ * 还原完整快照
+ * @param baseline baselineId 对应的完整快照（关键帧时忽略）
+ * @throws 增量快照的基线缺失时抛出
+ */
+export function applySnapshotDelta(
+  delta: SnapshotDeltaMessage,
+  baseline: SnapshotMessage | undefined,
+  statics: Map<number, TankStatics>
+): SnapshotMessage {
+  const isKeyframe = !delta.baselineId;
+  if (!isKeyframe && (!baseline || baseline.snapshotId !== delta.baselineId)) {
+    throw new Error(`Missing baseline snapshot ${delta.baselineId}`);
+  }
+
+  const baseTanks = new Map<number, TankSnapshot>();
+  if (!isKeyframe) {
+    for (const t of baseline!.tanks) baseTanks.set(t.entityId, t);
+  }
+
+  return {
+    type: MessageType.Snapshot,
+    serverTick: delta.serverTick,
+    snapshotId: delta.snapshotId,
+    timestamp: delta.timestamp,
+    lastProcessedSeq: delta.lastProcessedSeq,
+    tanks: delta.tanks.map((d) => applyTankDelta(baseTanks.get(d.entityId), d, statics)),
+    projectiles: delta.projectiles,
+    playerCount: delta.playerCount,
+    humanCount: delta.humanCount,
+    teamScores: delta.teamScores,
+    flags: delta.flags,
+    controlPoints: delta.controlPoints,
+    zone: delta.zone,
+    wave: delta.wave,
+    smoke: delta.smoke,
+  };
+}
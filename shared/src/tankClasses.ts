@@ -0,0 +1,123 @@
+import {
+  TANK_MAX_SPEED,
+  TANK_ACCELERATION,
+  TANK_TURN_RATE,
+  TURRET_TURN_RATE,
+  TURRET_YAW_MAX,
+  TANK_MAX_HP,
+  RELOAD_TIME,
+  DIRECT_HIT_DAMAGE,
+} from './constants.js';
+
+/**
+ * 坦克职业 — 加入或复活时选择，决定机动、耐久与火力
+ */
+export enum TankClass {
+  /** 轻型：快速灵活，装甲薄、火力弱 */
+  Light = 0,
+  /** 中型：各项均衡（即全局默认参数） */
+  Medium = 1,
+  /** 重型：慢而耐打，单发伤害高 */
+  Heavy = 2,
+  /** 坦克歼击车：炮塔只能小角度偏转，装填慢但单发伤害最高 */
+  Destroyer = 3,
+}
+
+/** 全部职业（选择界面按此顺序排列） */
+export const TANK_CLASSES: readonly TankClass[] = [
+  TankClass.Light,
+  TankClass.Medium,
+  TankClass.Heavy,
+  TankClass.Destroyer,
+];
+
+/** 未选择时的默认职业 */
+export const DEFAULT_TANK_CLASS = TankClass.Medium;
+
+/**
+ * 职业属性
+ */
+export interface TankClassStats {
+  /** 最大速度 (m/s) */
+  maxSpeed: number;
+  /** 加速度 (m/s²) */
+  acceleration: number;
+  /** 车体转向角速度 (rad/s) */
+  turnRate: number;
+  /** 炮塔旋转速度 (rad/s) */
+  turretTurnRate: number;
+  /** 炮塔最大偏转角 (rad) */
+  turretYawMax: number;
+  /** 最大 HP */
+  maxHp: number;
+  /** 装填时间 (ms) */
+  reloadTime: number;
+  /** 直接命中伤害（溅射按比例衰减） */
+  damage: number;
+}
+
+/** 各职业属性表 */
+export const TANK_CLASS_STATS: Readonly<Record<TankClass, Readonly<TankClassStats>>> = {
+  [TankClass.Light]: {
+    maxSpeed: 18.5,
+    acceleration: 12.5,
+    turnRate: 2.0,
+    turretTurnRate: 2.6,
+    turretYawMax: TURRET_YAW_MAX,
+    maxHp: 70,
+    reloadTime: 1800,
+    damage: 15,
+  },
+  [TankClass.Medium]: {
+    maxSpeed: TANK_MAX_SPEED,
+    acceleration: TANK_ACCELERATION,
+    turnRate: TANK_TURN_RATE,
+    turretTurnRate: TURRET_TURN_RATE,
+    turretYawMax: TURRET_YAW_MAX,
+    maxHp: TANK_MAX_HP,
+    reloadTime: RELOAD_TIME,
+    damage: DIRECT_HIT_DAMAGE,
+  },
+  [TankClass.Heavy]: {
+    maxSpeed: 10.5,
+    acceleration: 7.0,
+    turnRate: 1.1,
+    turretTurnRate: 1.4,
+    turretYawMax: TURRET_YAW_MAX,
+    maxHp: 150,
+    reloadTime: 3200,
+    damage: 28,
+  },
+  [TankClass.Destroyer]: {
+    maxSpeed: 12.5,
+    acceleration: 8.5,
+    turnRate: 1.3,
+    turretTurnRate: 1.2,
+    turretYawMax: Math.PI / 12,  // 15°
+    maxHp: 90,
+    reloadTime: 3600,
+    damage: 40,
+  },
+};
+
+/** 职业显示名称 */
+export const TANK_CLASS_NAMES: Readonly<Record<TankClass, string>> = {
+  [TankClass.Light]: '轻型',
+  [TankClass.Medium]: '中型',
+  [TankClass.Heavy]: '重型',
+  [TankClass.Destroyer]: '歼击车',
+};
+
+/**
+ * 获取职业属性（未知值按默认职业处理，兼容缺省字段）
+ */
+export function getTankClassStats(tankClass: TankClass | undefined): Readonly<TankClassStats> {
+  return TANK_CLASS_STATS[tankClass ?? DEFAULT_TANK_CLASS] ?? TANK_CLASS_STATS[DEFAULT_TANK_CLASS];
+}
+
+/**
+ * 是否为合法的职业值（校验客户端输入）
+ */
+export function isTankClass(value: unknown): value is TankClass {
+  return (TANK_CLASSES as readonly unknown[]).includes(value);
+}
@@ -0,0 +1,360 @@
+import {
+  TURRET_YAW_MAX,
+  GUN_PITCH_MIN,
+  GUN_PITCH_MAX,
+  MAX_NICKNAME_LENGTH,
+  INPUT_REDUNDANCY,
+  INVITE_CODE_LENGTH,
+  INVITE_CODE_ALPHABET,
+  MAX_ROOM_PASSWORD_LENGTH,
+  MIN_PLAYERS,
+  MAX_PLAYERS,
+  ROUND_DURATION_MIN,
+  ROUND_DURATION_MAX,
+  RESPAWN_DELAY_MIN,
+  RESPAWN_DELAY_MAX,
+  BOT_DIFFICULTIES,
+  KILL_CAP_MAX,
+} from './constants.js';
+import { MessageType, WireFormat, GameMode, DEFAULT_ROOM_SETTINGS } from './protocol.js';
+import { isTankClass } from './tankClasses.js';
+import { isAmmoType } from './ammo.js';
+import type {
+  ClientMessage,
+  JoinRoomMessage,
+  CreateRoomOptions,
+  RoomSettings,
+  BotDifficulty,
+  InputCmd,
+  InputFrame,
+  SnapshotAckMessage,
+  PingMessage,
+  LeaveRoomMessage,
+  SelectClassMessage,
+} from './protocol.js';
+
+/**
+ * 客户端消息运行时校验 — 服务器处理任何客户端消息前调用
+ *
+ * - 结构错误（类型不符、NaN/Infinity、缺少必填字段）→ 拒绝整条消息
+ * - 数值越界 → 钳制到合法范围并计入 clamped（正常客户端不会产生）
+ * - 可选字段非法 → 丢弃该字段并计入 clamped
+ * - 未声明的字段一律剥离，返回新对象
+ */
+
+/** 校验结果 */
+export type ValidationResult =
+  | { ok: true; message: ClientMessage; clamped: number }
+  | { ok: false; error: string };
+
+/** 序列号 / 快照 ID / tick 上限（二进制编码为 u32） */
+const MAX_U32 = 0xffffffff;
+/** 角度量化误差容差 (rad) — 二进制编码的角度可能略超限幅，钳制但不计违规 */
+const ANGLE_TOLERANCE = 1e-3;
+/** 字符串字段最大长度（clientId / resumeToken） */
+const MAX_TOKEN_LENGTH = 64;
+
+/**
+ * 校验任意已解析的客户端消息
+ */
+export function validateClientMessage(raw: unknown): ValidationResult {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return reject('message is not an object');
+  }
+  const msg = raw as Record<string, unknown>;
+  switch (msg.type) {
+    case MessageType.JoinRoom:
+      return validateJoinRoom(msg);
+    case MessageType.InputCmd:
+      return validateInputCmd(msg);
+    case MessageType.SnapshotAck:
+      return validateSnapshotAck(msg);
+    case MessageType.Ping:
+      return validatePing(msg);
+    case MessageType.LeaveRoom:
+      return validateLeaveRoom();
+    case MessageType.SelectClass:
+      return validateSelectClass(msg);
+    default:
+      return reject(`unknown message type ${String(msg.type)}`);
+  }
+}
+
+// ==================== 各消息校验 ====================
+
+function validateJoinRoom(msg: Record<string, unknown>): ValidationResult {
+  if (typeof msg.nickname !== 'string') return reject('nickname must be a string');
+
+  const c = { clamped: 0 };
+  const out: JoinRoomMessage = {
+    type: MessageType.JoinRoom,
+    nickname: msg.nickname,
+  };
+  if (msg.nickname.length > MAX_NICKNAME_LENGTH) {
+    out.nickname = msg.nickname.slice(0, MAX_NICKNAME_LENGTH);
+    c.clamped++;
+  }
+
+  out.clientId = optionalString(msg.clientId, c);
+  out.resumeToken = optionalString(msg.resumeToken, c);
+  out.protocolVersion = optionalUint(msg.protocolVersion, c);
+  out.contentVersion = optionalUint(msg.contentVersion, c);
+  out.roomId = optionalString(msg.roomId, c);
+  if (msg.inviteCode !== undefined) {
+    const code = typeof msg.inviteCode === 'string' ? normalizeInviteCode(msg.inviteCode) : null;
+    if (code) out.inviteCode = code;
+    else c.clamped++;
+  }
+  out.password = optionalPassword(msg.password, c);
+  if (msg.createRoom !== undefined) {
+    const create = msg.createRoom as Record<string, unknown> | null;
+    if (typeof create === 'object' && create !== null && typeof create.private === 'boolean') {
+      const options: CreateRoomOptions = { private: create.private };
+      const password = optionalPassword(create.password, c);
+      if (password !== undefined) options.password = password;
+      if (create.settings !== undefined) {
+        const settings = validateRoomSettings(create.settings, c);
+        if (settings) options.settings = settings;
+      }
+      out.createRoom = options;
+    } else {
+      c.clamped++;
+    }
+  }
+  if (msg.wireFormat !== undefined) {
+    if (msg.wireFormat === WireFormat.Json || msg.wireFormat === WireFormat.Binary) {
+      out.wireFormat = msg.wireFormat;
+    } else {
+      c.clamped++;
+    }
+  }
+  if (msg.tankClass !== undefined) {
+    if (isTankClass(msg.tankClass)) out.tankClass = msg.tankClass;
+    else c.clamped++;
+  }
+  return accept(out, c.clamped);
+}
+
+function validateInputCmd(msg: Record<string, unknown>): ValidationResult {
+  const c = { clamped: 0 };
+  const frame = validateInputFrame(msg, c);
+  if (typeof frame === 'string') return reject(frame);
+
+  const out: InputCmd = { type: MessageType.InputCmd, ...frame };
+  const ackSnapshotId = optionalUint(msg.ackSnapshotId, c);
+  if (ackSnapshotId !== undefined) out.ackSnapshotId = ackSnapshotId;
+
+  // 冗余输入：任何一帧非法则整体丢弃（主输入仍然有效）
+  if (msg.redundant !== undefined) {
+    const redundant = validateRedundant(msg.redundant, c);
+    if (redundant) out.redundant = redundant;
+    else c.clamped++;
+  }
+
+  return accept(out, c.clamped);
+}
+
+/**
+ * 校验单帧输入字段
+ * @returns 校验后的帧，或拒绝原因
+ */
+function validateInputFrame(msg: Record<string, unknown>, c: { clamped: number }): InputFrame | string {
+  if (!isUint(msg.seq)) return 'seq must be a u32 integer';
+  for (const key of ['forward', 'backward', 'turnLeft', 'turnRight', 'fire', 'stabilize']) {
+    if (typeof msg[key] !== 'boolean') return `${key} must be a boolean`;
+  }
+  if (!isFiniteNumber(msg.turretYaw)) return 'turretYaw must be a finite number';
+  if (!isFiniteNumber(msg.gunPitch)) return 'gunPitch must be a finite number';
+  if (!isFiniteNumber(msg.timestamp)) return 'timestamp must be a finite number';
+
+  const frame: InputFrame = {
+    seq: msg.seq,
+    forward: msg.forward as boolean,
+    backward: msg.backward as boolean,
+    turnLeft: msg.turnLeft as boolean,
+    turnRight: msg.turnRight as boolean,
+    turretYaw: clampAngle(msg.turretYaw, -TURRET_YAW_MAX, TURRET_YAW_MAX, c),
+    gunPitch: clampAngle(msg.gunPitch, GUN_PITCH_MIN, GUN_PITCH_MAX, c),
+    fire: msg.fire as boolean,
+    stabilize: msg.stabilize as boolean,
+    timestamp: msg.timestamp,
+  };
+  const viewTick = optionalUint(msg.viewTick, c);
+  if (viewTick !== undefined) frame.viewTick = viewTick;
+  if (msg.ammoType !== undefined) {
+    if (isAmmoType(msg.ammoType)) frame.ammoType = msg.ammoType;
+    else c.clamped++;
+  }
+  return frame;
+}
+
+/**
+ * 校验冗余输入数组（最多 INPUT_REDUNDANCY 帧，每帧必须合法）
+ */
+function validateRedundant(v: unknown, c: { clamped: number }): InputFrame[] | null {
+  if (!Array.isArray(v) || v.length > INPUT_REDUNDANCY) return null;
+  const frames: InputFrame[] = [];
+  for (const item of v) {
+    if (typeof item !== 'object' || item === null) return null;
+    const frame = validateInputFrame(item as Record<string, unknown>, c);
+    if (typeof frame === 'string') return null;
+    frames.push(frame);
+  }
+  return frames;
+}
+
+/**
+ * 房间设置：逐字段校验，越界钳制到允许范围，类型错误丢弃该字段（取默认值）
+ */
+function validateRoomSettings(v: unknown, c: { clamped: number }): Partial<RoomSettings> | null {
+  if (typeof v !== 'object' || v === null) {
+    c.clamped++;
+    return null;
+  }
+  const raw = v as Record<string, unknown>;
+  const out: Partial<RoomSettings> = {};
+
+  const int = (key: keyof RoomSettings, min: number, max: number): number | undefined => {
+    const value = raw[key];
+    if (value === undefined) return undefined;
+    if (!isFiniteNumber(value)) {
+      c.clamped++;
+      return undefined;
+    }
+    const clamped = Math.min(max, Math.max(min, Math.round(value)));
+    if (clamped !== value) c.clamped++;
+    return clamped;
+  };
+  const roundDuration = int('roundDuration', ROUND_DURATION_MIN, ROUND_DURATION_MAX);
+  if (roundDuration !== undefined) out.roundDuration = roundDuration;
+  const maxPlayers = int('maxPlayers', MIN_PLAYERS, MAX_PLAYERS);
+  if (maxPlayers !== undefined) out.maxPlayers = maxPlayers;
+  const respawnDelay = int('respawnDelay', RESPAWN_DELAY_MIN, RESPAWN_DELAY_MAX);
+  if (respawnDelay !== undefined) out.respawnDelay = respawnDelay;
+  const botCount = int('botCount', 0, MAX_PLAYERS);
+  if (botCount !== undefined) out.botCount = botCount;
+  const killCap = int('killCap', 0, KILL_CAP_MAX);
+  if (killCap !== undefined) out.killCap = killCap;
+
+  if (raw.mode !== undefined) {
+    if ((Object.values(GameMode) as unknown[]).includes(raw.mode)) out.mode = raw.mode as GameMode;
+    else c.clamped++;
+  }
+  if (raw.friendlyFire !== undefined) {
+    if (typeof raw.friendlyFire === 'boolean') out.friendlyFire = raw.friendlyFire;
+    else c.clamped++;
+  }
+
+  if (raw.botDifficulty !== undefined) {
+    if ((BOT_DIFFICULTIES as readonly unknown[]).includes(raw.botDifficulty)) {
+      out.botDifficulty = raw.botDifficulty as BotDifficulty;
+    } else {
+      c.clamped++;
+    }
+  }
+  if (raw.mapSeed !== undefined) {
+    if (raw.mapSeed === null || isUint(raw.mapSeed)) out.mapSeed = raw.mapSeed;
+    else c.clamped++;
+  }
+  return out;
+}
+
+function validateSnapshotAck(msg: Record<string, unknown>): ValidationResult {
+  if (!isUint(msg.snapshotId)) return reject('snapshotId must be a u32 integer');
+  const out: SnapshotAckMessage = { type: MessageType.SnapshotAck, snapshotId: msg.snapshotId };
+  return accept(out, 0);
+}
+
+function validatePing(msg: Record<string, unknown>): ValidationResult {
+  if (!isFiniteNumber(msg.clientTime)) return reject('clientTime must be a finite number');
+  const out: PingMessage = { type: MessageType.Ping, clientTime: msg.clientTime };
+  return accept(out, 0);
+}
+
+function validateLeaveRoom(): ValidationResult {
+  const out: LeaveRoomMessage = { type: MessageType.LeaveRoom };
+  return accept(out, 0);
+}
+
+function validateSelectClass(msg: Record<string, unknown>): ValidationResult {
+  if (!isTankClass(msg.tankClass)) return reject('tankClass must be a known tank class');
+  const out: SelectClassMessage = { type: MessageType.SelectClass, tankClass: msg.tankClass };
+  return accept(out, 0);
+}
+
+// ==================== 辅助函数 ====================
+
+function accept(message: ClientMessage, clamped: number): ValidationResult {
+  return { ok: true, message, clamped };
+}
+
+function reject(error: string): ValidationResult {
+  return { ok: false, error };
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+function isUint(v: unknown): v is number {
+  return isFiniteNumber(v) && Number.isInteger(v) && v >= 0 && v <= MAX_U32;
+}
+
+/**
+ * 钳制角度；超出量化容差才计入 clamped
+ */
+function clampAngle(v: number, min: number, max: number, c: { clamped: number }): number {
+  if (v < min - ANGLE_TOLERANCE || v > max + ANGLE_TOLERANCE) c.clamped++;
+  return Math.min(max, Math.max(min, v));
+}
+
+/**
+ * 可选的非负整数字段：缺省 → undefined；非法 → 丢弃并计入 clamped
+ */
+function optionalUint(v: unknown, c: { clamped: number }): number | undefined {
+  if (v === undefined) return undefined;
+  if (isUint(v)) return v;
+  c.clamped++;
+  return undefined;
+}
+
+/**
+ * 可选的短字符串字段：缺省 → undefined；非字符串或过长 → 丢弃并计入 clamped
+ */
+function optionalString(v: unknown, c: { clamped: number }): string | undefined {
+  if (v === undefined) return undefined;
+  if (typeof v === 'string' && v.length <= MAX_TOKEN_LENGTH) return v;
+  c.clamped++;
+  return undefined;
+}
+
+/**
+ * 房间密码：空串视为未设置
+ */
+function optionalPassword(v: unknown, c: { clamped: number }): string | undefined {
+  if (v === undefined || v === '') return undefined;
+  if (typeof v === 'string' && v.length <= MAX_ROOM_PASSWORD_LENGTH) return v;
+  c.clamped++;
+  return undefined;
+}
+
+/**
+ * 规范化邀请码（大小写不敏感、忽略首尾空白）；格式不符返回 null
+ */
+export function normalizeInviteCode(code: string): string | null {
+  const normalized = code.trim().toUpperCase();
+  if (normalized.length !== INVITE_CODE_LENGTH) return null;
+  for (const ch of normalized) {
+    if (!INVITE_CODE_ALPHABET.includes(ch)) return null;
+  }
+  return normalized;
+}
+
+/**
+ * 合并默认值得到完整的房间设置（AI 数量不超过人数上限）
+ */
+export function resolveRoomSettings(partial: Partial<RoomSettings> = {}): RoomSettings {
+  const settings: RoomSettings = { ...DEFAULT_ROOM_SETTINGS, ...partial };
+  settings.botCount = Math.min(settings.botCount, settings.maxPlayers);
+  return settings;
+}
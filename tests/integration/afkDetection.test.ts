@@ -90,7 +90,7 @@ describe('AFK Detection', () => {
       room.tick();
     }
 
-    expect(kicked).toHaveBeenCalledWith(player!.id);
+    expect(kicked).toHaveBeenCalledWith(player!.id, player);
   });
 
   it('should send AFKKick message before kicking', () => {
@@ -172,7 +172,7 @@ describe('AFK Detection', () => {
 
     room.kickPlayer(player!.id, 'test reason');
 
-    expect(kicked).toHaveBeenCalledWith(player!.id);
+    expect(kicked).toHaveBeenCalledWith(player!.id, player);
   });
 });
 
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { Vec3, DIRECT_HIT_DAMAGE, TANK_MAX_HP, RESPAWN_DELAY, TICK_INTERVAL } from '@tankgame/shared';
+import { Vec3, DIRECT_HIT_DAMAGE, RESPAWN_DELAY, TICK_INTERVAL } from '@tankgame/shared';
 import { GameWorld } from '../../packages/server/src/GameWorld.js';
 import { Player } from '../../packages/server/src/Player.js';
 import { MapGenerator } from '../../packages/server/src/MapGenerator.js';
@@ -159,7 +159,7 @@ describe('AI Integration', () => {
       expect(deathDetected).toBe(true);
       expect(respawnDetected).toBe(true);
       expect(bot.alive).toBe(true);
-      expect(bot.hp).toBe(TANK_MAX_HP);
+      expect(bot.hp).toBe(bot.stats.maxHp);
     });
   });
 
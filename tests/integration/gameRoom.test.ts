@@ -1,6 +1,26 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { RoomState, MessageType, MAX_PLAYERS } from '@tankgame/shared';
-import { GameRoom } from '../../packages/server/src/GameRoom.js';
+import {
+  RoomState,
+  MessageType,
+  MAX_PLAYERS,
+  RECONNECT_GRACE_PERIOD,
+  INVITE_CODE_LENGTH,
+  GameMode,
+  Team,
+  TankClass,
+  TANK_CLASS_STATS,
+  TANK_MAX_HP,
+  ROUND_END_DELAY,
+  DOMINATION_SCORE_TARGET,
+  WavePhase,
+  COOP_MAX_BOTS,
+  COOP_FIRST_WAVE_BOTS,
+  COOP_FIRST_WAVE_DELAY,
+  COOP_REPAIR_TIME,
+  normalizeInviteCode,
+  resolveRoomSettings,
+} from '@tankgame/shared';
+import { GameRoom, generateInviteCode } from '../../packages/server/src/GameRoom.js';
 import type { RoomClient } from '../../packages/server/src/GameRoom.js';
 
 function createMockClient(): RoomClient & { send: ReturnType<typeof vi.fn> } {
@@ -145,6 +165,21 @@ describe('GameRoom Integration', () => {
     });
   });
 
+  describe('tank classes', () => {
+    it('should join with the requested class', () => {
+      const p = room.addPlayer(createMockClient(), 'Alice', TankClass.Heavy)!;
+      expect(p.tankClass).toBe(TankClass.Heavy);
+      expect(p.hp).toBe(TANK_CLASS_STATS[TankClass.Heavy].maxHp);
+    });
+
+    it('should defer a class change until respawn', () => {
+      const p = room.addPlayer(createMockClient(), 'Alice')!;
+      room.selectTankClass(p.id, TankClass.Light);
+      expect(p.tankClass).toBe(TankClass.Medium);
+      expect(p.pendingClass).toBe(TankClass.Light);
+    });
+  });
+
   describe('empty room detection', () => {
     it('should be empty when no players', () => {
       expect(room.isEmpty()).toBe(true);
@@ -177,4 +212,482 @@ describe('GameRoom Integration', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('room info', () => {
+    it('should describe the room for the room browser', () => {
+      const c1 = createMockClient();
+      room.addPlayer(c1, 'Alice');
+
+      const info = room.getInfo();
+      expect(info.roomId).toBe('test-room');
+      expect(info.state).toBe(room.state);
+      expect(info.humans).toBe(1);
+      expect(info.bots).toBe(room.getAICount());
+      expect(info.maxPlayers).toBe(MAX_PLAYERS);
+      expect(info.mapSeed).toBe(room.world.map.seed);
+      expect(info.timeRemaining).toBe(room.getTimeRemaining());
+    });
+
+    it('should count held players as humans', () => {
+      const c1 = createMockClient();
+      const c2 = createMockClient();
+      const p1 = room.addPlayer(c1, 'Alice');
+      room.addPlayer(c2, 'Bob');
+
+      room.disconnectPlayer(p1!.id);
+      expect(room.getInfo().humans).toBe(2);
+    });
+  });
+
+  describe('private rooms', () => {
+    it('should default to a public room without password', () => {
+      expect(room.isPrivate).toBe(false);
+      expect(room.hasPassword()).toBe(false);
+      expect(room.checkPassword(undefined)).toBe(true);
+      expect(normalizeInviteCode(room.inviteCode)).toBe(room.inviteCode);
+    });
+
+    it('should keep the assigned invite code and privacy flag', () => {
+      const priv = new GameRoom('private-room', 7, { isPrivate: true, inviteCode: 'ABC234' });
+      expect(priv.isPrivate).toBe(true);
+      expect(priv.inviteCode).toBe('ABC234');
+      priv.destroy();
+    });
+
+    it('should check the room password', () => {
+      const locked = new GameRoom('locked-room', 7, { password: 'secret' });
+      expect(locked.hasPassword()).toBe(true);
+      expect(locked.checkPassword('secret')).toBe(true);
+      expect(locked.checkPassword('wrong')).toBe(false);
+      expect(locked.checkPassword(undefined)).toBe(false);
+      expect(locked.getInfo().locked).toBe(true);
+      locked.destroy();
+    });
+
+    it('should treat an empty password as none', () => {
+      const open = new GameRoom('open-room', 7, { password: '' });
+      expect(open.hasPassword()).toBe(false);
+      open.destroy();
+    });
+  });
+
+  describe('room settings', () => {
+    function createRoom(settings: Parameters<typeof resolveRoomSettings>[0]): GameRoom {
+      return new GameRoom('custom-room', 7, { settings: resolveRoomSettings(settings) });
+    }
+
+    it('should run a 1v1 without bots', () => {
+      const duel = createRoom({ maxPlayers: 2, botCount: 0 });
+      expect(duel.getAICount()).toBe(0);
+
+      duel.addPlayer(createMockClient(), 'Alice');
+      expect(duel.state).toBe(RoomState.Warmup);
+      duel.addPlayer(createMockClient(), 'Bob');
+      expect(duel.state).toBe(RoomState.InRound);
+      expect(duel.isFull()).toBe(true);
+      expect(duel.addPlayer(createMockClient(), 'Carol')).toBeNull();
+      duel.destroy();
+    });
+
+    it('should use the configured round length', () => {
+      const short = createRoom({ roundDuration: 120, maxPlayers: 2, botCount: 0 });
+      short.addPlayer(createMockClient(), 'Alice');
+      short.addPlayer(createMockClient(), 'Bob');
+      expect(short.getTimeRemaining()).toBe(120000);
+
+      // 回合按 tick 计时，伪计时器下的 tick 间隔与真实值略有出入，只检查大致时长
+      let elapsed = 0;
+      while (short.state === RoomState.InRound && elapsed < 130000) {
+        vi.advanceTimersByTime(1000);
+        elapsed += 1000;
+      }
+      expect(short.state).toBe(RoomState.RoundEnd);
+      expect(elapsed).toBeGreaterThan(110000);
+      short.destroy();
+    });
+
+    it('should add bots with the configured count and difficulty', () => {
+      const hard = createRoom({ botCount: 10, botDifficulty: 'hard' });
+      expect(hard.getAICount()).toBe(10);
+      const bots = [...(hard as any).aiBots.values()];
+      expect(bots.every((ai: any) => ai.difficulty.name === 'Hard')).toBe(true);
+      hard.destroy();
+    });
+
+    it('should keep bots within the player limit', () => {
+      const small = createRoom({ maxPlayers: 4, botCount: 3 });
+      small.addPlayer(createMockClient(), 'Alice');
+      small.addPlayer(createMockClient(), 'Bob');
+      expect(small.getAICount()).toBe(2);
+
+      small.removePlayer(1);
+      expect(small.getAICount()).toBe(3);
+      small.destroy();
+    });
+
+    it('should keep a fixed map seed across rounds', () => {
+      const fixed = new GameRoom('fixed-room', undefined, {
+        settings: resolveRoomSettings({ mapSeed: 1234, maxPlayers: 2, botCount: 0 }),
+      });
+      expect(fixed.world.map.seed).toBe(1234);
+      fixed.addPlayer(createMockClient(), 'Alice');
+      fixed.addPlayer(createMockClient(), 'Bob');
+      fixed.endRound();
+      vi.advanceTimersByTime(3500);
+      expect(fixed.world.map.seed).toBe(1234);
+      fixed.destroy();
+    });
+  });
+
+  describe('team deathmatch', () => {
+    function createTeamRoom(settings: Parameters<typeof resolveRoomSettings>[0] = {}): GameRoom {
+      return new GameRoom('tdm-room', 7, {
+        settings: resolveRoomSettings({ mode: GameMode.TeamDeathmatch, ...settings }),
+      });
+    }
+
+    function teamSizes(r: GameRoom): number[] {
+      const sizes = r.getTeamSizes();
+      return [sizes.get(Team.Red), sizes.get(Team.Blue)] as number[];
+    }
+
+    it('should split bots evenly between teams', () => {
+      const tdm = createTeamRoom();
+      expect(teamSizes(tdm)).toEqual([5, 5]);
+      tdm.destroy();
+    });
+
+    it('should keep teams balanced as humans replace bots', () => {
+      const tdm = createTeamRoom();
+      const teams: Team[] = [];
+      for (let i = 0; i < 4; i++) {
+        teams.push(tdm.addPlayer(createMockClient(), `P${i}`)!.team);
+        expect(teamSizes(tdm)).toEqual([5, 5]);
+      }
+      expect(teams.filter((t) => t === Team.Red)).toHaveLength(2);
+      tdm.destroy();
+    });
+
+    it('should auto-balance humans without bots', () => {
+      const tdm = createTeamRoom({ botCount: 0 });
+      const a = tdm.addPlayer(createMockClient(), 'Alice')!;
+      const b = tdm.addPlayer(createMockClient(), 'Bob')!;
+      const c = tdm.addPlayer(createMockClient(), 'Carol')!;
+      expect(a.team).not.toBe(b.team);
+      tdm.removePlayer(a.id);
+      expect(tdm.addPlayer(createMockClient(), 'Dave')!.team).toBe(a.team);
+      expect(c.team).not.toBe(Team.None);
+      tdm.destroy();
+    });
+
+    it('should end the round when a team reaches the kill cap', () => {
+      const tdm = createTeamRoom({ killCap: 2, botCount: 0 });
+      const clients = [createMockClient(), createMockClient()];
+      tdm.addPlayer(clients[0], 'Alice');
+      tdm.addPlayer(clients[1], 'Bob');
+      expect(tdm.state).toBe(RoomState.InRound);
+
+      (tdm.world as any).teamScores.set(Team.Blue, 2);
+      vi.advanceTimersByTime(50);
+      expect(tdm.state).toBe(RoomState.RoundEnd);
+
+      const roundEnd = clients[0].send.mock.calls
+        .map(([data]) => JSON.parse(data as string))
+        .find((m) => m.type === MessageType.RoundEnd);
+      expect(roundEnd.winnerTeam).toBe(Team.Blue);
+      expect(roundEnd.teamScores).toEqual([0, 2]);
+      tdm.destroy();
+    });
+
+    it('should run a bot-filled capture-the-flag room', () => {
+      const ctf = createTeamRoom({ mode: GameMode.CaptureTheFlag });
+      ctf.addPlayer(createMockClient(), 'Alice');
+      expect(teamSizes(ctf)).toEqual([5, 5]);
+      expect(ctf.world.flags).toHaveLength(2);
+      vi.advanceTimersByTime(5000);
+      expect(ctf.state).toBe(RoomState.InRound);
+      expect(ctf.getInfo().mode).toBe(GameMode.CaptureTheFlag);
+      ctf.destroy();
+    });
+
+    it('should end a domination round at the default score target', () => {
+      const dom = createTeamRoom({ mode: GameMode.Domination, botCount: 0 });
+      expect(dom.getScoreTarget()).toBe(DOMINATION_SCORE_TARGET);
+      for (const [settings, target] of [[{ mode: GameMode.Domination, killCap: 50 }, 50], [{}, 0]] as const) {
+        const other = createTeamRoom(settings);
+        expect(other.getScoreTarget()).toBe(target);
+        other.destroy();
+      }
+
+      dom.addPlayer(createMockClient(), 'Alice');
+      dom.addPlayer(createMockClient(), 'Bob');
+      expect(dom.world.controlPoints.length).toBeGreaterThan(0);
+      (dom.world as any).teamScores.set(Team.Red, DOMINATION_SCORE_TARGET);
+      vi.advanceTimersByTime(50);
+      expect(dom.state).toBe(RoomState.RoundEnd);
+      dom.destroy();
+    });
+
+    it('should end a free-for-all round when a player reaches the kill cap', () => {
+      const ffa = new GameRoom('ffa-room', 7, {
+        settings: resolveRoomSettings({ killCap: 3, maxPlayers: 2, botCount: 0 }),
+      });
+      const alice = ffa.addPlayer(createMockClient(), 'Alice')!;
+      ffa.addPlayer(createMockClient(), 'Bob');
+      alice.kills = 3;
+      vi.advanceTimersByTime(50);
+      expect(ffa.state).toBe(RoomState.RoundEnd);
+      ffa.destroy();
+    });
+  });
+
+  describe('battle royale', () => {
+    it('should end the round with the last tank standing as winner', () => {
+      const br = new GameRoom('br-room', 7, {
+        settings: resolveRoomSettings({ mode: GameMode.BattleRoyale, botCount: 0 }),
+      });
+      const client = createMockClient();
+      const alice = br.addPlayer(client, 'Alice')!;
+      const bob = br.addPlayer(createMockClient(), 'Bob')!;
+      expect(br.state).toBe(RoomState.InRound);
+      expect(br.world.safeZone).not.toBeNull();
+
+      bob.takeDamage(TANK_MAX_HP);
+      vi.advanceTimersByTime(50);
+      expect(br.state).toBe(RoomState.RoundEnd);
+
+      const roundEnd = client.send.mock.calls
+        .map(([data]) => JSON.parse(data as string))
+        .find((m) => m.type === MessageType.RoundEnd);
+      expect(roundEnd.winnerId).toBe(alice.id);
+      br.destroy();
+    });
+
+    it('should restart the zone with every round', () => {
+      const br = new GameRoom('br-room', 7, {
+        settings: resolveRoomSettings({ mode: GameMode.BattleRoyale, botCount: 0 }),
+      });
+      br.addPlayer(createMockClient(), 'Alice');
+      const bob = br.addPlayer(createMockClient(), 'Bob')!;
+      bob.takeDamage(TANK_MAX_HP);
+      vi.advanceTimersByTime(50 + ROUND_END_DELAY);
+      expect(br.state).toBe(RoomState.InRound);
+      expect(br.world.safeZone).not.toBeNull();
+      expect(bob.alive).toBe(true);
+      br.destroy();
+    });
+  });
+
+  describe('coop', () => {
+    let coop: GameRoom;
+
+    beforeEach(() => {
+      coop = new GameRoom('coop-room', 7, {
+        settings: resolveRoomSettings({ mode: GameMode.Coop, maxPlayers: 4 }),
+      });
+    });
+
+    afterEach(() => {
+      coop.destroy();
+    });
+
+    function bots() {
+      return [...coop.world.players.values()].filter((p) => p.isBot);
+    }
+
+    it('should start with a single human and no filler bots', () => {
+      const alice = coop.addPlayer(createMockClient(), 'Alice')!;
+      expect(coop.state).toBe(RoomState.InRound);
+      expect(coop.getAICount()).toBe(0);
+      expect(alice.team).toBe(Team.Blue);
+      expect(coop.getInfo().timeRemaining).toBe(0);
+    });
+
+    it('should spawn the first wave after the initial delay', () => {
+      coop.addPlayer(createMockClient(), 'Alice');
+      vi.advanceTimersByTime(COOP_FIRST_WAVE_DELAY + 50);
+      expect(coop.world.waves!.wave).toBe(1);
+      expect(coop.getAICount()).toBe(COOP_FIRST_WAVE_BOTS);
+      expect(bots().every((p) => p.team === Team.Red)).toBe(true);
+    });
+
+    it('should repair between waves and send a bigger next wave', () => {
+      coop.addPlayer(createMockClient(), 'Alice');
+      vi.advanceTimersByTime(COOP_FIRST_WAVE_DELAY + 50);
+      for (const bot of bots()) bot.takeDamage(bot.stats.maxHp);
+
+      vi.advanceTimersByTime(50);
+      expect(coop.world.waves!.phase).toBe(WavePhase.Repair);
+      expect(coop.getAICount()).toBe(0);
+
+      vi.advanceTimersByTime(COOP_REPAIR_TIME);
+      expect(coop.world.waves!.wave).toBe(2);
+      expect(coop.getAICount()).toBeGreaterThan(COOP_FIRST_WAVE_BOTS);
+    });
+
+    it('should cap bots separately from the player limit', () => {
+      coop.addPlayer(createMockClient(), 'Alice');
+      coop.addAIBots(COOP_MAX_BOTS + 5);
+      expect(coop.getAICount()).toBe(COOP_MAX_BOTS);
+      expect(coop.addPlayer(createMockClient(), 'Bob')).not.toBeNull();
+      expect(coop.getAICount()).toBe(COOP_MAX_BOTS);
+    });
+
+    it('should end the run when the team is wiped out without lives', () => {
+      const onCoopRunEnded = vi.fn();
+      coop.onCoopRunEnded = onCoopRunEnded;
+      const alice = coop.addPlayer(createMockClient(), 'Alice')!;
+      vi.advanceTimersByTime(COOP_FIRST_WAVE_DELAY + 50);
+
+      coop.world.waves!.lives = 0;
+      alice.takeDamage(TANK_MAX_HP);
+      vi.advanceTimersByTime(50);
+      expect(coop.state).toBe(RoomState.RoundEnd);
+      expect(onCoopRunEnded).toHaveBeenCalledWith(1, [alice.id]);
+
+      vi.advanceTimersByTime(ROUND_END_DELAY);
+      expect(coop.state).toBe(RoomState.InRound);
+      expect(coop.world.waves!.wave).toBe(0);
+      expect(coop.getAICount()).toBe(0);
+    });
+
+    it('should keep the run going while a dropped player is held', () => {
+      const onCoopRunEnded = vi.fn();
+      coop.onCoopRunEnded = onCoopRunEnded;
+      const alice = coop.addPlayer(createMockClient(), 'Alice')!;
+      const bob = coop.addPlayer(createMockClient(), 'Bob')!;
+      vi.advanceTimersByTime(COOP_FIRST_WAVE_DELAY + 50);
+
+      coop.disconnectPlayer(alice.id);
+      vi.advanceTimersByTime(50);
+      expect(coop.state).toBe(RoomState.InRound);
+
+      // 在线玩家全灭时结算，保留中的玩家同样记录波次
+      coop.world.waves!.lives = 0;
+      bob.takeDamage(TANK_MAX_HP);
+      vi.advanceTimersByTime(50);
+      expect(coop.state).toBe(RoomState.InRound);
+
+      coop.reconnectPlayer(alice.id, createMockClient());
+      alice.takeDamage(TANK_MAX_HP);
+      vi.advanceTimersByTime(50);
+      expect(coop.state).toBe(RoomState.RoundEnd);
+      expect(onCoopRunEnded).toHaveBeenCalledWith(1, [bob.id, alice.id]);
+    });
+
+    it('should reset the run when the last player leaves mid-wave', () => {
+      const onCoopRunEnded = vi.fn();
+      coop.onCoopRunEnded = onCoopRunEnded;
+      const alice = coop.addPlayer(createMockClient(), 'Alice')!;
+      vi.advanceTimersByTime(COOP_FIRST_WAVE_DELAY + 50);
+      expect(coop.getAICount()).toBe(COOP_FIRST_WAVE_BOTS);
+
+      coop.removePlayer(alice.id);
+      expect(coop.state).toBe(RoomState.Warmup);
+      expect(coop.getAICount()).toBe(0);
+      expect(bots()).toHaveLength(0);
+      expect(coop.world.waves).toBeNull();
+      expect(onCoopRunEnded).toHaveBeenCalledWith(1, [alice.id]);
+
+      // 新加入的玩家从头开始，没有上一局残留的 AI
+      coop.addPlayer(createMockClient(), 'Bob');
+      expect(coop.state).toBe(RoomState.InRound);
+      expect(coop.world.waves!.wave).toBe(0);
+      expect(coop.getAICount()).toBe(0);
+    });
+
+    it('should not end the run when the only player drops', () => {
+      const onCoopRunEnded = vi.fn();
+      coop.onCoopRunEnded = onCoopRunEnded;
+      const alice = coop.addPlayer(createMockClient(), 'Alice')!;
+      coop.disconnectPlayer(alice.id);
+      vi.advanceTimersByTime(50);
+      expect(coop.state).toBe(RoomState.InRound);
+      expect(onCoopRunEnded).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invite codes', () => {
+    it('should generate codes from the invite alphabet', () => {
+      for (let i = 0; i < 20; i++) {
+        const code = generateInviteCode();
+        expect(code).toHaveLength(INVITE_CODE_LENGTH);
+        expect(normalizeInviteCode(code)).toBe(code);
+      }
+    });
+  });
+
+  describe('disconnect and resume', () => {
+    it('should keep the tank and stats while the player is held', () => {
+      const c1 = createMockClient();
+      const p1 = room.addPlayer(c1, 'Alice')!;
+      p1.kills = 3;
+
+      room.disconnectPlayer(p1.id);
+      expect(room.isHeld(p1.id)).toBe(true);
+      expect(room.clients.has(p1.id)).toBe(false);
+      expect(room.world.players.get(p1.id)).toBe(p1);
+      expect(room.isEmpty()).toBe(false);
+    });
+
+    it('should resume the same player on a new connection', () => {
+      const c1 = createMockClient();
+      const p1 = room.addPlayer(c1, 'Alice')!;
+      p1.kills = 3;
+      room.disconnectPlayer(p1.id);
+
+      const c2 = createMockClient();
+      const resumed = room.reconnectPlayer(p1.id, c2);
+      expect(resumed).toBe(p1);
+      expect(resumed!.kills).toBe(3);
+      expect(c2.playerId).toBe(p1.id);
+      expect(room.clients.get(p1.id)).toBe(c2);
+      expect(room.isHeld(p1.id)).toBe(false);
+
+      // 新连接从关键帧开始接收快照
+      vi.advanceTimersByTime(100);
+      const snapshots = c2.send.mock.calls
+        .map(([data]) => JSON.parse(data as string))
+        .filter((m) => m.type === MessageType.Snapshot);
+      expect(snapshots.length).toBeGreaterThan(0);
+      expect(snapshots[0].baselineId).toBe(0);
+    });
+
+    it('should not resume a player that is still connected', () => {
+      const c1 = createMockClient();
+      const p1 = room.addPlayer(c1, 'Alice')!;
+      expect(room.reconnectPlayer(p1.id, createMockClient())).toBeNull();
+    });
+
+    it('should remove the player after the grace period', () => {
+      const c1 = createMockClient();
+      const c2 = createMockClient();
+      const p1 = room.addPlayer(c1, 'Alice')!;
+      room.addPlayer(c2, 'Bob');
+      const expired = vi.fn();
+      room.onPlayerExpired = expired;
+
+      room.disconnectPlayer(p1.id);
+      vi.advanceTimersByTime(RECONNECT_GRACE_PERIOD - 1000);
+      expect(room.world.players.has(p1.id)).toBe(true);
+
+      vi.advanceTimersByTime(2000);
+      expect(expired).toHaveBeenCalledWith(p1.id, p1);
+      expect(room.world.players.has(p1.id)).toBe(false);
+      expect(room.reconnectPlayer(p1.id, createMockClient())).toBeNull();
+
+      const left = c2.send.mock.calls
+        .map(([data]) => JSON.parse(data as string))
+        .filter((m) => m.type === MessageType.PlayerLeft);
+      expect(left.some((m) => m.playerId === p1.id)).toBe(true);
+    });
+
+    it('should reserve the seat of a held player', () => {
+      for (let i = 0; i < MAX_PLAYERS; i++) {
+        room.addPlayer(createMockClient(), `Player${i}`);
+      }
+      room.disconnectPlayer(1);
+      expect(room.isFull()).toBe(true);
+    });
+  });
 });
@@ -1,5 +1,34 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { Vec3, TANK_MAX_HP } from '@tankgame/shared';
+import {
+  Vec3,
+  TANK_MAX_HP,
+  AOI_NEAR_DISTANCE,
+  AOI_FAR_DISTANCE,
+  AOI_FAR_UPDATE_INTERVAL,
+  AOI_PROJECTILE_DISTANCE,
+  GameMode,
+  GameEventType,
+  FlagState,
+  FLAG_RETURN_TIME,
+  CONTROL_POINT_CAPTURE_TIME,
+  CONTROL_POINT_SCORE_INTERVAL,
+  ZONE_DAMAGE_PER_SECOND,
+  DeathReason,
+  WavePhase,
+  COOP_SHARED_LIVES,
+  COOP_FIRST_WAVE_DELAY,
+  TICK_INTERVAL,
+  Team,
+  TankClass,
+  TANK_CLASS_STATS,
+  ArmorFacing,
+  AmmoType,
+  AMMO_STATS,
+  SPLASH_RADIUS,
+  SMOKE_CLOUD_DURATION,
+  resolveRoomSettings,
+} from '@tankgame/shared';
+import type { GameEvent, HitEvent, RicochetEvent, FireEvent, ExplodeEvent } from '@tankgame/shared';
 import { GameWorld } from '../../packages/server/src/GameWorld.js';
 import { Player } from '../../packages/server/src/Player.js';
 
@@ -210,6 +239,139 @@ describe('GameWorld Integration', () => {
       expect(hitDetected).toBe(true);
     });
 
+    it('should deal the shooter class damage', () => {
+      const shooter = new Player(1, 'Shooter');
+      const target = new Player(2, 'Target');
+      shooter.setTankClass(TankClass.Destroyer);
+      world.addPlayer(shooter);
+      world.addPlayer(target);
+      shooter.position.set(0, 0, 0);
+      shooter.bodyYaw = 0;
+      target.position.set(0, 0, -20);
+      target.bodyYaw = Math.PI; // 正面迎弹，伤害不加成
+
+      shooter.pushInput({
+        type: 0x02 as any, seq: 1,
+        forward: false, backward: false, turnLeft: false, turnRight: false,
+        turretYaw: 0, gunPitch: 0, fire: true, stabilize: false,
+        timestamp: Date.now(),
+      });
+
+      let damage = 0;
+      for (let i = 0; i < 60 && damage === 0; i++) {
+        for (const e of world.update()) {
+          if (e.eventType === 'hit') damage = (e as any).damage;
+        }
+      }
+
+      expect(damage).toBeCloseTo(TANK_CLASS_STATS[TankClass.Destroyer].damage, 3);
+      expect(target.hp).toBeCloseTo(TANK_MAX_HP - damage, 3);
+    });
+
+    describe('armor', () => {
+      function duel(targetYaw: number, targetX: number = 0): GameEvent[] {
+        const shooter = new Player(1, 'Shooter');
+        const target = new Player(2, 'Target');
+        world.addPlayer(shooter);
+        world.addPlayer(target);
+        shooter.position.set(0, 0, 0);
+        shooter.bodyYaw = 0;
+        target.position.set(targetX, 0, -20);
+        target.bodyYaw = targetYaw;
+        shooter.pushInput({
+          type: 0x02 as any, seq: 1,
+          forward: false, backward: false, turnLeft: false, turnRight: false,
+          turretYaw: 0, gunPitch: 0, fire: true, stabilize: false,
+          timestamp: Date.now(),
+        });
+        const events: GameEvent[] = [];
+        for (let i = 0; i < 60; i++) events.push(...world.update());
+        return events;
+      }
+
+      it('should deal more damage to the rear than the front', () => {
+        const front = duel(Math.PI).find((e) => e.eventType === GameEventType.Hit) as HitEvent;
+        world = new GameWorld(42);
+        const rear = duel(0).find((e) => e.eventType === GameEventType.Hit) as HitEvent;
+
+        expect(front.facing).toBe(ArmorFacing.Front);
+        expect(rear.facing).toBe(ArmorFacing.Rear);
+        expect(rear.damage).toBeGreaterThan(front.damage);
+      });
+
+      it('should ricochet a grazing shot without damage or explosion', () => {
+        // 目标车体与弹道平行，炮弹贴着右侧擦过（炮口高于车体，碰撞截面半径约 2.2m）
+        const events = duel(0, -1.9);
+        const ricochet = events.find((e) => e.eventType === GameEventType.Ricochet) as RicochetEvent;
+
+        expect(ricochet).toBeDefined();
+        expect(ricochet.facing).toBe(ArmorFacing.Side);
+        expect(events.some((e) => e.eventType === GameEventType.Hit)).toBe(false);
+        expect(events.some((e) => e.eventType === GameEventType.Explode)).toBe(false);
+        expect(world.players.get(2)!.hp).toBe(TANK_MAX_HP);
+        expect(world.players.get(1)!.hits).toBe(0);
+      });
+    });
+
+    describe('ammo types', () => {
+      function fireAmmo(ammoType: AmmoType): GameEvent[] {
+        const shooter = new Player(1, 'Shooter');
+        const target = new Player(2, 'Target');
+        world.addPlayer(shooter);
+        world.addPlayer(target);
+        shooter.position.set(0, 0, 0);
+        shooter.bodyYaw = 0;
+        target.position.set(0, 0, -20);
+        target.bodyYaw = Math.PI; // 正面迎弹
+        shooter.pushInput({
+          type: 0x02 as any, seq: 1,
+          forward: false, backward: false, turnLeft: false, turnRight: false,
+          turretYaw: 0, gunPitch: 0, fire: true, stabilize: false,
+          ammoType,
+          timestamp: Date.now(),
+        });
+        const events: GameEvent[] = [];
+        for (let i = 0; i < 60; i++) events.push(...world.update());
+        return events;
+      }
+
+      it('should fire HE with reduced direct damage and a wider blast', () => {
+        const events = fireAmmo(AmmoType.HE);
+        const fire = events.find((e) => e.eventType === GameEventType.Fire) as FireEvent;
+        const hit = events.find((e) => e.eventType === GameEventType.Hit) as HitEvent;
+        const explode = events.find((e) => e.eventType === GameEventType.Explode) as ExplodeEvent;
+
+        expect(fire.ammoType).toBe(AmmoType.HE);
+        expect(hit.damage).toBeCloseTo(TANK_CLASS_STATS[TankClass.Medium].damage * AMMO_STATS[AmmoType.HE].damageFactor, 3);
+        expect(explode.radius).toBeGreaterThan(SPLASH_RADIUS);
+        expect(world.players.get(1)!.reloadRemain).toBeGreaterThan(
+          TANK_CLASS_STATS[TankClass.Medium].reloadTime - 60 * TICK_INTERVAL
+        );
+      });
+
+      it('should deploy a harmless smoke cloud that clears over time', () => {
+        const events = fireAmmo(AmmoType.Smoke);
+        expect(events.some((e) => e.eventType === GameEventType.Hit)).toBe(false);
+        expect(world.players.get(2)!.hp).toBe(TANK_MAX_HP);
+
+        const clouds = world.getSmokeSnapshots();
+        expect(clouds).toHaveLength(1);
+        expect(clouds[0].position.distanceTo(new Vec3(0, 0, -20))).toBeLessThan(4);
+        expect(world.getSnapshot(1).smoke).toHaveLength(1);
+
+        const ticks = Math.ceil(SMOKE_CLOUD_DURATION / TICK_INTERVAL);
+        for (let i = 0; i < ticks; i++) world.update();
+        expect(world.getSmokeSnapshots()).toHaveLength(0);
+      });
+
+      it('should clear smoke clouds on reset', () => {
+        fireAmmo(AmmoType.Smoke);
+        expect(world.getSmokeSnapshots()).toHaveLength(1);
+        world.reset(999);
+        expect(world.getSmokeSnapshots()).toHaveLength(0);
+      });
+    });
+
     it('should generate death event when HP reaches 0', () => {
       const shooter = new Player(1, 'Shooter');
       const target = new Player(2, 'Target');
@@ -277,10 +439,134 @@ describe('GameWorld Integration', () => {
       expect(target.alive).toBe(true);
       expect(target.hp).toBe(TANK_MAX_HP);
     });
+
+    it('should use the room respawn delay', () => {
+      const w = new GameWorld(42, undefined, resolveRoomSettings({ respawnDelay: 1000 }));
+      const shooter = new Player(1, 'Shooter');
+      const target = new Player(2, 'Target');
+      w.addPlayer(shooter);
+      w.addPlayer(target);
+
+      target.hp = 1;
+      shooter.position.set(0, 0, 0);
+      shooter.bodyYaw = 0;
+      target.position.set(0, 0, -10);
+      shooter.pushInput({
+        type: 0x02 as any, seq: 1,
+        forward: false, backward: false, turnLeft: false, turnRight: false,
+        turretYaw: 0, gunPitch: 0, fire: true, stabilize: false,
+        timestamp: Date.now(),
+      });
+
+      // 默认 4s 复活需 ~240 ticks；1s 设置应在 2s 内复活
+      let died = false;
+      for (let i = 0; i < 120; i++) {
+        w.update();
+        if (!target.alive) died = true;
+      }
+      expect(died).toBe(true);
+      expect(target.alive).toBe(true);
+    });
+  });
+
+  describe('lag compensation', () => {
+    function setupDuel(w: GameWorld): { shooter: Player; target: Player } {
+      const shooter = new Player(1, 'Shooter');
+      const target = new Player(2, 'Target');
+      w.addPlayer(shooter);
+      w.addPlayer(target);
+      shooter.position.set(0, 0, 0);
+      shooter.bodyYaw = 0;
+      target.position.set(0, 0, -10);
+      return { shooter, target };
+    }
+
+    function fire(shooter: Player, viewTick?: number): void {
+      shooter.pushInput({
+        type: 0x02 as any, seq: 1,
+        forward: false, backward: false, turnLeft: false, turnRight: false,
+        turretYaw: 0, gunPitch: 0, fire: true, stabilize: false,
+        timestamp: Date.now(),
+        viewTick,
+      });
+    }
+
+    function runUntilHit(w: GameWorld, ticks: number): any {
+      for (let i = 0; i < ticks; i++) {
+        for (const e of w.update()) {
+          if (e.eventType === 'hit') return e;
+        }
+      }
+      return null;
+    }
+
+    it('should hit the target where the shooter saw it', () => {
+      const { shooter, target } = setupDuel(world);
+      for (let i = 0; i < 30; i++) world.update();
+      const viewTick = world.currentTick - 10;
+
+      // 目标已经离开射线，但射手画面中它仍在原地
+      target.position.set(30, 0, -10);
+      fire(shooter, viewTick);
+
+      const hit = runUntilHit(world, 30);
+      expect(hit).not.toBeNull();
+      expect(hit.targetId).toBe(2);
+      expect(hit.rewindTicks).toBe(11);
+      expect(hit.targetPos.x).toBeCloseTo(0, 3);
+      expect(hit.targetPos.z).toBeCloseTo(-10, 3);
+    });
+
+    it('should judge armor by the hull yaw the shooter saw', () => {
+      const { shooter, target } = setupDuel(world);
+      target.bodyYaw = Math.PI;
+      for (let i = 0; i < 30; i++) world.update();
+      const viewTick = world.currentTick - 10;
+
+      // 目标已掉头把车尾对着射手，但射手画面中仍是正面
+      target.bodyYaw = 0;
+      fire(shooter, viewTick);
+      const hit = runUntilHit(world, 30);
+      expect(hit).not.toBeNull();
+      expect(hit.facing).toBe(ArmorFacing.Front);
+    });
+
+    it('should test current positions without viewTick', () => {
+      const { shooter, target } = setupDuel(world);
+      for (let i = 0; i < 30; i++) world.update();
+
+      target.position.set(30, 0, -10);
+      fire(shooter);
+
+      expect(runUntilHit(world, 30)).toBeNull();
+    });
+
+    it('should clamp rewind to the configured maximum', () => {
+      const { shooter } = setupDuel(world);
+      for (let i = 0; i < 60; i++) world.update();
+
+      fire(shooter, 1);
+      const hit = runUntilHit(world, 30);
+      expect(hit).not.toBeNull();
+      expect(hit.rewindTicks).toBe(world.maxRewindTicks);
+    });
+
+    it('should allow disabling lag compensation', () => {
+      const w = new GameWorld(42, 0);
+      expect(w.maxRewindTicks).toBe(0);
+      const { shooter, target } = setupDuel(w);
+      for (let i = 0; i < 30; i++) w.update();
+
+      target.position.set(30, 0, -10);
+      fire(shooter, w.currentTick - 10);
+      expect(runUntilHit(w, 30)).toBeNull();
+    });
   });
 
   describe('snapshot generation', () => {
-    it('should generate snapshot with all players', () => {
+    it('should generate snapshot with all visible players', () => {
+      world.map.covers = [];
+      world.map.heightmap.fill(0);
       world.addPlayer(new Player(1, 'Alice'));
       world.addPlayer(new Player(2, 'Bob'));
       world.update();
@@ -333,6 +619,555 @@ describe('GameWorld Integration', () => {
     });
   });
 
+  describe('area of interest', () => {
+    beforeEach(() => {
+      world.map.covers = [];
+      world.map.heightmap.fill(0);
+    });
+
+    function place(id: number, x: number, z: number): Player {
+      const p = new Player(id, `P${id}`);
+      world.addPlayer(p);
+      p.position.set(x, 0, z);
+      return p;
+    }
+
+    it('should always send nearby tanks with fresh state', () => {
+      place(1, 0, 0);
+      const near = place(2, AOI_NEAR_DISTANCE - 10, 0);
+      for (let i = 0; i < AOI_FAR_UPDATE_INTERVAL; i++) {
+        near.hp = 90 - i;
+        world.snapshotId++;
+        const tank = world.getSnapshot(1).tanks.find((t) => t.entityId === 2);
+        expect(tank!.hp).toBe(90 - i);
+      }
+    });
+
+    it('should update mid-range tanks less often', () => {
+      place(1, -150, 0);
+      const mid = place(2, -150 + AOI_NEAR_DISTANCE + 50, 0);
+      world.getSnapshot(1);
+      let updates = 0;
+      let lastX = mid.position.x;
+      for (let i = 0; i < AOI_FAR_UPDATE_INTERVAL * 3; i++) {
+        mid.position.x += 1;
+        world.snapshotId++;
+        const tank = world.getSnapshot(1).tanks.find((t) => t.entityId === 2);
+        expect(tank).toBeDefined();
+        if (tank!.position.x !== lastX) updates++;
+        lastX = tank!.position.x;
+      }
+      expect(updates).toBe(3);
+    });
+
+    it('should refresh mid-range tanks immediately when they die', () => {
+      place(1, -150, 0);
+      const mid = place(2, -150 + AOI_NEAR_DISTANCE + 50, 0);
+      world.snapshotId++;
+      world.getSnapshot(1);
+      mid.takeDamage(TANK_MAX_HP);
+      world.snapshotId++;
+      const tank = world.getSnapshot(1).tanks.find((t) => t.entityId === 2);
+      expect(tank!.alive).toBe(false);
+    });
+
+    it('should drop tanks beyond the far distance', () => {
+      place(1, -195, -195);
+      place(2, 195, 195);
+      const snapshot = world.getSnapshot(1);
+      expect(AOI_FAR_DISTANCE).toBeLessThan(390 * Math.SQRT2);
+      expect(snapshot.tanks.map((t) => t.entityId)).toEqual([1]);
+      // 总人数不受过滤影响
+      expect(snapshot.playerCount).toBe(2);
+    });
+
+    it('should omit distant projectiles except own', () => {
+      const me = place(1, -195, 0);
+      const other = place(2, 195, 0);
+      for (const p of [me, other]) {
+        p.pushInput({
+          type: 0x02 as any, seq: 1,
+          forward: false, backward: false, turnLeft: false, turnRight: false,
+          turretYaw: 0, gunPitch: 0.3, fire: true, stabilize: false,
+          timestamp: Date.now(),
+        });
+      }
+      world.update();
+      expect(world.projectiles.size).toBe(2);
+      expect(390).toBeGreaterThan(AOI_PROJECTILE_DISTANCE);
+
+      const snapshot = world.getSnapshot(1);
+      expect(snapshot.projectiles.length).toBe(1);
+    });
+  });
+
+  describe('fog of war', () => {
+    function place(id: number, x: number, z: number): Player {
+      const p = new Player(id, `P${id}`);
+      world.addPlayer(p);
+      p.position.set(x, 0, z);
+      return p;
+    }
+
+    beforeEach(() => {
+      world.map.covers = [{ position: new Vec3(0, 0, 0), radius: 4, height: 4 }];
+      world.map.heightmap.fill(0);
+    });
+
+    it('should withhold enemies hidden behind cover', () => {
+      place(1, -60, 0);
+      place(2, 60, 0);
+      const snapshot = world.getSnapshot(1);
+      expect(snapshot.tanks.map((t) => t.entityId)).toEqual([1]);
+    });
+
+    it('should reveal an enemy that fires', () => {
+      place(1, -60, 0);
+      const shooter = place(2, 60, 0);
+      shooter.pushInput({
+        type: 0x02 as any, seq: 1,
+        forward: false, backward: false, turnLeft: false, turnRight: false,
+        turretYaw: 0, gunPitch: 0, fire: true, stabilize: false,
+        timestamp: Date.now(),
+      });
+      world.update();
+      expect(world.getSnapshot(1).tanks.some((t) => t.entityId === 2)).toBe(true);
+    });
+
+    it('should apply fog symmetrically', () => {
+      place(1, -60, 0);
+      place(2, 60, 0);
+      expect(world.getSnapshot(2).tanks.map((t) => t.entityId)).toEqual([2]);
+    });
+  });
+
+  describe('team deathmatch', () => {
+    function createTeamWorld(friendlyFire: boolean): GameWorld {
+      return new GameWorld(42, undefined, resolveRoomSettings({ mode: GameMode.TeamDeathmatch, friendlyFire }));
+    }
+
+    /** 射手正前方 10m 放置一发即毁的目标并开火 */
+    function shootAt(w: GameWorld, shooterTeam: Team, targetTeam: Team): Player {
+      const shooter = new Player(1, 'Shooter');
+      shooter.team = shooterTeam;
+      const target = new Player(2, 'Target');
+      target.team = targetTeam;
+      w.addPlayer(shooter);
+      w.addPlayer(target);
+      target.hp = 15;
+      shooter.position.set(0, 0, 0);
+      shooter.bodyYaw = 0;
+      target.position.set(0, 0, -10);
+      shooter.pushInput({
+        type: 0x02 as any, seq: 1,
+        forward: false, backward: false, turnLeft: false, turnRight: false,
+        turretYaw: 0, gunPitch: 0, fire: true, stabilize: false,
+        timestamp: Date.now(),
+      });
+      for (let i = 0; i < 30; i++) w.update();
+      return target;
+    }
+
+    it('should not damage teammates without friendly fire', () => {
+      const target = shootAt(createTeamWorld(false), Team.Red, Team.Red);
+      expect(target.alive).toBe(true);
+      expect(target.hp).toBe(15);
+    });
+
+    it('should damage teammates with friendly fire but not score the kill', () => {
+      const w = createTeamWorld(true);
+      const target = shootAt(w, Team.Red, Team.Red);
+      expect(target.alive).toBe(false);
+      expect(w.players.get(1)!.kills).toBe(0);
+      expect(w.getTeamScores()).toEqual([0, 0]);
+    });
+
+    it('should count enemy kills for the team', () => {
+      const w = createTeamWorld(false);
+      shootAt(w, Team.Blue, Team.Red);
+      expect(w.getTeamScores()).toEqual([0, 1]);
+      expect(w.getSnapshot(1).teamScores).toEqual([0, 1]);
+
+      w.reset(999);
+      expect(w.getTeamScores()).toEqual([0, 0]);
+    });
+
+    it('should report no team scores in free-for-all', () => {
+      expect(world.getSnapshot(0).teamScores).toEqual([]);
+    });
+
+    it('should always show teammates through fog', () => {
+      const w = createTeamWorld(false);
+      w.map.covers = [{ position: new Vec3(0, 0, 0), radius: 4, height: 4 }];
+      w.map.heightmap.fill(0);
+      const ids = [1, 2, 3];
+      const teams = [Team.Red, Team.Red, Team.Blue];
+      const xs = [-60, 60, 62];
+      for (let i = 0; i < ids.length; i++) {
+        const p = new Player(ids[i], `P${ids[i]}`);
+        p.team = teams[i];
+        w.addPlayer(p);
+        p.position.set(xs[i], 0, 0);
+      }
+      expect(w.getSnapshot(1).tanks.map((t) => t.entityId)).toEqual([1, 2]);
+    });
+  });
+
+  describe('capture the flag', () => {
+    let ctf: GameWorld;
+
+    function join(id: number, team: Team, x: number, z: number): Player {
+      const p = new Player(id, `P${id}`);
+      p.team = team;
+      ctf.addPlayer(p);
+      p.position.set(x, 0, z);
+      return p;
+    }
+
+    function flagOf(team: Team) {
+      return ctf.flags.find((f) => f.team === team)!;
+    }
+
+    beforeEach(() => {
+      ctf = new GameWorld(42, undefined, resolveRoomSettings({ mode: GameMode.CaptureTheFlag }));
+    });
+
+    it('should place one flag at each team base', () => {
+      expect(ctf.flags).toHaveLength(2);
+      expect(flagOf(Team.Red).position.x).toBeLessThan(0);
+      expect(flagOf(Team.Blue).position.x).toBeGreaterThan(0);
+      expect(ctf.getSnapshot(0).flags).toHaveLength(2);
+      expect(world.getSnapshot(0).flags).toEqual([]);
+    });
+
+    it('should let an enemy take the flag and capture it at home', () => {
+      const redBase = flagOf(Team.Red).basePosition;
+      const blueBase = flagOf(Team.Blue).basePosition;
+      const runner = join(1, Team.Blue, redBase.x, redBase.z);
+
+      let events = ctf.update();
+      expect(events.some((e) => e.eventType === GameEventType.FlagTaken)).toBe(true);
+      expect(flagOf(Team.Red).carrierId).toBe(1);
+
+      runner.position.set(blueBase.x, 0, blueBase.z);
+      events = ctf.update();
+      const captured = events.find((e) => e.eventType === GameEventType.FlagCaptured);
+      expect(captured).toMatchObject({ team: Team.Red, playerId: 1 });
+      expect(flagOf(Team.Red).state).toBe(FlagState.AtBase);
+      expect(ctf.getTeamScores()).toEqual([0, 1]);
+    });
+
+    it('should ignore a team touching its own flag at base', () => {
+      const redBase = flagOf(Team.Red).basePosition;
+      join(1, Team.Red, redBase.x, redBase.z);
+      expect(ctf.update()).toEqual([]);
+      expect(flagOf(Team.Red).state).toBe(FlagState.AtBase);
+    });
+
+    it('should drop the flag on death and let a teammate return it', () => {
+      const redBase = flagOf(Team.Red).basePosition;
+      const runner = join(1, Team.Blue, redBase.x, redBase.z);
+      ctf.update();
+
+      runner.position.set(0, 0, 50);
+      ctf.update();
+      runner.takeDamage(TANK_MAX_HP);
+      (ctf as any).handleDeath(runner, 0);
+      const events = ctf.update();
+      expect(events.some((e) => e.eventType === GameEventType.FlagDropped)).toBe(true);
+      expect(flagOf(Team.Red).state).toBe(FlagState.Dropped);
+      expect(flagOf(Team.Red).position.z).toBeCloseTo(50);
+
+      join(2, Team.Red, 1, 50);
+      const returned = ctf.update().find((e) => e.eventType === GameEventType.FlagReturned);
+      expect(returned).toMatchObject({ team: Team.Red, playerId: 2 });
+      expect(flagOf(Team.Red).state).toBe(FlagState.AtBase);
+    });
+
+    it('should return a dropped flag to base after a timeout', () => {
+      const redBase = flagOf(Team.Red).basePosition;
+      const runner = join(1, Team.Blue, redBase.x, redBase.z);
+      ctf.update();
+      runner.position.set(0, 0, 50);
+      ctf.removePlayer(runner.id);
+      expect(flagOf(Team.Red).state).toBe(FlagState.Dropped);
+
+      const events: string[] = [];
+      for (let t = 0; t <= FLAG_RETURN_TIME; t += TICK_INTERVAL) {
+        events.push(...ctf.update().map((e) => e.eventType));
+      }
+      expect(events).toContain(GameEventType.FlagDropped);
+      expect(events).toContain(GameEventType.FlagReturned);
+      expect(flagOf(Team.Red).state).toBe(FlagState.AtBase);
+    });
+
+    it('should put flags back on reset', () => {
+      const redBase = flagOf(Team.Red).basePosition;
+      join(1, Team.Blue, redBase.x, redBase.z);
+      ctf.update();
+      ctf.reset(999);
+      expect(ctf.flags.every((f) => f.state === FlagState.AtBase)).toBe(true);
+    });
+  });
+
+  describe('domination', () => {
+    let dom: GameWorld;
+
+    function join(id: number, team: Team, pointId: number): Player {
+      const p = new Player(id, `P${id}`);
+      p.team = team;
+      dom.addPlayer(p);
+      const center = dom.controlPoints[pointId].center;
+      p.position.set(center.x, center.y, center.z);
+      return p;
+    }
+
+    function run(ms: number): void {
+      for (let t = 0; t < ms; t += TICK_INTERVAL) dom.update();
+    }
+
+    beforeEach(() => {
+      dom = new GameWorld(42, undefined, resolveRoomSettings({ mode: GameMode.Domination }));
+    });
+
+    it('should place the map control points', () => {
+      expect(dom.controlPoints.map((p) => p.id)).toEqual(dom.map.controlPoints.map((z) => z.id));
+      expect(dom.getSnapshot(0).controlPoints).toHaveLength(dom.map.controlPoints.length);
+      expect(world.getSnapshot(0).controlPoints).toEqual([]);
+    });
+
+    it('should capture an uncontested point and score over time', () => {
+      join(1, Team.Red, 0);
+      run(CONTROL_POINT_CAPTURE_TIME / 2);
+      expect(dom.controlPoints[0].owner).toBe(Team.None);
+      expect(dom.controlPoints[0].capturingTeam).toBe(Team.Red);
+      expect(dom.controlPoints[0].progress).toBeCloseTo(0.5, 1);
+
+      run(CONTROL_POINT_CAPTURE_TIME / 2 + TICK_INTERVAL);
+      expect(dom.controlPoints[0].owner).toBe(Team.Red);
+
+      const before = dom.getTeamScores()[0];
+      run(CONTROL_POINT_SCORE_INTERVAL * 3);
+      expect(dom.getTeamScores()[0] - before).toBe(3);
+      expect(dom.getTeamScores()[1]).toBe(0);
+    });
+
+    it('should freeze progress while contested', () => {
+      join(1, Team.Red, 1);
+      run(CONTROL_POINT_CAPTURE_TIME / 2);
+      const progress = dom.controlPoints[1].progress;
+
+      join(2, Team.Blue, 1);
+      run(CONTROL_POINT_CAPTURE_TIME);
+      expect(dom.controlPoints[1].progress).toBe(progress);
+      expect(dom.controlPoints[1].owner).toBe(Team.None);
+    });
+
+    it('should neutralize an enemy point before capturing it', () => {
+      const red = join(1, Team.Red, 2);
+      run(CONTROL_POINT_CAPTURE_TIME + TICK_INTERVAL);
+      expect(dom.controlPoints[2].owner).toBe(Team.Red);
+
+      red.position.set(-150, 0, 0);
+      join(2, Team.Blue, 2);
+      run(CONTROL_POINT_CAPTURE_TIME + TICK_INTERVAL);
+      expect(dom.controlPoints[2].owner).toBe(Team.None);
+      expect(dom.controlPoints[2].capturingTeam).toBe(Team.Blue);
+
+      run(CONTROL_POINT_CAPTURE_TIME + TICK_INTERVAL);
+      expect(dom.controlPoints[2].owner).toBe(Team.Blue);
+    });
+
+    it('should not count dead tanks', () => {
+      const red = join(1, Team.Red, 0);
+      red.takeDamage(TANK_MAX_HP);
+      run(CONTROL_POINT_CAPTURE_TIME);
+      expect(dom.controlPoints[0].progress).toBe(0);
+    });
+
+    it('should reset control points on reset', () => {
+      join(1, Team.Red, 0);
+      run(CONTROL_POINT_CAPTURE_TIME + TICK_INTERVAL);
+      dom.reset(999);
+      expect(dom.controlPoints.every((p) => p.owner === Team.None && p.progress === 0)).toBe(true);
+      expect(dom.getTeamScores()).toEqual([0, 0]);
+    });
+  });
+
+  describe('battle royale', () => {
+    let br: GameWorld;
+
+    function join(id: number): Player {
+      const p = new Player(id, `P${id}`);
+      br.addPlayer(p);
+      return p;
+    }
+
+    beforeEach(() => {
+      br = new GameWorld(42, undefined, resolveRoomSettings({ mode: GameMode.BattleRoyale }));
+    });
+
+    it('should only have a safe zone while a round is running', () => {
+      join(1);
+      expect(br.getSnapshot(1).zone).toBeNull();
+      br.startBattleRoyale();
+      expect(br.getSnapshot(1).zone!.radius).toBe(br.safeZone!.radius);
+      br.reset(7);
+      expect(br.safeZone).toBeNull();
+
+      world.startBattleRoyale();
+      expect(world.safeZone).toBeNull();
+    });
+
+    it('should not respawn tanks during the round', () => {
+      const a = join(1);
+      join(2);
+      br.startBattleRoyale();
+      a.takeDamage(TANK_MAX_HP);
+      (br as any).handleDeath(a, 2);
+      for (let t = 0; t < br.settings.respawnDelay * 2; t += TICK_INTERVAL) br.update();
+      expect(a.alive).toBe(false);
+      expect(br.getAliveCount()).toBe(1);
+    });
+
+    it('should damage tanks outside the zone with a zone death reason', () => {
+      const p = join(1);
+      br.startBattleRoyale();
+      const zone = br.safeZone!;
+      p.position.set(zone.center.x + zone.radius + 10, 0, zone.center.z);
+
+      br.update();
+      expect(p.hp).toBeCloseTo(TANK_MAX_HP - ZONE_DAMAGE_PER_SECOND * TICK_INTERVAL / 1000);
+
+      let death;
+      for (let t = 0; t < (TANK_MAX_HP / ZONE_DAMAGE_PER_SECOND) * 1000 && !death; t += TICK_INTERVAL) {
+        death = br.update().find((e) => e.eventType === GameEventType.Death);
+      }
+      expect(death).toMatchObject({ victimId: 1, killerId: 0, reason: DeathReason.Zone });
+      expect(p.alive).toBe(false);
+    });
+
+    it('should not damage tanks inside the zone', () => {
+      const p = join(1);
+      br.startBattleRoyale();
+      p.position.set(0, 0, 0);
+      for (let i = 0; i < 60; i++) br.update();
+      expect(p.hp).toBe(TANK_MAX_HP);
+    });
+
+    it('should let late joiners spectate until the next round', () => {
+      join(1);
+      br.startBattleRoyale();
+      const late = join(2);
+      expect(late.alive).toBe(false);
+      br.reset(7);
+      expect(late.alive).toBe(true);
+    });
+
+    it('should resume respawns when the round is interrupted', () => {
+      const a = join(1);
+      br.startBattleRoyale();
+      a.takeDamage(TANK_MAX_HP);
+      (br as any).handleDeath(a, 0);
+      br.stopBattleRoyale();
+      for (let t = 0; t <= br.settings.respawnDelay; t += TICK_INTERVAL) br.update();
+      expect(a.alive).toBe(true);
+    });
+  });
+
+  describe('coop', () => {
+    let coop: GameWorld;
+
+    function join(id: number, isBot: boolean = false): Player {
+      const p = new Player(id, `P${id}`);
+      p.isBot = isBot;
+      coop.addPlayer(p);
+      return p;
+    }
+
+    function kill(p: Player): void {
+      p.takeDamage(TANK_MAX_HP);
+      (coop as any).handleDeath(p, 0);
+    }
+
+    beforeEach(() => {
+      coop = new GameWorld(42, undefined, resolveRoomSettings({ mode: GameMode.Coop }));
+    });
+
+    it('should only track waves while a round is running', () => {
+      join(1);
+      expect(coop.getSnapshot(1).wave).toBeNull();
+      coop.startCoop();
+      expect(coop.getSnapshot(1).wave).toMatchObject({ wave: 0, phase: WavePhase.Repair, lives: COOP_SHARED_LIVES });
+      coop.reset(7);
+      expect(coop.waves).toBeNull();
+
+      world.startCoop();
+      expect(world.waves).toBeNull();
+    });
+
+    it('should count down to the first wave', () => {
+      join(1);
+      coop.startCoop();
+      for (let t = 0; t < COOP_FIRST_WAVE_DELAY; t += TICK_INTERVAL) coop.update();
+      expect(coop.waves!.readyForNextWave).toBe(true);
+    });
+
+    it('should spend a shared life for each human respawn', () => {
+      const a = join(1);
+      join(2);
+      coop.startCoop();
+      kill(a);
+      expect(coop.waves!.lives).toBe(COOP_SHARED_LIVES - 1);
+      expect(coop.isAwaitingRespawn(1)).toBe(true);
+      for (let t = 0; t <= coop.settings.respawnDelay; t += TICK_INTERVAL) coop.update();
+      expect(a.alive).toBe(true);
+    });
+
+    it('should not respawn humans once lives run out', () => {
+      const a = join(1);
+      coop.startCoop();
+      coop.waves!.lives = 0;
+      kill(a);
+      expect(coop.isAwaitingRespawn(1)).toBe(false);
+    });
+
+    it('should never respawn bots', () => {
+      const bot = join(100, true);
+      coop.startCoop();
+      kill(bot);
+      expect(coop.isAwaitingRespawn(100)).toBe(false);
+      expect(coop.waves!.lives).toBe(COOP_SHARED_LIVES);
+    });
+
+    it('should count alive bots in the wave snapshot', () => {
+      join(1);
+      join(100, true);
+      const bot = join(101, true);
+      coop.startCoop();
+      expect(coop.getSnapshot(1).wave!.botsRemaining).toBe(2);
+      kill(bot);
+      expect(coop.getSnapshot(1).wave!.botsRemaining).toBe(1);
+    });
+
+    it('should heal and revive humans on repair', () => {
+      const a = join(1);
+      const b = join(2);
+      const bot = join(100, true);
+      coop.startCoop();
+      coop.waves!.lives = 0;
+      a.takeDamage(40);
+      kill(b);
+      kill(bot);
+
+      coop.repairHumans();
+      expect(a.hp).toBe(TANK_MAX_HP);
+      expect(b.alive).toBe(true);
+      expect(b.hp).toBe(TANK_MAX_HP);
+      expect(bot.alive).toBe(false);
+    });
+  });
+
   describe('world reset', () => {
     it('should reset tick counter and projectiles', () => {
       const player = new Player(1, 'Alice');
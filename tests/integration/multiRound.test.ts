@@ -186,7 +186,7 @@ describe('Multi-Round Lifecycle Integration', () => {
       // All players should be alive
       for (const p of room.world.players.values()) {
         expect(p.alive).toBe(true);
-        expect(p.hp).toBe(TANK_MAX_HP);
+        expect(p.hp).toBe(p.stats.maxHp);
       }
     });
   });
@@ -228,6 +228,102 @@ describe('Multi-Round Lifecycle Integration', () => {
     });
   });
 
+  describe('room state messages', () => {
+    function jsonMessages(client: ReturnType<typeof createMockClient>): any[] {
+      return client.send.mock.calls
+        .filter((c: any) => typeof c[0] === 'string')
+        .map((c: any) => JSON.parse(c[0]));
+    }
+
+    it('should broadcast RoomState on every transition', () => {
+      (room as any).roundDuration = 60000;
+      room.removeAllAIBots();
+
+      const c1 = createMockClient();
+      const c2 = createMockClient();
+      room.addPlayer(c1, 'Alice');
+      room.addPlayer(c2, 'Bob');
+
+      room.endRound();
+      vi.advanceTimersByTime(3500);
+
+      const states = jsonMessages(c1)
+        .filter((m) => m.type === MessageType.RoomState)
+        .map((m) => m.state);
+      expect(states).toEqual([RoomState.InRound, RoomState.RoundEnd, RoomState.InRound]);
+    });
+
+    it('should include remaining round time and the new map seed', () => {
+      (room as any).roundDuration = 60000;
+      room.removeAllAIBots();
+
+      const c1 = createMockClient();
+      const c2 = createMockClient();
+      room.addPlayer(c1, 'Alice');
+      room.addPlayer(c2, 'Bob');
+
+      room.endRound();
+      vi.advanceTimersByTime(3500);
+
+      const last = jsonMessages(c1).filter((m) => m.type === MessageType.RoomState).pop();
+      expect(last.state).toBe(RoomState.InRound);
+      expect(last.timeRemaining).toBe(60000);
+      expect(last.mapSeed).toBe(room.world.map.seed);
+    });
+
+    it('should broadcast a typed RoundEnd with winner and countdown', () => {
+      room.removeAllAIBots();
+
+      const c1 = createMockClient();
+      const c2 = createMockClient();
+      room.addPlayer(c1, 'Alice');
+      const p2 = room.addPlayer(c2, 'Bob');
+      room.world.players.get(p2!.id)!.kills = 3;
+
+      c1.send.mockClear();
+      room.endRound();
+
+      const roundEnd = jsonMessages(c1).find((m) => m.type === MessageType.RoundEnd);
+      expect(roundEnd.winnerId).toBe(p2!.id);
+      expect(roundEnd.nextRoundIn).toBe(3000);
+      expect(roundEnd.scoreboard[0].playerId).toBe(p2!.id);
+    });
+
+    it('should report no winner when nobody scored', () => {
+      room.removeAllAIBots();
+
+      const c1 = createMockClient();
+      const c2 = createMockClient();
+      room.addPlayer(c1, 'Alice');
+      room.addPlayer(c2, 'Bob');
+
+      c1.send.mockClear();
+      room.endRound();
+
+      const roundEnd = jsonMessages(c1).find((m) => m.type === MessageType.RoundEnd);
+      expect(roundEnd.winnerId).toBeNull();
+    });
+
+    it('should count down the time remaining', () => {
+      (room as any).roundDuration = 60000;
+      room.removeAllAIBots();
+
+      const c1 = createMockClient();
+      const c2 = createMockClient();
+      room.addPlayer(c1, 'Alice');
+      room.addPlayer(c2, 'Bob');
+      expect(room.getTimeRemaining()).toBe(60000);
+
+      vi.advanceTimersByTime(1000);
+      expect(room.getTimeRemaining()).toBeLessThanOrEqual(59000);
+
+      room.endRound();
+      expect(room.getTimeRemaining()).toBe(3000);
+      vi.advanceTimersByTime(1000);
+      expect(room.getTimeRemaining()).toBe(2000);
+    });
+  });
+
   describe('AI bots across rounds', () => {
     it('should maintain AI bots through round restart', () => {
       (room as any).roundDuration = 500;
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { MessageType } from '@tankgame/shared';
+import { MessageType, WireFormat, decodeBinaryMessage } from '@tankgame/shared';
 import { GameRoom } from '../../packages/server/src/GameRoom.js';
 import type { RoomClient } from '../../packages/server/src/GameRoom.js';
 
@@ -69,6 +69,72 @@ describe('Network Message Flow Integration', () => {
     });
   });
 
+  describe('binary wire format', () => {
+    it('should send binary snapshots and events to binary clients only', () => {
+      const jsonClient = createMockClient();
+      const binClient = createMockClient();
+      binClient.wireFormat = WireFormat.Binary;
+      const p1 = room.addPlayer(jsonClient, 'Alice');
+      room.addPlayer(binClient, 'Bob');
+
+      jsonClient.send.mockClear();
+      binClient.send.mockClear();
+
+      room.handleInput(p1!.id, {
+        type: MessageType.InputCmd,
+        seq: 1,
+        forward: false,
+        backward: false,
+        turnLeft: false,
+        turnRight: false,
+        turretYaw: 0,
+        gunPitch: 0,
+        fire: true,
+        stabilize: false,
+        timestamp: Date.now(),
+      });
+      for (let i = 0; i < 3; i++) room.tick();
+
+      const binFrames = binClient.send.mock.calls
+        .map((c: any) => c[0])
+        .filter((d: unknown) => d instanceof Uint8Array)
+        .map((d: Uint8Array) => decodeBinaryMessage(d));
+      expect(binFrames.some((m) => m.type === MessageType.Snapshot)).toBe(true);
+      expect(binFrames.some((m) => m.type === MessageType.GameEvent)).toBe(true);
+
+      // JSON 客户端仍然只收到文本
+      for (const call of jsonClient.send.mock.calls) {
+        expect(typeof call[0]).toBe('string');
+      }
+    });
+  });
+
+  describe('delta snapshots', () => {
+    it('should switch to deltas after the client acknowledges a snapshot', () => {
+      const client = createMockClient();
+      const p1 = room.addPlayer(client, 'Alice');
+
+      for (let i = 0; i < 3; i++) room.tick();
+      const snapshots = () => client.send.mock.calls
+        .map((c: any) => JSON.parse(c[0]))
+        .filter((m: any) => m.type === MessageType.Snapshot);
+      const keyframe = snapshots().pop();
+      expect(keyframe.baselineId).toBe(0);
+      expect(keyframe.tanks[0].nickname).toBeDefined();
+
+      room.acknowledgeSnapshot(p1!.id, keyframe.snapshotId);
+      client.send.mockClear();
+      for (let i = 0; i < 3; i++) room.tick();
+
+      const delta = snapshots().pop();
+      expect(delta.baselineId).toBe(keyframe.snapshotId);
+      expect(delta.tanks.length).toBe(keyframe.tanks.length);
+      for (const t of delta.tanks) {
+        expect(t.nickname).toBeUndefined();
+      }
+    });
+  });
+
   describe('input processing flow', () => {
     it('should accept and process InputCmd messages', () => {
       const c1 = createMockClient();
@@ -188,8 +188,10 @@ describe('Gameplay Regression', () => {
       expect(snapshot.lastProcessedSeq).toBe(42);
     });
 
-    it('should include all players in snapshot', () => {
+    it('should include all visible players in snapshot', () => {
       const world = new GameWorld(42);
+      world.map.covers = [];
+      world.map.heightmap.fill(0);
       for (let i = 1; i <= 4; i++) {
         world.addPlayer(new Player(i, `P${i}`));
       }
@@ -1,5 +1,15 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { Vec3, MessageType, TICK_INTERVAL, TANK_MAX_HP } from '@tankgame/shared';
+import {
+  Vec3,
+  MessageType,
+  Team,
+  FlagState,
+  TICK_INTERVAL,
+  TANK_MAX_HP,
+  getFlagBasePosition,
+  getControlPointPosition,
+} from '@tankgame/shared';
+import type { FlagSnapshot, ControlPointSnapshot } from '@tankgame/shared';
 import { AIPlayer, AI_DIFFICULTIES } from '../../packages/server/src/AIPlayer.js';
 import { Player } from '../../packages/server/src/Player.js';
 
@@ -198,6 +208,44 @@ describe('AIPlayer', () => {
     });
   });
 
+  describe('decide', () => {
+    let ai: AIPlayer;
+    let player: Player;
+    let allPlayers: Map<number, Player>;
+
+    beforeEach(() => {
+      const result = AIPlayer.create(1, 'normal');
+      ai = result.ai;
+      player = result.player;
+      player.position.set(0, 0, 0);
+      allPlayers = new Map([[player.id, player]]);
+    });
+
+    it('should return the command without queueing it', () => {
+      const cmd = ai.decide(allPlayers, 400, 400);
+      expect(cmd).not.toBeNull();
+      expect(cmd!.type).toBe(MessageType.InputCmd);
+      expect(player.popInput()).toBeNull();
+    });
+
+    it('should return null when dead', () => {
+      player.alive = false;
+      expect(ai.decide(allPlayers, 400, 400)).toBeNull();
+    });
+
+    it('should advance reaction time by the given interval', () => {
+      const enemy = new Player(2, 'Enemy');
+      enemy.position.set(0, 0, -50);
+      allPlayers.set(2, enemy);
+
+      // 一次长间隔决策即可走完反应时间，开始瞄准
+      ai.decide(allPlayers, 400, 400, AI_DIFFICULTIES.normal.reactionTime + TICK_INTERVAL);
+      ai.decide(allPlayers, 400, 400, TICK_INTERVAL);
+      const cmd = ai.decide(allPlayers, 400, 400, TICK_INTERVAL);
+      expect(cmd!.forward).toBe(false);
+    });
+  });
+
   describe('AI state transitions', () => {
     let ai: AIPlayer;
     let player: Player;
@@ -279,6 +327,143 @@ describe('AIPlayer', () => {
       expect(input).not.toBeNull();
       // Should no longer be retreating
     });
+
+    it('should not target teammates', () => {
+      player.team = Team.Red;
+      const mate = new Player(2, 'Mate');
+      mate.team = Team.Red;
+      mate.position.set(20, 0, 0);
+      allPlayers.set(2, mate);
+
+      for (let i = 0; i < 50; i++) {
+        ai.update(allPlayers, 400, 400);
+        player.popInput();
+      }
+      expect((ai as any).targetPlayerId).toBeNull();
+
+      const enemy = new Player(3, 'Enemy');
+      enemy.team = Team.Blue;
+      enemy.position.set(40, 0, 0);
+      allPlayers.set(3, enemy);
+      ai.update(allPlayers, 400, 400);
+      expect((ai as any).targetPlayerId).toBe(3);
+    });
+  });
+
+  describe('flag objectives', () => {
+    let ai: AIPlayer;
+    let player: Player;
+
+    function flag(team: Team, state: FlagState, x: number, carrierId: number | null = null): FlagSnapshot {
+      return { team, state, position: new Vec3(x, 0, 0), carrierId };
+    }
+
+    beforeEach(() => {
+      ({ ai, player } = AIPlayer.create(1, 'normal'));
+      player.team = Team.Red;
+    });
+
+    it('should ignore flags outside team modes', () => {
+      player.team = Team.None;
+      expect(ai.getFlagObjective([flag(Team.Blue, FlagState.AtBase, 160)], 400)).toBeNull();
+      player.team = Team.Red;
+      expect(ai.getFlagObjective([], 400)).toBeNull();
+    });
+
+    it('should go for the enemy flag', () => {
+      const flags = [flag(Team.Red, FlagState.AtBase, -160), flag(Team.Blue, FlagState.AtBase, 160)];
+      expect(ai.getFlagObjective(flags, 400)!.x).toBe(160);
+    });
+
+    it('should bring a carried flag home', () => {
+      const flags = [flag(Team.Red, FlagState.AtBase, -160), flag(Team.Blue, FlagState.Carried, 20, 1)];
+      expect(ai.getFlagObjective(flags, 400)).toEqual(getFlagBasePosition(Team.Red, 400));
+    });
+
+    it('should return its own dropped flag first', () => {
+      const flags = [flag(Team.Red, FlagState.Dropped, -40), flag(Team.Blue, FlagState.AtBase, 160)];
+      expect(ai.getFlagObjective(flags, 400)!.x).toBe(-40);
+    });
+
+    it('should drive toward the objective while patrolling', () => {
+      player.position.set(0, 0, 0);
+      player.bodyYaw = 0; // 朝向 -Z
+      const flags = [flag(Team.Red, FlagState.AtBase, -160), flag(Team.Blue, FlagState.AtBase, 160)];
+      const cmd = ai.decide(new Map([[1, player]]), 400, 400, TICK_INTERVAL, { flags })!;
+      expect(cmd.forward).toBe(true);
+      expect(cmd.turnRight).toBe(true);
+    });
+  });
+
+  describe('control point objectives', () => {
+    let ai: AIPlayer;
+    let player: Player;
+
+    function point(
+      id: number,
+      owner: Team,
+      capturingTeam: Team = owner,
+      progress: number = owner === Team.None ? 0 : 1
+    ): ControlPointSnapshot {
+      return { id, owner, capturingTeam, progress };
+    }
+
+    beforeEach(() => {
+      ({ ai, player } = AIPlayer.create(1, 'normal'));
+      player.team = Team.Red;
+      player.position.set(0, 0, 100);
+    });
+
+    it('should head for the nearest point not held by its team', () => {
+      const points = [point(0, Team.None), point(1, Team.Blue), point(2, Team.Red)];
+      expect(ai.getControlPointObjective(points)).toEqual(getControlPointPosition(1));
+    });
+
+    it('should defend a held point being neutralized', () => {
+      const points = [point(0, Team.Red), point(1, Team.Red), point(2, Team.Red, Team.Blue, 0.6)];
+      expect(ai.getControlPointObjective(points)).toEqual(getControlPointPosition(2));
+    });
+
+    it('should fall back to normal behavior when all points are secured', () => {
+      const points = [point(0, Team.Red), point(1, Team.Red), point(2, Team.Red)];
+      expect(ai.getControlPointObjective(points)).toBeNull();
+      player.team = Team.None;
+      expect(ai.getControlPointObjective([point(0, Team.None)])).toBeNull();
+    });
+
+    it('should hold position inside the objective point', () => {
+      const center = getControlPointPosition(2);
+      player.position.set(center.x + 1, 0, center.z);
+      const points = [point(2, Team.None, Team.Red, 0.3)];
+      const cmd = ai.decide(new Map([[1, player]]), 400, 400, TICK_INTERVAL, { controlPoints: points })!;
+      expect(cmd.forward).toBe(false);
+      expect(cmd.backward).toBe(false);
+    });
+  });
+
+  describe('safe zone objective', () => {
+    it('should head back toward the zone center near the edge', () => {
+      const { ai, player } = AIPlayer.create(1, 'normal');
+      const zone = { center: new Vec3(50, 0, 0), radius: 100, nextShrinkIn: 0 };
+      player.position.set(50, 0, 50);
+      expect(ai.getZoneObjective(zone)).toBeNull();
+      player.position.set(50, 0, 90);
+      expect(ai.getZoneObjective(zone)).toEqual(zone.center);
+      expect(ai.getZoneObjective(null)).toBeNull();
+    });
+
+    it('should leave the zone edge even while engaging', () => {
+      const { ai, player } = AIPlayer.create(1, 'normal');
+      player.position.set(0, 0, 200);
+      player.bodyYaw = 0; // 朝向 -Z，正对圈中心
+      const enemy = new Player(2, 'E');
+      enemy.position.set(10, 0, 200);
+      const players = new Map([[1, player], [2, enemy]]);
+      const zone = { center: new Vec3(0, 0, 0), radius: 150, nextShrinkIn: 0 };
+      const cmd = ai.decide(players, 400, 400, TICK_INTERVAL, { zone })!;
+      expect(cmd.forward).toBe(true);
+      expect(cmd.backward).toBe(false);
+    });
   });
 
   describe('edge cases', () => {
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AmmoType,
+  AMMO_TYPES,
+  AMMO_STATS,
+  DEFAULT_AMMO_TYPE,
+  MUZZLE_VELOCITY,
+  SPLASH_RADIUS,
+  getAmmoStats,
+  isAmmoType,
+} from '@tankgame/shared';
+
+describe('ammo types', () => {
+  it('should keep AP as the baseline shell', () => {
+    expect(DEFAULT_AMMO_TYPE).toBe(AmmoType.AP);
+    const ap = AMMO_STATS[AmmoType.AP];
+    expect(ap.muzzleVelocity).toBe(MUZZLE_VELOCITY);
+    expect(ap.damageFactor).toBe(1);
+    expect(ap.splashRadius).toBe(SPLASH_RADIUS);
+    expect(ap.reloadFactor).toBe(1);
+    expect(ap.angleSensitive).toBe(true);
+  });
+
+  it('should trade direct damage for splash on HE', () => {
+    const he = AMMO_STATS[AmmoType.HE];
+    expect(he.damageFactor).toBeLessThan(1);
+    expect(he.splashRadius).toBeGreaterThan(SPLASH_RADIUS);
+    expect(he.muzzleVelocity).toBeLessThan(MUZZLE_VELOCITY);
+    expect(he.angleSensitive).toBe(false);
+  });
+
+  it('should make smoke harmless', () => {
+    const smoke = AMMO_STATS[AmmoType.Smoke];
+    expect(smoke.damageFactor).toBe(0);
+    expect(smoke.splashRadius).toBe(0);
+  });
+
+  it('should define stats for every type', () => {
+    for (const type of AMMO_TYPES) {
+      expect(getAmmoStats(type)).toBe(AMMO_STATS[type]);
+    }
+    expect(getAmmoStats(undefined)).toBe(AMMO_STATS[DEFAULT_AMMO_TYPE]);
+    expect(getAmmoStats(9 as AmmoType)).toBe(AMMO_STATS[DEFAULT_AMMO_TYPE]);
+  });
+
+  it('should validate ammo values', () => {
+    expect(isAmmoType(AmmoType.HE)).toBe(true);
+    expect(isAmmoType(3)).toBe(false);
+    expect(isAmmoType('1')).toBe(false);
+    expect(isAmmoType(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Vec3,
+  ArmorFacing,
+  resolveArmorHit,
+  reflectOffArmor,
+  ARMOR_FRONT_MULTIPLIER,
+  ARMOR_SIDE_MULTIPLIER,
+  ARMOR_REAR_MULTIPLIER,
+  ARMOR_ANGLE_MIN_FACTOR,
+  RICOCHET_ANGLE,
+  TANK_COLLISION_RADIUS,
+} from '@tankgame/shared';
+
+// 目标位于原点，bodyYaw = 0 时车头朝 -Z，右侧为 +X
+const origin = Vec3.zero();
+
+describe('resolveArmorHit', () => {
+  it('should classify a head-on shot as a square front hit', () => {
+    // 炮弹从车头前方 (-Z) 飞向 +Z
+    const hit = resolveArmorHit(new Vec3(0, 0, -2), new Vec3(0, 0, 80), origin, 0);
+    expect(hit.facing).toBe(ArmorFacing.Front);
+    expect(hit.impactAngle).toBeCloseTo(0, 5);
+    expect(hit.ricochet).toBe(false);
+    expect(hit.damageFactor).toBeCloseTo(ARMOR_FRONT_MULTIPLIER, 5);
+  });
+
+  it('should classify side and rear hits', () => {
+    const side = resolveArmorHit(new Vec3(2, 0, 0), new Vec3(-80, 0, 0), origin, 0);
+    expect(side.facing).toBe(ArmorFacing.Side);
+    expect(side.damageFactor).toBeCloseTo(ARMOR_SIDE_MULTIPLIER, 5);
+
+    const rear = resolveArmorHit(new Vec3(0, 0, 2), new Vec3(0, 0, -80), origin, 0);
+    expect(rear.facing).toBe(ArmorFacing.Rear);
+    expect(rear.damageFactor).toBeCloseTo(ARMOR_REAR_MULTIPLIER, 5);
+  });
+
+  it('should follow the hull yaw', () => {
+    // 车体左转 90°，车头朝 -X：来自 -X 的炮弹打正面
+    const hit = resolveArmorHit(new Vec3(-2, 0, 0), new Vec3(80, 0, 0), origin, Math.PI / 2);
+    expect(hit.facing).toBe(ArmorFacing.Front);
+    expect(hit.normal.x).toBeCloseTo(-1, 5);
+  });
+
+  it('should reduce damage on an angled hull', () => {
+    // 车体偏转 30°，正面入射角 30°
+    const hit = resolveArmorHit(new Vec3(0, 0, -2), new Vec3(0, 0, 80), origin, Math.PI / 6);
+    expect(hit.facing).toBe(ArmorFacing.Front);
+    expect(hit.impactAngle).toBeCloseTo(Math.PI / 6, 5);
+    expect(hit.damageFactor).toBeLessThan(ARMOR_FRONT_MULTIPLIER);
+    expect(hit.damageFactor).toBeGreaterThan(ARMOR_FRONT_MULTIPLIER * ARMOR_ANGLE_MIN_FACTOR);
+  });
+
+  it('should ricochet a shot grazing the side', () => {
+    // 平行于车体、贴着右侧擦过
+    const x = TANK_COLLISION_RADIUS * 0.97;
+    const hit = resolveArmorHit(new Vec3(x, 0, 0), new Vec3(0, 0, 80), origin, 0);
+    expect(hit.facing).toBe(ArmorFacing.Side);
+    expect(hit.impactAngle).toBeGreaterThanOrEqual(RICOCHET_ANGLE);
+    expect(hit.ricochet).toBe(true);
+    expect(hit.damageFactor).toBe(0);
+  });
+
+  it('should never ricochet a shot aimed at the hull center', () => {
+    for (let i = 0; i < 32; i++) {
+      const yaw = (i / 32) * Math.PI * 2;
+      const hit = resolveArmorHit(new Vec3(0, 0, -2), new Vec3(0, 0, 80), origin, yaw);
+      expect(hit.ricochet).toBe(false);
+      expect(hit.impactAngle).toBeLessThanOrEqual(Math.PI / 4 + 1e-6);
+    }
+  });
+
+  it('should handle a shell falling straight down', () => {
+    const hit = resolveArmorHit(new Vec3(0, 1, -1), new Vec3(0, -30, 0), origin, 0);
+    expect(hit.facing).toBe(ArmorFacing.Front);
+    expect(hit.ricochet).toBe(false);
+  });
+});
+
+describe('reflectOffArmor', () => {
+  it('should mirror the velocity about the armor normal', () => {
+    const dir = reflectOffArmor(new Vec3(-60, 0, 60), new Vec3(1, 0, 0));
+    expect(dir.x).toBeCloseTo(Math.SQRT1_2, 5);
+    expect(dir.z).toBeCloseTo(Math.SQRT1_2, 5);
+    expect(dir.length()).toBeCloseTo(1, 5);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BotMetrics,
+  distribution,
+  summarizeReports,
+} from '../../bots/src/BotMetrics.js';
+import type { BotReport } from '../../bots/src/BotMetrics.js';
+
+function makeReport(overrides: Partial<BotReport> = {}): BotReport {
+  return {
+    joinLatency: 20,
+    snapshotRate: 20,
+    rtt: 10,
+    bytesInPerSec: 3000,
+    bytesOutPerSec: 1000,
+    snapshots: 100,
+    ...overrides,
+  };
+}
+
+describe('BotMetrics', () => {
+  it('should measure join latency from connect start', () => {
+    const metrics = new BotMetrics(0);
+    metrics.markConnectStart(100);
+    metrics.markJoined(135);
+    expect(metrics.sample(1000).joinLatency).toBe(35);
+  });
+
+  it('should keep the first join latency only', () => {
+    const metrics = new BotMetrics(0);
+    metrics.markConnectStart(0);
+    metrics.markJoined(40);
+    metrics.markJoined(400);
+    expect(metrics.sample(1000).joinLatency).toBe(40);
+  });
+
+  it('should report null join latency before joining', () => {
+    const metrics = new BotMetrics(0);
+    metrics.markConnectStart(0);
+    expect(metrics.sample(1000).joinLatency).toBeNull();
+  });
+
+  it('should compute rates over the sample window', () => {
+    const metrics = new BotMetrics(0);
+    for (let i = 0; i < 40; i++) metrics.recordSnapshot();
+    metrics.recordBytesIn(6000);
+    metrics.recordBytesOut(2000);
+
+    const report = metrics.sample(2000);
+    expect(report.snapshotRate).toBe(20);
+    expect(report.bytesInPerSec).toBe(3000);
+    expect(report.bytesOutPerSec).toBe(1000);
+  });
+
+  it('should start a new window after each sample', () => {
+    const metrics = new BotMetrics(0);
+    for (let i = 0; i < 20; i++) metrics.recordSnapshot();
+    metrics.sample(1000);
+
+    for (let i = 0; i < 10; i++) metrics.recordSnapshot();
+    const report = metrics.sample(2000);
+    expect(report.snapshotRate).toBe(10);
+    expect(report.snapshots).toBe(30);
+  });
+
+  it('should compute lifetime rates without resetting the window', () => {
+    const metrics = new BotMetrics(0);
+    metrics.markConnectStart(0);
+    metrics.recordBytesIn(1000);
+    metrics.sample(1000);
+    metrics.recordBytesIn(3000);
+
+    expect(metrics.total(2000).bytesInPerSec).toBe(2000);
+    expect(metrics.sample(2000).bytesInPerSec).toBe(3000);
+  });
+
+  it('should report the latest rtt', () => {
+    const metrics = new BotMetrics(0);
+    expect(metrics.sample(1000).rtt).toBeNull();
+    metrics.recordRtt(30);
+    metrics.recordRtt(25);
+    expect(metrics.sample(2000).rtt).toBe(25);
+  });
+});
+
+describe('distribution', () => {
+  it('should return null for no values', () => {
+    expect(distribution([])).toBeNull();
+  });
+
+  it('should compute avg, percentiles and max', () => {
+    const values = Array.from({ length: 100 }, (_, i) => i + 1);
+    const d = distribution(values)!;
+    expect(d.avg).toBeCloseTo(50.5);
+    expect(d.p50).toBe(51);
+    expect(d.p95).toBe(96);
+    expect(d.max).toBe(100);
+  });
+
+  it('should not depend on input order', () => {
+    expect(distribution([30, 10, 20])).toEqual(distribution([10, 20, 30]));
+  });
+});
+
+describe('summarizeReports', () => {
+  it('should count joined clients separately', () => {
+    const summary = summarizeReports([
+      makeReport(),
+      makeReport({ joinLatency: null, rtt: null, snapshotRate: 0, bytesInPerSec: 0 }),
+    ]);
+    expect(summary.clients).toBe(2);
+    expect(summary.joined).toBe(1);
+    expect(summary.snapshotRate!.avg).toBe(20);
+  });
+
+  it('should total bandwidth across all clients', () => {
+    const summary = summarizeReports([
+      makeReport({ bytesInPerSec: 1000, bytesOutPerSec: 200 }),
+      makeReport({ bytesInPerSec: 3000, bytesOutPerSec: 400 }),
+    ]);
+    expect(summary.totalBytesInPerSec).toBe(4000);
+    expect(summary.totalBytesOutPerSec).toBe(600);
+    expect(summary.bytesInPerSec!.avg).toBe(2000);
+  });
+
+  it('should skip clients without rtt samples', () => {
+    const summary = summarizeReports([makeReport({ rtt: 40 }), makeReport({ rtt: null })]);
+    expect(summary.rtt!.avg).toBe(40);
+  });
+
+  it('should return empty distributions when nobody joined', () => {
+    const summary = summarizeReports([makeReport({ joinLatency: null })]);
+    expect(summary.joined).toBe(0);
+    expect(summary.joinLatency).toBeNull();
+    expect(summary.rtt).toBeNull();
+  });
+});
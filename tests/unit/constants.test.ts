@@ -37,6 +37,7 @@ import {
   INPUT_RATE,
   INTERPOLATION_DELAY,
   SNAPSHOT_BUFFER_SIZE,
+  MAX_EXTRAPOLATION,
 
   // Map constants
   MAP_WIDTH,
@@ -185,6 +186,15 @@ describe('Constants Validation', () => {
     it('should have positive snapshot buffer size', () => {
       expect(SNAPSHOT_BUFFER_SIZE).toBeGreaterThan(0);
     });
+
+    it('snapshot buffer should cover the interpolation delay', () => {
+      expect(SNAPSHOT_BUFFER_SIZE * (1000 / SNAPSHOT_RATE)).toBeGreaterThan(INTERPOLATION_DELAY);
+    });
+
+    it('extrapolation should be bounded', () => {
+      expect(MAX_EXTRAPOLATION).toBeGreaterThan(0);
+      expect(MAX_EXTRAPOLATION).toBeLessThanOrEqual(500);
+    });
   });
 
   describe('map constants', () => {
@@ -140,6 +140,22 @@ describe('GameDatabase', () => {
       expect(lb.length).toBe(3);
     });
 
+    it('should rank coop players by their best wave', () => {
+      const a = db.onPlayerLogin('wave-1', 'Survivor');
+      const b = db.onPlayerLogin('wave-2', 'Rookie');
+      db.recordCoopRun(a, 4);
+      db.recordCoopRun(a, 9);
+      db.recordCoopRun(b, 6);
+
+      const lb = db.getLeaderboard('wave', 'alltime');
+      expect(lb.map((e) => [e.nickname, e.value])).toEqual([['Survivor', 9], ['Rookie', 6]]);
+    });
+
+    it('should ignore coop runs for unknown sessions', () => {
+      db.recordCoopRun(9999, 5);
+      expect(db.getLeaderboard('wave', 'alltime').length).toBe(0);
+    });
+
     it('should return empty for alltime with no data', () => {
       const freshDb = new GameDatabase(dbPath + '.fresh');
       const lb = freshDb.getLeaderboard('kills', 'alltime');
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { Vec3 } from '@tankgame/shared';
+import { Vec3, CONTROL_POINT_COUNT, CONTROL_POINT_RADIUS } from '@tankgame/shared';
 import { MapGenerator } from '../../packages/server/src/MapGenerator.js';
 
 describe('MapGenerator', () => {
@@ -24,6 +24,17 @@ describe('MapGenerator', () => {
       }
     });
 
+    it('should place control points in the central area', () => {
+      const map = MapGenerator.generate(12345);
+      expect(map.controlPoints.length).toBe(CONTROL_POINT_COUNT);
+      for (const point of map.controlPoints) {
+        expect(point.radius).toBe(CONTROL_POINT_RADIUS);
+        expect(point.center.distanceTo(Vec3.zero())).toBeLessThan(map.width / 4);
+      }
+      // 两队基地（东西两侧）与每个控制点等距
+      expect(map.controlPoints.every((p) => p.center.x === 0)).toBe(true);
+    });
+
     it('should generate covers', () => {
       const map = MapGenerator.generate(12345);
       expect(map.covers.length).toBeGreaterThan(0);
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  NetworkSimulator,
+  parseNetworkConditions,
+  describeNetworkConditions,
+} from '@tankgame/shared';
+import type { NetworkConditions } from '@tankgame/shared';
+
+/** 手动推进的时钟 + 调度器 */
+class FakeClock {
+  time = 0;
+  private queue: { at: number; order: number; fn: () => void }[] = [];
+  private order = 0;
+
+  schedule = (fn: () => void, delayMs: number): void => {
+    this.queue.push({ at: this.time + delayMs, order: this.order++, fn });
+  };
+
+  now = (): number => this.time;
+
+  /** 推进到指定时间，按到期顺序执行 */
+  advance(ms: number): void {
+    this.time += ms;
+    const due = this.queue
+      .filter((q) => q.at <= this.time)
+      .sort((a, b) => a.at - b.at || a.order - b.order);
+    this.queue = this.queue.filter((q) => q.at > this.time);
+    for (const q of due) q.fn();
+  }
+}
+
+/** 按给定序列循环返回的伪随机数 */
+function sequence(values: number[]): () => number {
+  let i = 0;
+  return () => values[i++ % values.length];
+}
+
+function conditions(overrides: Partial<NetworkConditions>): NetworkConditions {
+  return { latency: 0, jitter: 0, drop: 0, reorder: 0, ...overrides };
+}
+
+describe('parseNetworkConditions', () => {
+  it('should parse all fields with percentages', () => {
+    expect(parseNetworkConditions('latency=75,jitter=10,drop=5%,reorder=1%')).toEqual({
+      latency: 75,
+      jitter: 10,
+      drop: 0.05,
+      reorder: 0.01,
+    });
+  });
+
+  it('should accept ratios, colons and whitespace', () => {
+    expect(parseNetworkConditions(' latency: 40 , drop=0.2 ')).toEqual({
+      latency: 40,
+      jitter: 0,
+      drop: 0.2,
+      reorder: 0,
+    });
+  });
+
+  it('should clamp rates to 1', () => {
+    expect(parseNetworkConditions('drop=150%')!.drop).toBe(1);
+  });
+
+  it('should reject unknown keys and malformed values', () => {
+    expect(parseNetworkConditions('lag=50')).toBeNull();
+    expect(parseNetworkConditions('latency=abc')).toBeNull();
+    expect(parseNetworkConditions('latency=-5')).toBeNull();
+  });
+
+  it('should return null when nothing is active', () => {
+    expect(parseNetworkConditions('')).toBeNull();
+    expect(parseNetworkConditions('latency=0,drop=0%')).toBeNull();
+  });
+
+  it('should describe conditions for logs', () => {
+    const text = describeNetworkConditions(conditions({ latency: 75, jitter: 10, drop: 0.05 }));
+    expect(text).toContain('75ms');
+    expect(text).toContain('5.0%');
+  });
+});
+
+describe('NetworkSimulator', () => {
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    clock = new FakeClock();
+  });
+
+  it('should delay delivery by the configured latency', () => {
+    const sim = new NetworkSimulator(conditions({ latency: 50 }), clock.schedule, clock.now);
+    const received: number[] = [];
+    sim.send(() => received.push(1));
+
+    clock.advance(49);
+    expect(received).toEqual([]);
+    clock.advance(1);
+    expect(received).toEqual([1]);
+  });
+
+  it('should drop droppable messages at the configured rate', () => {
+    const sim = new NetworkSimulator(conditions({ drop: 1 }), clock.schedule, clock.now);
+    const received: number[] = [];
+
+    expect(sim.send(() => received.push(1))).toBe(true);
+    clock.advance(100);
+    expect(received).toEqual([]);
+  });
+
+  it('should never drop messages marked as non-droppable', () => {
+    const sim = new NetworkSimulator(conditions({ drop: 1 }), clock.schedule, clock.now);
+    const received: number[] = [];
+
+    expect(sim.send(() => received.push(1), false)).toBe(false);
+    clock.advance(0);
+    expect(received).toEqual([1]);
+  });
+
+  it('should keep messages in order under jitter', () => {
+    // 第一条 +jitter，第二条 -jitter：若不保序，第二条会先到
+    const sim = new NetworkSimulator(
+      conditions({ latency: 50, jitter: 20 }),
+      clock.schedule,
+      clock.now,
+      sequence([1, 0])
+    );
+    const received: number[] = [];
+    sim.send(() => received.push(1));
+    clock.advance(5);
+    sim.send(() => received.push(2));
+
+    clock.advance(200);
+    expect(received).toEqual([1, 2]);
+  });
+
+  it('should hold back reordered messages behind later ones', () => {
+    // reorder 判定依次为：命中、未命中
+    const sim = new NetworkSimulator(
+      conditions({ latency: 20, reorder: 0.5 }),
+      clock.schedule,
+      clock.now,
+      sequence([0, 0.9])
+    );
+    const received: number[] = [];
+    sim.send(() => received.push(1));
+    sim.send(() => received.push(2));
+
+    clock.advance(30);
+    expect(received).toEqual([2]);
+    clock.advance(100);
+    expect(received).toEqual([2, 1]);
+  });
+});
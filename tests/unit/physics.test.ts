@@ -6,6 +6,7 @@ import {
   getBarrelDirection,
   getMuzzlePosition,
   updateTankPhysics,
+  resolveTankMapCollision,
   updateProjectile,
   calculateMuzzleVelocity,
   calculateSplashDamage,
@@ -16,6 +17,9 @@ import {
   clamp,
   lerp,
   lerpAngle,
+  TANK_COLLISION_RADIUS,
+  TankClass,
+  TANK_CLASS_STATS,
 } from '@tankgame/shared';
 import type { TankPhysicsState, PhysicsInput } from '@tankgame/shared';
 
@@ -403,6 +407,72 @@ describe('updateTankPhysics', () => {
     updateTankPhysics(tank, input, 1 / 60);
     expect(tank.gunPitch).toBeLessThanOrEqual(0.5); // GUN_PITCH_MAX
   });
+
+  it('should use the tank class speed limit', () => {
+    const light = { ...makeTank(), tankClass: TankClass.Light };
+    const heavy = { ...makeTank(), tankClass: TankClass.Heavy };
+    const input = { ...noInput, forward: true };
+
+    for (let i = 0; i < 600; i++) {
+      updateTankPhysics(light, input, 1 / 60);
+      updateTankPhysics(heavy, input, 1 / 60);
+    }
+
+    expect(light.velocity.length()).toBeGreaterThan(heavy.velocity.length());
+    expect(heavy.velocity.length()).toBeLessThanOrEqual(TANK_CLASS_STATS[TankClass.Heavy].maxSpeed + 0.01);
+  });
+
+  it('should clamp a tank destroyer turret to its narrow arc', () => {
+    const tank = { ...makeTank(), tankClass: TankClass.Destroyer };
+    const input = { ...noInput, turretYaw: 1.5 };
+    for (let i = 0; i < 120; i++) {
+      updateTankPhysics(tank, input, 1 / 60);
+    }
+    expect(tank.turretYaw).toBeCloseTo(TANK_CLASS_STATS[TankClass.Destroyer].turretYawMax, 5);
+  });
+});
+
+describe('resolveTankMapCollision', () => {
+  function makeTank(x: number, z: number, vx: number = 0, vz: number = 0): TankPhysicsState {
+    return {
+      position: new Vec3(x, 0, z),
+      velocity: new Vec3(vx, 0, vz),
+      bodyYaw: 0,
+      turretYaw: 0,
+      gunPitch: 0,
+    };
+  }
+
+  it('should push the tank out of a cover', () => {
+    const tank = makeTank(3, 0, -5, 0);
+    const cover = { position: { x: 0, z: 0 }, radius: 2 };
+    resolveTankMapCollision(tank, [cover], 200, 200);
+    expect(tank.position.x).toBeCloseTo(2 + TANK_COLLISION_RADIUS, 4);
+    // 朝向掩体的速度分量被消除
+    expect(tank.velocity.x).toBeCloseTo(0, 4);
+  });
+
+  it('should keep velocity moving away from the cover', () => {
+    const tank = makeTank(3, 0, 5, 2);
+    resolveTankMapCollision(tank, [{ position: { x: 0, z: 0 }, radius: 2 }], 200, 200);
+    expect(tank.velocity.x).toBe(5);
+    expect(tank.velocity.z).toBe(2);
+  });
+
+  it('should clamp to map bounds and stop outward velocity', () => {
+    const tank = makeTank(205, -210, 8, -3);
+    resolveTankMapCollision(tank, [], 200, 200);
+    expect(tank.position.x).toBe(200);
+    expect(tank.position.z).toBe(-200);
+    expect(tank.velocity.x).toBe(0);
+    expect(tank.velocity.z).toBe(0);
+  });
+
+  it('should resample terrain height after pushing', () => {
+    const tank = makeTank(250, 0);
+    resolveTankMapCollision(tank, [], 200, 200, (x) => x / 100);
+    expect(tank.position.y).toBeCloseTo(2, 6);
+  });
 });
 
 describe('updateProjectile', () => {
@@ -514,4 +584,10 @@ describe('calculateSplashDamage', () => {
     const damage = calculateSplashDamage(hit, target);
       expect(damage).toBeCloseTo(20 * 0.5 * 0.5, 1); // half falloff
   });
+
+  it('should honor a custom radius and factor', () => {
+    const hit = new Vec3(0, 0, 0);
+    const target = new Vec3(3.5, 0, 0); // 超出默认半径，但在 7m 内
+    expect(calculateSplashDamage(hit, target, 20, 7, 0.8)).toBeCloseTo(20 * 0.5 * 0.8, 5);
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { Vec3, TANK_MAX_HP } from '@tankgame/shared';
+import { Vec3, TANK_MAX_HP, TankClass, TANK_CLASS_STATS, AmmoType, AMMO_STATS } from '@tankgame/shared';
 import { Player } from '../../packages/server/src/Player.js';
 
 describe('Player', () => {
@@ -34,6 +34,24 @@ describe('Player', () => {
     });
   });
 
+  describe('tank class', () => {
+    it('should default to medium', () => {
+      expect(player.tankClass).toBe(TankClass.Medium);
+      expect(player.stats.maxHp).toBe(TANK_MAX_HP);
+    });
+
+    it('should apply class HP immediately when set', () => {
+      player.setTankClass(TankClass.Light);
+      expect(player.hp).toBe(TANK_CLASS_STATS[TankClass.Light].maxHp);
+      expect(player.toSnapshot().tankClass).toBe(TankClass.Light);
+    });
+
+    it('should ignore selecting the current class', () => {
+      player.selectClass(TankClass.Medium);
+      expect(player.pendingClass).toBeNull();
+    });
+  });
+
   describe('takeDamage', () => {
     it('should reduce HP', () => {
       player.takeDamage(30);
@@ -86,6 +104,17 @@ describe('Player', () => {
       expect(player.lastSpawnPositions[0].x).toBe(10);
     });
 
+    it('should switch to the selected class on respawn', () => {
+      player.selectClass(TankClass.Heavy);
+      expect(player.tankClass).toBe(TankClass.Medium);
+
+      player.takeDamage(TANK_MAX_HP);
+      player.respawn(new Vec3(0, 0, 0));
+      expect(player.tankClass).toBe(TankClass.Heavy);
+      expect(player.pendingClass).toBeNull();
+      expect(player.hp).toBe(TANK_CLASS_STATS[TankClass.Heavy].maxHp);
+    });
+
     it('should limit spawn history to 5', () => {
       for (let i = 0; i < 10; i++) {
         player.respawn(new Vec3(i, 0, 0));
@@ -112,6 +141,18 @@ describe('Player', () => {
       expect(player.tryFire()).toBe(false);
     });
 
+    it('should use the class reload time', () => {
+      player.setTankClass(TankClass.Light);
+      player.tryFire();
+      expect(player.reloadRemain).toBe(TANK_CLASS_STATS[TankClass.Light].reloadTime);
+    });
+
+    it('should scale the reload time by the loaded ammo', () => {
+      player.ammoType = AmmoType.Smoke;
+      player.tryFire();
+      expect(player.reloadRemain).toBe(2500 * AMMO_STATS[AmmoType.Smoke].reloadFactor);
+    });
+
     it('should succeed after reload completes', () => {
       player.tryFire();
       player.updateReload(2500);
@@ -185,6 +226,56 @@ describe('Player', () => {
     });
   });
 
+  describe('receiveInput (redundant packets)', () => {
+    it('should recover a lost shot from the redundant frames', () => {
+      player.receiveInput({ seq: 1 } as any);
+      // seq 2 (fire) lost; seq 3 carries 1 and 2
+      player.receiveInput({
+        seq: 3,
+        redundant: [{ seq: 1 }, { seq: 2, fire: true }],
+      } as any);
+
+      expect(player.popInput()?.seq).toBe(1);
+      const second = player.popInput();
+      expect(second?.seq).toBe(2);
+      expect(second?.fire).toBe(true);
+      expect(player.popInput()?.seq).toBe(3);
+    });
+
+    it('should drop duplicates and stale frames', () => {
+      player.receiveInput({ seq: 2, redundant: [{ seq: 1 }] } as any);
+      player.receiveInput({ seq: 3, redundant: [{ seq: 1 }, { seq: 2 }] } as any);
+      player.receiveInput({ seq: 2 } as any);
+
+      expect(player.inputQueue.map((c) => c.seq)).toEqual([1, 2, 3]);
+    });
+
+    it('should not replay frames sent while dead after respawning', () => {
+      player.takeDamage(TANK_MAX_HP);
+      player.receiveInput({ seq: 1, fire: true } as any);
+      player.receiveInput({ seq: 2, redundant: [{ seq: 1, fire: true }] } as any);
+      expect(player.inputQueue).toHaveLength(0);
+
+      player.respawn(new Vec3(0, 0, 0));
+      player.receiveInput({ seq: 3, redundant: [{ seq: 1, fire: true }, { seq: 2 }] } as any);
+      expect(player.inputQueue.map((c) => c.seq)).toEqual([3]);
+      expect(player.inputQueue[0].fire).toBeUndefined();
+    });
+
+    it('should process frames in seq order regardless of packing order', () => {
+      player.receiveInput({ seq: 5, redundant: [{ seq: 4 }, { seq: 3 }] } as any);
+      expect(player.inputQueue.map((c) => c.seq)).toEqual([3, 4, 5]);
+    });
+
+    it('should not leave redundant frames on queued commands', () => {
+      player.receiveInput({ type: 0x02, seq: 2, redundant: [{ seq: 1 }] } as any);
+      for (const cmd of player.inputQueue) {
+        expect(cmd.redundant).toBeUndefined();
+        expect(cmd.type).toBe(0x02);
+      }
+    });
+  });
+
   describe('toSnapshot', () => {
     it('should return correct snapshot data', () => {
       player.position.set(10, 5, 20);
@@ -2,8 +2,84 @@ import { describe, it, expect } from 'vitest';
 import {
   MessageType,
   GameEventType,
+  DeathReason,
   RoomState,
+  WireFormat,
+  ErrorCode,
+  Team,
+  TankClass,
+  ArmorFacing,
+  AmmoType,
+  FlagState,
+  WavePhase,
+  Vec3,
+  PROTOCOL_VERSION,
+  CONTENT_VERSION,
+  isCompatibleVersion,
+  encodeSnapshot,
+  encodeInputCmd,
+  encodeGameEvent,
+  decodeBinaryMessage,
 } from '@tankgame/shared';
+import type {
+  SnapshotMessage,
+  InputCmd,
+  GameEventMessage,
+  TankSnapshot,
+} from '@tankgame/shared';
+
+function makeTank(id: number, overrides: Partial<TankSnapshot> = {}): TankSnapshot {
+  return {
+    entityId: id,
+    position: new Vec3(12.5 + id, 3.25, -87.75),
+    bodyYaw: 1.2,
+    turretYaw: -0.8,
+    gunPitch: 0.12,
+    velocity: new Vec3(4.2, 0, -7.9),
+    hp: 80,
+    alive: true,
+    reloadRemain: 1200,
+    kills: 3,
+    deaths: 1,
+    nickname: `坦克${id}`,
+    isBot: id >= 100,
+    team: Team.None,
+    tankClass: TankClass.Medium,
+    ...overrides,
+  };
+}
+
+function makeSnapshot(tankCount: number): SnapshotMessage {
+  const tanks: TankSnapshot[] = [];
+  for (let i = 0; i < tankCount; i++) {
+    tanks.push(makeTank(i < 2 ? i + 1 : 100 + i));
+  }
+  return {
+    type: MessageType.Snapshot,
+    serverTick: 12345,
+    snapshotId: 4115,
+    timestamp: 1760000000123,
+    lastProcessedSeq: 987,
+    tanks,
+    projectiles: [
+      {
+        projectileId: 77,
+        position: new Vec3(-300.5, 45.125, 610),
+        velocity: new Vec3(60, -12.34, -50),
+        ttl: 3200,
+        ammoType: AmmoType.AP,
+      },
+    ],
+    playerCount: tankCount,
+    humanCount: 2,
+    teamScores: [],
+    flags: [],
+    controlPoints: [],
+    zone: null,
+    wave: null,
+    smoke: [],
+  };
+}
 
 describe('Protocol', () => {
   describe('MessageType enum', () => {
@@ -20,6 +96,7 @@ describe('Protocol', () => {
       expect(MessageType.GameEvent).toBe(0x83);
       expect(MessageType.Pong).toBe(0x84);
       expect(MessageType.RoundEnd).toBe(0x85);
+      expect(MessageType.Error).toBe(0x8a);
     });
 
     it('should have non-overlapping client and server ranges', () => {
@@ -54,6 +131,27 @@ describe('Protocol', () => {
       expect(GameEventType.Respawn).toBe('respawn');
       expect(GameEventType.RoundStart).toBe('round_start');
       expect(GameEventType.RoundEnd).toBe('round_end');
+      expect(GameEventType.Ricochet).toBe('ricochet');
+    });
+  });
+
+  describe('version handshake', () => {
+    it('should accept matching protocol and content versions', () => {
+      expect(isCompatibleVersion(PROTOCOL_VERSION, CONTENT_VERSION)).toBe(true);
+    });
+
+    it('should reject a different protocol or content version', () => {
+      expect(isCompatibleVersion(PROTOCOL_VERSION + 1, CONTENT_VERSION)).toBe(false);
+      expect(isCompatibleVersion(PROTOCOL_VERSION, CONTENT_VERSION - 1)).toBe(false);
+    });
+
+    it('should reject clients that send no version', () => {
+      expect(isCompatibleVersion(undefined, undefined)).toBe(false);
+    });
+
+    it('should have string error codes', () => {
+      expect(ErrorCode.VersionMismatch).toBe('version_mismatch');
+      expect(ErrorCode.RoomFull).toBe('room_full');
     });
   });
 
@@ -66,6 +164,390 @@ describe('Protocol', () => {
   });
 });
 
+describe('Binary codec', () => {
+  it('should round-trip a snapshot within quantization error', () => {
+    const snap = makeSnapshot(10);
+    const decoded = decodeBinaryMessage(encodeSnapshot(snap)) as SnapshotMessage;
+
+    expect(decoded.type).toBe(MessageType.Snapshot);
+    expect(decoded.serverTick).toBe(snap.serverTick);
+    expect(decoded.snapshotId).toBe(snap.snapshotId);
+    expect(decoded.timestamp).toBe(snap.timestamp);
+    expect(decoded.lastProcessedSeq).toBe(snap.lastProcessedSeq);
+    expect(decoded.playerCount).toBe(10);
+    expect(decoded.humanCount).toBe(2);
+    expect(decoded.tanks).toHaveLength(10);
+
+    for (let i = 0; i < snap.tanks.length; i++) {
+      const a = snap.tanks[i];
+      const b = decoded.tanks[i];
+      expect(b.entityId).toBe(a.entityId);
+      expect(b.position.distanceTo(a.position)).toBeLessThan(0.05);
+      expect(b.velocity.distanceTo(a.velocity)).toBeLessThan(0.02);
+      expect(b.bodyYaw).toBeCloseTo(a.bodyYaw, 3);
+      expect(b.turretYaw).toBeCloseTo(a.turretYaw, 3);
+      expect(b.gunPitch).toBeCloseTo(a.gunPitch, 3);
+      expect(b.hp).toBe(a.hp);
+      expect(b.alive).toBe(a.alive);
+      expect(b.isBot).toBe(a.isBot);
+      expect(b.reloadRemain).toBe(a.reloadRemain);
+      expect(b.kills).toBe(a.kills);
+      expect(b.deaths).toBe(a.deaths);
+      expect(b.nickname).toBe(a.nickname);
+    }
+
+    const proj = decoded.projectiles[0];
+    expect(proj.projectileId).toBe(77);
+    expect(proj.position.distanceTo(snap.projectiles[0].position)).toBeLessThan(0.05);
+    expect(proj.velocity.distanceTo(snap.projectiles[0].velocity)).toBeLessThan(0.02);
+    expect(proj.ttl).toBe(3200);
+  });
+
+  it('binary snapshot should be much smaller than JSON', () => {
+    const snap = makeSnapshot(10);
+    const binarySize = encodeSnapshot(snap).byteLength;
+    const jsonSize = new TextEncoder().encode(JSON.stringify(snap)).byteLength;
+    expect(binarySize * 4).toBeLessThan(jsonSize);
+  });
+
+  it('should keep dead tanks and fractional HP', () => {
+    const snap = makeSnapshot(1);
+    snap.tanks[0] = makeTank(1, { alive: false, hp: 42.5 });
+    const decoded = decodeBinaryMessage(encodeSnapshot(snap)) as SnapshotMessage;
+    expect(decoded.tanks[0].alive).toBe(false);
+    expect(decoded.tanks[0].hp).toBe(42.5);
+  });
+
+  it('should round-trip teams and team scores', () => {
+    const snap = makeSnapshot(2);
+    snap.tanks[0] = makeTank(1, { team: Team.Red });
+    snap.tanks[1] = makeTank(2, { team: Team.Blue });
+    snap.teamScores = [12, 300];
+    const decoded = decodeBinaryMessage(encodeSnapshot(snap)) as SnapshotMessage;
+    expect(decoded.tanks.map((t) => t.team)).toEqual([Team.Red, Team.Blue]);
+    expect(decoded.teamScores).toEqual([12, 300]);
+    expect((decodeBinaryMessage(encodeSnapshot(makeSnapshot(1))) as SnapshotMessage).teamScores).toEqual([]);
+  });
+
+  it('should round-trip tank classes', () => {
+    const snap = makeSnapshot(2);
+    snap.tanks[0] = makeTank(1, { tankClass: TankClass.Light });
+    snap.tanks[1] = makeTank(2, { tankClass: TankClass.Destroyer });
+    const decoded = decodeBinaryMessage(encodeSnapshot(snap)) as SnapshotMessage;
+    expect(decoded.tanks.map((t) => t.tankClass)).toEqual([TankClass.Light, TankClass.Destroyer]);
+  });
+
+  it('should round-trip flags', () => {
+    const snap = makeSnapshot(1);
+    snap.flags = [
+      { team: Team.Red, state: FlagState.Carried, position: new Vec3(-20, 2, 5), carrierId: 101 },
+      { team: Team.Blue, state: FlagState.AtBase, position: new Vec3(160, 3, 0), carrierId: null },
+    ];
+    const decoded = decodeBinaryMessage(encodeSnapshot(snap)) as SnapshotMessage;
+    expect(decoded.flags.map((f) => [f.team, f.state, f.carrierId])).toEqual([
+      [Team.Red, FlagState.Carried, 101],
+      [Team.Blue, FlagState.AtBase, null],
+    ]);
+    expect(decoded.flags[1].position.distanceTo(snap.flags[1].position)).toBeLessThan(0.05);
+  });
+
+  it('should round-trip control points', () => {
+    const snap = makeSnapshot(1);
+    snap.controlPoints = [
+      { id: 0, owner: Team.Red, capturingTeam: Team.Red, progress: 1 },
+      { id: 1, owner: Team.None, capturingTeam: Team.Blue, progress: 0.4 },
+      { id: 2, owner: Team.None, capturingTeam: Team.None, progress: 0 },
+    ];
+    const decoded = decodeBinaryMessage(encodeSnapshot(snap)) as SnapshotMessage;
+    expect(decoded.controlPoints.map((p) => [p.id, p.owner, p.capturingTeam])).toEqual([
+      [0, Team.Red, Team.Red],
+      [1, Team.None, Team.Blue],
+      [2, Team.None, Team.None],
+    ]);
+    expect(decoded.controlPoints[0].progress).toBe(1);
+    expect(decoded.controlPoints[1].progress).toBeCloseTo(0.4, 2);
+  });
+
+  it('should round-trip the safe zone', () => {
+    const snap = makeSnapshot(1);
+    snap.zone = { center: new Vec3(-35.5, 0, 80.25), radius: 156.4, nextShrinkIn: 12_345 };
+    const decoded = decodeBinaryMessage(encodeSnapshot(snap)) as SnapshotMessage;
+    expect(decoded.zone!.center.distanceTo(snap.zone.center)).toBeLessThan(0.05);
+    expect(decoded.zone!.radius).toBeCloseTo(156.4, 2);
+    expect(decoded.zone!.nextShrinkIn).toBe(12_345);
+    expect((decodeBinaryMessage(encodeSnapshot(makeSnapshot(1))) as SnapshotMessage).zone).toBeNull();
+  });
+
+  it('should round-trip the coop wave state', () => {
+    const snap = makeSnapshot(1);
+    snap.wave = { wave: 12, phase: WavePhase.Repair, botsRemaining: 0, lives: 3, phaseTimeRemaining: 9_950 };
+    const decoded = decodeBinaryMessage(encodeSnapshot(snap)) as SnapshotMessage;
+    expect(decoded.wave).toEqual(snap.wave);
+    expect((decodeBinaryMessage(encodeSnapshot(makeSnapshot(1))) as SnapshotMessage).wave).toBeNull();
+  });
+
+  it('should round-trip projectile ammo types and smoke clouds', () => {
+    const snap = makeSnapshot(1);
+    snap.projectiles[0].ammoType = AmmoType.Smoke;
+    snap.smoke = [
+      { id: 3, position: new Vec3(40.5, 6.25, -12), radius: 8, remaining: 11_950 },
+      { id: 4, position: new Vec3(-5, 0, 5), radius: 7.5, remaining: 200 },
+    ];
+    const decoded = decodeBinaryMessage(encodeSnapshot(snap)) as SnapshotMessage;
+    expect(decoded.projectiles[0].ammoType).toBe(AmmoType.Smoke);
+    expect(decoded.smoke.map((c) => [c.id, c.radius, c.remaining])).toEqual([
+      [3, 8, 11_950],
+      [4, 7.5, 200],
+    ]);
+    expect(decoded.smoke[0].position.distanceTo(snap.smoke[0].position)).toBeLessThan(0.05);
+    expect((decodeBinaryMessage(encodeSnapshot(makeSnapshot(1))) as SnapshotMessage).smoke).toEqual([]);
+  });
+
+  it('should round-trip an InputCmd', () => {
+    const cmd: InputCmd = {
+      type: MessageType.InputCmd,
+      seq: 123456,
+      forward: true,
+      backward: false,
+      turnLeft: false,
+      turnRight: true,
+      turretYaw: -2.1,
+      gunPitch: 0.33,
+      fire: true,
+      stabilize: true,
+      timestamp: 98765.4321,
+    };
+    const decoded = decodeBinaryMessage(encodeInputCmd(cmd)) as InputCmd;
+    expect(decoded.type).toBe(MessageType.InputCmd);
+    expect(decoded.seq).toBe(cmd.seq);
+    expect(decoded.forward).toBe(true);
+    expect(decoded.backward).toBe(false);
+    expect(decoded.turnLeft).toBe(false);
+    expect(decoded.turnRight).toBe(true);
+    expect(decoded.fire).toBe(true);
+    expect(decoded.stabilize).toBe(true);
+    expect(decoded.turretYaw).toBeCloseTo(cmd.turretYaw, 3);
+    expect(decoded.gunPitch).toBeCloseTo(cmd.gunPitch, 3);
+    expect(decoded.timestamp).toBe(cmd.timestamp);
+  });
+
+  it('should round-trip redundant input frames', () => {
+    const frame = {
+      forward: false,
+      backward: true,
+      turnLeft: true,
+      turnRight: false,
+      turretYaw: 0.5,
+      gunPitch: -0.1,
+      stabilize: false,
+      timestamp: 1000,
+    };
+    const cmd: InputCmd = {
+      type: MessageType.InputCmd,
+      ...frame,
+      seq: 12,
+      fire: false,
+      timestamp: 1066,
+      ackSnapshotId: 40,
+      viewTick: 300,
+      redundant: [
+        { ...frame, seq: 10, fire: false, viewTick: 296 },
+        { ...frame, seq: 11, fire: true, viewTick: 298 },
+      ],
+    };
+    const decoded = decodeBinaryMessage(encodeInputCmd(cmd)) as InputCmd;
+    expect(decoded.seq).toBe(12);
+    expect(decoded.ackSnapshotId).toBe(40);
+    expect(decoded.viewTick).toBe(300);
+    expect(decoded.redundant).toHaveLength(2);
+    expect(decoded.redundant![0].seq).toBe(10);
+    expect(decoded.redundant![1].fire).toBe(true);
+    expect(decoded.redundant![1].viewTick).toBe(298);
+    expect(decoded.redundant![1].backward).toBe(true);
+  });
+
+  it('should round-trip the selected ammo type', () => {
+    const base: InputCmd = {
+      type: MessageType.InputCmd,
+      seq: 5,
+      forward: false,
+      backward: false,
+      turnLeft: false,
+      turnRight: false,
+      turretYaw: 0,
+      gunPitch: 0,
+      fire: true,
+      stabilize: false,
+      timestamp: 0,
+    };
+    const he = decodeBinaryMessage(encodeInputCmd({ ...base, ammoType: AmmoType.HE })) as InputCmd;
+    expect(he.ammoType).toBe(AmmoType.HE);
+    // 默认弹种不写入，解码后缺省
+    const ap = decodeBinaryMessage(encodeInputCmd({ ...base, ammoType: AmmoType.AP })) as InputCmd;
+    expect(ap.ammoType).toBeUndefined();
+  });
+
+  it('should omit redundant when none were sent', () => {
+    const decoded = decodeBinaryMessage(
+      encodeInputCmd({
+        type: MessageType.InputCmd,
+        seq: 1,
+        forward: false,
+        backward: false,
+        turnLeft: false,
+        turnRight: false,
+        turretYaw: 0,
+        gunPitch: 0,
+        fire: false,
+        stabilize: false,
+        timestamp: 0,
+      })
+    ) as InputCmd;
+    expect(decoded.redundant).toBeUndefined();
+  });
+
+  it('should round-trip every game event variant', () => {
+    const events: GameEventMessage[] = [
+      {
+        type: MessageType.GameEvent,
+        serverTick: 10,
+        event: {
+          eventType: GameEventType.Fire,
+          shooterId: 3,
+          muzzlePos: new Vec3(1, 2, 3),
+          muzzleDir: new Vec3(0, 0.6, -0.8),
+          projectileId: 99,
+          serverTick: 10,
+          ammoType: AmmoType.HE,
+        },
+      },
+      {
+        type: MessageType.GameEvent,
+        serverTick: 11,
+        event: {
+          eventType: GameEventType.Hit,
+          projectileId: 99,
+          shooterId: 3,
+          targetId: 101,
+          hitPos: new Vec3(4, 5, 6),
+          damage: 24.5,
+          facing: ArmorFacing.Side,
+          rewindTicks: 9,
+          targetPos: new Vec3(4.5, 4, 6.5),
+        },
+      },
+      {
+        type: MessageType.GameEvent,
+        serverTick: 12,
+        event: {
+          eventType: GameEventType.Explode,
+          projectileId: 99,
+          pos: new Vec3(4, 5, 6),
+          radius: 3,
+        },
+      },
+      {
+        type: MessageType.GameEvent,
+        serverTick: 13,
+        event: {
+          eventType: GameEventType.Death,
+          victimId: 101,
+          killerId: 3,
+          reason: DeathReason.Killed,
+          pos: new Vec3(4, 5, 6),
+        },
+      },
+      {
+        type: MessageType.GameEvent,
+        serverTick: 13,
+        event: {
+          eventType: GameEventType.Death,
+          victimId: 102,
+          killerId: 0,
+          reason: DeathReason.Zone,
+          pos: new Vec3(-40, 2, 96),
+        },
+      },
+      {
+        type: MessageType.GameEvent,
+        serverTick: 14,
+        event: {
+          eventType: GameEventType.Respawn,
+          playerId: 101,
+          spawnPos: new Vec3(-170, 2, 170),
+        },
+      },
+      {
+        type: MessageType.GameEvent,
+        serverTick: 15,
+        event: {
+          eventType: GameEventType.RoundEnd,
+          scoreboard: [
+            { playerId: 3, nickname: 'Alice', kills: 5, deaths: 2, hits: 9, shots: 20, team: Team.Blue },
+          ],
+        },
+      },
+      {
+        type: MessageType.GameEvent,
+        serverTick: 16,
+        event: { eventType: GameEventType.FlagTaken, team: Team.Red, playerId: 4 },
+      },
+      {
+        type: MessageType.GameEvent,
+        serverTick: 17,
+        event: { eventType: GameEventType.FlagDropped, team: Team.Red, playerId: 4, pos: new Vec3(20, 1.5, -8) },
+      },
+      {
+        type: MessageType.GameEvent,
+        serverTick: 18,
+        event: { eventType: GameEventType.FlagReturned, team: Team.Red, playerId: null },
+      },
+      {
+        type: MessageType.GameEvent,
+        serverTick: 19,
+        event: { eventType: GameEventType.FlagCaptured, team: Team.Blue, playerId: 101 },
+      },
+      {
+        type: MessageType.GameEvent,
+        serverTick: 20,
+        event: {
+          eventType: GameEventType.Ricochet,
+          projectileId: 100,
+          shooterId: 3,
+          targetId: 101,
+          pos: new Vec3(4, 5, 6),
+          dir: new Vec3(0.6, 0, -0.8),
+          facing: ArmorFacing.Front,
+        },
+      },
+    ];
+
+    for (const msg of events) {
+      const decoded = decodeBinaryMessage(encodeGameEvent(msg)) as GameEventMessage;
+      expect(decoded.type).toBe(MessageType.GameEvent);
+      expect(decoded.serverTick).toBe(msg.serverTick);
+      expect(decoded.event.eventType).toBe(msg.event.eventType);
+      // 量化后与原值逐字段近似相等（向量按分量比较）
+      expect(JSON.parse(JSON.stringify(decoded.event), (_k, v) =>
+        typeof v === 'number' ? Math.round(v * 100) / 100 : v
+      )).toEqual(JSON.parse(JSON.stringify(msg.event), (_k, v) =>
+        typeof v === 'number' ? Math.round(v * 100) / 100 : v
+      ));
+    }
+  });
+
+  it('should reject unsupported or truncated frames', () => {
+    expect(() => decodeBinaryMessage(new Uint8Array([MessageType.JoinAck]))).toThrow();
+    const truncated = encodeSnapshot(makeSnapshot(2)).slice(0, 20);
+    expect(() => decodeBinaryMessage(truncated)).toThrow();
+  });
+
+  it('WireFormat should have json and binary', () => {
+    expect(WireFormat.Json).toBe('json');
+    expect(WireFormat.Binary).toBe('binary');
+  });
+});
+
 describe('Constants', () => {
   it('should export required constants', async () => {
     const constants = await import('@tankgame/shared');
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Vec3,
+  MAP_WIDTH,
+  MAP_DEPTH,
+  TICK_INTERVAL,
+  ZONE_INITIAL_RADIUS,
+  ZONE_MIN_RADIUS,
+  ZONE_SHRINK_FACTOR,
+  ZONE_SHRINK_DELAY,
+  ZONE_SHRINK_DURATION,
+} from '@tankgame/shared';
+import { SafeZone } from '../../packages/server/src/SafeZone.js';
+
+function advance(zone: SafeZone, ms: number): void {
+  for (let t = 0; t < ms; t += TICK_INTERVAL) zone.update(TICK_INTERVAL);
+}
+
+describe('SafeZone', () => {
+  it('should start centered and covering the whole map', () => {
+    const zone = new SafeZone(MAP_WIDTH, MAP_DEPTH);
+    expect(zone.radius).toBe(ZONE_INITIAL_RADIUS);
+    expect(zone.contains(new Vec3(MAP_WIDTH / 2, 0, MAP_DEPTH / 2))).toBe(true);
+    expect(zone.nextShrinkIn).toBe(ZONE_SHRINK_DELAY);
+  });
+
+  it('should wait before shrinking', () => {
+    const zone = new SafeZone(MAP_WIDTH, MAP_DEPTH);
+    advance(zone, ZONE_SHRINK_DELAY / 2);
+    expect(zone.radius).toBe(ZONE_INITIAL_RADIUS);
+    expect(zone.nextShrinkIn).toBeCloseTo(ZONE_SHRINK_DELAY / 2, -2);
+  });
+
+  it('should shrink to the next circle over the shrink duration', () => {
+    const zone = new SafeZone(MAP_WIDTH, MAP_DEPTH, () => 0.5);
+    advance(zone, ZONE_SHRINK_DELAY + ZONE_SHRINK_DURATION / 2);
+    expect(zone.nextShrinkIn).toBe(0);
+    expect(zone.radius).toBeLessThan(ZONE_INITIAL_RADIUS);
+    expect(zone.radius).toBeGreaterThan(ZONE_INITIAL_RADIUS * ZONE_SHRINK_FACTOR);
+
+    advance(zone, ZONE_SHRINK_DURATION / 2 + TICK_INTERVAL);
+    expect(zone.radius).toBeCloseTo(ZONE_INITIAL_RADIUS * ZONE_SHRINK_FACTOR);
+    expect(zone.nextShrinkIn).toBeGreaterThan(0);
+  });
+
+  it('should keep each new circle inside the previous one', () => {
+    const zone = new SafeZone(MAP_WIDTH, MAP_DEPTH, () => 0.99);
+    let prevCenter = zone.center.clone();
+    let prevRadius = zone.radius;
+    for (let i = 0; i < 3; i++) {
+      advance(zone, ZONE_SHRINK_DELAY + ZONE_SHRINK_DURATION + TICK_INTERVAL);
+      expect(zone.center.distanceTo(prevCenter) + zone.radius).toBeLessThanOrEqual(prevRadius + 1e-6);
+      prevCenter = zone.center.clone();
+      prevRadius = zone.radius;
+    }
+  });
+
+  it('should stop at the minimum radius', () => {
+    const zone = new SafeZone(MAP_WIDTH, MAP_DEPTH);
+    advance(zone, (ZONE_SHRINK_DELAY + ZONE_SHRINK_DURATION) * 10);
+    expect(zone.radius).toBe(ZONE_MIN_RADIUS);
+    expect(zone.nextShrinkIn).toBe(0);
+    const center = zone.center.clone();
+    advance(zone, ZONE_SHRINK_DELAY + ZONE_SHRINK_DURATION);
+    expect(zone.center.equals(center)).toBe(true);
+  });
+
+  it('should test containment horizontally', () => {
+    const zone = new SafeZone(MAP_WIDTH, MAP_DEPTH);
+    expect(zone.contains(new Vec3(0, 500, 0))).toBe(true);
+    expect(zone.contains(new Vec3(ZONE_INITIAL_RADIUS + 1, 0, 0))).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3, SMOKE_CLOUD_RADIUS, SMOKE_CLOUD_DURATION } from '@tankgame/shared';
+import { SmokeCloud } from '../../packages/server/src/SmokeCloud.js';
+
+describe('SmokeCloud', () => {
+  it('should use the default radius and duration', () => {
+    const cloud = new SmokeCloud(1, new Vec3(5, 2, -5));
+    expect(cloud.radius).toBe(SMOKE_CLOUD_RADIUS);
+    expect(cloud.remaining).toBe(SMOKE_CLOUD_DURATION);
+    expect(cloud.expired).toBe(false);
+  });
+
+  it('should expire after its duration', () => {
+    const cloud = new SmokeCloud(1, Vec3.zero(), 8, 1000);
+    cloud.update(600);
+    expect(cloud.remaining).toBe(400);
+    expect(cloud.expired).toBe(false);
+    cloud.update(600);
+    expect(cloud.remaining).toBe(0);
+    expect(cloud.expired).toBe(true);
+  });
+
+  describe('blocksSight', () => {
+    const cloud = new SmokeCloud(1, new Vec3(0, 0, 0), 8);
+
+    it('should block a line passing through it', () => {
+      expect(cloud.blocksSight(new Vec3(-50, 0, 3), new Vec3(50, 0, 3))).toBe(true);
+    });
+
+    it('should not block a line passing beside it', () => {
+      expect(cloud.blocksSight(new Vec3(-50, 0, 10), new Vec3(50, 0, 10))).toBe(false);
+    });
+
+    it('should not block when the cloud lies beyond the segment', () => {
+      expect(cloud.blocksSight(new Vec3(20, 0, 0), new Vec3(50, 0, 0))).toBe(false);
+    });
+
+    it('should block a viewer standing inside it', () => {
+      expect(cloud.blocksSight(new Vec3(2, 0, 0), new Vec3(50, 0, 40))).toBe(true);
+    });
+  });
+
+  it('should snapshot a copy of its state', () => {
+    const pos = new Vec3(1, 2, 3);
+    const cloud = new SmokeCloud(7, pos, 6, 500);
+    const snap = cloud.toSnapshot();
+    expect(snap).toEqual({ id: 7, position: pos, radius: 6, remaining: 500 });
+    expect(snap.position).not.toBe(cloud.position);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MessageType, MAX_EXTRAPOLATION } from '@tankgame/shared';
+import type { SnapshotMessage } from '@tankgame/shared';
+import { SnapshotBuffer } from '@tankgame/client/SnapshotBuffer.js';
+
+/** 快照间隔 50ms（20Hz）；缓冲区只读取 snapshotId 与 timestamp */
+function makeSnapshot(id: number): SnapshotMessage {
+  return {
+    type: MessageType.Snapshot,
+    snapshotId: id,
+    timestamp: 1000 + id * 50,
+  } as SnapshotMessage;
+}
+
+describe('SnapshotBuffer', () => {
+  let buffer: SnapshotBuffer;
+
+  beforeEach(() => {
+    buffer = new SnapshotBuffer();
+  });
+
+  describe('push', () => {
+    it('should keep snapshots ordered when they arrive out of order', () => {
+      for (const id of [1, 3, 2, 5, 4]) buffer.push(makeSnapshot(id));
+      expect(buffer.size).toBe(5);
+
+      // 1100 处于 id 2 与 id 3 之间（各 50ms 间隔）
+      const sample = buffer.sample(1125)!;
+      expect(sample.from.snapshotId).toBe(2);
+      expect(sample.to.snapshotId).toBe(3);
+      expect(sample.t).toBeCloseTo(0.5, 5);
+    });
+
+    it('should drop duplicates', () => {
+      buffer.push(makeSnapshot(1));
+      buffer.push(makeSnapshot(2));
+      buffer.push(makeSnapshot(2));
+      buffer.push(makeSnapshot(1));
+      expect(buffer.size).toBe(2);
+    });
+
+    it('should evict the oldest snapshot beyond capacity', () => {
+      buffer = new SnapshotBuffer(3);
+      for (let id = 1; id <= 5; id++) buffer.push(makeSnapshot(id));
+      expect(buffer.size).toBe(3);
+      expect(buffer.sample(0)!.from.snapshotId).toBe(3);
+    });
+
+    it('should empty on clear', () => {
+      buffer.push(makeSnapshot(1));
+      buffer.clear();
+      expect(buffer.size).toBe(0);
+      expect(buffer.sample(2000)).toBeNull();
+    });
+  });
+
+  describe('sample', () => {
+    it('should return null when empty', () => {
+      expect(buffer.sample(1000)).toBeNull();
+    });
+
+    it('should hold the only snapshot without interpolating', () => {
+      buffer.push(makeSnapshot(1));
+      const sample = buffer.sample(5000)!;
+      expect(sample.from).toBe(sample.to);
+      expect(sample.t).toBe(0);
+    });
+
+    it('should clamp to the oldest snapshot before the buffer start', () => {
+      buffer.push(makeSnapshot(1));
+      buffer.push(makeSnapshot(2));
+      const sample = buffer.sample(900)!;
+      expect(sample.from.snapshotId).toBe(1);
+      expect(sample.to.snapshotId).toBe(1);
+      expect(sample.t).toBe(0);
+    });
+
+    it('should interpolate between the surrounding snapshots', () => {
+      for (let id = 1; id <= 3; id++) buffer.push(makeSnapshot(id));
+      const sample = buffer.sample(1140)!;
+      expect(sample.from.snapshotId).toBe(2);
+      expect(sample.to.snapshotId).toBe(3);
+      expect(sample.t).toBeCloseTo(0.8, 5);
+    });
+
+    it('should interpolate across a gap left by a lost snapshot', () => {
+      buffer.push(makeSnapshot(1));
+      buffer.push(makeSnapshot(4));
+      // id 1 → 4 跨 150ms
+      const sample = buffer.sample(1125)!;
+      expect(sample.from.snapshotId).toBe(1);
+      expect(sample.to.snapshotId).toBe(4);
+      expect(sample.t).toBeCloseTo(0.5, 5);
+    });
+
+    it('should extrapolate past the newest snapshot', () => {
+      buffer.push(makeSnapshot(1));
+      buffer.push(makeSnapshot(2));
+      const sample = buffer.sample(1125)!;
+      expect(sample.from.snapshotId).toBe(1);
+      expect(sample.to.snapshotId).toBe(2);
+      expect(sample.t).toBeCloseTo(1.5, 5);
+    });
+
+    it('should cap extrapolation at MAX_EXTRAPOLATION', () => {
+      buffer.push(makeSnapshot(1));
+      buffer.push(makeSnapshot(2));
+      const capped = buffer.sample(1100 + MAX_EXTRAPOLATION * 10)!;
+      expect(capped.t).toBeCloseTo(1 + MAX_EXTRAPOLATION / 50, 5);
+      expect(buffer.sample(1100 + MAX_EXTRAPOLATION)!.t).toBeCloseTo(capped.t, 5);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  Vec3,
+  MessageType,
+  Team,
+  TankClass,
+  SNAPSHOT_BASELINE_WINDOW,
+  diffTank,
+  applySnapshotDelta,
+  createSnapshotDelta,
+  encodeSnapshot,
+  decodeBinaryMessage,
+} from '@tankgame/shared';
+import type {
+  SnapshotMessage,
+  SnapshotDeltaMessage,
+  TankSnapshot,
+  TankStatics,
+} from '@tankgame/shared';
+import { SnapshotHistory } from '../../packages/server/src/SnapshotHistory.js';
+
+function makeTank(id: number, overrides: Partial<TankSnapshot> = {}): TankSnapshot {
+  return {
+    entityId: id,
+    position: new Vec3(id * 10, 2, -id * 10),
+    bodyYaw: 0.5,
+    turretYaw: 0,
+    gunPitch: 0,
+    velocity: new Vec3(0, 0, 0),
+    hp: 100,
+    alive: true,
+    reloadRemain: 0,
+    kills: 0,
+    deaths: 0,
+    nickname: `P${id}`,
+    isBot: id >= 100,
+    team: Team.None,
+    tankClass: TankClass.Medium,
+    ...overrides,
+  };
+}
+
+function makeSnapshot(id: number, tanks: TankSnapshot[]): SnapshotMessage {
+  return {
+    type: MessageType.Snapshot,
+    serverTick: id * 3,
+    snapshotId: id,
+    timestamp: 1000 + id * 50,
+    lastProcessedSeq: id,
+    tanks,
+    projectiles: [],
+    playerCount: tanks.length,
+    humanCount: 1,
+    teamScores: [],
+    flags: [],
+    controlPoints: [],
+    zone: null,
+    wave: null,
+    smoke: [],
+  };
+}
+
+describe('Snapshot delta', () => {
+  it('diffTank without baseline should contain every dynamic field', () => {
+    const d = diffTank(undefined, makeTank(1), false);
+    expect(d.position).toBeDefined();
+    expect(d.velocity).toBeDefined();
+    expect(d.hp).toBe(100);
+    expect(d.alive).toBe(true);
+    expect(d.kills).toBe(0);
+    expect(d.nickname).toBeUndefined();
+    expect(d.isBot).toBeUndefined();
+  });
+
+  it('diffTank should only carry changed fields', () => {
+    const base = makeTank(1);
+    const cur = makeTank(1, { hp: 80, turretYaw: 0.4 });
+    const d = diffTank(base, cur, false);
+    expect(Object.keys(d).sort()).toEqual(['entityId', 'hp', 'turretYaw']);
+  });
+
+  it('diffTank should ignore sub-threshold jitter', () => {
+    const base = makeTank(1);
+    const cur = makeTank(1, { position: new Vec3(10.001, 2, -10) });
+    expect(diffTank(base, cur, false).position).toBeUndefined();
+  });
+
+  it('applySnapshotDelta should reconstruct the full snapshot', () => {
+    const statics = new Map<number, TankStatics>();
+    const base = makeSnapshot(1, [makeTank(1), makeTank(100)]);
+    const next = makeSnapshot(2, [makeTank(1, { kills: 1 }), makeTank(100, { alive: false, hp: 0 })]);
+
+    const key = applySnapshotDelta(createSnapshotDelta(base, undefined, () => true), undefined, statics);
+    const delta = createSnapshotDelta(next, base, () => false);
+    const full = applySnapshotDelta(delta, key, statics);
+
+    expect(full.tanks).toEqual(next.tanks);
+    expect(full.snapshotId).toBe(2);
+  });
+
+  it('applySnapshotDelta should drop entities missing from the delta', () => {
+    const statics = new Map<number, TankStatics>();
+    const base = makeSnapshot(1, [makeTank(1), makeTank(2)]);
+    const next = makeSnapshot(2, [makeTank(1)]);
+    const key = applySnapshotDelta(createSnapshotDelta(base, undefined, () => true), undefined, statics);
+    const full = applySnapshotDelta(createSnapshotDelta(next, base, () => false), key, statics);
+    expect(full.tanks.map((t) => t.entityId)).toEqual([1]);
+  });
+
+  it('applySnapshotDelta should throw without the referenced baseline', () => {
+    const base = makeSnapshot(1, [makeTank(1)]);
+    const delta = createSnapshotDelta(makeSnapshot(2, [makeTank(1)]), base, () => false);
+    expect(() => applySnapshotDelta(delta, undefined, new Map())).toThrow();
+  });
+
+  it('delta should survive the binary codec', () => {
+    const statics = new Map<number, TankStatics>();
+    const base = makeSnapshot(1, [makeTank(1), makeTank(100)]);
+    const next = makeSnapshot(2, [makeTank(1, { hp: 60, alive: true }), makeTank(100, { alive: false })]);
+    const key = applySnapshotDelta(
+      decodeBinaryMessage(encodeSnapshot(createSnapshotDelta(base, undefined, () => true))) as SnapshotDeltaMessage,
+      undefined,
+      statics
+    );
+    const wire = decodeBinaryMessage(encodeSnapshot(createSnapshotDelta(next, base, () => false))) as SnapshotDeltaMessage;
+    expect(wire.baselineId).toBe(1);
+    const full = applySnapshotDelta(wire, key, statics);
+    expect(full.tanks[0].hp).toBe(60);
+    expect(full.tanks[1].alive).toBe(false);
+    expect(full.tanks[1].nickname).toBe('P100');
+    expect(full.tanks[1].isBot).toBe(true);
+  });
+
+  it('should carry team changes and team scores', () => {
+    const statics = new Map<number, TankStatics>();
+    const base = makeSnapshot(1, [makeTank(1, { team: Team.Red })]);
+    const next = makeSnapshot(2, [makeTank(1, { team: Team.Blue })]);
+    next.teamScores = [3, 4];
+    const delta = createSnapshotDelta(next, base, () => false);
+    expect(Object.keys(delta.tanks[0]).sort()).toEqual(['entityId', 'team']);
+
+    const full = applySnapshotDelta(delta, base, statics);
+    expect(full.tanks[0].team).toBe(Team.Blue);
+    expect(full.teamScores).toEqual([3, 4]);
+  });
+});
+
+describe('SnapshotHistory', () => {
+  let history: SnapshotHistory;
+
+  beforeEach(() => {
+    history = new SnapshotHistory();
+  });
+
+  it('should send keyframes with statics until acknowledged', () => {
+    const first = history.encode(makeSnapshot(1, [makeTank(1)]));
+    const second = history.encode(makeSnapshot(2, [makeTank(1)]));
+    for (const msg of [first, second]) {
+      expect(msg.baselineId).toBe(0);
+      expect(msg.tanks[0].nickname).toBe('P1');
+      expect(msg.tanks[0].position).toBeDefined();
+    }
+  });
+
+  it('should delta against the acknowledged snapshot', () => {
+    history.encode(makeSnapshot(1, [makeTank(1)]));
+    history.acknowledge(1);
+    const msg = history.encode(makeSnapshot(2, [makeTank(1, { hp: 90 })]));
+    expect(msg.baselineId).toBe(1);
+    expect(msg.tanks[0]).toEqual({ entityId: 1, hp: 90 });
+  });
+
+  it('should send statics once per entity', () => {
+    history.encode(makeSnapshot(1, [makeTank(1)]));
+    history.acknowledge(1);
+    const msg = history.encode(makeSnapshot(2, [makeTank(1), makeTank(2)]));
+    expect(msg.tanks[0].nickname).toBeUndefined();
+    expect(msg.tanks[1].nickname).toBe('P2');
+  });
+
+  it('should resend statics when an entity id is reused', () => {
+    history.encode(makeSnapshot(1, [makeTank(100)]));
+    history.acknowledge(1);
+    const msg = history.encode(makeSnapshot(2, [makeTank(100, { nickname: 'Other' })]));
+    expect(msg.tanks[0].nickname).toBe('Other');
+  });
+
+  it('should ignore stale or unknown acknowledgements', () => {
+    history.encode(makeSnapshot(1, [makeTank(1)]));
+    history.encode(makeSnapshot(2, [makeTank(1)]));
+    history.acknowledge(2);
+    history.acknowledge(1);
+    history.acknowledge(99);
+    expect(history.lastAckedId).toBe(2);
+  });
+
+  it('should fall back to a keyframe when the baseline is too old', () => {
+    history.encode(makeSnapshot(1, [makeTank(1)]));
+    history.acknowledge(1);
+    const msg = history.encode(makeSnapshot(2 + SNAPSHOT_BASELINE_WINDOW, [makeTank(1)]));
+    expect(msg.baselineId).toBe(0);
+    expect(msg.tanks[0].position).toBeDefined();
+  });
+
+  it('should not accumulate drift across chained baselines', () => {
+    const statics = new Map<number, TankStatics>();
+    let client = applySnapshotDelta(history.encode(makeSnapshot(1, [makeTank(1)])), undefined, statics);
+    history.acknowledge(1);
+
+    // 每帧移动 0.006 m（低于阈值），累积后必须被发送
+    for (let id = 2; id <= 10; id++) {
+      const pos = new Vec3(10 + (id - 1) * 0.006, 2, -10);
+      const delta = history.encode(makeSnapshot(id, [makeTank(1, { position: pos })]));
+      client = applySnapshotDelta(delta, client, statics);
+      history.acknowledge(id);
+      expect(Math.abs(client.tanks[0].position.x - pos.x)).toBeLessThanOrEqual(0.01);
+    }
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { Vec3 } from '@tankgame/shared';
+import { Vec3, Team } from '@tankgame/shared';
 import { SpawnManager } from '../../packages/server/src/SpawnManager.js';
 import { MapGenerator } from '../../packages/server/src/MapGenerator.js';
 import type { GameMapData } from '../../packages/server/src/MapGenerator.js';
@@ -168,6 +168,25 @@ describe('SpawnManager', () => {
     });
   });
 
+  describe('team zones', () => {
+    it('should spawn teams on opposite sides of the map', () => {
+      const red = new Player(1, 'Red');
+      red.team = Team.Red;
+      const blue = new Player(2, 'Blue');
+      blue.team = Team.Blue;
+      for (let i = 0; i < 10; i++) {
+        expect(spawnManager.selectSpawnPoint(red, [], map).x).toBeLessThan(0);
+        expect(spawnManager.selectSpawnPoint(blue, [], map).x).toBeGreaterThan(0);
+      }
+    });
+
+    it('should fall back to every zone without a team side', () => {
+      expect(spawnManager.getZonesForTeam(map, Team.None)).toBe(map.spawnZones);
+      map.spawnZones = map.spawnZones.filter((zone) => zone.center.x <= 0);
+      expect(spawnManager.getZonesForTeam(map, Team.Blue)).toBe(map.spawnZones);
+    });
+  });
+
   describe('reset', () => {
     it('should clear recent spawn history', () => {
       const player = new Player(1, 'Test');
@@ -0,0 +1,388 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MessageType,
+  WireFormat,
+  TURRET_YAW_MAX,
+  GUN_PITCH_MAX,
+  GUN_PITCH_MIN,
+  MAX_NICKNAME_LENGTH,
+  INPUT_REDUNDANCY,
+  MAX_ROOM_PASSWORD_LENGTH,
+  MAX_PLAYERS,
+  ROUND_DURATION_MIN,
+  RESPAWN_DELAY_MAX,
+  KILL_CAP_MAX,
+  GameMode,
+  TankClass,
+  AmmoType,
+  DEFAULT_ROOM_SETTINGS,
+  validateClientMessage,
+  normalizeInviteCode,
+  resolveRoomSettings,
+  encodeInputCmd,
+  decodeBinaryMessage,
+} from '@tankgame/shared';
+import type { InputCmd } from '@tankgame/shared';
+
+function makeInput(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    type: MessageType.InputCmd,
+    seq: 1,
+    forward: true,
+    backward: false,
+    turnLeft: false,
+    turnRight: false,
+    turretYaw: 0.5,
+    gunPitch: 0.1,
+    fire: false,
+    stabilize: false,
+    timestamp: 1234.5,
+    ...overrides,
+  };
+}
+
+describe('validateClientMessage', () => {
+  describe('envelope', () => {
+    it('should reject non-objects', () => {
+      expect(validateClientMessage(null).ok).toBe(false);
+      expect(validateClientMessage('hello').ok).toBe(false);
+      expect(validateClientMessage([1, 2]).ok).toBe(false);
+    });
+
+    it('should reject unknown and server-only message types', () => {
+      expect(validateClientMessage({ type: 0x7f }).ok).toBe(false);
+      expect(validateClientMessage({ type: MessageType.Snapshot }).ok).toBe(false);
+      expect(validateClientMessage({ type: '2' }).ok).toBe(false);
+    });
+  });
+
+  describe('InputCmd', () => {
+    it('should accept a well-formed input without clamping', () => {
+      const result = validateClientMessage(makeInput({ ackSnapshotId: 7, viewTick: 0 }));
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.clamped).toBe(0);
+      expect(result.message).toEqual(makeInput({ ackSnapshotId: 7, viewTick: 0 }));
+    });
+
+    it('should reject NaN, Infinity and strings in numeric fields', () => {
+      expect(validateClientMessage(makeInput({ turretYaw: NaN })).ok).toBe(false);
+      expect(validateClientMessage(makeInput({ gunPitch: Infinity })).ok).toBe(false);
+      expect(validateClientMessage(makeInput({ turretYaw: '1' })).ok).toBe(false);
+      expect(validateClientMessage(makeInput({ timestamp: undefined })).ok).toBe(false);
+    });
+
+    it('should reject invalid sequence numbers', () => {
+      expect(validateClientMessage(makeInput({ seq: -1 })).ok).toBe(false);
+      expect(validateClientMessage(makeInput({ seq: 1.5 })).ok).toBe(false);
+      expect(validateClientMessage(makeInput({ seq: 2 ** 40 })).ok).toBe(false);
+    });
+
+    it('should reject non-boolean controls', () => {
+      expect(validateClientMessage(makeInput({ fire: 1 })).ok).toBe(false);
+      expect(validateClientMessage(makeInput({ forward: 'true' })).ok).toBe(false);
+    });
+
+    it('should clamp out-of-range aim and count it', () => {
+      const result = validateClientMessage(makeInput({ turretYaw: 100, gunPitch: -5 }));
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      const cmd = result.message as InputCmd;
+      expect(cmd.turretYaw).toBe(TURRET_YAW_MAX);
+      expect(cmd.gunPitch).toBe(GUN_PITCH_MIN);
+      expect(result.clamped).toBe(2);
+    });
+
+    it('should not count binary quantization error as a violation', () => {
+      const raw = makeInput({ turretYaw: TURRET_YAW_MAX, gunPitch: GUN_PITCH_MAX });
+      const decoded = decodeBinaryMessage(encodeInputCmd(raw as unknown as InputCmd));
+      const result = validateClientMessage(decoded);
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.clamped).toBe(0);
+      expect((result.message as InputCmd).turretYaw).toBeLessThanOrEqual(TURRET_YAW_MAX);
+    });
+
+    it('should drop invalid optional fields', () => {
+      const result = validateClientMessage(makeInput({ ackSnapshotId: -3, viewTick: 'x' }));
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      const cmd = result.message as InputCmd;
+      expect(cmd.ackSnapshotId).toBeUndefined();
+      expect(cmd.viewTick).toBeUndefined();
+      expect(result.clamped).toBe(2);
+    });
+
+    it('should keep a valid ammo type and drop an unknown one', () => {
+      const ok = validateClientMessage(makeInput({ ammoType: AmmoType.Smoke }));
+      expect(ok.ok && (ok.message as InputCmd).ammoType).toBe(AmmoType.Smoke);
+
+      const bad = validateClientMessage(makeInput({ ammoType: 7 }));
+      expect(bad.ok).toBe(true);
+      if (!bad.ok) return;
+      expect((bad.message as InputCmd).ammoType).toBeUndefined();
+      expect(bad.clamped).toBe(1);
+    });
+
+    it('should accept valid redundant frames', () => {
+      const { type: _type, ...frame } = makeInput({ seq: 1 });
+      const result = validateClientMessage(makeInput({ seq: 2, redundant: [frame] }));
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect((result.message as InputCmd).redundant).toHaveLength(1);
+      expect(result.clamped).toBe(0);
+    });
+
+    it('should drop malformed or oversized redundant arrays', () => {
+      const { type: _type, ...frame } = makeInput({ seq: 1 });
+      const cases = [
+        'nope',
+        [{ ...frame, turretYaw: NaN }],
+        Array.from({ length: INPUT_REDUNDANCY + 1 }, (_, i) => ({ ...frame, seq: i })),
+      ];
+      for (const redundant of cases) {
+        const result = validateClientMessage(makeInput({ seq: 9, redundant }));
+        expect(result.ok).toBe(true);
+        if (!result.ok) continue;
+        expect((result.message as InputCmd).redundant).toBeUndefined();
+        expect(result.clamped).toBe(1);
+      }
+    });
+
+    it('should strip undeclared fields', () => {
+      const result = validateClientMessage(makeInput({ hp: 9999, __proto__x: 1 }));
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect('hp' in result.message).toBe(false);
+    });
+  });
+
+  describe('JoinRoom', () => {
+    it('should accept a normal join', () => {
+      const result = validateClientMessage({
+        type: MessageType.JoinRoom,
+        nickname: 'Alice',
+        wireFormat: WireFormat.Binary,
+        protocolVersion: 1,
+        contentVersion: 1,
+      });
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.clamped).toBe(0);
+    });
+
+    it('should reject a missing nickname', () => {
+      expect(validateClientMessage({ type: MessageType.JoinRoom }).ok).toBe(false);
+    });
+
+    it('should truncate long nicknames and drop bad optional fields', () => {
+      const result = validateClientMessage({
+        type: MessageType.JoinRoom,
+        nickname: 'x'.repeat(100),
+        wireFormat: 'xml',
+        clientId: 42,
+        resumeToken: 'y'.repeat(1000),
+      });
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      const msg = result.message as { nickname: string; wireFormat?: string; resumeToken?: string };
+      expect(msg.nickname.length).toBe(MAX_NICKNAME_LENGTH);
+      expect(msg.wireFormat).toBeUndefined();
+      expect(msg.resumeToken).toBeUndefined();
+      expect(result.clamped).toBe(4);
+    });
+
+    it('should keep a requested room id', () => {
+      const result = validateClientMessage({ type: MessageType.JoinRoom, nickname: 'Alice', roomId: 'room_1' });
+      expect(result.ok && (result.message as { roomId?: string }).roomId).toBe('room_1');
+    });
+
+    it('should drop a non-string room id', () => {
+      const result = validateClientMessage({ type: MessageType.JoinRoom, nickname: 'Alice', roomId: 7 });
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect((result.message as { roomId?: string }).roomId).toBeUndefined();
+      expect(result.clamped).toBe(1);
+    });
+
+    it('should normalize invite codes and drop malformed ones', () => {
+      const ok = validateClientMessage({ type: MessageType.JoinRoom, nickname: 'A', inviteCode: ' abc234 ' });
+      expect(ok.ok && (ok.message as { inviteCode?: string }).inviteCode).toBe('ABC234');
+
+      const bad = validateClientMessage({ type: MessageType.JoinRoom, nickname: 'A', inviteCode: 'ABC' });
+      expect(bad.ok).toBe(true);
+      if (!bad.ok) return;
+      expect((bad.message as { inviteCode?: string }).inviteCode).toBeUndefined();
+      expect(bad.clamped).toBe(1);
+    });
+
+    it('should drop overlong passwords', () => {
+      const result = validateClientMessage({
+        type: MessageType.JoinRoom,
+        nickname: 'A',
+        password: 'p'.repeat(MAX_ROOM_PASSWORD_LENGTH + 1),
+      });
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect((result.message as { password?: string }).password).toBeUndefined();
+      expect(result.clamped).toBe(1);
+    });
+
+    it('should keep a valid tank class and drop an unknown one', () => {
+      const ok = validateClientMessage({ type: MessageType.JoinRoom, nickname: 'A', tankClass: TankClass.Heavy });
+      expect(ok.ok && (ok.message as { tankClass?: TankClass }).tankClass).toBe(TankClass.Heavy);
+
+      const bad = validateClientMessage({ type: MessageType.JoinRoom, nickname: 'A', tankClass: 'tiger' });
+      expect(bad.ok).toBe(true);
+      if (!bad.ok) return;
+      expect((bad.message as { tankClass?: TankClass }).tankClass).toBeUndefined();
+      expect(bad.clamped).toBe(1);
+    });
+
+    it('should validate room creation options', () => {
+      const ok = validateClientMessage({
+        type: MessageType.JoinRoom,
+        nickname: 'A',
+        createRoom: { private: true, password: 'secret', extra: 1 },
+      });
+      expect(ok.ok && (ok.message as { createRoom?: unknown }).createRoom).toEqual({ private: true, password: 'secret' });
+
+      const bad = validateClientMessage({ type: MessageType.JoinRoom, nickname: 'A', createRoom: { private: 'yes' } });
+      expect(bad.ok).toBe(true);
+      if (!bad.ok) return;
+      expect((bad.message as { createRoom?: unknown }).createRoom).toBeUndefined();
+      expect(bad.clamped).toBe(1);
+    });
+  });
+
+  describe('SelectClass', () => {
+    it('should accept known classes', () => {
+      const result = validateClientMessage({ type: MessageType.SelectClass, tankClass: TankClass.Destroyer });
+      expect(result.ok && (result.message as { tankClass: TankClass }).tankClass).toBe(TankClass.Destroyer);
+    });
+
+    it('should reject unknown classes', () => {
+      expect(validateClientMessage({ type: MessageType.SelectClass, tankClass: 9 }).ok).toBe(false);
+      expect(validateClientMessage({ type: MessageType.SelectClass }).ok).toBe(false);
+    });
+  });
+
+  describe('SnapshotAck and Ping', () => {
+    it('should validate snapshot ids', () => {
+      expect(validateClientMessage({ type: MessageType.SnapshotAck, snapshotId: 12 }).ok).toBe(true);
+      expect(validateClientMessage({ type: MessageType.SnapshotAck, snapshotId: -1 }).ok).toBe(false);
+      expect(validateClientMessage({ type: MessageType.SnapshotAck }).ok).toBe(false);
+    });
+
+    it('should validate ping client time', () => {
+      expect(validateClientMessage({ type: MessageType.Ping, clientTime: 10.5 }).ok).toBe(true);
+      expect(validateClientMessage({ type: MessageType.Ping, clientTime: 'now' }).ok).toBe(false);
+    });
+  });
+
+  describe('LeaveRoom', () => {
+    it('should accept a bare leave message', () => {
+      const result = validateClientMessage({ type: MessageType.LeaveRoom });
+      expect(result.ok).toBe(true);
+      expect(result.ok && result.message).toEqual({ type: MessageType.LeaveRoom });
+    });
+  });
+});
+
+describe('room settings', () => {
+  function validateSettings(settings: unknown) {
+    const result = validateClientMessage({
+      type: MessageType.JoinRoom,
+      nickname: 'A',
+      createRoom: { private: false, settings },
+    });
+    if (!result.ok) throw new Error(result.error);
+    const msg = result.message as { createRoom?: { settings?: Record<string, unknown> } };
+    return { settings: msg.createRoom!.settings, clamped: result.clamped };
+  }
+
+  it('should accept settings within range', () => {
+    const { settings, clamped } = validateSettings({
+      roundDuration: 120,
+      maxPlayers: 2,
+      respawnDelay: 2000,
+      botCount: 0,
+      botDifficulty: 'hard',
+      mapSeed: 1234,
+    });
+    expect(settings).toEqual({
+      roundDuration: 120,
+      maxPlayers: 2,
+      respawnDelay: 2000,
+      botCount: 0,
+      botDifficulty: 'hard',
+      mapSeed: 1234,
+    });
+    expect(clamped).toBe(0);
+  });
+
+  it('should clamp out-of-range values', () => {
+    const { settings, clamped } = validateSettings({
+      roundDuration: 5,
+      maxPlayers: 64,
+      respawnDelay: 60000,
+      botCount: -1,
+    });
+    expect(settings).toEqual({
+      roundDuration: ROUND_DURATION_MIN,
+      maxPlayers: MAX_PLAYERS,
+      respawnDelay: RESPAWN_DELAY_MAX,
+      botCount: 0,
+    });
+    expect(clamped).toBe(4);
+  });
+
+  it('should drop fields with the wrong type', () => {
+    const { settings, clamped } = validateSettings({
+      roundDuration: '120',
+      botDifficulty: 'insane',
+      mapSeed: -5,
+    });
+    expect(settings).toEqual({});
+    expect(clamped).toBe(3);
+  });
+
+  it('should accept a null map seed', () => {
+    expect(validateSettings({ mapSeed: null }).settings).toEqual({ mapSeed: null });
+  });
+
+  it('should validate mode, friendly fire and kill cap', () => {
+    expect(validateSettings({ mode: GameMode.TeamDeathmatch, friendlyFire: true, killCap: 30 })).toEqual({
+      settings: { mode: GameMode.TeamDeathmatch, friendlyFire: true, killCap: 30 },
+      clamped: 0,
+    });
+    const { settings, clamped } = validateSettings({ mode: 'zombies', friendlyFire: 1, killCap: KILL_CAP_MAX + 1 });
+    expect(settings).toEqual({ killCap: KILL_CAP_MAX });
+    expect(clamped).toBe(3);
+  });
+});
+
+describe('resolveRoomSettings', () => {
+  it('should fill in defaults', () => {
+    expect(resolveRoomSettings()).toEqual(DEFAULT_ROOM_SETTINGS);
+    expect(resolveRoomSettings({ roundDuration: 120 }).maxPlayers).toBe(DEFAULT_ROOM_SETTINGS.maxPlayers);
+  });
+
+  it('should cap the bot count at the player limit', () => {
+    expect(resolveRoomSettings({ maxPlayers: 4 }).botCount).toBe(4);
+    expect(resolveRoomSettings({ maxPlayers: 4, botCount: 2 }).botCount).toBe(2);
+  });
+});
+
+describe('normalizeInviteCode', () => {
+  it('should uppercase and trim', () => {
+    expect(normalizeInviteCode(' k7m2qx ')).toBe('K7M2QX');
+  });
+
+  it('should reject wrong lengths and ambiguous characters', () => {
+    expect(normalizeInviteCode('K7M2Q')).toBeNull();
+    expect(normalizeInviteCode('K7M2QXX')).toBeNull();
+    expect(normalizeInviteCode('K7M2Q0')).toBeNull();
+    expect(normalizeInviteCode('K7M2QI')).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  Vec3,
+  TICK_INTERVAL,
+  TANK_MAX_HP,
+  VISIBILITY_PROXIMITY_RADIUS,
+  VISIBILITY_LINGER,
+  FIRE_REVEAL_DURATION,
+} from '@tankgame/shared';
+import { VisibilityManager } from '../../packages/server/src/VisibilityManager.js';
+import { MapGenerator } from '../../packages/server/src/MapGenerator.js';
+import type { GameMapData } from '../../packages/server/src/MapGenerator.js';
+import { Player } from '../../packages/server/src/Player.js';
+import { SmokeCloud } from '../../packages/server/src/SmokeCloud.js';
+
+/** 平坦无掩体地图 */
+function openMap(): GameMapData {
+  const map = MapGenerator.generate(42);
+  map.covers = [];
+  map.heightmap.fill(0);
+  return map;
+}
+
+function placePlayer(id: number, x: number, z: number): Player {
+  const p = new Player(id, `P${id}`);
+  p.respawn(new Vec3(x, 0, z));
+  return p;
+}
+
+describe('VisibilityManager', () => {
+  let map: GameMapData;
+  let vis: VisibilityManager;
+
+  beforeEach(() => {
+    map = openMap();
+    vis = new VisibilityManager(map);
+  });
+
+  describe('hasLineOfSight', () => {
+    it('should see across open flat ground', () => {
+      expect(vis.hasLineOfSight(new Vec3(-100, 0, 0), new Vec3(100, 0, 0))).toBe(true);
+    });
+
+    it('should be blocked by a tall cover on the line', () => {
+      map.covers.push({ position: new Vec3(0, 0, 0), radius: 3, height: 4 });
+      expect(vis.hasLineOfSight(new Vec3(-100, 0, 0), new Vec3(100, 0, 0))).toBe(false);
+    });
+
+    it('should see over a cover lower than the eye line', () => {
+      map.covers.push({ position: new Vec3(0, 0, 0), radius: 3, height: 1 });
+      expect(vis.hasLineOfSight(new Vec3(-100, 0, 0), new Vec3(100, 0, 0))).toBe(true);
+    });
+
+    it('should ignore covers off the line', () => {
+      map.covers.push({ position: new Vec3(0, 0, 20), radius: 3, height: 4 });
+      expect(vis.hasLineOfSight(new Vec3(-100, 0, 0), new Vec3(100, 0, 0))).toBe(true);
+    });
+
+    it('should be blocked by a terrain ridge', () => {
+      const res = map.resolution;
+      const mid = Math.floor(res / 2);
+      for (let z = 0; z < res; z++) {
+        for (let x = mid - 2; x <= mid + 2; x++) {
+          map.heightmap[z * res + x] = 10;
+        }
+      }
+      expect(vis.hasLineOfSight(new Vec3(-100, 0, 0), new Vec3(100, 0, 0))).toBe(false);
+    });
+
+    it('should be blocked by a smoke cloud until it clears', () => {
+      const smoke = new Map<number, SmokeCloud>();
+      vis = new VisibilityManager(map, smoke);
+      expect(vis.hasLineOfSight(new Vec3(-100, 0, 0), new Vec3(100, 0, 0))).toBe(true);
+      smoke.set(1, new SmokeCloud(1, new Vec3(0, 0, 2)));
+      expect(vis.hasLineOfSight(new Vec3(-100, 0, 0), new Vec3(100, 0, 0))).toBe(false);
+      smoke.delete(1);
+      expect(vis.hasLineOfSight(new Vec3(-100, 0, 0), new Vec3(100, 0, 0))).toBe(true);
+    });
+  });
+
+  describe('isVisible', () => {
+    let viewer: Player;
+    let target: Player;
+
+    beforeEach(() => {
+      map.covers.push({ position: new Vec3(0, 0, 0), radius: 4, height: 4 });
+      viewer = placePlayer(1, -60, 0);
+      target = placePlayer(2, 60, 0);
+    });
+
+    it('should hide an enemy behind cover', () => {
+      expect(vis.isVisible(viewer, target, 1)).toBe(false);
+    });
+
+    it('should always see self', () => {
+      expect(vis.isVisible(viewer, viewer, 1)).toBe(true);
+    });
+
+    it('should spot enemies within proximity radius regardless of cover', () => {
+      map.covers.push({ position: new Vec3(-50, 0, 0), radius: 2, height: 4 });
+      target.position.set(-60 + VISIBILITY_PROXIMITY_RADIUS - 5, 0, 0);
+      expect(vis.isVisible(viewer, target, 1)).toBe(true);
+    });
+
+    it('should keep a spotted enemy visible for the linger time', () => {
+      target.position.set(60, 0, 30);
+      expect(vis.isVisible(viewer, target, 1)).toBe(true);
+
+      target.position.set(60, 0, 0);
+      const lingerTicks = Math.round(VISIBILITY_LINGER / TICK_INTERVAL);
+      expect(vis.isVisible(viewer, target, 1 + lingerTicks)).toBe(true);
+      expect(vis.isVisible(viewer, target, 2 + lingerTicks)).toBe(false);
+    });
+
+    it('should reveal a shooter to everyone for a while', () => {
+      vis.reveal(target.id, 10);
+      expect(vis.isVisible(viewer, target, 10)).toBe(true);
+
+      const revealTicks = Math.round(FIRE_REVEAL_DURATION / TICK_INTERVAL);
+      expect(vis.isVisible(viewer, target, 10 + revealTicks)).toBe(true);
+      expect(vis.isVisible(viewer, target, 11 + revealTicks)).toBe(false);
+    });
+
+    it('should always show dead tanks', () => {
+      target.takeDamage(TANK_MAX_HP);
+      expect(vis.isVisible(viewer, target, 1)).toBe(true);
+    });
+
+    it('should forget sightings on reset', () => {
+      target.position.set(60, 0, 30);
+      vis.isVisible(viewer, target, 1);
+      target.position.set(60, 0, 0);
+
+      vis.reset(map);
+      expect(vis.isVisible(viewer, target, 2)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WavePhase,
+  TICK_INTERVAL,
+  COOP_MAX_BOTS,
+  COOP_FIRST_WAVE_BOTS,
+  COOP_SHARED_LIVES,
+  COOP_FIRST_WAVE_DELAY,
+  COOP_REPAIR_TIME,
+  BOT_DIFFICULTIES,
+} from '@tankgame/shared';
+import { WaveManager, getWaveBotCount, getWaveDifficulty } from '../../packages/server/src/WaveManager.js';
+
+function advance(waves: WaveManager, ms: number): void {
+  for (let t = 0; t < ms; t += TICK_INTERVAL) waves.update(TICK_INTERVAL);
+}
+
+describe('WaveManager', () => {
+  it('should start in the repair phase before the first wave', () => {
+    const waves = new WaveManager();
+    expect(waves.wave).toBe(0);
+    expect(waves.phase).toBe(WavePhase.Repair);
+    expect(waves.lives).toBe(COOP_SHARED_LIVES);
+    expect(waves.readyForNextWave).toBe(false);
+  });
+
+  it('should be ready for the first wave after the initial delay', () => {
+    const waves = new WaveManager();
+    advance(waves, COOP_FIRST_WAVE_DELAY);
+    expect(waves.readyForNextWave).toBe(true);
+    expect(waves.startWave()).toBe(1);
+    expect(waves.phase).toBe(WavePhase.Combat);
+    expect(waves.readyForNextWave).toBe(false);
+  });
+
+  it('should not count down during combat', () => {
+    const waves = new WaveManager();
+    advance(waves, COOP_FIRST_WAVE_DELAY);
+    waves.startWave();
+    advance(waves, COOP_REPAIR_TIME * 2);
+    expect(waves.readyForNextWave).toBe(false);
+  });
+
+  it('should wait the repair time between waves', () => {
+    const waves = new WaveManager();
+    advance(waves, COOP_FIRST_WAVE_DELAY);
+    waves.startWave();
+    waves.startRepair();
+    expect(waves.toSnapshot(0).phaseTimeRemaining).toBe(COOP_REPAIR_TIME);
+    advance(waves, COOP_REPAIR_TIME - TICK_INTERVAL);
+    expect(waves.readyForNextWave).toBe(false);
+    advance(waves, TICK_INTERVAL);
+    expect(waves.startWave()).toBe(2);
+  });
+
+  it('should share a limited pool of lives', () => {
+    const waves = new WaveManager();
+    for (let i = 0; i < COOP_SHARED_LIVES; i++) expect(waves.consumeLife()).toBe(true);
+    expect(waves.consumeLife()).toBe(false);
+    expect(waves.lives).toBe(0);
+  });
+
+  it('should report wave state in snapshots', () => {
+    const waves = new WaveManager();
+    advance(waves, COOP_FIRST_WAVE_DELAY);
+    waves.startWave();
+    waves.consumeLife();
+    expect(waves.toSnapshot(4)).toEqual({
+      wave: 1,
+      phase: WavePhase.Combat,
+      botsRemaining: 4,
+      lives: COOP_SHARED_LIVES - 1,
+      phaseTimeRemaining: 0,
+    });
+  });
+});
+
+describe('wave escalation', () => {
+  it('should add bots each wave up to the cap', () => {
+    expect(getWaveBotCount(1)).toBe(COOP_FIRST_WAVE_BOTS);
+    for (let wave = 2; wave < 40; wave++) {
+      expect(getWaveBotCount(wave)).toBeGreaterThanOrEqual(getWaveBotCount(wave - 1));
+    }
+    expect(getWaveBotCount(1000)).toBe(COOP_MAX_BOTS);
+  });
+
+  it('should use harder AI in later waves', () => {
+    const order: readonly string[] = BOT_DIFFICULTIES;
+    expect(getWaveDifficulty(1)).toBe('easy');
+    for (let wave = 2; wave < 20; wave++) {
+      expect(order.indexOf(getWaveDifficulty(wave))).toBeGreaterThanOrEqual(order.indexOf(getWaveDifficulty(wave - 1)));
+    }
+    expect(getWaveDifficulty(20)).toBe('hard');
+  });
+});
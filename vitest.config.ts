@@ -6,6 +6,7 @@ export default defineConfig({
     alias: {
       '@tankgame/shared': path.resolve(__dirname, 'packages/shared/src'),
       '@tankgame/server': path.resolve(__dirname, 'packages/server/src'),
+      '@tankgame/client': path.resolve(__dirname, 'client/src'),
     },
   },
   test: {